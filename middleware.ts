@@ -1,9 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { verifyAdminJWT } from './src/lib/jwt';
+import { getCurrentAdmin } from './src/lib/admin-auth';
+import { refreshAdminCookie } from './src/lib/admin-sessions';
+import { recordImpersonationEvent } from './src/lib/impersonation';
+import { can } from './src/lib/permissions';
+import { findApiRouteAccess, findPageAccess, type RouteAccess } from './src/lib/route-registry';
 
-const PUBLIC_PATHS = [
-  '/signin',
-  '/api/admin/login',
+// Framework and static assets; everything else goes through the route registry.
+const STATIC_PATHS = [
   '/_next',
   '/favicon.ico',
   '/favicon.png',
@@ -11,47 +14,88 @@ const PUBLIC_PATHS = [
   '/public',
 ];
 
-function isPublicPath(pathname: string): boolean {
-  return PUBLIC_PATHS.some((p) => pathname === p || pathname.startsWith(p + '/'));
+function isStaticPath(pathname: string): boolean {
+  return STATIC_PATHS.some((p) => pathname === p || pathname.startsWith(p + '/'));
 }
 
-export function middleware(req: NextRequest) {
+function deny(req: NextRequest, pathname: string) {
+  if (pathname.startsWith('/api')) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  const signinUrl = new URL('/signin', req.url);
+  return NextResponse.redirect(signinUrl);
+}
+
+function forbid(req: NextRequest, pathname: string, message: string) {
+  if (pathname.startsWith('/api')) {
+    return NextResponse.json({ error: message }, { status: 403 });
+  }
+  return NextResponse.redirect(new URL('/', req.url));
+}
+
+function blockedWhileImpersonating(access: RouteAccess, method: string, allowMutations: boolean): boolean {
+  if (access.auth !== 'session' || access.impersonation === 'always') return false;
+  if (access.impersonation === 'never') return true;
+  return !allowMutations && method !== 'GET' && method !== 'HEAD';
+}
+
+export async function middleware(req: NextRequest) {
   const { pathname } = req.nextUrl;
-  if (isPublicPath(pathname)) {
+  if (isStaticPath(pathname)) {
     return NextResponse.next();
   }
 
-  const token = req.cookies.get('admin_token')?.value;
-  if (!token) {
-    if (pathname.startsWith('/api')) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-    const signinUrl = new URL('/signin', req.url);
-    return NextResponse.redirect(signinUrl);
-  }
+  const access = pathname.startsWith('/api')
+    ? findApiRouteAccess(pathname, req.method)
+    : findPageAccess(pathname);
 
-  try {
-    verifyAdminJWT(token);
+  // Fail closed: an API route nobody registered is not reachable.
+  if (!access) {
+    return forbid(req, pathname, 'Forbidden: Route is not registered');
+  }
+  if (access.auth === 'public') {
     return NextResponse.next();
-  } catch {
+  }
+
+  // Resolves the token, its live server-side session and the admin row.
+  const admin = await getCurrentAdmin(req);
+  if (!admin) {
+    return deny(req, pathname);
+  }
+  if (admin.impersonation) {
+    const blocked = blockedWhileImpersonating(access, req.method, admin.impersonation.allow_mutations);
     if (pathname.startsWith('/api')) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+      await recordImpersonationEvent({
+        impersonationId: admin.impersonation.id,
+        actorAdminId: admin.impersonation.actor_id,
+        targetAdminId: admin.id,
+        method: req.method,
+        path: pathname + req.nextUrl.search,
+        blocked,
+      });
+    }
+    if (blocked) {
+      return forbid(req, pathname, 'Unauthorized: Not allowed while viewing as another user');
     }
-    const signinUrl = new URL('/signin', req.url);
-    return NextResponse.redirect(signinUrl);
   }
+  // API keys only reach routes that declare the capability they were granted.
+  if (admin.api_key && !access.capability) {
+    return forbid(req, pathname, 'Unauthorized: API keys cannot access this route');
+  }
+  if (access.capability && !can(admin, access.capability)) {
+    return forbid(req, pathname, 'Unauthorized: Insufficient permissions');
+  }
+
+  const res = NextResponse.next();
+  if (!admin.api_key) {
+    refreshAdminCookie(req, res);
+  }
+  return res;
 }
 
 export const config = {
   matcher: [
-    // Protect API routes for events, tiers, images, admin users
-    '/api/events/:path*',
-    '/api/tiers/:path*',
-    '/api/images/:path*',
-    '/api/admin/users/:path*',
-    // Protect admin pages (everything except signin)
-    '/((?!_next|api/admin/login|signin|public|favicon.ico).*)',
+    // Every request except Next's build output; access rules live in src/lib/route-registry.ts
+    '/((?!_next/static|_next/image).*)',
   ],
 };
-
-
@@ -0,0 +1,406 @@
+// Admin user management without the web UI, for bootstrapping environments
+// and handling incidents.
+//
+// Usage:
+//   SUPABASE_URL=... SUPABASE_SERVICE_ROLE=... npm run admin -- <command> [options]
+//
+// Commands:
+//   list             [--role <role>] [--status <pending|active|suspended>]
+//   create           --email <email> (--password <pw> | --password-stdin | --generate-password)
+//                    [--role <role>] [--vendor-id <uuid>] [--must-change-password]
+//   disable          (--email <email> | --id <uuid>) [--reason <text>]
+//   enable           (--email <email> | --id <uuid>)
+//   reset-password   (--email <email> | --id <uuid>) (--password <pw> | --password-stdin | --generate-password)
+//                    [--must-change-password]
+//   set-role         (--email <email> | --id <uuid>) --role <role> [--vendor-id <uuid>]
+//   set-vendor       (--email <email> | --id <uuid>) --vendor-id <uuid>
+//   revoke-sessions  (--email <email> | --id <uuid>)
+//   import           <file.json|file.csv> [--dry-run]
+//
+// Environment: SUPABASE_URL and SUPABASE_SERVICE_ROLE are required. The
+// password policy reads NEXT_PUBLIC_PASSWORD_MIN_LENGTH and
+// NEXT_PUBLIC_PASSWORD_MIN_CHARACTER_CLASSES like the app does, so set them to
+// the same values as the deployment. Nothing else is read; the JWT keys are not
+// needed.
+//
+// Every command prints one JSON document on stdout. Failures print
+// {"error": "..."} on stderr and exit non-zero. Runs under
+// scripts/lib/register-ts.mjs so it validates with the app's own schemas.
+
+import { randomBytes } from 'node:crypto';
+import { readFile } from 'node:fs/promises';
+import { hostname, userInfo } from 'node:os';
+import { extname } from 'node:path';
+import bcrypt from 'bcrypt';
+import { revokeAllSessions } from '@/lib/admin-session-revocation';
+import { reinstateAdminUser, signOutSuspendedAdmin, suspendAdminUser } from '@/lib/admin-suspension';
+import { appendAuditEntry } from '@/lib/audit';
+import { checkNewPassword } from '@/lib/breached-passwords';
+import { invalidatePasswordResetTokens } from '@/lib/password-reset';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { AdminUserCreateSchema, AdminUserUpdateSchema, isVendorRole } from '@/lib/validation';
+import { isAssignableVendor } from '@/lib/vendors';
+
+const USER_COLUMNS =
+  'id, email, role, vendor_id, status, suspended_at, suspended_reason, must_change_password, totp_enabled_at, sso_linked_at, password_login_disabled, created_at';
+const CLI_ACTOR = `admin-cli ${userInfo().username}@${hostname()}`;
+
+class CliError extends Error {}
+
+function parseArgs(argv) {
+  const positional = [];
+  const options = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) {
+      positional.push(arg);
+      continue;
+    }
+    const name = arg.slice(2);
+    const next = argv[i + 1];
+    if (next === undefined || next.startsWith('--')) {
+      options[name] = true;
+    } else {
+      options[name] = next;
+      i++;
+    }
+  }
+  return { positional, options };
+}
+
+function print(result) {
+  process.stdout.write(`${JSON.stringify(result, null, 2)}\n`);
+}
+
+function issuesMessage(error) {
+  return error.issues.map((issue) => `${issue.path.join('.') || 'value'}: ${issue.message}`).join('; ');
+}
+
+async function readStdin() {
+  const chunks = [];
+  for await (const chunk of process.stdin) chunks.push(chunk);
+  return Buffer.concat(chunks).toString('utf8').replace(/\r?\n$/, '');
+}
+
+function generatePassword() {
+  // 24 url-safe characters plus a fixed symbol; retried until it passes the policy.
+  for (;;) {
+    const candidate = `${randomBytes(18).toString('base64url')}!`;
+    if (!checkNewPassword(candidate)) return candidate;
+  }
+}
+
+/**
+ * The new password from --password, --password-stdin or --generate-password
+ */
+async function resolvePassword(options) {
+  if (options['generate-password']) {
+    return { password: generatePassword(), generated: true };
+  }
+  const password = options['password-stdin'] ? await readStdin() : options.password;
+  if (typeof password !== 'string' || !password) {
+    throw new CliError('Provide --password, --password-stdin or --generate-password');
+  }
+  return { password, generated: false };
+}
+
+function assertPasswordAllowed(password) {
+  const problem = checkNewPassword(password);
+  if (problem) throw new CliError(problem);
+}
+
+async function findUser(options) {
+  if (!options.email && !options.id) {
+    throw new CliError('Identify the user with --email or --id');
+  }
+  let query = supabaseAdmin.from('admin_users').select(USER_COLUMNS);
+  query = options.id ? query.eq('id', options.id) : query.eq('email', options.email);
+  const { data, error } = await query.maybeSingle();
+  if (error) throw new CliError(error.message);
+  if (!data) throw new CliError('Admin user not found');
+  return data;
+}
+
+async function assertVendor(vendorId) {
+  if (!vendorId) return;
+  let assignable;
+  try {
+    assignable = await isAssignableVendor(vendorId);
+  } catch (error) {
+    throw new CliError(error.message);
+  }
+  if (!assignable) {
+    throw new CliError(`${vendorId} is not an active vendor`);
+  }
+}
+
+// Like recordAudit in src/lib/audit.ts, attributed to the CLI.
+async function audit(action, entityId, before = null, after = null) {
+  try {
+    await appendAuditEntry(
+      { actorEmail: CLI_ACTOR, userAgent: 'admin-cli' },
+      { action, entityType: 'admin_user', entityId, before, after }
+    );
+  } catch (error) {
+    process.stderr.write(`${JSON.stringify({ warning: `Audit entry not recorded: ${error.message}` })}\n`);
+  }
+}
+
+async function updateUser(user, updates, action) {
+  const { data, error } = await supabaseAdmin
+    .from('admin_users')
+    .update(updates)
+    .eq('id', user.id)
+    .select(USER_COLUMNS)
+    .single();
+  if (error) throw new CliError(error.message);
+  await audit(action, user.id, user, data);
+  return data;
+}
+
+/**
+ * Validate and insert one user. Shared by `create` and `import`.
+ */
+async function createUser(input, { dryRun = false } = {}) {
+  const parsed = AdminUserCreateSchema.safeParse(input);
+  if (!parsed.success) throw new CliError(issuesMessage(parsed.error));
+  assertPasswordAllowed(parsed.data.password);
+
+  const { email } = parsed.data;
+  const vendorId = isVendorRole(parsed.data.role) ? parsed.data.vendor_id ?? null : null;
+  await assertVendor(vendorId);
+
+  const { data: existing, error: lookupError } = await supabaseAdmin
+    .from('admin_users')
+    .select('id')
+    .eq('email', email)
+    .maybeSingle();
+  if (lookupError) throw new CliError(lookupError.message);
+  if (existing) throw new CliError('Email already exists');
+  if (dryRun) return null;
+
+  const { data, error } = await supabaseAdmin
+    .from('admin_users')
+    .insert({
+      email,
+      password_hash: await bcrypt.hash(parsed.data.password, 10),
+      role: parsed.data.role,
+      vendor_id: vendorId,
+      must_change_password: parsed.data.must_change_password ?? false,
+      password_changed_at: new Date().toISOString(),
+    })
+    .select(USER_COLUMNS)
+    .single();
+  if (error) throw new CliError(error.message);
+  await audit('admin_user.create', data.id, null, data);
+  return data;
+}
+
+function parseCsv(text) {
+  const rows = [];
+  let row = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const [header, ...records] = rows.filter((cells) => cells.some((cell) => cell.trim()));
+  if (!header) return [];
+  const columns = header.map((column) => column.trim());
+  return records.map((cells) =>
+    Object.fromEntries(columns.map((column, index) => [column, cells[index]?.trim() ?? '']))
+  );
+}
+
+/**
+ * Normalize an import row: blanks become absent, and booleans may be written as text.
+ */
+function normalizeImportRow(row) {
+  const value = (key) => (row[key] === '' || row[key] === null ? undefined : row[key]);
+  const mustChange = value('must_change_password');
+  return {
+    email: value('email'),
+    password: value('password'),
+    role: value('role') ?? 'admin',
+    vendor_id: value('vendor_id'),
+    must_change_password:
+      mustChange === undefined ? undefined : mustChange === true || /^(true|yes|1)$/i.test(String(mustChange)),
+  };
+}
+
+const commands = {
+  async list(options) {
+    let query = supabaseAdmin.from('admin_users').select(USER_COLUMNS).order('created_at', { ascending: true });
+    if (options.role) query = query.eq('role', options.role);
+    if (options.status) query = query.eq('status', options.status);
+    const { data, error } = await query;
+    if (error) throw new CliError(error.message);
+    return { users: data ?? [] };
+  },
+
+  async create(options) {
+    const { password, generated } = await resolvePassword(options);
+    const user = await createUser({
+      email: options.email,
+      password,
+      role: options.role ?? 'admin',
+      vendor_id: options['vendor-id'],
+      // A generated password is only ever meant to be used once.
+      must_change_password: Boolean(options['must-change-password']) || generated,
+    });
+    return { user, ...(generated ? { password } : {}) };
+  },
+
+  async disable(options) {
+    const user = await findUser(options);
+    if (user.status === 'pending') throw new CliError('Pending invitations are revoked, not disabled');
+    // Already disabled: just make sure nothing is still signed in as them.
+    if (user.status === 'suspended') {
+      return { user, revoked_sessions: await signOutSuspendedAdmin(user.id) };
+    }
+    const reason = typeof options.reason === 'string' ? options.reason.trim().slice(0, 500) : '';
+    // Same as suspending from the web UI; suspended_by stays null since no admin did it.
+    const suspended = await suspendAdminUser(user.id, reason || 'Disabled from the admin CLI', null);
+    if (!suspended) throw new CliError('Only active users can be disabled');
+    const updated = await findUser({ id: user.id });
+    await audit('admin_user.suspend', user.id, user, updated);
+    return { user: updated, revoked_sessions: suspended.revokedSessions };
+  },
+
+  async enable(options) {
+    const user = await findUser(options);
+    if (user.status !== 'suspended' || !(await reinstateAdminUser(user.id))) {
+      throw new CliError(`User is ${user.status}, not disabled`);
+    }
+    const updated = await findUser({ id: user.id });
+    await audit('admin_user.reinstate', user.id, user, updated);
+    return { user: updated };
+  },
+
+  async 'reset-password'(options) {
+    const user = await findUser(options);
+    const { password, generated } = await resolvePassword(options);
+    assertPasswordAllowed(password);
+    const updated = await updateUser(
+      user,
+      {
+        password_hash: await bcrypt.hash(password, 10),
+        password_changed_at: new Date().toISOString(),
+        must_change_password: Boolean(options['must-change-password']) || generated,
+      },
+      'admin_user.password.set'
+    );
+    await invalidatePasswordResetTokens(user.id);
+    const revokedSessions = await revokeAllSessions(user.id, 'password_changed');
+    return { user: updated, revoked_sessions: revokedSessions, ...(generated ? { password } : {}) };
+  },
+
+  async 'set-role'(options) {
+    const user = await findUser(options);
+    const parsed = AdminUserUpdateSchema.safeParse({ role: options.role, vendor_id: options['vendor-id'] });
+    if (!parsed.success || !parsed.data.role) {
+      throw new CliError(parsed.success ? 'Provide --role' : issuesMessage(parsed.error));
+    }
+    const vendorId = isVendorRole(parsed.data.role) ? parsed.data.vendor_id ?? null : null;
+    await assertVendor(vendorId);
+    const updated = await updateUser(user, { role: parsed.data.role, vendor_id: vendorId }, 'admin_user.update');
+    // Same as the web UI: a new role invalidates tokens issued under the old one.
+    const revokedSessions = updated.role !== user.role ? await revokeAllSessions(user.id, 'role_changed') : 0;
+    return { user: updated, revoked_sessions: revokedSessions };
+  },
+
+  async 'set-vendor'(options) {
+    const user = await findUser(options);
+    const parsed = AdminUserUpdateSchema.safeParse({ role: user.role, vendor_id: options['vendor-id'] });
+    if (!parsed.success) throw new CliError(issuesMessage(parsed.error));
+    if (!isVendorRole(user.role)) throw new CliError('Only vendor roles belong to a vendor');
+    await assertVendor(parsed.data.vendor_id);
+    return { user: await updateUser(user, { vendor_id: parsed.data.vendor_id }, 'admin_user.update') };
+  },
+
+  async 'revoke-sessions'(options) {
+    const user = await findUser(options);
+    const revokedSessions = await revokeAllSessions(user.id, 'revoked_by_admin');
+    await audit('admin_user.sessions.revoke_all', user.id);
+    return { user, revoked_sessions: revokedSessions };
+  },
+
+  async import(options, [file]) {
+    if (!file) throw new CliError('Provide the file to import');
+    const text = await readFile(file, 'utf8');
+    const rows = extname(file).toLowerCase() === '.csv' ? parseCsv(text) : JSON.parse(text);
+    if (!Array.isArray(rows)) throw new CliError('Expected a JSON array of users');
+
+    const dryRun = Boolean(options['dry-run']);
+    const results = [];
+    // One row at a time, so a bad row is reported without stopping the rest.
+    for (const [index, raw] of rows.entries()) {
+      const row = normalizeImportRow(raw);
+      const generated = !row.password;
+      const password = row.password ?? generatePassword();
+      try {
+        const user = await createUser(
+          { ...row, password, must_change_password: row.must_change_password ?? generated },
+          { dryRun }
+        );
+        results.push({
+          row: index + 1,
+          email: row.email ?? null,
+          status: dryRun ? 'valid' : 'created',
+          ...(user ? { id: user.id } : {}),
+          ...(generated && !dryRun ? { password } : {}),
+        });
+      } catch (error) {
+        if (!(error instanceof CliError)) throw error;
+        results.push({ row: index + 1, email: row.email ?? null, status: 'failed', error: error.message });
+      }
+    }
+
+    const failed = results.filter((result) => result.status === 'failed').length;
+    if (failed > 0) process.exitCode = 1;
+    return { dry_run: dryRun, total: results.length, failed, results };
+  },
+};
+
+async function main() {
+  const { positional, options } = parseArgs(process.argv.slice(2));
+  const [name, ...rest] = positional;
+  const command = commands[name];
+  if (!command) {
+    throw new CliError(`Unknown command "${name ?? ''}". Expected one of: ${Object.keys(commands).join(', ')}`);
+  }
+  print(await command(options, rest));
+}
+
+main().catch((error) => {
+  process.stderr.write(`${JSON.stringify({ error: error instanceof Error ? error.message : String(error) })}\n`);
+  process.exit(1);
+});
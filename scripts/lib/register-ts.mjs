@@ -0,0 +1,4 @@
+// Preload with `node --import ./scripts/lib/register-ts.mjs` so scripts can import from src/.
+import { register } from 'node:module';
+
+register('./ts-hooks.mjs', import.meta.url);
@@ -0,0 +1,55 @@
+// Module hooks that let the CLI scripts import the app's TypeScript modules
+// (validation schemas, password policy) instead of keeping copies in sync.
+// Registered by register-ts.mjs; see https://nodejs.org/api/module.html#customization-hooks
+// typescript is a runtime dependency for this reason: the CLI must work on
+// production installs without devDependencies.
+
+import { existsSync, statSync } from 'node:fs';
+import { readFile } from 'node:fs/promises';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import ts from 'typescript';
+
+const SRC_DIR = fileURLToPath(new URL('../../src/', import.meta.url));
+const EXTENSIONS = ['.ts', '.tsx', '/index.ts', '/index.tsx'];
+const TS_FILE = /\.tsx?$/;
+
+// Mirrors the bundler resolution in tsconfig.json: `@/` aliases and extensionless paths.
+function resolveFile(path) {
+  if (existsSync(path) && statSync(path).isFile()) return path;
+  return EXTENSIONS.map((extension) => path + extension).find((candidate) => existsSync(candidate)) ?? null;
+}
+
+export async function resolve(specifier, context, nextResolve) {
+  let path = null;
+  if (specifier.startsWith('@/')) {
+    path = resolveFile(SRC_DIR + specifier.slice(2));
+  } else if ((specifier.startsWith('./') || specifier.startsWith('../')) && TS_FILE.test(context.parentURL ?? '')) {
+    path = resolveFile(fileURLToPath(new URL(specifier, context.parentURL)));
+  }
+  if (path) {
+    return { url: pathToFileURL(path).href, shortCircuit: true };
+  }
+  return nextResolve(specifier, context);
+}
+
+export async function load(url, context, nextLoad) {
+  if (TS_FILE.test(url)) {
+    const source = await readFile(fileURLToPath(url), 'utf8');
+    const { outputText } = ts.transpileModule(source, {
+      fileName: fileURLToPath(url),
+      compilerOptions: {
+        module: ts.ModuleKind.ESNext,
+        target: ts.ScriptTarget.ES2022,
+        jsx: ts.JsxEmit.ReactJSX,
+        esModuleInterop: true,
+      },
+    });
+    return { format: 'module', source: outputText, shortCircuit: true };
+  }
+  // The app imports JSON without import attributes, as the bundler allows.
+  if (url.endsWith('.json') && !context.importAttributes?.type) {
+    const source = await readFile(fileURLToPath(url), 'utf8');
+    return { format: 'module', source: `export default ${source};`, shortCircuit: true };
+  }
+  return nextLoad(url, context);
+}
@@ -0,0 +1,198 @@
+// A throwaway OpenID Connect provider for developing and testing SSO locally.
+// Shows a form to pick whichever identity to sign in as; nothing is persisted.
+//
+// Usage:
+//   npm run mock-oidc
+//   OIDC_ISSUER=http://localhost:9400 OIDC_CLIENT_ID=hypehaus-admin npm run dev
+//
+// Options (environment):
+//   MOCK_OIDC_PORT           default 9400
+//   MOCK_OIDC_CLIENT_SECRET  when set, the token endpoint requires it (otherwise any client is public)
+//   MOCK_OIDC_EMAIL          pre-filled email on the sign-in form
+
+import { createHash, generateKeyPairSync, randomBytes } from 'node:crypto';
+import { createServer } from 'node:http';
+import jwt from 'jsonwebtoken';
+
+const PORT = Number(process.env.MOCK_OIDC_PORT || 9400);
+const ISSUER = `http://localhost:${PORT}`;
+const CLIENT_SECRET = process.env.MOCK_OIDC_CLIENT_SECRET || null;
+const KID = 'mock-oidc-1';
+
+const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+const codes = new Map();
+const accessTokens = new Map();
+
+const randomToken = () => randomBytes(24).toString('base64url');
+// Stable per email, like a real provider's user id.
+const subjectFor = (email) => createHash('sha256').update(email.toLowerCase()).digest('hex').slice(0, 24);
+
+function escapeHtml(value) {
+  return String(value ?? '').replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+function sendJson(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' });
+  res.end(JSON.stringify(body));
+}
+
+function redirect(res, url) {
+  res.writeHead(302, { Location: url.toString() });
+  res.end();
+}
+
+async function readForm(req) {
+  const chunks = [];
+  for await (const chunk of req) chunks.push(chunk);
+  return new URLSearchParams(Buffer.concat(chunks).toString('utf8'));
+}
+
+function signInPage(params) {
+  const hidden = ['client_id', 'redirect_uri', 'state', 'nonce', 'code_challenge']
+    .map((name) => `<input type="hidden" name="${name}" value="${escapeHtml(params.get(name))}">`)
+    .join('');
+  return `<!doctype html>
+<html><head><title>Mock OIDC sign-in</title>
+<style>body{font-family:system-ui;max-width:360px;margin:60px auto}label{display:block;margin:12px 0 4px}input[type=text],input[type=email]{width:100%;padding:6px}button{margin-top:16px;padding:6px 14px}</style>
+</head><body>
+<h2>Mock identity provider</h2>
+<p>Signing in to <code>${escapeHtml(params.get('client_id'))}</code></p>
+<form method="post" action="/authorize">${hidden}
+<label>Email</label><input type="email" name="email" required value="${escapeHtml(process.env.MOCK_OIDC_EMAIL)}">
+<label>Name</label><input type="text" name="name">
+<label>Subject <small>(blank: derived from email)</small></label><input type="text" name="sub">
+<label><input type="checkbox" name="email_verified" checked> Email verified</label>
+<button type="submit" name="action" value="approve">Sign in</button>
+<button type="submit" name="action" value="deny" formnovalidate>Cancel</button>
+</form></body></html>`;
+}
+
+function authorizeGet(res, url) {
+  const params = url.searchParams;
+  if (!params.get('client_id') || !params.get('redirect_uri')) {
+    return sendJson(res, 400, { error: 'invalid_request', error_description: 'client_id and redirect_uri are required' });
+  }
+  const redirectUri = new URL(params.get('redirect_uri'));
+  const fail = (error, description) => {
+    redirectUri.searchParams.set('error', error);
+    redirectUri.searchParams.set('error_description', description);
+    if (params.get('state')) redirectUri.searchParams.set('state', params.get('state'));
+    redirect(res, redirectUri);
+  };
+  if (params.get('response_type') !== 'code') return fail('unsupported_response_type', 'Only the code flow is supported');
+  if (!params.get('scope')?.split(' ').includes('openid')) return fail('invalid_scope', 'The openid scope is required');
+  if (!params.get('code_challenge') || params.get('code_challenge_method') !== 'S256') {
+    return fail('invalid_request', 'PKCE with S256 is required');
+  }
+  res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+  res.end(signInPage(params));
+}
+
+async function authorizePost(req, res) {
+  const form = await readForm(req);
+  const redirectUri = new URL(form.get('redirect_uri'));
+  if (form.get('state')) redirectUri.searchParams.set('state', form.get('state'));
+  if (form.get('action') === 'deny') {
+    redirectUri.searchParams.set('error', 'access_denied');
+    redirectUri.searchParams.set('error_description', 'The user cancelled sign-in');
+    return redirect(res, redirectUri);
+  }
+
+  const email = form.get('email').trim();
+  const code = randomToken();
+  codes.set(code, {
+    clientId: form.get('client_id'),
+    redirectUri: form.get('redirect_uri'),
+    codeChallenge: form.get('code_challenge'),
+    nonce: form.get('nonce') || undefined,
+    claims: {
+      sub: form.get('sub')?.trim() || subjectFor(email),
+      email,
+      email_verified: form.get('email_verified') === 'on',
+      ...(form.get('name')?.trim() ? { name: form.get('name').trim() } : {}),
+    },
+    expiresAt: Date.now() + 60_000,
+  });
+  redirectUri.searchParams.set('code', code);
+  redirect(res, redirectUri);
+}
+
+async function token(req, res) {
+  const form = await readForm(req);
+  let clientId = form.get('client_id');
+  let clientSecret = form.get('client_secret');
+  const basic = req.headers.authorization?.match(/^Basic (.+)$/i);
+  if (basic) {
+    const [id, secret] = Buffer.from(basic[1], 'base64').toString('utf8').split(':').map(decodeURIComponent);
+    clientId = id;
+    clientSecret = secret;
+  }
+  if (CLIENT_SECRET && clientSecret !== CLIENT_SECRET) {
+    return sendJson(res, 401, { error: 'invalid_client' });
+  }
+  if (form.get('grant_type') !== 'authorization_code') {
+    return sendJson(res, 400, { error: 'unsupported_grant_type' });
+  }
+
+  const grant = codes.get(form.get('code'));
+  codes.delete(form.get('code'));
+  if (!grant || grant.expiresAt < Date.now() || grant.clientId !== clientId || grant.redirectUri !== form.get('redirect_uri')) {
+    return sendJson(res, 400, { error: 'invalid_grant' });
+  }
+  const challenge = createHash('sha256').update(form.get('code_verifier') ?? '').digest('base64url');
+  if (challenge !== grant.codeChallenge) {
+    return sendJson(res, 400, { error: 'invalid_grant', error_description: 'PKCE verification failed' });
+  }
+
+  const accessToken = randomToken();
+  accessTokens.set(accessToken, grant.claims);
+  const idToken = jwt.sign({ ...grant.claims, nonce: grant.nonce }, privateKey, {
+    algorithm: 'RS256',
+    keyid: KID,
+    issuer: ISSUER,
+    audience: clientId,
+    expiresIn: '5m',
+  });
+  sendJson(res, 200, { token_type: 'Bearer', access_token: accessToken, id_token: idToken, expires_in: 300 });
+}
+
+function userinfo(req, res) {
+  const claims = accessTokens.get(req.headers.authorization?.replace(/^Bearer /i, ''));
+  if (!claims) return sendJson(res, 401, { error: 'invalid_token' });
+  sendJson(res, 200, claims);
+}
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url, ISSUER);
+  try {
+    if (req.method === 'GET' && url.pathname === '/.well-known/openid-configuration') {
+      return sendJson(res, 200, {
+        issuer: ISSUER,
+        authorization_endpoint: `${ISSUER}/authorize`,
+        token_endpoint: `${ISSUER}/token`,
+        userinfo_endpoint: `${ISSUER}/userinfo`,
+        jwks_uri: `${ISSUER}/jwks`,
+        response_types_supported: ['code'],
+        subject_types_supported: ['public'],
+        id_token_signing_alg_values_supported: ['RS256'],
+        code_challenge_methods_supported: ['S256'],
+        token_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post', 'none'],
+        scopes_supported: ['openid', 'email', 'profile'],
+      });
+    }
+    if (req.method === 'GET' && url.pathname === '/jwks') {
+      return sendJson(res, 200, { keys: [{ ...publicKey.export({ format: 'jwk' }), kid: KID, use: 'sig', alg: 'RS256' }] });
+    }
+    if (req.method === 'GET' && url.pathname === '/authorize') return authorizeGet(res, url);
+    if (req.method === 'POST' && url.pathname === '/authorize') return await authorizePost(req, res);
+    if (req.method === 'POST' && url.pathname === '/token') return await token(req, res);
+    if (url.pathname === '/userinfo') return userinfo(req, res);
+    sendJson(res, 404, { error: 'not_found' });
+  } catch (error) {
+    sendJson(res, 400, { error: 'invalid_request', error_description: error instanceof Error ? error.message : String(error) });
+  }
+});
+
+server.listen(PORT, () => {
+  process.stdout.write(`Mock OIDC provider listening on ${ISSUER}\n`);
+});
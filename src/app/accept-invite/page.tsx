@@ -0,0 +1,147 @@
+"use client";
+
+import Link from 'next/link';
+import { use, useEffect, useState, type FormEvent } from 'react';
+import { describePasswordPolicy, passwordPolicyIssues } from '@/lib/password-policy';
+
+export default function AcceptInvitePage({ searchParams }: { searchParams: Promise<{ token?: string }> }) {
+  const { token } = use(searchParams);
+  const [invite, setInvite] = useState<{ email: string } | null>(null);
+  const [checking, setChecking] = useState(!!token);
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [done, setDone] = useState(false);
+
+  useEffect(() => {
+    if (!token) return;
+    fetch(`/api/admin/invitations/accept?token=${encodeURIComponent(token)}`, { cache: 'no-store' })
+      .then(async (res) => {
+        const data = await res.json().catch(() => ({}));
+        if (!res.ok) {
+          setError(data?.error ?? 'This invite link is invalid or has expired');
+          return;
+        }
+        setInvite({ email: data.email });
+      })
+      .catch(() => setError('Could not check this invite link'))
+      .finally(() => setChecking(false));
+  }, [token]);
+
+  const onSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    const issues = passwordPolicyIssues(password);
+    if (issues.length > 0) {
+      setError(issues[0]);
+      return;
+    }
+    if (password !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+    setSubmitting(true);
+    try {
+      const res = await fetch('/api/admin/invitations/accept', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token, password }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setError(data?.error ?? 'Could not accept invitation');
+        return;
+      }
+      setDone(true);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-[80vh] flex items-center justify-center px-4">
+      <div className="w-full max-w-sm">
+        <div className="text-center mb-8">
+          <div className="w-14 h-14 rounded-2xl bg-gradient-to-br from-[var(--hh-primary)] to-[var(--hh-primary-dark)] flex items-center justify-center text-white font-bold text-2xl mx-auto mb-4 shadow-lg shadow-[var(--hh-primary)]/20">
+            H
+          </div>
+          <h1 className="text-2xl font-bold text-[var(--hh-text)] tracking-tight">Activate Your Account</h1>
+          <p className="text-[var(--hh-text-secondary)] mt-2 text-sm">
+            {invite ? `Choose a password for ${invite.email}` : 'Choose a password to finish joining HypeHaus Admin'}
+          </p>
+        </div>
+
+        <div className="hh-card p-6 md:p-8 shadow-xl shadow-black/20 backdrop-blur-sm bg-[var(--hh-bg-card)]/95">
+          {error && (
+            <div className="mb-6 p-3 rounded-lg bg-red-500/10 border border-red-500/20 text-red-400 text-sm flex items-center gap-2">
+              <svg className="w-4 h-4 shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+              </svg>
+              {error}
+            </div>
+          )}
+
+          {!token ? (
+            <div className="space-y-5">
+              <p className="text-sm text-[var(--hh-text-secondary)]">This invite link is incomplete. Ask an administrator to resend it.</p>
+              <Link href="/signin" className="w-full hh-btn-primary flex justify-center">
+                Back to sign in
+              </Link>
+            </div>
+          ) : checking ? (
+            <div className="py-4 text-center text-sm text-[var(--hh-text-secondary)]">Checking invite...</div>
+          ) : !invite ? (
+            <div className="space-y-5">
+              <p className="text-sm text-[var(--hh-text-secondary)]">Ask an administrator to resend your invite.</p>
+              <Link href="/signin" className="w-full hh-btn-primary flex justify-center">
+                Back to sign in
+              </Link>
+            </div>
+          ) : done ? (
+            <div className="space-y-5">
+              <p className="text-sm text-[var(--hh-text-secondary)]">Your account is active. Sign in with your new password.</p>
+              <Link href="/signin" className="w-full hh-btn-primary flex justify-center">
+                Sign In
+              </Link>
+            </div>
+          ) : (
+            <form onSubmit={onSubmit} className="space-y-5">
+              <div>
+                <label className="block text-sm font-medium text-[var(--hh-text-secondary)] mb-1.5">Password</label>
+                <input
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  className="hh-input w-full"
+                  placeholder="••••••••"
+                  autoComplete="new-password"
+                  autoFocus
+                />
+                <p className="mt-1.5 text-xs text-[var(--hh-text-tertiary)]">{describePasswordPolicy()}</p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-[var(--hh-text-secondary)] mb-1.5">Confirm password</label>
+                <input
+                  type="password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  className="hh-input w-full"
+                  placeholder="••••••••"
+                  autoComplete="new-password"
+                />
+              </div>
+              <button
+                type="submit"
+                disabled={submitting || !password || !confirmPassword}
+                className="w-full hh-btn-primary disabled:opacity-70 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+              >
+                {submitting ? 'Activating...' : 'Activate Account'}
+              </button>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,208 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+
+type TotpStatus = {
+  enabled: boolean;
+  enabled_at: string | null;
+  required: boolean;
+  recovery_codes_remaining: number;
+};
+
+type Enrollment = {
+  secret: string;
+  otpauth_url: string;
+  qr_data_url: string;
+};
+
+export default function AccountSecurityPage() {
+  const [status, setStatus] = useState<TotpStatus | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+  const [code, setCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [busy, setBusy] = useState(false);
+
+  const load = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch('/api/admin/totp', { cache: 'no-store' });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setError(data?.error || 'Failed to load security settings');
+        return;
+      }
+      setStatus(data.totp);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const post = async (url: string, method: 'POST' | 'DELETE', body?: Record<string, unknown>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setError(data?.error || 'Request failed');
+        return null;
+      }
+      return data;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const startSetup = async () => {
+    const data = await post('/api/admin/totp/setup', 'POST');
+    if (data) {
+      setEnrollment(data.enrollment);
+      setCode('');
+      setRecoveryCodes([]);
+    }
+  };
+
+  const confirmSetup = async () => {
+    const data = await post('/api/admin/totp/enable', 'POST', { code: code.trim() });
+    if (data) {
+      setEnrollment(null);
+      setCode('');
+      setRecoveryCodes(data.recovery_codes ?? []);
+      await load();
+    }
+  };
+
+  const regenerateCodes = async () => {
+    const current = prompt('Enter a code from your authenticator app to generate new recovery codes');
+    if (!current) return;
+    const data = await post('/api/admin/totp/recovery-codes', 'POST', { code: current.trim() });
+    if (data) {
+      setRecoveryCodes(data.recovery_codes ?? []);
+      await load();
+    }
+  };
+
+  const disable = async () => {
+    const current = prompt('Enter a code from your authenticator app to turn off two-factor authentication');
+    if (!current) return;
+    const data = await post('/api/admin/totp', 'DELETE', { code: current.trim() });
+    if (data) {
+      setRecoveryCodes([]);
+      await load();
+    }
+  };
+
+  if (loading && !status) {
+    return (
+      <div className="min-h-[60vh] flex items-center justify-center">
+        <div className="flex flex-col items-center gap-3">
+          <div className="w-8 h-8 border-2 border-[var(--hh-primary)] border-t-transparent rounded-full animate-spin"></div>
+          <div className="text-[var(--hh-text-secondary)]">Loading security settings...</div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-2xl">
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold text-[var(--hh-text)] tracking-tight">Account Security</h1>
+        <p className="text-[var(--hh-text-secondary)] mt-1">Protect your sign-in with an authenticator app.</p>
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-500/10 border border-red-500/20 rounded-xl text-red-400 text-sm">{error}</div>
+      )}
+
+      <div className="hh-card p-6 space-y-5">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-semibold text-[var(--hh-text)]">Two-factor authentication</h2>
+            <p className="text-sm text-[var(--hh-text-secondary)] mt-1">
+              {status?.enabled
+                ? `Enabled ${status.enabled_at ? new Date(status.enabled_at).toLocaleDateString() : ''} • ${status.recovery_codes_remaining} recovery codes left`
+                : 'Not enabled'}
+            </p>
+            {status?.required && (
+              <p className="text-xs text-amber-400 mt-1">Required for your role.</p>
+            )}
+          </div>
+          <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium border ${
+            status?.enabled
+              ? 'bg-green-500/10 text-green-400 border-green-500/20'
+              : 'bg-[var(--hh-bg-elevated)] text-[var(--hh-text-tertiary)] border-[var(--hh-border)]'
+          }`}>
+            {status?.enabled ? 'On' : 'Off'}
+          </span>
+        </div>
+
+        {!status?.enabled && !enrollment && (
+          <button onClick={startSetup} disabled={busy} className="hh-btn-primary disabled:opacity-50">
+            Set up authenticator
+          </button>
+        )}
+
+        {enrollment && (
+          <div className="space-y-4 border-t border-[var(--hh-border)] pt-5">
+            <p className="text-sm text-[var(--hh-text-secondary)]">Scan this QR code with your authenticator app, then enter the 6-digit code it shows.</p>
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img src={enrollment.qr_data_url} alt="Authenticator QR code" className="rounded-lg bg-white p-2" width={220} height={220} />
+            <p className="text-xs text-[var(--hh-text-tertiary)] break-all">
+              Manual key: <span className="font-mono text-[var(--hh-text)]">{enrollment.secret}</span>
+            </p>
+            <div className="flex gap-3">
+              <input
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                className="hh-input flex-1 tracking-widest"
+                placeholder="123456"
+                autoComplete="one-time-code"
+              />
+              <button onClick={confirmSetup} disabled={busy || !code.trim()} className="hh-btn-primary disabled:opacity-50">
+                Enable
+              </button>
+              <button onClick={() => setEnrollment(null)} className="hh-btn-secondary">Cancel</button>
+            </div>
+          </div>
+        )}
+
+        {status?.enabled && (
+          <div className="flex flex-wrap gap-3">
+            <button onClick={regenerateCodes} disabled={busy} className="hh-btn-secondary text-sm disabled:opacity-50">
+              Regenerate recovery codes
+            </button>
+            {!status.required && (
+              <button onClick={disable} disabled={busy} className="hh-btn-secondary text-sm hover:text-red-400 disabled:opacity-50">
+                Turn off
+              </button>
+            )}
+          </div>
+        )}
+
+        {recoveryCodes.length > 0 && (
+          <div className="space-y-3 border-t border-[var(--hh-border)] pt-5">
+            <p className="text-sm text-[var(--hh-text-secondary)]">
+              Store these recovery codes somewhere safe. They will not be shown again, and each one works once.
+            </p>
+            <div className="grid grid-cols-2 gap-2 font-mono text-sm text-[var(--hh-text)] bg-[var(--hh-bg-elevated)] rounded-xl p-4">
+              {recoveryCodes.map((item) => (
+                <span key={item}>{item}</span>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -3,14 +3,86 @@
 import { useEffect, useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { AdminUserCreateSchema, AdminUserUpdateSchema, type AdminUserCreateInput, type AdminUserUpdateInput } from '@/lib/validation';
+import {
+  AdminInviteSchema,
+  AdminUserCreateSchema,
+  AdminUserUpdateSchema,
+  isVendorRole,
+  type AdminInviteInput,
+  type AdminUserCreateInput,
+  type AdminUserUpdateInput,
+} from '@/lib/validation';
+import { usePermissions } from '@/lib/use-permissions';
+import { describePasswordPolicy } from '@/lib/password-policy';
 
 type AdminUser = {
   id: string;
   email: string;
   role: 'admin' | 'moderator' | 'vendor' | 'vendor_moderator';
   vendor_id?: string | null;
+  status?: 'pending' | 'active' | 'suspended';
+  suspended_at?: string | null;
+  suspended_reason?: string | null;
   created_at: string;
+  totp_enabled_at?: string | null;
+  must_change_password?: boolean;
+  sso_linked_at?: string | null;
+  password_login_disabled?: boolean;
+  failed_logins_24h?: number;
+};
+
+type Invitation = {
+  id: string;
+  admin_user_id: string;
+  email: string | null;
+  role: AdminUser['role'] | null;
+  invited_by_email: string | null;
+  created_at: string;
+  expires_at: string;
+};
+
+type RolePolicy = {
+  role: AdminUser['role'];
+  require_totp: boolean;
+};
+
+const ROLE_LABELS: Record<AdminUser['role'], string> = {
+  admin: 'Administrator',
+  moderator: 'Moderator',
+  vendor: 'Vendor',
+  vendor_moderator: 'Vendor Moderator',
+};
+
+type AdminSession = {
+  id: string;
+  ip: string | null;
+  user_agent: string | null;
+  created_at: string;
+  last_seen_at: string;
+  expires_at: string;
+  current: boolean;
+};
+
+type LoginAttempt = {
+  id: string;
+  email: string;
+  ip: string | null;
+  user_agent: string | null;
+  outcome: 'success' | 'invalid_password' | 'unknown_email' | 'invalid_totp' | 'throttled' | 'locked_out' | 'password_reset' | 'inactive_account' | 'password_disabled' | 'sso_rejected';
+  created_at: string;
+};
+
+const OUTCOME_LABELS: Record<LoginAttempt['outcome'], string> = {
+  success: 'Signed in',
+  invalid_password: 'Wrong password',
+  unknown_email: 'Unknown email',
+  invalid_totp: 'Wrong 2FA code',
+  throttled: 'Throttled',
+  locked_out: 'Locked out',
+  password_reset: 'Password reset',
+  inactive_account: 'Inactive account',
+  password_disabled: 'Password on SSO-only account',
+  sso_rejected: 'SSO sign-in refused',
 };
 
 export default function AdminUsersPage() {
@@ -18,38 +90,58 @@ export default function AdminUsersPage() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [showCreateModal, setShowCreateModal] = useState(false);
+  const [showInviteModal, setShowInviteModal] = useState(false);
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
   const [editingUser, setEditingUser] = useState<AdminUser | null>(null);
   const [deleteConfirm, setDeleteConfirm] = useState<string | null>(null);
-  const [currentUser, setCurrentUser] = useState<{ role: 'admin' | 'moderator' | 'vendor' | 'vendor_moderator' } | null>(null);
-  const [vendors, setVendors] = useState<{ id: string; email: string }[]>([]);
+  const { can, loaded: permissionsLoaded } = usePermissions();
+  const [vendors, setVendors] = useState<{ id: string; name: string; status: 'active' | 'archived' }[]>([]);
+  const [sessionsUser, setSessionsUser] = useState<AdminUser | null>(null);
+  const [sessions, setSessions] = useState<AdminSession[]>([]);
+  const [sessionsLoading, setSessionsLoading] = useState(false);
+  const [rolePolicies, setRolePolicies] = useState<RolePolicy[]>([]);
+  const [attemptsUser, setAttemptsUser] = useState<AdminUser | null>(null);
+  const [attempts, setAttempts] = useState<LoginAttempt[]>([]);
+  const [attemptsLoading, setAttemptsLoading] = useState(false);
+  const [viewAsUser, setViewAsUser] = useState<AdminUser | null>(null);
+  const [viewAsMinutes, setViewAsMinutes] = useState(30);
+  const [viewAsAllowMutations, setViewAsAllowMutations] = useState(false);
+  const [viewAsReason, setViewAsReason] = useState('');
+  const [statusFilter, setStatusFilter] = useState<'all' | NonNullable<AdminUser['status']>>('all');
+  const [suspendUser, setSuspendUser] = useState<AdminUser | null>(null);
+  const [suspendReason, setSuspendReason] = useState('');
+
+  useEffect(() => {
+    // Users without admin-user rights shouldn't access this page
+    if (permissionsLoaded && !can('admin_user.manage')) {
+      window.location.href = '/events';
+    }
+  }, [permissionsLoaded, can]);
 
   useEffect(() => {
-    // Load current user role
-    fetch('/api/admin/me')
+    if (!can('vendor.view')) return;
+    fetch('/api/admin/vendors?status=all')
       .then(res => res.json())
-      .then(data => {
-        if (data.admin) {
-          setCurrentUser(data.admin);
-          // Redirect moderators - they shouldn't access this page
-          if (data.admin.role !== 'admin') {
-            window.location.href = '/events';
-          }
-        }
-      })
+      .then(data => setVendors(data.vendors ?? []))
       .catch(() => {});
-  }, []);
+  }, [can]);
 
   useEffect(() => {
-    if (currentUser?.role !== 'admin') return;
-    fetch('/api/admin/vendors')
+    if (!can('security.manage')) return;
+    fetch('/api/admin/role-policies')
       .then(res => res.json())
-      .then(data => setVendors(data.vendors ?? []))
+      .then(data => setRolePolicies(data.policies ?? []))
       .catch(() => {});
-  }, [currentUser?.role]);
+  }, [can]);
 
   const createForm = useForm<AdminUserCreateInput>({
     resolver: zodResolver(AdminUserCreateSchema),
-    defaultValues: { email: '', password: '', role: 'admin', vendor_id: undefined },
+    defaultValues: { email: '', password: '', role: 'admin', vendor_id: undefined, must_change_password: true },
+  });
+
+  const inviteForm = useForm<AdminInviteInput>({
+    resolver: zodResolver(AdminInviteSchema),
+    defaultValues: { email: '', role: 'vendor', vendor_id: undefined },
   });
 
   const updateForm = useForm<AdminUserUpdateInput>({
@@ -58,19 +150,34 @@ export default function AdminUsersPage() {
   });
   const createRole = createForm.watch('role');
   const updateRole = updateForm.watch('role');
+  const inviteRole = inviteForm.watch('role');
 
   useEffect(() => {
-    if (createRole !== 'vendor_moderator') {
+    if (!isVendorRole(createRole)) {
       createForm.setValue('vendor_id', undefined);
     }
   }, [createRole, createForm]);
 
   useEffect(() => {
-    if (updateRole !== 'vendor_moderator') {
+    if (!isVendorRole(inviteRole)) {
+      inviteForm.setValue('vendor_id', undefined);
+    }
+  }, [inviteRole, inviteForm]);
+
+  useEffect(() => {
+    if (!isVendorRole(updateRole)) {
       updateForm.setValue('vendor_id', undefined);
     }
   }, [updateRole, updateForm]);
 
+  const loadInvitations = async () => {
+    const res = await fetch('/api/admin/invitations', { cache: 'no-store' });
+    const data = await res.json().catch(() => ({}));
+    if (res.ok) {
+      setInvitations(data.invitations ?? []);
+    }
+  };
+
   const load = async () => {
     setLoading(true);
     setError(null);
@@ -84,8 +191,9 @@ export default function AdminUsersPage() {
       }
       const data = await res.json();
       setUsers(data.users ?? []);
-    } catch (e: any) {
-      setError(e?.message || 'Failed to load admin users');
+      await loadInvitations();
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : 'Failed to load admin users');
     } finally {
       setLoading(false);
     }
@@ -93,8 +201,46 @@ export default function AdminUsersPage() {
 
   useEffect(() => {
     load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  const onInvite = async (values: AdminInviteInput) => {
+    const res = await fetch('/api/admin/invitations', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(values),
+    });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      alert(data?.error || 'Failed to send invitation');
+      return;
+    }
+    inviteForm.reset();
+    setShowInviteModal(false);
+    await load();
+  };
+
+  const resendInvitation = async (invitation: Invitation) => {
+    const res = await fetch(`/api/admin/invitations/${invitation.id}/resend`, { method: 'POST' });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      alert(data?.error || 'Failed to resend invitation');
+      return;
+    }
+    await loadInvitations();
+  };
+
+  const revokeInvitation = async (invitation: Invitation) => {
+    if (!confirm(`Revoke the invitation for ${invitation.email}? The pending account will be removed.`)) return;
+    const res = await fetch(`/api/admin/invitations/${invitation.id}`, { method: 'DELETE' });
+    if (!res.ok) {
+      const data = await res.json().catch(() => ({}));
+      alert(data?.error || 'Failed to revoke invitation');
+      return;
+    }
+    await load();
+  };
+
   const onCreate = async (values: AdminUserCreateInput) => {
     try {
       const res = await fetch('/api/admin/users', {
@@ -141,6 +287,17 @@ export default function AdminUsersPage() {
       const res = await fetch(`/api/admin/users/${id}`, { method: 'DELETE' });
       if (!res.ok) {
         const data = await res.json().catch(() => ({}));
+        // 409: the account still owns records; offer suspension rather than leave a dead end.
+        if (res.status === 409) {
+          const user = users.find((u) => u.id === id);
+          setDeleteConfirm(null);
+          if (user && user.status === 'active' && confirm(`${data.error}\n\nSuspend ${user.email} now?`)) {
+            openSuspend(user);
+          } else if (!user || user.status !== 'active') {
+            alert(data.error);
+          }
+          return;
+        }
         alert(data?.error || 'Failed to delete admin user');
         return;
       }
@@ -151,12 +308,177 @@ export default function AdminUsersPage() {
     }
   };
 
+  const loadSessions = async (user: AdminUser) => {
+    setSessionsLoading(true);
+    try {
+      const res = await fetch(`/api/admin/users/${user.id}/sessions`, { cache: 'no-store' });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        alert(data?.error || 'Failed to load sessions');
+        return;
+      }
+      setSessions(data.sessions ?? []);
+    } finally {
+      setSessionsLoading(false);
+    }
+  };
+
+  const openSessions = (user: AdminUser) => {
+    setSessionsUser(user);
+    setSessions([]);
+    loadSessions(user);
+  };
+
+  const revokeUserSession = async (sessionId: string) => {
+    if (!sessionsUser) return;
+    const res = await fetch(`/api/admin/users/${sessionsUser.id}/sessions/${sessionId}`, { method: 'DELETE' });
+    if (!res.ok) {
+      const data = await res.json().catch(() => ({}));
+      alert(data?.error || 'Failed to revoke session');
+      return;
+    }
+    await loadSessions(sessionsUser);
+  };
+
+  const revokeAllUserSessions = async () => {
+    if (!sessionsUser) return;
+    if (!confirm(`Sign ${sessionsUser.email} out of every session?`)) return;
+    const res = await fetch(`/api/admin/users/${sessionsUser.id}/sessions`, { method: 'DELETE' });
+    if (!res.ok) {
+      const data = await res.json().catch(() => ({}));
+      alert(data?.error || 'Failed to revoke sessions');
+      return;
+    }
+    await loadSessions(sessionsUser);
+  };
+
+  const openAttempts = async (user: AdminUser) => {
+    setAttemptsUser(user);
+    setAttempts([]);
+    setAttemptsLoading(true);
+    try {
+      const res = await fetch(`/api/admin/users/${user.id}/login-attempts`, { cache: 'no-store' });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        alert(data?.error || 'Failed to load sign-in activity');
+        return;
+      }
+      setAttempts(data.attempts ?? []);
+    } finally {
+      setAttemptsLoading(false);
+    }
+  };
+
+  const toggleRoleTotp = async (policy: RolePolicy) => {
+    const res = await fetch('/api/admin/role-policies', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ role: policy.role, require_totp: !policy.require_totp }),
+    });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      alert(data?.error || 'Failed to update policy');
+      return;
+    }
+    setRolePolicies((prev) => prev.map((item) => (item.role === policy.role ? data.policy : item)));
+  };
+
+  const resetTotp = async (user: AdminUser) => {
+    if (!confirm(`Reset two-factor authentication for ${user.email}? They will need to enroll again.`)) return;
+    const res = await fetch(`/api/admin/users/${user.id}/totp`, { method: 'DELETE' });
+    if (!res.ok) {
+      const data = await res.json().catch(() => ({}));
+      alert(data?.error || 'Failed to reset two-factor authentication');
+      return;
+    }
+    await load();
+  };
+
+  const openSuspend = (user: AdminUser) => {
+    setSuspendUser(user);
+    setSuspendReason('');
+  };
+
+  const submitSuspend = async () => {
+    if (!suspendUser) return;
+    const res = await fetch(`/api/admin/users/${suspendUser.id}/suspension`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ reason: suspendReason.trim() }),
+    });
+    if (!res.ok) {
+      const data = await res.json().catch(() => ({}));
+      alert(data?.error || 'Failed to suspend admin user');
+      return;
+    }
+    setSuspendUser(null);
+    await load();
+  };
+
+  const reinstate = async (user: AdminUser) => {
+    if (!confirm(`Reactivate ${user.email}? They will be able to sign in again.`)) return;
+    const res = await fetch(`/api/admin/users/${user.id}/suspension`, { method: 'DELETE' });
+    if (!res.ok) {
+      const data = await res.json().catch(() => ({}));
+      alert(data?.error || 'Failed to reactivate admin user');
+      return;
+    }
+    await load();
+  };
+
+  const unlinkSso = async (user: AdminUser) => {
+    if (!confirm(`Unlink SSO for ${user.email}? Password sign-in will be turned back on.`)) return;
+    const res = await fetch(`/api/admin/users/${user.id}/sso`, { method: 'DELETE' });
+    if (!res.ok) {
+      const data = await res.json().catch(() => ({}));
+      alert(data?.error || 'Failed to unlink SSO');
+      return;
+    }
+    setEditingUser(null);
+    await load();
+  };
+
+  const openViewAs = (user: AdminUser) => {
+    setViewAsUser(user);
+    setViewAsMinutes(30);
+    setViewAsAllowMutations(false);
+    setViewAsReason('');
+  };
+
+  const startViewAs = async () => {
+    if (!viewAsUser) return;
+    const res = await fetch('/api/admin/impersonation', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        admin_user_id: viewAsUser.id,
+        duration_minutes: viewAsMinutes,
+        allow_mutations: viewAsAllowMutations,
+        reason: viewAsReason.trim() || null,
+      }),
+    });
+    if (!res.ok) {
+      const data = await res.json().catch(() => ({}));
+      alert(data?.error || 'Failed to start viewing as this user');
+      return;
+    }
+    window.location.href = '/';
+  };
+
   const startEdit = (user: AdminUser) => {
     setEditingUser(user);
-    updateForm.reset({ email: user.email, role: user.role, vendor_id: user.vendor_id ?? undefined });
+    updateForm.reset({
+      email: user.email,
+      role: user.role,
+      vendor_id: user.vendor_id ?? undefined,
+      must_change_password: user.must_change_password ?? false,
+      password_login_disabled: user.password_login_disabled ?? false,
+    });
   };
 
-  if (loading || !currentUser) {
+  const visibleUsers = statusFilter === 'all' ? users : users.filter((user) => (user.status ?? 'active') === statusFilter);
+
+  if (loading || !permissionsLoaded) {
     return (
       <div className="min-h-[60vh] flex items-center justify-center">
         <div className="flex flex-col items-center gap-3">
@@ -168,7 +490,7 @@ export default function AdminUsersPage() {
   }
 
   // Only admins can access this page
-  if (currentUser.role !== 'admin') {
+  if (!can('admin_user.manage')) {
     return (
       <div className="min-h-[60vh] flex items-center justify-center">
         <div className="bg-red-500/10 border border-red-500/20 rounded-xl p-6 text-center max-w-md">
@@ -186,13 +508,21 @@ export default function AdminUsersPage() {
           <h1 className="text-2xl font-bold text-[var(--hh-text)] tracking-tight">Admin Users</h1>
           <p className="text-[var(--hh-text-secondary)] mt-1">Manage access and permissions for the admin panel.</p>
         </div>
-        <button onClick={() => setShowCreateModal(true)} className="hh-btn-primary flex items-center gap-2">
-          <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
-          </svg>
-          Add User
+        <div className="flex items-center gap-3">
+          <button onClick={() => setShowCreateModal(true)} className="hh-btn-secondary flex items-center gap-2">
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+            </svg>
+            Add User
+          </button>
+          <button onClick={() => setShowInviteModal(true)} className="hh-btn-primary flex items-center gap-2">
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 8l7.89 5.26a2 2 0 002.22 0L21 8M5 19h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" />
+            </svg>
+            Invite User
           </button>
         </div>
+        </div>
 
         {error && (
         <div className="mb-6 p-4 bg-red-500/10 border border-red-500/20 rounded-xl text-red-400 flex items-center gap-3">
@@ -203,6 +533,70 @@ export default function AdminUsersPage() {
           </div>
         )}
 
+      {rolePolicies.length > 0 && (
+        <div className="hh-card p-5 mb-6">
+          <h2 className="text-sm font-semibold text-[var(--hh-text)] mb-1">Require two-factor authentication</h2>
+          <p className="text-xs text-[var(--hh-text-tertiary)] mb-4">Users in a required role must enroll an authenticator app at their next sign-in.</p>
+          <div className="flex flex-wrap gap-3">
+            {rolePolicies.map((policy) => (
+              <label key={policy.role} className="flex items-center gap-2 text-sm text-[var(--hh-text-secondary)] px-3 py-2 rounded-xl border border-[var(--hh-border)] cursor-pointer">
+                <input type="checkbox" checked={policy.require_totp} onChange={() => toggleRoleTotp(policy)} />
+                {ROLE_LABELS[policy.role]}
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {invitations.length > 0 && (
+        <div className="hh-card p-5 mb-6">
+          <h2 className="text-sm font-semibold text-[var(--hh-text)] mb-1">Pending invitations</h2>
+          <p className="text-xs text-[var(--hh-text-tertiary)] mb-4">Invitees choose their own password from the emailed link.</p>
+          <div className="space-y-2">
+            {invitations.map((invitation) => {
+              const expired = Date.parse(invitation.expires_at) <= Date.now();
+              return (
+                <div key={invitation.id} className="flex items-center justify-between gap-4 p-3 rounded-xl border border-[var(--hh-border)]">
+                  <div className="min-w-0 text-sm">
+                    <div className="text-[var(--hh-text)] truncate">
+                      {invitation.email}
+                      {invitation.role && <span className="text-[var(--hh-text-tertiary)]"> • {ROLE_LABELS[invitation.role]}</span>}
+                    </div>
+                    <div className={`text-xs ${expired ? 'text-amber-400' : 'text-[var(--hh-text-tertiary)]'}`}>
+                      {expired ? 'Expired' : 'Expires'} {new Date(invitation.expires_at).toLocaleString()}
+                      {invitation.invited_by_email && ` • Invited by ${invitation.invited_by_email}`}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <button onClick={() => resendInvitation(invitation)} className="hh-btn-secondary text-xs">
+                      Resend
+                    </button>
+                    <button onClick={() => revokeInvitation(invitation)} className="hh-btn-secondary text-xs hover:text-red-400">
+                      Revoke
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      <div className="flex items-center justify-end gap-2 mb-3">
+        <label className="text-sm text-[var(--hh-text-secondary)]" htmlFor="status-filter">Status</label>
+        <select
+          id="status-filter"
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value as typeof statusFilter)}
+          className="hh-input w-40"
+        >
+          <option value="all">All</option>
+          <option value="active">Active</option>
+          <option value="pending">Pending</option>
+          <option value="suspended">Suspended</option>
+        </select>
+      </div>
+
       <div className="hh-card overflow-hidden shadow-sm">
           <div className="overflow-x-auto">
             <table className="w-full">
@@ -216,7 +610,7 @@ export default function AdminUsersPage() {
                 </tr>
               </thead>
             <tbody className="divide-y divide-[var(--hh-border)]">
-                {users.length === 0 ? (
+                {visibleUsers.length === 0 ? (
                   <tr>
                   <td colSpan={5} className="px-6 py-12 text-center text-[var(--hh-text-secondary)]">
                     <div className="flex flex-col items-center gap-2">
@@ -228,7 +622,7 @@ export default function AdminUsersPage() {
                     </td>
                   </tr>
                 ) : (
-                  users.map((user) => (
+                  visibleUsers.map((user) => (
                   <tr key={user.id} className="hover:bg-[var(--hh-bg-elevated)]/30 transition-colors">
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div className="flex items-center gap-3">
@@ -236,6 +630,46 @@ export default function AdminUsersPage() {
                           {user.email.charAt(0).toUpperCase()}
                         </div>
                         <span className="text-[var(--hh-text)] font-medium">{user.email}</span>
+                        {user.status === 'pending' && (
+                          <span className="inline-flex items-center px-2 py-0.5 rounded-full text-[10px] font-medium border bg-amber-500/10 text-amber-400 border-amber-500/20" title="Invitation not yet accepted">
+                            Pending
+                          </span>
+                        )}
+                        {user.status === 'suspended' && (
+                          <span
+                            className="inline-flex items-center px-2 py-0.5 rounded-full text-[10px] font-medium border bg-red-500/10 text-red-400 border-red-500/20"
+                            title={[
+                              'Cannot sign in',
+                              user.suspended_at && `since ${new Date(user.suspended_at).toLocaleString()}`,
+                              user.suspended_reason,
+                            ].filter(Boolean).join(' — ')}
+                          >
+                            Suspended
+                          </span>
+                        )}
+                        {user.must_change_password && (
+                          <span className="inline-flex items-center px-2 py-0.5 rounded-full text-[10px] font-medium border bg-amber-500/10 text-amber-400 border-amber-500/20" title="Must choose a new password at next sign-in">
+                            Password change
+                          </span>
+                        )}
+                        {user.sso_linked_at && (
+                          <span
+                            className="inline-flex items-center px-2 py-0.5 rounded-full text-[10px] font-medium border bg-blue-500/10 text-blue-400 border-blue-500/20"
+                            title={user.password_login_disabled ? 'Signs in with SSO only' : 'SSO linked; password sign-in still allowed'}
+                          >
+                            {user.password_login_disabled ? 'SSO only' : 'SSO'}
+                          </span>
+                        )}
+                        {user.totp_enabled_at && (
+                          <span className="inline-flex items-center px-2 py-0.5 rounded-full text-[10px] font-medium border bg-green-500/10 text-green-400 border-green-500/20" title="Two-factor authentication enabled">
+                            2FA
+                          </span>
+                        )}
+                        {!!user.failed_logins_24h && (
+                          <span className="inline-flex items-center px-2 py-0.5 rounded-full text-[10px] font-medium border bg-red-500/10 text-red-400 border-red-500/20" title="Failed sign-ins in the last 24 hours">
+                            {user.failed_logins_24h} failed
+                          </span>
+                        )}
                       </div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
@@ -258,17 +692,56 @@ export default function AdminUsersPage() {
                         </span>
                       </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-[var(--hh-text-secondary)]">
-                      {user.role === 'vendor_moderator'
-                        ? (vendors.find((v) => v.id === user.vendor_id)?.email ?? 'Unassigned')
-                        : user.role === 'vendor'
-                          ? '—'
-                          : '—'}
+                      {isVendorRole(user.role)
+                        ? (vendors.find((v) => v.id === user.vendor_id)?.name ?? 'Unassigned')
+                        : '—'}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-[var(--hh-text-secondary)]">
                       {new Date(user.created_at).toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' })}
                       </td>
                     <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
                         <div className="flex items-center justify-end gap-2">
+                          {user.totp_enabled_at && (
+                            <button
+                              onClick={() => resetTotp(user)}
+                            className="p-1.5 rounded-lg text-[var(--hh-text-secondary)] hover:text-amber-400 hover:bg-amber-500/10 transition-colors"
+                            title="Reset two-factor"
+                            >
+                            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 22s8-4 8-10V5l-8-3-8 3v7c0 6 8 10 8 10z" />
+                            </svg>
+                            </button>
+                          )}
+                          {user.role !== 'admin' && (user.status ?? 'active') === 'active' && can('admin_user.impersonate') && (
+                            <button
+                              onClick={() => openViewAs(user)}
+                            className="p-1.5 rounded-lg text-[var(--hh-text-secondary)] hover:text-[var(--hh-primary)] hover:bg-[var(--hh-primary)]/10 transition-colors"
+                            title="View as this user"
+                            >
+                            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
+                            </svg>
+                            </button>
+                          )}
+                          <button
+                            onClick={() => openAttempts(user)}
+                          className="p-1.5 rounded-lg text-[var(--hh-text-secondary)] hover:text-[var(--hh-primary)] hover:bg-[var(--hh-primary)]/10 transition-colors"
+                          title="Sign-in activity"
+                          >
+                          <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                          </svg>
+                          </button>
+                          <button
+                            onClick={() => openSessions(user)}
+                          className="p-1.5 rounded-lg text-[var(--hh-text-secondary)] hover:text-[var(--hh-primary)] hover:bg-[var(--hh-primary)]/10 transition-colors"
+                          title="Active sessions"
+                          >
+                          <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9.75 17L9 20l-1 1h8l-1-1-.75-3M3 13h18M5 17h14a2 2 0 002-2V5a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" />
+                          </svg>
+                          </button>
                           <button
                             onClick={() => startEdit(user)}
                           className="p-1.5 rounded-lg text-[var(--hh-text-secondary)] hover:text-[var(--hh-primary)] hover:bg-[var(--hh-primary)]/10 transition-colors"
@@ -278,6 +751,27 @@ export default function AdminUsersPage() {
                             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
                           </svg>
                           </button>
+                          {user.status === 'suspended' ? (
+                            <button
+                              onClick={() => reinstate(user)}
+                            className="p-1.5 rounded-lg text-[var(--hh-text-secondary)] hover:text-green-400 hover:bg-green-500/10 transition-colors"
+                            title="Reactivate user"
+                            >
+                            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
+                            </svg>
+                            </button>
+                          ) : user.status === 'active' && (
+                            <button
+                              onClick={() => openSuspend(user)}
+                            className="p-1.5 rounded-lg text-[var(--hh-text-secondary)] hover:text-amber-400 hover:bg-amber-500/10 transition-colors"
+                            title="Suspend user"
+                            >
+                            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M18.364 18.364A9 9 0 005.636 5.636m12.728 12.728A9 9 0 015.636 5.636m12.728 12.728L5.636 5.636" />
+                            </svg>
+                            </button>
+                          )}
                           <button
                             onClick={() => setDeleteConfirm(user.id)}
                           className="p-1.5 rounded-lg text-[var(--hh-text-secondary)] hover:text-red-400 hover:bg-red-500/10 transition-colors"
@@ -329,12 +823,18 @@ export default function AdminUsersPage() {
                     {...createForm.register('password')}
                     type="password"
                     className="hh-input w-full"
-                    placeholder="Minimum 6 characters"
+                    placeholder="••••••••"
                   />
-                  {createForm.formState.errors.password && (
+                  {createForm.formState.errors.password ? (
                     <p className="mt-1 text-xs text-red-400">{createForm.formState.errors.password.message}</p>
+                  ) : (
+                    <p className="mt-1 text-xs text-[var(--hh-text-tertiary)]">{describePasswordPolicy()}</p>
                   )}
                 </div>
+                <label className="flex items-center gap-2 text-sm text-[var(--hh-text-secondary)]">
+                  <input type="checkbox" {...createForm.register('must_change_password')} />
+                  Require a new password at first sign-in
+                </label>
                 <div>
                 <label className="block text-sm font-medium mb-1.5 text-[var(--hh-text-secondary)]">Role</label>
                   <select {...createForm.register('role')} className="hh-input w-full">
@@ -344,14 +844,14 @@ export default function AdminUsersPage() {
                   <option value="vendor_moderator">Vendor Moderator (Scan Only)</option>
                   </select>
                 </div>
-                {createRole === 'vendor_moderator' && (
+                {isVendorRole(createRole) && (
                   <div>
                     <label className="block text-sm font-medium mb-1.5 text-[var(--hh-text-secondary)]">Vendor</label>
                     <select {...createForm.register('vendor_id')} className="hh-input w-full">
                       <option value="">Select vendor...</option>
-                      {vendors.map((vendor) => (
+                      {vendors.filter((vendor) => vendor.status === 'active').map((vendor) => (
                         <option key={vendor.id} value={vendor.id}>
-                          {vendor.email}
+                          {vendor.name}
                         </option>
                       ))}
                     </select>
@@ -380,6 +880,78 @@ export default function AdminUsersPage() {
           </div>
         )}
 
+        {/* Invite Modal */}
+        {showInviteModal && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm transition-all">
+          <div className="hh-card max-w-md w-full p-6 shadow-2xl animate-in fade-in zoom-in-95 duration-200">
+            <div className="flex items-center justify-between mb-6">
+              <h2 className="text-xl font-bold text-[var(--hh-text)]">Invite Admin User</h2>
+              <button onClick={() => { inviteForm.reset(); setShowInviteModal(false); }} className="text-[var(--hh-text-tertiary)] hover:text-[var(--hh-text)]">
+                <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+
+            <form onSubmit={inviteForm.handleSubmit(onInvite)} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium mb-1.5 text-[var(--hh-text-secondary)]">Email Address</label>
+                <input
+                  {...inviteForm.register('email')}
+                  type="email"
+                  className="hh-input w-full"
+                  placeholder="name@example.com"
+                />
+                {inviteForm.formState.errors.email && (
+                  <p className="mt-1 text-xs text-red-400">{inviteForm.formState.errors.email.message}</p>
+                )}
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1.5 text-[var(--hh-text-secondary)]">Role</label>
+                <select {...inviteForm.register('role')} className="hh-input w-full">
+                  <option value="admin">Admin (Full Access)</option>
+                  <option value="moderator">Moderator (Limited Access)</option>
+                  <option value="vendor">Vendor (Own Events)</option>
+                  <option value="vendor_moderator">Vendor Moderator (Scan Only)</option>
+                </select>
+              </div>
+              {isVendorRole(inviteRole) && (
+                <div>
+                  <label className="block text-sm font-medium mb-1.5 text-[var(--hh-text-secondary)]">Vendor</label>
+                  <select {...inviteForm.register('vendor_id')} className="hh-input w-full">
+                    <option value="">Select vendor...</option>
+                    {vendors.filter((vendor) => vendor.status === 'active').map((vendor) => (
+                      <option key={vendor.id} value={vendor.id}>
+                        {vendor.name}
+                      </option>
+                    ))}
+                  </select>
+                  {inviteForm.formState.errors.vendor_id && (
+                    <p className="mt-1 text-xs text-red-400">{inviteForm.formState.errors.vendor_id.message}</p>
+                  )}
+                </div>
+              )}
+              <p className="text-xs text-[var(--hh-text-tertiary)]">They will get an email with a link, valid for 7 days, to choose a password.</p>
+              <div className="flex gap-3 pt-2">
+                <button
+                  type="button"
+                  onClick={() => {
+                    inviteForm.reset();
+                    setShowInviteModal(false);
+                  }}
+                  className="hh-btn-secondary flex-1 justify-center"
+                >
+                  Cancel
+                </button>
+                <button type="submit" className="hh-btn-primary flex-1 justify-center" disabled={inviteForm.formState.isSubmitting}>
+                  {inviteForm.formState.isSubmitting ? 'Sending...' : 'Send Invite'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+        )}
+
         {/* Edit Modal */}
         {editingUser && (
         <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm transition-all">
@@ -410,7 +982,7 @@ export default function AdminUsersPage() {
                   New Password <span className="text-[var(--hh-text-tertiary)] font-normal">(optional)</span>
                   </label>
                   <input
-                    {...updateForm.register('password')}
+                    {...updateForm.register('password', { setValueAs: (value) => value || undefined })}
                     type="password"
                     className="hh-input w-full"
                   placeholder="Leave blank to keep current"
@@ -419,6 +991,24 @@ export default function AdminUsersPage() {
                     <p className="mt-1 text-xs text-red-400">{updateForm.formState.errors.password.message}</p>
                   )}
                 </div>
+                <label className="flex items-center gap-2 text-sm text-[var(--hh-text-secondary)]">
+                  <input type="checkbox" {...updateForm.register('must_change_password')} />
+                  Require a new password at next sign-in
+                </label>
+                {editingUser?.sso_linked_at && (
+                  <div className="space-y-2">
+                    <label className="flex items-center gap-2 text-sm text-[var(--hh-text-secondary)]">
+                      <input type="checkbox" {...updateForm.register('password_login_disabled')} />
+                      Sign in with SSO only (turn off the local password)
+                    </label>
+                    <p className="text-xs text-[var(--hh-text-tertiary)]">
+                      Linked to SSO on {new Date(editingUser.sso_linked_at).toLocaleDateString()}.{' '}
+                      <button type="button" onClick={() => unlinkSso(editingUser)} className="underline hover:text-red-400">
+                        Unlink
+                      </button>
+                    </p>
+                  </div>
+                )}
                 <div>
                 <label className="block text-sm font-medium mb-1.5 text-[var(--hh-text-secondary)]">Role</label>
                   <select {...updateForm.register('role')} className="hh-input w-full">
@@ -428,14 +1018,14 @@ export default function AdminUsersPage() {
                   <option value="vendor_moderator">Vendor Moderator (Scan Only)</option>
                   </select>
                 </div>
-                {updateRole === 'vendor_moderator' && (
+                {isVendorRole(updateRole) && (
                   <div>
                     <label className="block text-sm font-medium mb-1.5 text-[var(--hh-text-secondary)]">Vendor</label>
                     <select {...updateForm.register('vendor_id')} className="hh-input w-full">
                       <option value="">Select vendor...</option>
-                      {vendors.map((vendor) => (
+                      {vendors.filter((vendor) => vendor.status === 'active').map((vendor) => (
                         <option key={vendor.id} value={vendor.id}>
-                          {vendor.email}
+                          {vendor.name}
                         </option>
                       ))}
                     </select>
@@ -464,6 +1054,220 @@ export default function AdminUsersPage() {
           </div>
         )}
 
+        {/* Suspend Modal */}
+        {suspendUser && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm transition-all">
+          <div className="hh-card max-w-md w-full p-6 shadow-2xl animate-in fade-in zoom-in-95 duration-200">
+            <div className="flex items-center justify-between mb-6">
+              <div>
+                <h2 className="text-xl font-bold text-[var(--hh-text)]">Suspend User</h2>
+                <p className="text-sm text-[var(--hh-text-secondary)] mt-1">{suspendUser.email}</p>
+              </div>
+              <button onClick={() => setSuspendUser(null)} className="text-[var(--hh-text-tertiary)] hover:text-[var(--hh-text)]">
+                <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+            <div className="space-y-4">
+              <p className="text-sm text-[var(--hh-text-secondary)]">
+                The user is signed out everywhere and cannot sign in or use API keys. Their events, ads and history stay intact, and you can reactivate them later.
+              </p>
+              <div>
+                <label className="block text-sm font-medium mb-1.5 text-[var(--hh-text-secondary)]">Reason</label>
+                <textarea
+                  value={suspendReason}
+                  onChange={(e) => setSuspendReason(e.target.value)}
+                  className="hh-input w-full"
+                  rows={3}
+                  maxLength={500}
+                  placeholder="Left the company, contract ended, ..."
+                />
+              </div>
+              <div className="flex gap-3 pt-2">
+                <button type="button" onClick={() => setSuspendUser(null)} className="hh-btn-secondary flex-1 justify-center">
+                  Cancel
+                </button>
+                <button
+                  type="button"
+                  onClick={submitSuspend}
+                  disabled={!suspendReason.trim()}
+                  className="flex-1 justify-center px-4 py-2 rounded-xl font-medium transition-all duration-200 active:scale-95 bg-amber-500 hover:bg-amber-600 text-white disabled:opacity-50"
+                >
+                  Suspend User
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+        )}
+
+        {/* View As Modal */}
+        {viewAsUser && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm transition-all">
+          <div className="hh-card max-w-md w-full p-6 shadow-2xl animate-in fade-in zoom-in-95 duration-200">
+            <div className="flex items-center justify-between mb-6">
+              <div>
+                <h2 className="text-xl font-bold text-[var(--hh-text)]">View as User</h2>
+                <p className="text-sm text-[var(--hh-text-secondary)] mt-1">{viewAsUser.email}</p>
+              </div>
+              <button onClick={() => setViewAsUser(null)} className="text-[var(--hh-text-tertiary)] hover:text-[var(--hh-text)]">
+                <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+            <div className="space-y-4">
+              <p className="text-sm text-[var(--hh-text-secondary)]">
+                The panel will show exactly what this user sees. Every request is logged under both your account and theirs.
+              </p>
+              <div>
+                <label className="block text-sm font-medium mb-1.5 text-[var(--hh-text-secondary)]">Duration</label>
+                <select value={viewAsMinutes} onChange={(e) => setViewAsMinutes(Number(e.target.value))} className="hh-input w-full">
+                  <option value={15}>15 minutes</option>
+                  <option value={30}>30 minutes</option>
+                  <option value={60}>1 hour</option>
+                  <option value={120}>2 hours</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1.5 text-[var(--hh-text-secondary)]">
+                  Reason <span className="text-[var(--hh-text-tertiary)] font-normal">(optional)</span>
+                </label>
+                <input value={viewAsReason} onChange={(e) => setViewAsReason(e.target.value)} className="hh-input w-full" placeholder="Support ticket or question" />
+              </div>
+              <label className="flex items-center gap-2 text-sm text-[var(--hh-text-secondary)]">
+                <input type="checkbox" checked={viewAsAllowMutations} onChange={(e) => setViewAsAllowMutations(e.target.checked)} />
+                Allow changes as this user (read-only otherwise)
+              </label>
+              <div className="flex gap-3 pt-2">
+                <button type="button" onClick={() => setViewAsUser(null)} className="hh-btn-secondary flex-1 justify-center">
+                  Cancel
+                </button>
+                <button type="button" onClick={startViewAs} className="hh-btn-primary flex-1 justify-center">
+                  Start Viewing
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+        )}
+
+        {/* Sessions Modal */}
+        {sessionsUser && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm transition-all">
+          <div className="hh-card max-w-2xl w-full p-6 shadow-2xl animate-in fade-in zoom-in-95 duration-200">
+            <div className="flex items-center justify-between mb-6">
+              <div>
+                <h2 className="text-xl font-bold text-[var(--hh-text)]">Active Sessions</h2>
+                <p className="text-sm text-[var(--hh-text-secondary)] mt-1">{sessionsUser.email}</p>
+              </div>
+              <button onClick={() => setSessionsUser(null)} className="text-[var(--hh-text-tertiary)] hover:text-[var(--hh-text)]">
+                <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+
+            {sessionsLoading ? (
+              <div className="py-8 text-center text-[var(--hh-text-secondary)]">Loading sessions...</div>
+            ) : sessions.length === 0 ? (
+              <div className="py-8 text-center text-[var(--hh-text-secondary)]">No active sessions</div>
+            ) : (
+              <div className="space-y-2 max-h-[50vh] overflow-y-auto">
+                {sessions.map((session) => (
+                  <div key={session.id} className="flex items-center justify-between gap-4 p-3 rounded-xl border border-[var(--hh-border)]">
+                    <div className="min-w-0 text-sm">
+                      <div className="text-[var(--hh-text)] truncate" title={session.user_agent ?? undefined}>
+                        {session.user_agent || 'Unknown device'}
+                      </div>
+                      <div className="text-xs text-[var(--hh-text-tertiary)]">
+                        {session.ip || 'Unknown IP'} • Signed in {new Date(session.created_at).toLocaleString()} • Last seen {new Date(session.last_seen_at).toLocaleString()}
+                      </div>
+                    </div>
+                    {session.current ? (
+                      <span className="shrink-0 text-xs text-[var(--hh-primary)]">This browser</span>
+                    ) : (
+                      <button onClick={() => revokeUserSession(session.id)} className="shrink-0 hh-btn-secondary text-xs hover:text-red-400">
+                        Revoke
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="flex gap-3 pt-6">
+              <button onClick={() => setSessionsUser(null)} className="hh-btn-secondary flex-1 justify-center">
+                Close
+              </button>
+              <button
+                onClick={revokeAllUserSessions}
+                disabled={sessions.filter((session) => !session.current).length === 0}
+                className="flex-1 justify-center px-4 py-2 rounded-xl font-medium transition-all duration-200 active:scale-95 bg-red-500 hover:bg-red-600 text-white shadow-lg shadow-red-500/20 disabled:opacity-50"
+              >
+                Revoke All
+              </button>
+            </div>
+          </div>
+        </div>
+        )}
+
+        {/* Sign-in Activity Modal */}
+        {attemptsUser && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm transition-all">
+          <div className="hh-card max-w-2xl w-full p-6 shadow-2xl animate-in fade-in zoom-in-95 duration-200">
+            <div className="flex items-center justify-between mb-6">
+              <div>
+                <h2 className="text-xl font-bold text-[var(--hh-text)]">Sign-in Activity</h2>
+                <p className="text-sm text-[var(--hh-text-secondary)] mt-1">{attemptsUser.email}</p>
+              </div>
+              <button onClick={() => setAttemptsUser(null)} className="text-[var(--hh-text-tertiary)] hover:text-[var(--hh-text)]">
+                <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+
+            {attemptsLoading ? (
+              <div className="py-8 text-center text-[var(--hh-text-secondary)]">Loading activity...</div>
+            ) : attempts.length === 0 ? (
+              <div className="py-8 text-center text-[var(--hh-text-secondary)]">No sign-in attempts recorded</div>
+            ) : (
+              <div className="space-y-2 max-h-[50vh] overflow-y-auto">
+                {attempts.map((attempt) => (
+                  <div key={attempt.id} className="flex items-center justify-between gap-4 p-3 rounded-xl border border-[var(--hh-border)]">
+                    <div className="min-w-0 text-sm">
+                      <div className="text-[var(--hh-text)] truncate" title={attempt.user_agent ?? undefined}>
+                        {attempt.user_agent || 'Unknown device'}
+                      </div>
+                      <div className="text-xs text-[var(--hh-text-tertiary)]">
+                        {attempt.ip || 'Unknown IP'} • {new Date(attempt.created_at).toLocaleString()}
+                      </div>
+                    </div>
+                    <span className={`shrink-0 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium border ${
+                      attempt.outcome === 'success' || attempt.outcome === 'password_reset'
+                        ? 'bg-green-500/10 text-green-400 border-green-500/20'
+                        : attempt.outcome === 'throttled' || attempt.outcome === 'locked_out'
+                          ? 'bg-amber-500/10 text-amber-400 border-amber-500/20'
+                          : 'bg-red-500/10 text-red-400 border-red-500/20'
+                    }`}>
+                      {OUTCOME_LABELS[attempt.outcome]}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="flex gap-3 pt-6">
+              <button onClick={() => setAttemptsUser(null)} className="hh-btn-secondary flex-1 justify-center">
+                Close
+              </button>
+            </div>
+          </div>
+        </div>
+        )}
+
         {/* Delete Confirmation */}
         {deleteConfirm && (
         <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm transition-all">
@@ -475,7 +1279,7 @@ export default function AdminUsersPage() {
             </div>
             <h2 className="text-xl font-bold mb-2 text-[var(--hh-text)]">Delete User?</h2>
             <p className="mb-6 text-[var(--hh-text-secondary)]">
-              Are you sure you want to delete this user? This action cannot be undone and will revoke their access immediately.
+              Are you sure you want to delete this user? This action cannot be undone and will revoke their access immediately. Users who created ads, processed refunds or scanned tickets can only be suspended.
               </p>
             <div className="flex gap-3">
                 <button
@@ -4,13 +4,16 @@ import { useEffect, useMemo, useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { AdCreateSchema, AdUpdateSchema, type AdCreateInput, type AdUpdateInput } from '@/lib/validation';
+import { usePermissions } from '@/lib/use-permissions';
+import { DEFAULT_TIME_ZONE, moveToTimeZone } from '@/lib/timezones';
+import { TimeZoneSelect, ZonedDateTimeInput } from '@/components/TimeZoneInputs';
 
-type Role = 'admin' | 'moderator' | 'vendor' | 'vendor_moderator';
 
 type EventOption = {
   id: string;
   title: string;
   start_at: string | null;
+  timezone: string;
   status: 'draft' | 'published' | 'archived';
 };
 
@@ -28,6 +31,7 @@ type Ad = {
   target_url: string | null;
   start_at: string;
   end_at: string | null;
+  timezone: string;
   priority: number;
   created_at: string;
   updated_at: string;
@@ -40,32 +44,13 @@ type VisibilitySnapshot = {
   note?: string;
 };
 
-const toDatetimeLocal = (iso?: string | null) => {
-  if (!iso) return '';
-  const d = new Date(iso);
-  const pad = (n: number) => String(n).padStart(2, '0');
-  const yyyy = d.getFullYear();
-  const mm = pad(d.getMonth() + 1);
-  const dd = pad(d.getDate());
-  const hh = pad(d.getHours());
-  const min = pad(d.getMinutes());
-  return `${yyyy}-${mm}-${dd}T${hh}:${min}`;
-};
-
-const fromDatetimeLocalToIso = (v?: string) => {
-  if (!v) return undefined;
-  const d = new Date(v);
-  if (Number.isNaN(d.getTime())) return undefined;
-  return d.toISOString();
-};
-
 const parseDateMaybe = (value?: string | Date | null): Date | null => {
   if (!value) return null;
   const d = value instanceof Date ? value : new Date(value);
   return Number.isNaN(d.getTime()) ? null : d;
 };
 
-const formatDateTime = (value?: string | Date | null) => {
+const formatDateTime = (value: string | Date | null | undefined, timeZone: string) => {
   const d = parseDateMaybe(value);
   if (!d) return '—';
   return d.toLocaleString(undefined, {
@@ -74,6 +59,8 @@ const formatDateTime = (value?: string | Date | null) => {
     year: 'numeric',
     hour: 'numeric',
     minute: '2-digit',
+    timeZone,
+    timeZoneName: 'short',
   });
 };
 
@@ -81,11 +68,13 @@ const computeVisibilitySnapshot = ({
   status,
   startAt,
   endAt,
+  timeZone,
   assumeNowIfMissingStart = false,
 }: {
   status?: Ad['status'] | string | null;
   startAt?: string | Date | null;
   endAt?: string | Date | null;
+  timeZone: string;
   assumeNowIfMissingStart?: boolean;
 }): VisibilitySnapshot => {
   const normalizedStatus = status ?? 'pending';
@@ -128,7 +117,7 @@ const computeVisibilitySnapshot = ({
     return {
       label: 'Scheduled',
       badgeClassName: 'bg-blue-500/10 text-blue-300 border-blue-500/20',
-      detail: `Starts ${formatDateTime(start)}`,
+      detail: `Starts ${formatDateTime(start, timeZone)}`,
       note: isInstantWindow ? 'Start and end are identical, so this will be visible only at one instant.' : undefined,
     };
   }
@@ -137,7 +126,7 @@ const computeVisibilitySnapshot = ({
     return {
       label: 'Expired',
       badgeClassName: 'bg-[var(--hh-bg-elevated)] text-[var(--hh-text-tertiary)] border-[var(--hh-border)]',
-      detail: `Ended ${formatDateTime(end)}`,
+      detail: `Ended ${formatDateTime(end, timeZone)}`,
       note: isInstantWindow ? 'Start and end were identical, so the ad window was effectively instant.' : undefined,
     };
   }
@@ -145,15 +134,16 @@ const computeVisibilitySnapshot = ({
   return {
     label: 'Live',
     badgeClassName: 'bg-green-500/10 text-green-400 border-green-500/20',
-    detail: end ? `Ends ${formatDateTime(end)}` : 'No end date set.',
+    detail: end ? `Ends ${formatDateTime(end, timeZone)}` : 'No end date set.',
     note: isInstantWindow ? 'Start and end are identical, so this is visible only at one instant.' : undefined,
   };
 };
 
 export default function AdsPage() {
-  const [currentUser, setCurrentUser] = useState<{ role: Role; id?: string } | null>(null);
+  const { can, loaded: permissionsLoaded } = usePermissions();
+  const canApprove = can('ad.approve');
   const [ads, setAds] = useState<Ad[]>([]);
-  const [vendors, setVendors] = useState<{ id: string; email: string }[]>([]);
+  const [vendors, setVendors] = useState<{ id: string; name: string; status: 'active' | 'archived' }[]>([]);
   const [eventOptions, setEventOptions] = useState<EventOption[]>([]);
   const [eventOptionsLoading, setEventOptionsLoading] = useState(false);
   const [loading, setLoading] = useState(true);
@@ -170,25 +160,18 @@ export default function AdsPage() {
   const [editEventSearch, setEditEventSearch] = useState('');
 
   useEffect(() => {
-    fetch('/api/admin/me')
-      .then((res) => res.json())
-      .then((data) => {
-        if (!data.admin) return;
-        setCurrentUser(data.admin);
-        if (data.admin.role === 'vendor_moderator') {
-          window.location.href = '/events';
-        }
-      })
-      .catch(() => {});
-  }, []);
+    if (permissionsLoaded && !can('ad.view')) {
+      window.location.href = '/events';
+    }
+  }, [permissionsLoaded, can]);
 
   useEffect(() => {
-    if (currentUser?.role !== 'admin') return;
-    fetch('/api/admin/vendors')
+    if (!can('vendor.view')) return;
+    fetch('/api/admin/vendors?status=all')
       .then((res) => res.json())
       .then((data) => setVendors(data.vendors ?? []))
       .catch(() => {});
-  }, [currentUser?.role]);
+  }, [can]);
 
   const loadEventOptions = async (q?: string) => {
     try {
@@ -230,9 +213,9 @@ export default function AdsPage() {
   };
 
   useEffect(() => {
-    if (!currentUser) return;
+    if (!permissionsLoaded) return;
     load();
-  }, [currentUser]);
+  }, [permissionsLoaded]);
 
   const createForm = useForm<AdCreateInput>({
     resolver: zodResolver(AdCreateSchema),
@@ -246,6 +229,7 @@ export default function AdsPage() {
       event_id: undefined,
       start_at: undefined,
       end_at: undefined,
+      timezone: DEFAULT_TIME_ZONE,
       priority: 0,
       vendor_id: undefined,
       status: 'pending',
@@ -261,11 +245,13 @@ export default function AdsPage() {
   const createStatus = createForm.watch('status');
   const createStartAt = createForm.watch('start_at');
   const createEndAt = createForm.watch('end_at');
+  const createTimeZone = createForm.watch('timezone') ?? DEFAULT_TIME_ZONE;
   const editEventId = updateForm.watch('event_id');
   const editTargetUrl = updateForm.watch('target_url');
   const editStatus = updateForm.watch('status');
   const editStartAt = updateForm.watch('start_at');
   const editEndAt = updateForm.watch('end_at');
+  const editTimeZone = updateForm.watch('timezone') ?? editingAd?.timezone ?? DEFAULT_TIME_ZONE;
 
   const filtered = useMemo(() => {
     let rows = ads.slice();
@@ -277,21 +263,22 @@ export default function AdsPage() {
     return rows;
   }, [ads, q, statusFilter]);
 
-  const vendorEmailById = useMemo(() => {
+  const vendorNameById = useMemo(() => {
     const map = new Map<string, string>();
-    for (const v of vendors) map.set(v.id, v.email);
+    for (const v of vendors) map.set(v.id, v.name);
     return map;
   }, [vendors]);
 
   const createVisibility = useMemo(
     () =>
       computeVisibilitySnapshot({
-        status: currentUser?.role === 'admin' ? createStatus ?? 'pending' : 'pending',
+        status: canApprove ? createStatus ?? 'pending' : 'pending',
         startAt: (createStartAt as string | Date | undefined) ?? null,
         endAt: (createEndAt as string | Date | undefined) ?? null,
+        timeZone: createTimeZone,
         assumeNowIfMissingStart: true,
       }),
-    [createStatus, createStartAt, createEndAt, currentUser?.role]
+    [createStatus, createStartAt, createEndAt, createTimeZone, canApprove]
   );
 
   const editVisibility = useMemo(
@@ -299,11 +286,29 @@ export default function AdsPage() {
       computeVisibilitySnapshot({
         status: editStatus ?? editingAd?.status ?? 'pending',
         startAt: (editStartAt as string | Date | undefined) ?? editingAd?.start_at ?? null,
-        endAt: (editEndAt as string | Date | undefined) ?? editingAd?.end_at ?? null,
+        endAt: editEndAt !== undefined ? editEndAt : editingAd?.end_at ?? null,
+        timeZone: editTimeZone,
       }),
-    [editStatus, editStartAt, editEndAt, editingAd]
+    [editStatus, editStartAt, editEndAt, editTimeZone, editingAd]
   );
 
+  // Changing the zone keeps the times as entered, so "8 PM" stays 8 PM there.
+  const changeCreateTimeZone = (next: string) => {
+    const start = moveToTimeZone(createStartAt, createTimeZone, next);
+    const end = moveToTimeZone(createEndAt, createTimeZone, next);
+    if (start) createForm.setValue('start_at', start);
+    if (end) createForm.setValue('end_at', end);
+    createForm.setValue('timezone', next);
+  };
+
+  const changeEditTimeZone = (next: string) => {
+    const start = moveToTimeZone(editStartAt, editTimeZone, next);
+    const end = moveToTimeZone(editEndAt, editTimeZone, next);
+    if (start) updateForm.setValue('start_at', start);
+    if (end) updateForm.setValue('end_at', end);
+    updateForm.setValue('timezone', next);
+  };
+
   const uploadImage = async (file: File) => {
     const form = new FormData();
     form.append('file', file);
@@ -357,14 +362,10 @@ export default function AdsPage() {
 
   const onCreate = async (values: AdCreateInput) => {
     const payload: Record<string, unknown> = { ...values };
-    const startIso = typeof values.start_at === 'string' ? fromDatetimeLocalToIso(values.start_at) : undefined;
-    const endIso = typeof values.end_at === 'string' ? fromDatetimeLocalToIso(values.end_at) : undefined;
-    if (startIso) payload.start_at = startIso;
-    if (endIso) payload.end_at = endIso;
-    if (values.start_at === '' || values.start_at === undefined) delete payload.start_at;
-    if (values.end_at === '' || values.end_at === undefined) delete payload.end_at;
-
-    if (currentUser?.role === 'vendor') {
+    if (!values.start_at) delete payload.start_at;
+    if (!values.end_at) delete payload.end_at;
+
+    if (!canApprove) {
       delete payload.vendor_id;
       delete payload.status;
     }
@@ -400,8 +401,9 @@ export default function AdsPage() {
       placement: ad.placement,
       status: ad.status,
       vendor_id: ad.vendor_id ?? undefined,
-      start_at: toDatetimeLocal(ad.start_at),
-      end_at: toDatetimeLocal(ad.end_at),
+      start_at: ad.start_at,
+      end_at: ad.end_at,
+      timezone: ad.timezone,
       priority: ad.priority,
     });
   };
@@ -410,23 +412,10 @@ export default function AdsPage() {
     if (!editingAd) return;
 
     const payload: Record<string, unknown> = { ...values };
-    if (typeof values.start_at === 'string') {
-      if (!values.start_at) {
-        delete payload.start_at;
-      } else {
-        payload.start_at = fromDatetimeLocalToIso(values.start_at) ?? values.start_at;
-      }
-    }
-    if (typeof values.end_at === 'string') {
-      if (!values.end_at) {
-        payload.end_at = null;
-      } else {
-        payload.end_at = fromDatetimeLocalToIso(values.end_at) ?? values.end_at;
-      }
-    }
-    if (values.end_at === '') payload.end_at = null;
+    if (!values.start_at) delete payload.start_at;
+    if (!values.end_at) payload.end_at = null;
 
-    if (currentUser?.role === 'vendor') {
+    if (!canApprove) {
       delete payload.vendor_id;
       delete payload.status;
     }
@@ -475,7 +464,7 @@ export default function AdsPage() {
     await load();
   };
 
-  if (loading || !currentUser) {
+  if (loading || !permissionsLoaded) {
     return (
       <div className="min-h-[70vh] flex items-center justify-center">
         <div className="flex flex-col items-center gap-3">
@@ -492,12 +481,12 @@ export default function AdsPage() {
         <div>
           <h1 className="text-2xl font-bold text-[var(--hh-text)] tracking-tight">Ads</h1>
           <p className="text-[var(--hh-text-secondary)] mt-1">
-            {currentUser.role === 'admin'
+            {canApprove
               ? 'Approve vendor ad requests and publish ads to the website.'
               : 'Request an ad. Once approved, it will appear on the website.'}
           </p>
         </div>
-        {(currentUser.role === 'admin' || currentUser.role === 'vendor') && (
+        {can('ad.create') && (
           <button onClick={() => setShowCreateModal(true)} className="hh-btn-primary flex items-center gap-2">
             <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
@@ -548,7 +537,7 @@ export default function AdsPage() {
             <thead className="bg-[var(--hh-bg-elevated)]/50 border-b border-[var(--hh-border)]">
               <tr>
                 <th className="px-6 py-4 text-left text-xs font-semibold text-[var(--hh-text-tertiary)] uppercase tracking-wider">Ad</th>
-                {currentUser.role === 'admin' && (
+                {canApprove && (
                   <th className="px-6 py-4 text-left text-xs font-semibold text-[var(--hh-text-tertiary)] uppercase tracking-wider">Vendor</th>
                 )}
                 <th className="px-6 py-4 text-left text-xs font-semibold text-[var(--hh-text-tertiary)] uppercase tracking-wider">Status</th>
@@ -559,7 +548,7 @@ export default function AdsPage() {
             <tbody className="divide-y divide-[var(--hh-border)]">
               {filtered.length === 0 ? (
                 <tr>
-                  <td colSpan={currentUser.role === 'admin' ? 5 : 4} className="px-6 py-12 text-center text-[var(--hh-text-secondary)]">
+                  <td colSpan={canApprove ? 5 : 4} className="px-6 py-12 text-center text-[var(--hh-text-secondary)]">
                     No ads found.
                   </td>
                 </tr>
@@ -569,6 +558,7 @@ export default function AdsPage() {
                     status: ad.status,
                     startAt: ad.start_at,
                     endAt: ad.end_at,
+                    timeZone: ad.timezone,
                   });
                   return (
                   <tr key={ad.id} className="hover:bg-[var(--hh-bg-elevated)]/30 transition-colors">
@@ -586,9 +576,9 @@ export default function AdsPage() {
                         </div>
                       </div>
                     </td>
-                    {currentUser.role === 'admin' && (
+                    {canApprove && (
                       <td className="px-6 py-4 text-sm text-[var(--hh-text-secondary)]">
-                        {ad.vendor_id ? (vendorEmailById.get(ad.vendor_id) ?? ad.vendor_id.slice(0, 8)) : '—'}
+                        {ad.vendor_id ? (vendorNameById.get(ad.vendor_id) ?? ad.vendor_id.slice(0, 8)) : '—'}
                       </td>
                     )}
                     <td className="px-6 py-4">
@@ -616,10 +606,10 @@ export default function AdsPage() {
                           <span className="text-xs text-yellow-300/80">{visibility.note}</span>
                         )}
                         <span className="text-xs text-[var(--hh-text-tertiary)]">
-                          Start {formatDateTime(ad.start_at)}
+                          Start {formatDateTime(ad.start_at, ad.timezone)}
                         </span>
                         <span className="text-xs text-[var(--hh-text-tertiary)]">
-                          {ad.end_at ? `End ${formatDateTime(ad.end_at)}` : 'End not set'}
+                          {ad.end_at ? `End ${formatDateTime(ad.end_at, ad.timezone)}` : 'End not set'}
                         </span>
                       </div>
                     </td>
@@ -635,7 +625,7 @@ export default function AdsPage() {
                           </svg>
                         </button>
 
-                        {currentUser.role === 'admin' && ad.status === 'pending' && (
+                        {canApprove && ad.status === 'pending' && (
                           <>
                             <button onClick={() => setStatus(ad, 'approved')} className="p-2 hover:bg-green-500/10 rounded-lg text-green-400 transition-colors" title="Approve">
                               <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -650,7 +640,7 @@ export default function AdsPage() {
                           </>
                         )}
 
-                        {currentUser.role === 'admin' && ad.status === 'approved' && (
+                        {canApprove && ad.status === 'approved' && (
                           <button onClick={() => setStatus(ad, 'paused')} className="p-2 hover:bg-[var(--hh-bg-elevated)] rounded-lg text-[var(--hh-text-secondary)] transition-colors" title="Pause">
                             <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 9v6m4-6v6" />
@@ -658,7 +648,7 @@ export default function AdsPage() {
                           </button>
                         )}
 
-                        {currentUser.role === 'admin' && ad.status === 'paused' && (
+                        {canApprove && ad.status === 'paused' && (
                           <button onClick={() => setStatus(ad, 'approved')} className="p-2 hover:bg-green-500/10 rounded-lg text-green-400 transition-colors" title="Resume">
                             <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14.752 11.168l-3.197-2.132A1 1 0 0010 9.87v4.263a1 1 0 001.555.832l3.197-2.132a1 1 0 000-1.664z" />
@@ -666,7 +656,7 @@ export default function AdsPage() {
                           </button>
                         )}
 
-                        {currentUser.role === 'admin' && (
+                        {can('ad.delete') && (
                           <button onClick={() => setDeleteConfirm(ad.id)} className="p-2 hover:bg-red-500/10 rounded-lg text-[var(--hh-text-secondary)] hover:text-red-400 transition-colors" title="Delete">
                             <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
@@ -700,14 +690,14 @@ export default function AdsPage() {
               </div>
               <form className="flex-1 overflow-hidden flex flex-col min-h-0" onSubmit={createForm.handleSubmit(onCreate)}>
                 <div className="p-6 space-y-4 overflow-y-auto min-h-0 flex-1">
-                  {currentUser.role === 'admin' && (
+                  {canApprove && (
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                       <div className="min-w-0">
                         <label className="block text-xs font-medium text-[var(--hh-text-tertiary)] mb-1">Vendor</label>
                         <select className="hh-input w-full min-w-0" {...createForm.register('vendor_id')}>
                           <option value="">—</option>
-                          {vendors.map((v) => (
-                            <option key={v.id} value={v.id}>{v.email}</option>
+                          {vendors.filter((v) => v.status === 'active').map((v) => (
+                            <option key={v.id} value={v.id}>{v.name}</option>
                           ))}
                         </select>
                       </div>
@@ -784,13 +774,15 @@ export default function AdsPage() {
                           createForm.setValue('event_id', v, { shouldValidate: true });
                           if (v) {
                             createForm.setValue('target_url', undefined, { shouldValidate: true });
+                            const event = eventOptions.find((ev) => ev.id === v);
+                            if (event) changeCreateTimeZone(event.timezone);
                           }
                         }}
                       >
                         <option value="">{eventOptionsLoading ? 'Loading events…' : '— Select an event —'}</option>
                         {visibleCreateEvents.map((ev) => (
                           <option key={ev.id} value={ev.id}>
-                            {ev.title}{ev.start_at ? ` • ${new Date(ev.start_at).toLocaleDateString()}` : ''}{ev.status !== 'published' ? ` • ${ev.status}` : ''}
+                            {ev.title}{ev.start_at ? ` • ${new Date(ev.start_at).toLocaleDateString(undefined, { timeZone: ev.timezone })}` : ''}{ev.status !== 'published' ? ` • ${ev.status}` : ''}
                           </option>
                         ))}
                       </select>
@@ -825,14 +817,29 @@ export default function AdsPage() {
                     <p className="text-xs text-red-400">Provide either a target URL or an event.</p>
                   )}
 
+                  <div className="min-w-0">
+                    <label className="block text-xs font-medium text-[var(--hh-text-tertiary)] mb-1">Time zone</label>
+                    <TimeZoneSelect value={createTimeZone} onChange={changeCreateTimeZone} className="hh-input w-full min-w-0" />
+                  </div>
+
                   <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                     <div className="min-w-0">
                       <label className="block text-xs font-medium text-[var(--hh-text-tertiary)] mb-1">Start</label>
-                      <input type="datetime-local" className="hh-input w-full min-w-0" {...createForm.register('start_at')} />
+                      <ZonedDateTimeInput
+                        value={createStartAt}
+                        onChange={(value) => createForm.setValue('start_at', value ?? undefined, { shouldValidate: true })}
+                        timeZone={createTimeZone}
+                        className="hh-input w-full min-w-0"
+                      />
                     </div>
                     <div className="min-w-0">
                       <label className="block text-xs font-medium text-[var(--hh-text-tertiary)] mb-1">End (optional)</label>
-                      <input type="datetime-local" className="hh-input w-full min-w-0" {...createForm.register('end_at')} />
+                      <ZonedDateTimeInput
+                        value={createEndAt}
+                        onChange={(value) => createForm.setValue('end_at', value, { shouldValidate: true })}
+                        timeZone={createTimeZone}
+                        className="hh-input w-full min-w-0"
+                      />
                     </div>
                     <div className="min-w-0">
                       <label className="block text-xs font-medium text-[var(--hh-text-tertiary)] mb-1">Priority</label>
@@ -844,7 +851,7 @@ export default function AdsPage() {
                     <div className="font-semibold">Visibility: {createVisibility.label}</div>
                     <div className="mt-1">{createVisibility.detail}</div>
                     {createVisibility.note && <div className="mt-1">{createVisibility.note}</div>}
-                    <div className="mt-1 opacity-80">Times are interpreted in your local timezone and stored in UTC.</div>
+                    <div className="mt-1 opacity-80">Times are in {createTimeZone}.</div>
                   </div>
                 </div>
 
@@ -877,14 +884,14 @@ export default function AdsPage() {
               </div>
               <form className="flex-1 overflow-hidden flex flex-col min-h-0" onSubmit={updateForm.handleSubmit(onUpdate)}>
                 <div className="p-6 space-y-4 overflow-y-auto min-h-0 flex-1">
-                  {currentUser.role === 'admin' && (
+                  {canApprove && (
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                       <div className="min-w-0">
                         <label className="block text-xs font-medium text-[var(--hh-text-tertiary)] mb-1">Vendor</label>
                         <select className="hh-input w-full min-w-0" {...updateForm.register('vendor_id')}>
                           <option value="">—</option>
-                          {vendors.map((v) => (
-                            <option key={v.id} value={v.id}>{v.email}</option>
+                          {vendors.filter((v) => v.status === 'active' || v.id === editingAd?.vendor_id).map((v) => (
+                            <option key={v.id} value={v.id}>{v.name}</option>
                           ))}
                         </select>
                       </div>
@@ -953,13 +960,15 @@ export default function AdsPage() {
                           updateForm.setValue('event_id', v, { shouldValidate: true });
                           if (v) {
                             updateForm.setValue('target_url', undefined, { shouldValidate: true });
+                            const event = eventOptions.find((ev) => ev.id === v);
+                            if (event) changeEditTimeZone(event.timezone);
                           }
                         }}
                       >
                         <option value="">{eventOptionsLoading ? 'Loading events…' : '— Select an event —'}</option>
                         {visibleEditEvents.map((ev) => (
                           <option key={ev.id} value={ev.id}>
-                            {ev.title}{ev.start_at ? ` • ${new Date(ev.start_at).toLocaleDateString()}` : ''}{ev.status !== 'published' ? ` • ${ev.status}` : ''}
+                            {ev.title}{ev.start_at ? ` • ${new Date(ev.start_at).toLocaleDateString(undefined, { timeZone: ev.timezone })}` : ''}{ev.status !== 'published' ? ` • ${ev.status}` : ''}
                           </option>
                         ))}
                       </select>
@@ -984,14 +993,29 @@ export default function AdsPage() {
                     <p className="text-xs text-red-400">Provide either a target URL or an event.</p>
                   )}
 
+                  <div className="min-w-0">
+                    <label className="block text-xs font-medium text-[var(--hh-text-tertiary)] mb-1">Time zone</label>
+                    <TimeZoneSelect value={editTimeZone} onChange={changeEditTimeZone} className="hh-input w-full min-w-0" />
+                  </div>
+
                   <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                     <div className="min-w-0">
                       <label className="block text-xs font-medium text-[var(--hh-text-tertiary)] mb-1">Start</label>
-                      <input type="datetime-local" className="hh-input w-full min-w-0" {...updateForm.register('start_at')} />
+                      <ZonedDateTimeInput
+                        value={editStartAt}
+                        onChange={(value) => updateForm.setValue('start_at', value ?? undefined, { shouldValidate: true })}
+                        timeZone={editTimeZone}
+                        className="hh-input w-full min-w-0"
+                      />
                     </div>
                     <div className="min-w-0">
                       <label className="block text-xs font-medium text-[var(--hh-text-tertiary)] mb-1">End</label>
-                      <input type="datetime-local" className="hh-input w-full min-w-0" {...updateForm.register('end_at')} />
+                      <ZonedDateTimeInput
+                        value={editEndAt}
+                        onChange={(value) => updateForm.setValue('end_at', value, { shouldValidate: true })}
+                        timeZone={editTimeZone}
+                        className="hh-input w-full min-w-0"
+                      />
                     </div>
                     <div className="min-w-0">
                       <label className="block text-xs font-medium text-[var(--hh-text-tertiary)] mb-1">Priority</label>
@@ -1003,7 +1027,7 @@ export default function AdsPage() {
                     <div className="font-semibold">Visibility: {editVisibility.label}</div>
                     <div className="mt-1">{editVisibility.detail}</div>
                     {editVisibility.note && <div className="mt-1">{editVisibility.note}</div>}
-                    <div className="mt-1 opacity-80">Times are interpreted in your local timezone and stored in UTC.</div>
+                    <div className="mt-1 opacity-80">Times are in {editTimeZone}.</div>
                   </div>
                 </div>
 
@@ -0,0 +1,304 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { ApiKeyCreateSchema, type ApiKeyCreateInput } from '@/lib/validation';
+import { API_KEY_CAPABILITIES, EVENT_KEY_CAPABILITIES } from '@/lib/permissions';
+
+type ApiKey = {
+  id: string;
+  name: string;
+  key_prefix: string;
+  admin_user_id: string;
+  admin_email: string | null;
+  capabilities: string[];
+  event_id: string | null;
+  event_title: string | null;
+  created_at: string;
+  expires_at: string;
+  last_used_at: string | null;
+  last_used_ip: string | null;
+  revoked_at: string | null;
+};
+
+function keyStatus(key: ApiKey): { label: string; className: string } {
+  if (key.revoked_at) return { label: 'Revoked', className: 'bg-red-500/10 text-red-400 border-red-500/20' };
+  if (Date.parse(key.expires_at) <= Date.now()) {
+    return { label: 'Expired', className: 'bg-amber-500/10 text-amber-400 border-amber-500/20' };
+  }
+  return { label: 'Active', className: 'bg-green-500/10 text-green-400 border-green-500/20' };
+}
+
+export default function ApiKeysPage() {
+  const [keys, setKeys] = useState<ApiKey[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showCreateModal, setShowCreateModal] = useState(false);
+  const [createdKey, setCreatedKey] = useState<string | null>(null);
+  const [users, setUsers] = useState<{ id: string; email: string }[]>([]);
+  const [events, setEvents] = useState<{ id: string; title: string }[]>([]);
+
+  const createForm = useForm<ApiKeyCreateInput>({
+    resolver: zodResolver(ApiKeyCreateSchema),
+    defaultValues: { name: '', capabilities: [], event_id: undefined, expires_in_days: 90 },
+  });
+  const selectedEventId = createForm.watch('event_id');
+  const grantable = selectedEventId ? EVENT_KEY_CAPABILITIES : API_KEY_CAPABILITIES;
+
+  const load = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch('/api/admin/api-keys', { cache: 'no-store' });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setError(data?.error || 'Failed to load API keys');
+        return;
+      }
+      setKeys(data.keys ?? []);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : 'Failed to load API keys');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+    fetch('/api/admin/users')
+      .then(res => res.json())
+      .then(data => setUsers(data.users ?? []))
+      .catch(() => {});
+    fetch('/api/events/options?limit=200')
+      .then(res => res.json())
+      .then(data => setEvents(data.events ?? []))
+      .catch(() => {});
+  }, []);
+
+  const onCreate = async (values: ApiKeyCreateInput) => {
+    const res = await fetch('/api/admin/api-keys', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(values),
+    });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      alert(data?.error || 'Failed to create API key');
+      return;
+    }
+    createForm.reset();
+    setShowCreateModal(false);
+    setCreatedKey(data.key);
+    await load();
+  };
+
+  const revoke = async (key: ApiKey) => {
+    if (!confirm(`Revoke "${key.name}"? Anything using it stops working immediately.`)) return;
+    const res = await fetch(`/api/admin/api-keys/${key.id}`, { method: 'DELETE' });
+    if (!res.ok) {
+      const data = await res.json().catch(() => ({}));
+      alert(data?.error || 'Failed to revoke API key');
+      return;
+    }
+    await load();
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-[60vh] flex items-center justify-center">
+        <div className="flex flex-col items-center gap-3">
+          <div className="w-8 h-8 border-2 border-[var(--hh-primary)] border-t-transparent rounded-full animate-spin"></div>
+          <div className="text-[var(--hh-text-secondary)]">Loading API keys...</div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-8">
+        <div>
+          <h1 className="text-2xl font-bold text-[var(--hh-text)] tracking-tight">API Keys</h1>
+          <p className="text-[var(--hh-text-secondary)] mt-1">
+            Keys for kiosks, scanning apps and scripts. Send them as <code>Authorization: Bearer &lt;key&gt;</code>.
+          </p>
+        </div>
+        <button onClick={() => setShowCreateModal(true)} className="hh-btn-primary flex items-center gap-2">
+          <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+          </svg>
+          New Key
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-500/10 border border-red-500/20 rounded-xl text-red-400">{error}</div>
+      )}
+
+      {createdKey && (
+        <div className="hh-card p-5 mb-6 border-[var(--hh-primary)]">
+          <h2 className="text-sm font-semibold text-[var(--hh-text)] mb-1">Copy your new key now</h2>
+          <p className="text-xs text-[var(--hh-text-tertiary)] mb-3">It is stored hashed and will not be shown again.</p>
+          <div className="flex items-center gap-3">
+            <code className="flex-1 min-w-0 truncate px-3 py-2 rounded-xl bg-[var(--hh-bg-elevated)] text-sm text-[var(--hh-text)]">{createdKey}</code>
+            <button onClick={() => navigator.clipboard?.writeText(createdKey)} className="hh-btn-secondary text-xs">Copy</button>
+            <button onClick={() => setCreatedKey(null)} className="hh-btn-secondary text-xs">Done</button>
+          </div>
+        </div>
+      )}
+
+      <div className="hh-card overflow-hidden shadow-sm">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-[var(--hh-bg-elevated)]/50 border-b border-[var(--hh-border)]">
+              <tr>
+                <th className="px-6 py-4 text-left text-xs font-semibold text-[var(--hh-text-tertiary)] uppercase tracking-wider">Key</th>
+                <th className="px-6 py-4 text-left text-xs font-semibold text-[var(--hh-text-tertiary)] uppercase tracking-wider">Acts as</th>
+                <th className="px-6 py-4 text-left text-xs font-semibold text-[var(--hh-text-tertiary)] uppercase tracking-wider">Scope</th>
+                <th className="px-6 py-4 text-left text-xs font-semibold text-[var(--hh-text-tertiary)] uppercase tracking-wider">Last used</th>
+                <th className="px-6 py-4 text-left text-xs font-semibold text-[var(--hh-text-tertiary)] uppercase tracking-wider">Expires</th>
+                <th className="px-6 py-4 text-right text-xs font-semibold text-[var(--hh-text-tertiary)] uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-[var(--hh-border)]">
+              {keys.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-12 text-center text-[var(--hh-text-secondary)]">No API keys yet</td>
+                </tr>
+              ) : (
+                keys.map((key) => {
+                  const status = keyStatus(key);
+                  return (
+                    <tr key={key.id} className="hover:bg-[var(--hh-bg-elevated)]/30 transition-colors">
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="flex items-center gap-2">
+                          <span className="text-[var(--hh-text)] font-medium">{key.name}</span>
+                          <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-[10px] font-medium border ${status.className}`}>
+                            {status.label}
+                          </span>
+                        </div>
+                        <div className="text-xs text-[var(--hh-text-tertiary)] font-mono">{key.key_prefix}…</div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-[var(--hh-text-secondary)]">{key.admin_email ?? '—'}</td>
+                      <td className="px-6 py-4 text-sm text-[var(--hh-text-secondary)]">
+                        {key.event_id && (
+                          <div className="text-xs text-[var(--hh-text)] mb-1">Event: {key.event_title ?? key.event_id}</div>
+                        )}
+                        <div className="flex flex-wrap gap-1">
+                          {key.capabilities.map((capability) => (
+                            <span key={capability} className="px-2 py-0.5 rounded-full text-[10px] border border-[var(--hh-border)]">{capability}</span>
+                          ))}
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-[var(--hh-text-secondary)]">
+                        {key.last_used_at ? (
+                          <>
+                            {new Date(key.last_used_at).toLocaleString()}
+                            {key.last_used_ip && <div className="text-xs text-[var(--hh-text-tertiary)]">{key.last_used_ip}</div>}
+                          </>
+                        ) : 'Never'}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-[var(--hh-text-secondary)]">{new Date(key.expires_at).toLocaleDateString()}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right">
+                        {!key.revoked_at && (
+                          <button onClick={() => revoke(key)} className="hh-btn-secondary text-xs hover:text-red-400">Revoke</button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Create Modal */}
+      {showCreateModal && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm transition-all">
+          <div className="hh-card max-w-lg w-full p-6 shadow-2xl animate-in fade-in zoom-in-95 duration-200">
+            <div className="flex items-center justify-between mb-6">
+              <h2 className="text-xl font-bold text-[var(--hh-text)]">New API Key</h2>
+              <button onClick={() => { createForm.reset(); setShowCreateModal(false); }} className="text-[var(--hh-text-tertiary)] hover:text-[var(--hh-text)]">
+                <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+
+            <form onSubmit={createForm.handleSubmit(onCreate)} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium mb-1.5 text-[var(--hh-text-secondary)]">Name</label>
+                <input {...createForm.register('name')} className="hh-input w-full" placeholder="Gate A kiosk" />
+                {createForm.formState.errors.name && (
+                  <p className="mt-1 text-xs text-red-400">{createForm.formState.errors.name.message}</p>
+                )}
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1.5 text-[var(--hh-text-secondary)]">Acts as</label>
+                <select {...createForm.register('admin_user_id')} className="hh-input w-full">
+                  <option value="">Select admin user...</option>
+                  {users.map((user) => (
+                    <option key={user.id} value={user.id}>{user.email}</option>
+                  ))}
+                </select>
+                <p className="mt-1 text-xs text-[var(--hh-text-tertiary)]">The key can never do more than this user.</p>
+                {createForm.formState.errors.admin_user_id && (
+                  <p className="mt-1 text-xs text-red-400">{createForm.formState.errors.admin_user_id.message}</p>
+                )}
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1.5 text-[var(--hh-text-secondary)]">
+                  Event <span className="text-[var(--hh-text-tertiary)] font-normal">(optional)</span>
+                </label>
+                <select {...createForm.register('event_id', { setValueAs: (value) => value || null })} className="hh-input w-full">
+                  <option value="">All events the user can access</option>
+                  {events.map((event) => (
+                    <option key={event.id} value={event.id}>{event.title}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1.5 text-[var(--hh-text-secondary)]">Capabilities</label>
+                <div className="grid grid-cols-2 gap-1.5 max-h-48 overflow-y-auto">
+                  {grantable.map((capability) => (
+                    <label key={capability} className="flex items-center gap-2 text-xs text-[var(--hh-text-secondary)]">
+                      <input type="checkbox" value={capability} {...createForm.register('capabilities')} />
+                      {capability}
+                    </label>
+                  ))}
+                </div>
+                {createForm.formState.errors.capabilities && (
+                  <p className="mt-1 text-xs text-red-400">{createForm.formState.errors.capabilities.message || 'Pick at least one capability'}</p>
+                )}
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1.5 text-[var(--hh-text-secondary)]">Expires in (days)</label>
+                <input {...createForm.register('expires_in_days', { valueAsNumber: true })} type="number" min={1} max={365} className="hh-input w-full" />
+                {createForm.formState.errors.expires_in_days && (
+                  <p className="mt-1 text-xs text-red-400">{createForm.formState.errors.expires_in_days.message}</p>
+                )}
+              </div>
+              <div className="flex gap-3 pt-2">
+                <button
+                  type="button"
+                  onClick={() => {
+                    createForm.reset();
+                    setShowCreateModal(false);
+                  }}
+                  className="hh-btn-secondary flex-1 justify-center"
+                >
+                  Cancel
+                </button>
+                <button type="submit" className="hh-btn-primary flex-1 justify-center" disabled={createForm.formState.isSubmitting}>
+                  {createForm.formState.isSubmitting ? 'Creating...' : 'Create Key'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
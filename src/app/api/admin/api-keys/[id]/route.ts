@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { NextRequest } from 'next/server';
+import { requireCapability } from '@/lib/admin-auth';
+import { revokeApiKey } from '@/lib/api-keys';
+import { recordAudit } from '@/lib/audit';
+
+type Params = { params: Promise<{ id: string }> };
+
+// DELETE /api/admin/api-keys/[id] - Revoke a key; it stops working on the next request
+export async function DELETE(req: NextRequest, { params }: Params) {
+  let admin;
+  try {
+    admin = await requireCapability(req, 'api_key.manage');
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unauthorized';
+    return NextResponse.json({ error: message }, { status: 403 });
+  }
+
+  const { id } = await params;
+  try {
+    const revoked = await revokeApiKey(id, admin.id);
+    if (!revoked) {
+      return NextResponse.json({ error: 'API key not found or already revoked' }, { status: 404 });
+    }
+    await recordAudit(req, admin, { action: 'api_key.revoke', entityType: 'api_key', entityId: id });
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
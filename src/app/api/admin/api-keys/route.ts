@@ -0,0 +1,115 @@
+import { NextResponse } from 'next/server';
+import { NextRequest } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { requireCapability, type AdminUser } from '@/lib/admin-auth';
+import { createApiKey, listApiKeys } from '@/lib/api-keys';
+import { recordAudit } from '@/lib/audit';
+import { API_KEY_CAPABILITIES, can } from '@/lib/permissions';
+import { ApiKeyCreateSchema } from '@/lib/validation';
+
+// GET /api/admin/api-keys - List API keys (never the keys themselves)
+export async function GET(req: NextRequest) {
+  try {
+    await requireCapability(req, 'api_key.manage');
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unauthorized';
+    return NextResponse.json({ error: message }, { status: 403 });
+  }
+
+  try {
+    const keys = await listApiKeys();
+    const adminIds = [...new Set(keys.map((key) => key.admin_user_id))];
+    const eventIds = [...new Set(keys.map((key) => key.event_id).filter(Boolean))] as string[];
+
+    const { data: admins } = adminIds.length
+      ? await supabaseAdmin.from('admin_users').select('id, email').in('id', adminIds)
+      : { data: [] as { id: string; email: string }[] };
+    const { data: events } = eventIds.length
+      ? await supabaseAdmin.from('events').select('id, title').in('id', eventIds)
+      : { data: [] as { id: string; title: string }[] };
+
+    const adminMap = new Map((admins ?? []).map((item) => [item.id, item.email]));
+    const eventMap = new Map((events ?? []).map((item) => [item.id, item.title]));
+
+    return NextResponse.json({
+      keys: keys.map((key) => ({
+        ...key,
+        admin_email: adminMap.get(key.admin_user_id) ?? null,
+        event_title: key.event_id ? eventMap.get(key.event_id) ?? null : null,
+      })),
+    });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+// POST /api/admin/api-keys - Issue a key; the plain key is only returned here
+export async function POST(req: NextRequest) {
+  let admin;
+  try {
+    admin = await requireCapability(req, 'api_key.manage');
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unauthorized';
+    return NextResponse.json({ error: message }, { status: 403 });
+  }
+
+  try {
+    const json = await req.json();
+    const parsed = ApiKeyCreateSchema.safeParse(json);
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid payload', details: parsed.error.issues }, { status: 400 });
+    }
+
+    const { name, admin_user_id, capabilities, event_id, expires_in_days } = parsed.data;
+
+    const { data: owner } = await supabaseAdmin
+      .from('admin_users')
+      .select('id, email, role, vendor_id')
+      .eq('id', admin_user_id)
+      .maybeSingle<AdminUser>();
+
+    if (!owner) {
+      return NextResponse.json({ error: 'Admin user not found' }, { status: 404 });
+    }
+
+    // A key can only narrow what the admin it acts as may already do.
+    const notGranted = capabilities.filter(
+      (capability) => !API_KEY_CAPABILITIES.includes(capability) || !can(owner, capability)
+    );
+    if (notGranted.length > 0) {
+      return NextResponse.json(
+        { error: `${owner.email} cannot be granted: ${notGranted.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (event_id) {
+      const { data: event } = await supabaseAdmin
+        .from('events')
+        .select('id, vendor_id')
+        .eq('id', event_id)
+        .maybeSingle();
+
+      if (!event || !can(owner, 'event.view', event)) {
+        return NextResponse.json({ error: `${owner.email} has no access to that event` }, { status: 400 });
+      }
+    }
+
+    const { key, apiKey } = await createApiKey({
+      name,
+      adminUserId: owner.id,
+      capabilities: [...new Set(capabilities)],
+      eventId: event_id ?? null,
+      expiresAt: new Date(Date.now() + expires_in_days * 24 * 60 * 60 * 1000).toISOString(),
+      createdBy: admin.id,
+    });
+
+    await recordAudit(req, admin, { action: 'api_key.create', entityType: 'api_key', entityId: apiKey.id, after: apiKey });
+
+    return NextResponse.json({ key, api_key: apiKey }, { status: 201 });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,97 @@
+import { NextResponse } from 'next/server';
+import { NextRequest } from 'next/server';
+import { requireCapability } from '@/lib/admin-auth';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+
+const PAGE_SIZE = 50;
+const CSV_EXPORT_LIMIT = 10000;
+
+const AUDIT_COLUMNS =
+  'id, created_at, actor_admin_id, actor_email, impersonator_admin_id, api_key_id, action, entity_type, entity_id, before, after, changes, ip, user_agent';
+
+const CSV_COLUMNS = [
+  'created_at',
+  'actor_email',
+  'actor_admin_id',
+  'impersonator_admin_id',
+  'api_key_id',
+  'action',
+  'entity_type',
+  'entity_id',
+  'changes',
+  'ip',
+  'user_agent',
+] as const;
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  let text = typeof value === 'string' ? value : JSON.stringify(value);
+  // User agents, emails and changed values are user-supplied; a leading
+  // quote stops spreadsheets from running them as formulas.
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return `"${text.replace(/"/g, '""')}"`;
+}
+
+// GET /api/admin/audit-log - Search the audit log; ?format=csv exports the matching entries
+export async function GET(req: NextRequest) {
+  try {
+    await requireCapability(req, 'audit.view');
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unauthorized';
+    return NextResponse.json({ error: message }, { status: 403 });
+  }
+
+  const params = req.nextUrl.searchParams;
+  const actor = params.get('actor')?.trim();
+  const entityType = params.get('entity_type')?.trim();
+  const entityId = params.get('entity_id')?.trim();
+  const action = params.get('action')?.trim();
+  const from = params.get('from');
+  const to = params.get('to');
+  const asCsv = params.get('format') === 'csv';
+  const page = Math.max(1, Number(params.get('page')) || 1);
+
+  let query = supabaseAdmin
+    .from('admin_audit_log')
+    .select(AUDIT_COLUMNS, { count: asCsv ? undefined : 'exact' })
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false });
+
+  if (actor) {
+    query = /^[0-9a-f-]{36}$/i.test(actor)
+      ? query.or(`actor_admin_id.eq.${actor},impersonator_admin_id.eq.${actor}`)
+      : query.ilike('actor_email', `%${actor}%`);
+  }
+  if (entityType) query = query.eq('entity_type', entityType);
+  if (entityId) query = query.eq('entity_id', entityId);
+  // Prefix match, so `event` finds every event.* action.
+  if (action) query = query.like('action', `${action}%`);
+  if (from && !Number.isNaN(Date.parse(from))) query = query.gte('created_at', new Date(from).toISOString());
+  if (to && !Number.isNaN(Date.parse(to))) query = query.lte('created_at', new Date(to).toISOString());
+
+  if (asCsv) {
+    const { data, error } = await query.limit(CSV_EXPORT_LIMIT);
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    const lines = [CSV_COLUMNS.join(',')];
+    for (const entry of data ?? []) {
+      lines.push(CSV_COLUMNS.map((column) => csvCell(entry[column])).join(','));
+    }
+    return new NextResponse(lines.join('\n'), {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="audit-log-${new Date().toISOString().slice(0, 10)}.csv"`,
+      },
+    });
+  }
+
+  const offset = (page - 1) * PAGE_SIZE;
+  const { data, error, count } = await query.range(offset, offset + PAGE_SIZE - 1);
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({ entries: data ?? [], total: count ?? 0, page, page_size: PAGE_SIZE });
+}
@@ -0,0 +1,99 @@
+import { NextResponse } from 'next/server';
+import { NextRequest } from 'next/server';
+import { requireAuth, requireCapability } from '@/lib/admin-auth';
+import { getAdminTokenClaims } from '@/lib/admin-sessions';
+import { recordAudit } from '@/lib/audit';
+import { endImpersonation, startImpersonation } from '@/lib/impersonation';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { ImpersonationStartSchema } from '@/lib/validation';
+
+// POST /api/admin/impersonation - Start viewing the panel as another user on this session
+export async function POST(req: NextRequest) {
+  let admin;
+  try {
+    admin = await requireCapability(req, 'admin_user.impersonate');
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unauthorized';
+    return NextResponse.json({ error: message }, { status: 403 });
+  }
+
+  const claims = getAdminTokenClaims(req);
+  if (!claims || admin.api_key) {
+    return NextResponse.json({ error: 'Impersonation requires a signed-in session' }, { status: 400 });
+  }
+
+  try {
+    const json = await req.json();
+    const parsed = ImpersonationStartSchema.safeParse(json);
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid payload', details: parsed.error.issues }, { status: 400 });
+    }
+
+    const { admin_user_id, duration_minutes, allow_mutations, reason } = parsed.data;
+    if (admin_user_id === admin.id) {
+      return NextResponse.json({ error: 'You cannot impersonate yourself' }, { status: 400 });
+    }
+
+    const { data: target } = await supabaseAdmin
+      .from('admin_users')
+      .select('id, email, role, status')
+      .eq('id', admin_user_id)
+      .maybeSingle();
+
+    if (!target) {
+      return NextResponse.json({ error: 'Admin user not found' }, { status: 404 });
+    }
+    // Viewing as another administrator would gain nothing but an unattributed identity.
+    if (target.role === 'admin') {
+      return NextResponse.json({ error: 'Administrators cannot be impersonated' }, { status: 400 });
+    }
+    // A pending or suspended target has no usable identity, so the session would be locked out until expiry.
+    if (target.status !== 'active') {
+      return NextResponse.json({ error: 'Only active users can be impersonated' }, { status: 400 });
+    }
+
+    const impersonation = await startImpersonation({
+      sessionId: claims.sid,
+      actorAdminId: admin.id,
+      targetAdminId: target.id,
+      reason: reason || null,
+      allowMutations: allow_mutations,
+      durationMinutes: duration_minutes,
+    });
+
+    await recordAudit(req, admin, {
+      action: 'admin_user.impersonate',
+      entityType: 'admin_user',
+      entityId: target.id,
+      after: { reason: reason || null, allow_mutations, duration_minutes },
+    });
+
+    return NextResponse.json({ impersonation, target }, { status: 201 });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+// DELETE /api/admin/impersonation - Stop viewing as another user and return to your own account
+export async function DELETE(req: NextRequest) {
+  try {
+    await requireAuth(req);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unauthorized';
+    return NextResponse.json({ error: message }, { status: 401 });
+  }
+
+  const claims = getAdminTokenClaims(req);
+  if (!claims) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    await endImpersonation(claims.sid);
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server';
+import { NextRequest } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { requireCapability } from '@/lib/admin-auth';
+import { recordAudit } from '@/lib/audit';
+import { issueInvitation, sendInvitationMail } from '@/lib/invitations';
+
+type Params = { params: Promise<{ id: string }> };
+
+// POST /api/admin/invitations/[id]/resend - Email a new link; the previous one stops working
+export async function POST(req: NextRequest, { params }: Params) {
+  let admin;
+  try {
+    admin = await requireCapability(req, 'admin_user.manage');
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unauthorized';
+    return NextResponse.json({ error: message }, { status: 403 });
+  }
+
+  const { id } = await params;
+
+  const { data: invitation } = await supabaseAdmin
+    .from('admin_invitations')
+    .select('id, admin_user_id')
+    .eq('id', id)
+    .is('accepted_at', null)
+    .is('revoked_at', null)
+    .maybeSingle();
+
+  if (!invitation) {
+    return NextResponse.json({ error: 'Invitation not found' }, { status: 404 });
+  }
+
+  const { data: user } = await supabaseAdmin
+    .from('admin_users')
+    .select('id, email')
+    .eq('id', invitation.admin_user_id)
+    .eq('status', 'pending')
+    .maybeSingle();
+
+  if (!user) {
+    return NextResponse.json({ error: 'This user has already activated their account' }, { status: 400 });
+  }
+
+  try {
+    const { token, invitation: reissued } = await issueInvitation(user.id, admin.id);
+    await sendInvitationMail(user.email, token);
+    await recordAudit(req, admin, { action: 'admin_user.invite.resend', entityType: 'admin_user', entityId: user.id });
+    return NextResponse.json({ invitation: reissued });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server';
+import { NextRequest } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { requireCapability } from '@/lib/admin-auth';
+import { recordAudit } from '@/lib/audit';
+
+type Params = { params: Promise<{ id: string }> };
+
+// DELETE /api/admin/invitations/[id] - Revoke an invitation and remove the pending user it created
+export async function DELETE(req: NextRequest, { params }: Params) {
+  let admin;
+  try {
+    admin = await requireCapability(req, 'admin_user.manage');
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unauthorized';
+    return NextResponse.json({ error: message }, { status: 403 });
+  }
+
+  const { id } = await params;
+
+  const { data: invitation } = await supabaseAdmin
+    .from('admin_invitations')
+    .select('id, admin_user_id')
+    .eq('id', id)
+    .is('accepted_at', null)
+    .is('revoked_at', null)
+    .maybeSingle();
+
+  if (!invitation) {
+    return NextResponse.json({ error: 'Invitation not found' }, { status: 404 });
+  }
+
+  // Only ever removes a user who never activated; the invitation goes with it.
+  const { error } = await supabaseAdmin
+    .from('admin_users')
+    .delete()
+    .eq('id', invitation.admin_user_id)
+    .eq('status', 'pending');
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  await recordAudit(req, admin, {
+    action: 'admin_user.invite.revoke',
+    entityType: 'admin_user',
+    entityId: invitation.admin_user_id,
+    before: { invitation_id: invitation.id },
+  });
+  return NextResponse.json({ success: true });
+}
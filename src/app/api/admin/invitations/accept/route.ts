@@ -0,0 +1,73 @@
+import { NextResponse } from 'next/server';
+import bcrypt from 'bcrypt';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { recordAudit } from '@/lib/audit';
+import { consumeInvitation, findOpenInvitation } from '@/lib/invitations';
+import { InvitationAcceptSchema } from '@/lib/validation';
+import { checkNewPassword } from '@/lib/breached-passwords';
+
+// GET /api/admin/invitations/accept?token= - Who an invite link is for, so the page can greet them
+export async function GET(req: Request) {
+  const token = new URL(req.url).searchParams.get('token');
+  const invitation = token ? await findOpenInvitation(token) : null;
+  if (!invitation) {
+    return NextResponse.json({ error: 'This invite link is invalid or has expired' }, { status: 400 });
+  }
+
+  const { data: user } = await supabaseAdmin
+    .from('admin_users')
+    .select('email, role')
+    .eq('id', invitation.admin_user_id)
+    .eq('status', 'pending')
+    .maybeSingle();
+
+  if (!user) {
+    return NextResponse.json({ error: 'This invite link is invalid or has expired' }, { status: 400 });
+  }
+  return NextResponse.json({ email: user.email, role: user.role, expires_at: invitation.expires_at });
+}
+
+// POST /api/admin/invitations/accept - Set a password and activate the invited account
+export async function POST(req: Request) {
+  try {
+    const json = await req.json();
+    const parsed = InvitationAcceptSchema.safeParse(json);
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid payload' }, { status: 400 });
+    }
+
+    const passwordProblem = checkNewPassword(parsed.data.password);
+    if (passwordProblem) {
+      return NextResponse.json({ error: passwordProblem }, { status: 400 });
+    }
+
+    const adminUserId = await consumeInvitation(parsed.data.token);
+    if (!adminUserId) {
+      return NextResponse.json({ error: 'This invite link is invalid or has expired' }, { status: 400 });
+    }
+
+    const passwordHash = await bcrypt.hash(parsed.data.password, 10);
+    const { data, error } = await supabaseAdmin
+      .from('admin_users')
+      .update({ password_hash: passwordHash, status: 'active', password_changed_at: new Date().toISOString() })
+      .eq('id', adminUserId)
+      .eq('status', 'pending')
+      .select('id')
+      .maybeSingle();
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+    if (!data) {
+      return NextResponse.json({ error: 'This account is already active' }, { status: 400 });
+    }
+
+    // Signed out at this point, so the invitee is recorded as the entity rather than the actor.
+    await recordAudit(req, null, { action: 'admin_user.invite.accept', entityType: 'admin_user', entityId: adminUserId });
+
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    console.error('Invitation acceptance failed:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,106 @@
+import { NextResponse } from 'next/server';
+import { NextRequest } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { requireCapability } from '@/lib/admin-auth';
+import { recordAudit } from '@/lib/audit';
+import { issueInvitation, listOpenInvitations, sendInvitationMail } from '@/lib/invitations';
+import { AdminInviteSchema, isVendorRole } from '@/lib/validation';
+import { isAssignableVendor } from '@/lib/vendors';
+
+// GET /api/admin/invitations - List invitations still waiting to be accepted
+export async function GET(req: NextRequest) {
+  try {
+    await requireCapability(req, 'admin_user.manage');
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unauthorized';
+    return NextResponse.json({ error: message }, { status: 403 });
+  }
+
+  try {
+    const invitations = await listOpenInvitations();
+    const userIds = [
+      ...new Set(invitations.flatMap((invitation) => [invitation.admin_user_id, invitation.invited_by]).filter(Boolean)),
+    ] as string[];
+
+    const { data: users } = userIds.length
+      ? await supabaseAdmin.from('admin_users').select('id, email, role, vendor_id').in('id', userIds)
+      : { data: [] as { id: string; email: string; role: string; vendor_id: string | null }[] };
+    const userMap = new Map((users ?? []).map((user) => [user.id, user]));
+
+    return NextResponse.json({
+      invitations: invitations.map((invitation) => {
+        const invitee = userMap.get(invitation.admin_user_id);
+        return {
+          ...invitation,
+          email: invitee?.email ?? null,
+          role: invitee?.role ?? null,
+          vendor_id: invitee?.vendor_id ?? null,
+          invited_by_email: invitation.invited_by ? userMap.get(invitation.invited_by)?.email ?? null : null,
+        };
+      }),
+    });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+// POST /api/admin/invitations - Create a pending admin user and email them an invite link
+export async function POST(req: NextRequest) {
+  let admin;
+  try {
+    admin = await requireCapability(req, 'admin_user.manage');
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unauthorized';
+    return NextResponse.json({ error: message }, { status: 403 });
+  }
+
+  try {
+    const json = await req.json();
+    const parsed = AdminInviteSchema.safeParse(json);
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid payload', details: parsed.error.issues }, { status: 400 });
+    }
+
+    const { email, role, vendor_id } = parsed.data;
+    const resolvedVendorId = isVendorRole(role) ? vendor_id ?? null : null;
+    if (resolvedVendorId && !(await isAssignableVendor(resolvedVendorId))) {
+      return NextResponse.json({ error: 'Vendor not found or archived' }, { status: 400 });
+    }
+
+    const { data: existing } = await supabaseAdmin
+      .from('admin_users')
+      .select('id')
+      .eq('email', email)
+      .maybeSingle();
+
+    if (existing) {
+      return NextResponse.json({ error: 'Email already exists' }, { status: 400 });
+    }
+
+    const { data: user, error } = await supabaseAdmin
+      .from('admin_users')
+      .insert({
+        email,
+        role,
+        vendor_id: resolvedVendorId,
+        status: 'pending',
+        password_hash: null,
+      })
+      .select('id, email, role, vendor_id, status, created_at')
+      .single();
+
+    if (error || !user) {
+      return NextResponse.json({ error: error?.message ?? 'Failed to create user' }, { status: 500 });
+    }
+
+    const { token, invitation } = await issueInvitation(user.id, admin.id);
+    await sendInvitationMail(user.email, token);
+    await recordAudit(req, admin, { action: 'admin_user.invite', entityType: 'admin_user', entityId: user.id, after: user });
+
+    return NextResponse.json({ user, invitation }, { status: 201 });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
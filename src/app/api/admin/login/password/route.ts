@@ -0,0 +1,100 @@
+import { NextResponse } from 'next/server';
+import bcrypt from 'bcrypt';
+import { z } from 'zod';
+import { verifyLoginChallengeJWT } from '@/lib/jwt';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { createAdminSession, setAdminCookie } from '@/lib/admin-sessions';
+import { revokeAllSessions } from '@/lib/admin-session-revocation';
+import { getClientIp } from '@/lib/client-ip';
+import { isTotpRequiredForRole } from '@/lib/admin-totp';
+import { recordAudit } from '@/lib/audit';
+import { checkNewPassword } from '@/lib/breached-passwords';
+import { invalidatePasswordResetTokens } from '@/lib/password-reset';
+import { checkLoginThrottle, recordLoginAttempt, throttledResponse } from '@/lib/login-throttle';
+import { NewPasswordSchema } from '@/lib/validation';
+
+const LoginPasswordChangeSchema = z.object({
+  challenge: z.string().min(1),
+  password: NewPasswordSchema,
+});
+
+// POST /api/admin/login/password - Replace a password that must be changed before signing in.
+// Continues to the two-factor step when the account has one, otherwise signs the user in.
+export async function POST(req: Request) {
+  const parsed = LoginPasswordChangeSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.issues[0]?.message ?? 'Invalid payload' }, { status: 400 });
+  }
+
+  let adminId: string;
+  try {
+    adminId = verifyLoginChallengeJWT(parsed.data.challenge).sub;
+  } catch {
+    return NextResponse.json({ error: 'Login expired, sign in again' }, { status: 401 });
+  }
+
+  try {
+    const { data: user } = await supabaseAdmin
+      .from('admin_users')
+      .select('id, email, role, password_hash, totp_enabled_at, must_change_password')
+      .eq('id', adminId)
+      .single();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Login expired, sign in again' }, { status: 401 });
+    }
+    // The challenge only proves the old password; it is not a standing licence to change it.
+    if (!user.must_change_password) {
+      return NextResponse.json({ error: 'No password change is pending' }, { status: 400 });
+    }
+
+    const ip = getClientIp(req);
+    const attempt = { email: user.email, adminUserId: user.id, ip, userAgent: req.headers.get('user-agent') };
+    const throttle = await checkLoginThrottle({ email: user.email, ip });
+    if (!throttle.allowed) {
+      await recordLoginAttempt({ ...attempt, outcome: throttle.reason });
+      return throttledResponse(throttle);
+    }
+
+    const passwordProblem = checkNewPassword(parsed.data.password);
+    if (passwordProblem) {
+      return NextResponse.json({ error: passwordProblem }, { status: 400 });
+    }
+    if (user.password_hash && (await bcrypt.compare(parsed.data.password, user.password_hash))) {
+      return NextResponse.json({ error: 'Choose a password different from your current one' }, { status: 400 });
+    }
+
+    const { error } = await supabaseAdmin
+      .from('admin_users')
+      .update({
+        password_hash: await bcrypt.hash(parsed.data.password, 10),
+        must_change_password: false,
+        password_changed_at: new Date().toISOString(),
+      })
+      .eq('id', user.id)
+      .eq('must_change_password', true);
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    await invalidatePasswordResetTokens(user.id);
+    await revokeAllSessions(user.id, 'password_changed');
+    await recordAudit(req, null, { action: 'admin_user.password.change', entityType: 'admin_user', entityId: user.id });
+
+    if (user.totp_enabled_at) {
+      return NextResponse.json({ requires_totp: true, challenge: parsed.data.challenge });
+    }
+    if (await isTotpRequiredForRole(user.role)) {
+      return NextResponse.json({ requires_totp_enrollment: true, challenge: parsed.data.challenge });
+    }
+
+    const { token } = await createAdminSession(user.id, req);
+    await recordLoginAttempt({ ...attempt, outcome: 'success' });
+    const res = NextResponse.json({ success: true });
+    setAdminCookie(res, token);
+    return res;
+  } catch {
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
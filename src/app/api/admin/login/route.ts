@@ -2,7 +2,12 @@ import { NextResponse } from 'next/server';
 import bcrypt from 'bcrypt';
 import { supabaseAdmin } from '@/lib/supabaseAdmin';
 import { LoginSchema } from '@/lib/validation';
-import { signAdminJWT } from '@/lib/jwt';
+import { signLoginChallengeJWT } from '@/lib/jwt';
+import { createAdminSession, setAdminCookie } from '@/lib/admin-sessions';
+import { getClientIp } from '@/lib/client-ip';
+import { isTotpRequiredForRole } from '@/lib/admin-totp';
+import { checkNewPassword } from '@/lib/breached-passwords';
+import { checkLoginThrottle, recordLoginAttempt, throttledResponse } from '@/lib/login-throttle';
 
 export async function POST(req: Request) {
   try {
@@ -13,35 +18,72 @@ export async function POST(req: Request) {
     }
 
     const { email, password } = parsed.data;
+    const ip = getClientIp(req);
+    const userAgent = req.headers.get('user-agent');
+
+    const throttle = await checkLoginThrottle({ email, ip });
+    if (!throttle.allowed) {
+      await recordLoginAttempt({ email, ip, userAgent, outcome: throttle.reason });
+      return throttledResponse(throttle);
+    }
 
     const { data: user, error } = await supabaseAdmin
       .from('admin_users')
-      .select('id, password_hash')
+      .select('id, password_hash, role, status, totp_enabled_at, must_change_password, password_login_disabled')
       .eq('email', email)
       .single();
 
     if (error || !user) {
+      await recordLoginAttempt({ email, ip, userAgent, outcome: 'unknown_email' });
+      return NextResponse.json({ error: 'Invalid credentials' }, { status: 401 });
+    }
+
+    // Invited users have no password until they accept their invite, and
+    // accounts created by SSO never had one.
+    if (user.status !== 'active' || !user.password_hash) {
+      const outcome = user.status === 'active' && user.password_login_disabled ? 'password_disabled' : 'inactive_account';
+      await recordLoginAttempt({ email, adminUserId: user.id, ip, userAgent, outcome });
       return NextResponse.json({ error: 'Invalid credentials' }, { status: 401 });
     }
 
     const ok = await bcrypt.compare(password, user.password_hash as unknown as string);
     if (!ok) {
+      await recordLoginAttempt({ email, adminUserId: user.id, ip, userAgent, outcome: 'invalid_password' });
       return NextResponse.json({ error: 'Invalid credentials' }, { status: 401 });
     }
 
-    const token = signAdminJWT(user.id as unknown as string);
+    // Linked to SSO with the local password switched off. Only said once the
+    // password matched, so it tells a guesser nothing about the email.
+    if (user.password_login_disabled) {
+      await recordLoginAttempt({ email, adminUserId: user.id, ip, userAgent, outcome: 'password_disabled' });
+      return NextResponse.json({ error: 'This account signs in with SSO' }, { status: 401 });
+    }
+
+    // A password set before the current policy (or one since found on the
+    // breached list) has to be replaced before anything else.
+    if (!user.must_change_password && checkNewPassword(password)) {
+      await supabaseAdmin.from('admin_users').update({ must_change_password: true }).eq('id', user.id);
+      user.must_change_password = true;
+    }
+    if (user.must_change_password) {
+      return NextResponse.json({ requires_password_change: true, challenge: signLoginChallengeJWT(user.id) });
+    }
+
+    // Second step: no cookie until the TOTP code (or enrollment) is completed.
+    if (user.totp_enabled_at) {
+      return NextResponse.json({ requires_totp: true, challenge: signLoginChallengeJWT(user.id) });
+    }
+    if (await isTotpRequiredForRole(user.role)) {
+      return NextResponse.json({ requires_totp_enrollment: true, challenge: signLoginChallengeJWT(user.id) });
+    }
+
+    const { token } = await createAdminSession(user.id as unknown as string, req);
+    await recordLoginAttempt({ email, adminUserId: user.id, ip, userAgent, outcome: 'success' });
     const res = NextResponse.json({ success: true });
-    res.cookies.set('admin_token', token, {
-      httpOnly: true,
-      sameSite: 'strict',
-      secure: process.env.NODE_ENV === 'production',
-      path: '/',
-      maxAge: 60 * 60 * 24 * 7, // 7 days
-    });
+    setAdminCookie(res, token);
     return res;
   } catch (e) {
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
 }
 
-
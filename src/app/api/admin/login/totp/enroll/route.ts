@@ -0,0 +1,74 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { verifyLoginChallengeJWT } from '@/lib/jwt';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { createAdminSession, setAdminCookie } from '@/lib/admin-sessions';
+import { getClientIp } from '@/lib/client-ip';
+import { confirmTotpEnrollment, startTotpEnrollment } from '@/lib/admin-totp';
+import { checkLoginThrottle, recordLoginAttempt, throttledResponse } from '@/lib/login-throttle';
+
+const LoginEnrollSchema = z.object({
+  challenge: z.string().min(1),
+  code: z.string().min(6).max(6).optional(),
+});
+
+// POST /api/admin/login/totp/enroll - Mandatory enrollment during sign-in.
+// Without `code` it issues a new secret; with `code` it activates it and signs the user in.
+export async function POST(req: Request) {
+  const parsed = LoginEnrollSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid payload' }, { status: 400 });
+  }
+
+  let adminId: string;
+  try {
+    adminId = verifyLoginChallengeJWT(parsed.data.challenge).sub;
+  } catch {
+    return NextResponse.json({ error: 'Login expired, sign in again' }, { status: 401 });
+  }
+
+  try {
+    const { data: user } = await supabaseAdmin
+      .from('admin_users')
+      .select('id, email, totp_enabled_at, must_change_password')
+      .eq('id', adminId)
+      .single();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Login expired, sign in again' }, { status: 401 });
+    }
+    if (user.must_change_password) {
+      return NextResponse.json({ error: 'Choose a new password first' }, { status: 403 });
+    }
+    if (user.totp_enabled_at) {
+      return NextResponse.json({ error: 'Two-factor authentication is already enabled' }, { status: 400 });
+    }
+
+    if (!parsed.data.code) {
+      const enrollment = await startTotpEnrollment(user);
+      return NextResponse.json({ enrollment });
+    }
+
+    const ip = getClientIp(req);
+    const attempt = { email: user.email, adminUserId: user.id, ip, userAgent: req.headers.get('user-agent') };
+    const throttle = await checkLoginThrottle({ email: user.email, ip });
+    if (!throttle.allowed) {
+      await recordLoginAttempt({ ...attempt, outcome: throttle.reason });
+      return throttledResponse(throttle);
+    }
+
+    const recoveryCodes = await confirmTotpEnrollment(adminId, parsed.data.code);
+    if (!recoveryCodes) {
+      await recordLoginAttempt({ ...attempt, outcome: 'invalid_totp' });
+      return NextResponse.json({ error: 'Invalid authentication code' }, { status: 400 });
+    }
+
+    const { token } = await createAdminSession(adminId, req);
+    await recordLoginAttempt({ ...attempt, outcome: 'success' });
+    const res = NextResponse.json({ success: true, recovery_codes: recoveryCodes });
+    setAdminCookie(res, token);
+    return res;
+  } catch {
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,66 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { verifyLoginChallengeJWT } from '@/lib/jwt';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { createAdminSession, setAdminCookie } from '@/lib/admin-sessions';
+import { getClientIp } from '@/lib/client-ip';
+import { verifyTotpForAdmin } from '@/lib/admin-totp';
+import { checkLoginThrottle, recordLoginAttempt, throttledResponse } from '@/lib/login-throttle';
+
+const LoginTotpSchema = z.object({
+  challenge: z.string().min(1),
+  code: z.string().min(6).max(32),
+});
+
+// POST /api/admin/login/totp - Complete a login with a TOTP or recovery code
+export async function POST(req: Request) {
+  const parsed = LoginTotpSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid payload' }, { status: 400 });
+  }
+
+  let adminId: string;
+  try {
+    adminId = verifyLoginChallengeJWT(parsed.data.challenge).sub;
+  } catch {
+    return NextResponse.json({ error: 'Login expired, sign in again' }, { status: 401 });
+  }
+
+  try {
+    const { data: user } = await supabaseAdmin
+      .from('admin_users')
+      .select('id, email, must_change_password')
+      .eq('id', adminId)
+      .single();
+    if (!user) {
+      return NextResponse.json({ error: 'Login expired, sign in again' }, { status: 401 });
+    }
+    if (user.must_change_password) {
+      return NextResponse.json({ error: 'Choose a new password first' }, { status: 403 });
+    }
+
+    const ip = getClientIp(req);
+    const userAgent = req.headers.get('user-agent');
+    const attempt = { email: user.email, adminUserId: user.id, ip, userAgent };
+
+    const throttle = await checkLoginThrottle({ email: user.email, ip });
+    if (!throttle.allowed) {
+      await recordLoginAttempt({ ...attempt, outcome: throttle.reason });
+      return throttledResponse(throttle);
+    }
+
+    const ok = await verifyTotpForAdmin(adminId, parsed.data.code);
+    if (!ok) {
+      await recordLoginAttempt({ ...attempt, outcome: 'invalid_totp' });
+      return NextResponse.json({ error: 'Invalid authentication code' }, { status: 401 });
+    }
+
+    const { token } = await createAdminSession(adminId, req);
+    await recordLoginAttempt({ ...attempt, outcome: 'success' });
+    const res = NextResponse.json({ success: true });
+    setAdminCookie(res, token);
+    return res;
+  } catch {
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
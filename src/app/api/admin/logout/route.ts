@@ -1,16 +1,15 @@
 import { NextResponse } from 'next/server';
+import { NextRequest } from 'next/server';
+import { clearAdminCookie, getAdminTokenClaims } from '@/lib/admin-sessions';
+import { revokeSession } from '@/lib/admin-session-revocation';
 
-export async function POST() {
+export async function POST(req: NextRequest) {
+  const claims = getAdminTokenClaims(req);
+  if (claims) {
+    await revokeSession(claims.sid, 'logout').catch(() => {});
+  }
   const res = NextResponse.json({ success: true });
-  res.cookies.set('admin_token', '', {
-    httpOnly: true,
-    sameSite: 'strict',
-    secure: process.env.NODE_ENV === 'production',
-    path: '/',
-    maxAge: 0,
-    expires: new Date(0),
-  });
+  clearAdminCookie(res);
   return res;
 }
 
-
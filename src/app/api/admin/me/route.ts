@@ -7,5 +7,14 @@ export async function GET(req: NextRequest) {
   if (!admin) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
   }
-  return NextResponse.json({ admin: { id: admin.id, email: admin.email, role: admin.role, vendor_id: admin.vendor_id } });
+  return NextResponse.json({
+    admin: { id: admin.id, email: admin.email, role: admin.role, vendor_id: admin.vendor_id },
+    impersonation: admin.impersonation
+      ? {
+          actor_email: admin.impersonation.actor_email,
+          allow_mutations: admin.impersonation.allow_mutations,
+          expires_at: admin.impersonation.expires_at,
+        }
+      : null,
+  });
 }
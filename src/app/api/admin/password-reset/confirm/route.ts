@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server';
+import bcrypt from 'bcrypt';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { PasswordResetConfirmSchema } from '@/lib/validation';
+import { checkNewPassword } from '@/lib/breached-passwords';
+import { revokeAllSessions } from '@/lib/admin-session-revocation';
+import { getClientIp } from '@/lib/client-ip';
+import { consumePasswordResetToken, invalidatePasswordResetTokens } from '@/lib/password-reset';
+import { recordLoginAttempt } from '@/lib/login-throttle';
+
+// POST /api/admin/password-reset/confirm - Redeem a reset token and set a new password
+export async function POST(req: Request) {
+  try {
+    const json = await req.json();
+    const parsed = PasswordResetConfirmSchema.safeParse(json);
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid payload', details: parsed.error.flatten() }, { status: 400 });
+    }
+
+    // Checked before the token is spent, so a refused password can be retried.
+    const passwordProblem = checkNewPassword(parsed.data.password);
+    if (passwordProblem) {
+      return NextResponse.json({ error: passwordProblem }, { status: 400 });
+    }
+
+    const adminUserId = await consumePasswordResetToken(parsed.data.token);
+    if (!adminUserId) {
+      return NextResponse.json({ error: 'This reset link is invalid or has expired' }, { status: 400 });
+    }
+
+    const passwordHash = await bcrypt.hash(parsed.data.password, 10);
+    const { data: user, error } = await supabaseAdmin
+      .from('admin_users')
+      .update({ password_hash: passwordHash, must_change_password: false, password_changed_at: new Date().toISOString() })
+      .eq('id', adminUserId)
+      .select('id, email')
+      .single();
+
+    if (error || !user) {
+      return NextResponse.json({ error: error?.message ?? 'User not found' }, { status: 500 });
+    }
+
+    // Any other outstanding link and every signed-in device stop working.
+    await invalidatePasswordResetTokens(user.id);
+    await revokeAllSessions(user.id, 'password_reset');
+    await recordLoginAttempt({
+      email: user.email,
+      adminUserId: user.id,
+      ip: getClientIp(req),
+      userAgent: req.headers.get('user-agent'),
+      outcome: 'password_reset',
+    });
+
+    return NextResponse.json({ success: true });
+  } catch {
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { PasswordResetRequestSchema } from '@/lib/validation';
+import { getClientIp } from '@/lib/client-ip';
+import { createPasswordResetToken } from '@/lib/password-reset';
+import { mailUrl, sendMail } from '@/lib/mail';
+
+// POST /api/admin/password-reset - Email a reset link if the account exists
+export async function POST(req: Request) {
+  try {
+    const json = await req.json();
+    const parsed = PasswordResetRequestSchema.safeParse(json);
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid payload' }, { status: 400 });
+    }
+
+    // Resolved up front so a missing APP_URL fails the same way for every email.
+    const resetPage = mailUrl('/reset-password');
+
+    const { data: user } = await supabaseAdmin
+      .from('admin_users')
+      .select('id, email')
+      .eq('email', parsed.data.email)
+      .eq('status', 'active')
+      .eq('password_login_disabled', false)
+      .maybeSingle();
+
+    // Same response whether or not the email is registered, so the endpoint
+    // can't be used to enumerate accounts.
+    if (user) {
+      const token = await createPasswordResetToken(user.id, getClientIp(req));
+      if (token) {
+        const link = `${resetPage}?token=${encodeURIComponent(token)}`;
+        await sendMail({
+          to: user.email,
+          subject: 'Reset your HypeHaus Admin password',
+          text: [
+            'Someone asked to reset the password for your HypeHaus Admin account.',
+            '',
+            'Open this link within 30 minutes to choose a new password:',
+            link,
+            '',
+            'If you did not request this, you can ignore this email.',
+          ].join('\n'),
+        });
+      }
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    console.error('Password reset request failed:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import { NextRequest } from 'next/server';
+import { getCurrentAdmin } from '@/lib/admin-auth';
+import { listCapabilities, type PermissionResource } from '@/lib/permissions';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+
+// GET /api/admin/permissions - Capabilities of the current admin, optionally
+// evaluated against one event (?event_id=) or ad (?ad_id=) so the UI can hide
+// controls the user cannot use.
+export async function GET(req: NextRequest) {
+  const admin = await getCurrentAdmin(req);
+  if (!admin) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const url = new URL(req.url);
+  const eventId = url.searchParams.get('event_id');
+  const adId = url.searchParams.get('ad_id');
+
+  let resource: PermissionResource | undefined;
+  if (eventId || adId) {
+    const { data } = await supabaseAdmin
+      .from(eventId ? 'events' : 'ads')
+      .select('id, vendor_id, status')
+      .eq('id', (eventId ?? adId) as string)
+      .maybeSingle();
+
+    if (!data) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+    resource = data;
+  }
+
+  return NextResponse.json({ role: admin.role, capabilities: listCapabilities(admin, resource) });
+}
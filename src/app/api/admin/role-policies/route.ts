@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server';
+import { NextRequest } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { requireCapability } from '@/lib/admin-auth';
+import { recordAudit } from '@/lib/audit';
+import { listRolePolicies } from '@/lib/admin-totp';
+import { RolePolicyUpdateSchema } from '@/lib/validation';
+
+// GET /api/admin/role-policies - Login policy per role
+export async function GET(req: NextRequest) {
+  try {
+    await requireCapability(req, 'security.manage');
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unauthorized';
+    return NextResponse.json({ error: message }, { status: 403 });
+  }
+
+  try {
+    return NextResponse.json({ policies: await listRolePolicies() });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+// PUT /api/admin/role-policies - Update the policy for one role
+export async function PUT(req: NextRequest) {
+  let admin;
+  try {
+    admin = await requireCapability(req, 'security.manage');
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unauthorized';
+    return NextResponse.json({ error: message }, { status: 403 });
+  }
+
+  const parsed = RolePolicyUpdateSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid payload' }, { status: 400 });
+  }
+
+  const { data: previous } = await supabaseAdmin
+    .from('admin_role_policies')
+    .select('role, require_totp')
+    .eq('role', parsed.data.role)
+    .maybeSingle();
+
+  const { data, error } = await supabaseAdmin
+    .from('admin_role_policies')
+    .upsert({ ...parsed.data, updated_at: new Date().toISOString() }, { onConflict: 'role' })
+    .select('role, require_totp')
+    .single();
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  await recordAudit(req, admin, { action: 'role_policy.update', entityType: 'role_policy', entityId: data.role, before: previous, after: data });
+  return NextResponse.json({ policy: data });
+}
@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import { NextRequest } from 'next/server';
+import { requireAuth } from '@/lib/admin-auth';
+import { clearAdminCookie, getAdminTokenClaims, listActiveSessions } from '@/lib/admin-sessions';
+import { revokeAllSessions } from '@/lib/admin-session-revocation';
+
+// GET /api/admin/sessions - List the current admin's active sessions
+export async function GET(req: NextRequest) {
+  let admin;
+  try {
+    admin = await requireAuth(req);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unauthorized';
+    return NextResponse.json({ error: message }, { status: 401 });
+  }
+
+  try {
+    const currentSessionId = getAdminTokenClaims(req)?.sid ?? null;
+    const sessions = await listActiveSessions(admin.id);
+    return NextResponse.json({
+      sessions: sessions.map((session) => ({ ...session, current: session.id === currentSessionId })),
+    });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+// DELETE /api/admin/sessions - Log out everywhere, including this browser
+export async function DELETE(req: NextRequest) {
+  let admin;
+  try {
+    admin = await requireAuth(req);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unauthorized';
+    return NextResponse.json({ error: message }, { status: 401 });
+  }
+
+  try {
+    await revokeAllSessions(admin.id, 'logout_everywhere');
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+
+  const res = NextResponse.json({ success: true });
+  clearAdminCookie(res);
+  return res;
+}
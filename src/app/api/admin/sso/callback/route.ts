@@ -0,0 +1,105 @@
+import { NextRequest } from 'next/server';
+import { createAdminSession, setAdminCookie } from '@/lib/admin-sessions';
+import { getClientIp } from '@/lib/client-ip';
+import { SSO_STATE_COOKIE, clearSsoStateCookie, resolveSsoAccount, ssoRedirect } from '@/lib/admin-sso';
+import { isTotpRequiredForRole } from '@/lib/admin-totp';
+import { recordAudit } from '@/lib/audit';
+import { signLoginChallengeJWT, verifySsoStateJWT, type SsoStateClaims } from '@/lib/jwt';
+import { appUrl } from '@/lib/mail';
+import { recordLoginAttempt } from '@/lib/login-throttle';
+import { exchangeCode, getOidcConfig, type OidcIdentity } from '@/lib/oidc';
+
+// GET /api/admin/sso/callback - Finish an SSO sign-in the identity provider sent back.
+// Two-factor still applies: accounts with it continue at the code step on /signin.
+export async function GET(req: NextRequest) {
+  const params = req.nextUrl.searchParams;
+  const fail = (error: string) => {
+    const res = ssoRedirect(req, { sso: 'error', error });
+    clearSsoStateCookie(res);
+    return res;
+  };
+
+  let config;
+  try {
+    config = getOidcConfig();
+  } catch (error: unknown) {
+    console.error('SSO configuration error:', error);
+  }
+  if (!config) {
+    return fail('Single sign-on is not configured');
+  }
+
+  const providerError = params.get('error');
+  if (providerError) {
+    return fail(params.get('error_description') || `Sign-in was cancelled (${providerError})`);
+  }
+
+  let state: SsoStateClaims;
+  try {
+    state = verifySsoStateJWT(req.cookies.get(SSO_STATE_COOKIE)?.value ?? '');
+  } catch {
+    return fail('Sign-in expired, try again');
+  }
+  const code = params.get('code');
+  if (!code || params.get('state') !== state.state) {
+    return fail('Sign-in expired, try again');
+  }
+
+  let identity: OidcIdentity;
+  try {
+    identity = await exchangeCode(config, {
+      code,
+      redirectUri: config.redirectUri ?? appUrl(req, '/api/admin/sso/callback'),
+      codeVerifier: state.verifier,
+      nonce: state.nonce,
+    });
+  } catch (error: unknown) {
+    console.error('SSO code exchange failed:', error);
+    return fail('Could not verify your identity with the provider');
+  }
+
+  try {
+    const ip = getClientIp(req);
+    const userAgent = req.headers.get('user-agent');
+    const result = await resolveSsoAccount(config, identity);
+    if (!result.ok) {
+      await recordLoginAttempt({
+        email: identity.email,
+        adminUserId: result.adminUserId,
+        ip,
+        userAgent,
+        outcome: result.outcome,
+      });
+      return fail(result.reason);
+    }
+
+    const { user } = result;
+    if (result.provisioned) {
+      await recordAudit(req, null, { action: 'admin_user.sso.provision', entityType: 'admin_user', entityId: user.id, after: user });
+    } else if (result.linked) {
+      await recordAudit(req, null, {
+        action: 'admin_user.sso.link',
+        entityType: 'admin_user',
+        entityId: user.id,
+        after: { sso_issuer: user.sso_issuer, sso_subject: user.sso_subject },
+      });
+    }
+
+    let res;
+    if (user.totp_enabled_at) {
+      res = ssoRedirect(req, { sso: 'totp', challenge: signLoginChallengeJWT(user.id) });
+    } else if (await isTotpRequiredForRole(user.role)) {
+      res = ssoRedirect(req, { sso: 'enroll', challenge: signLoginChallengeJWT(user.id) });
+    } else {
+      const { token } = await createAdminSession(user.id, req);
+      await recordLoginAttempt({ email: user.email, adminUserId: user.id, ip, userAgent, outcome: 'success' });
+      res = ssoRedirect(req, { sso: 'complete' });
+      setAdminCookie(res, token);
+    }
+    clearSsoStateCookie(res);
+    return res;
+  } catch (error: unknown) {
+    console.error('SSO sign-in failed:', error);
+    return fail('Sign-in failed, try again');
+  }
+}
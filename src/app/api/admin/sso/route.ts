@@ -0,0 +1,13 @@
+import { NextResponse } from 'next/server';
+import { getOidcConfig } from '@/lib/oidc';
+
+// GET /api/admin/sso - Whether single sign-on is offered, for the sign-in page
+export async function GET() {
+  try {
+    const config = getOidcConfig();
+    return NextResponse.json({ enabled: Boolean(config), provider_name: config?.providerName ?? null });
+  } catch (error: unknown) {
+    console.error('SSO configuration error:', error);
+    return NextResponse.json({ enabled: false, provider_name: null });
+  }
+}
@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { setSsoStateCookie, ssoRedirect } from '@/lib/admin-sso';
+import { signSsoStateJWT } from '@/lib/jwt';
+import { appUrl } from '@/lib/mail';
+import { buildAuthorizationUrl, getOidcConfig, randomUrlToken } from '@/lib/oidc';
+
+// GET /api/admin/sso/start - Send the browser to the identity provider
+export async function GET(req: Request) {
+  try {
+    const config = getOidcConfig();
+    if (!config) {
+      return ssoRedirect(req, { sso: 'error', error: 'Single sign-on is not configured' });
+    }
+
+    const state = randomUrlToken();
+    const nonce = randomUrlToken();
+    const verifier = randomUrlToken();
+    const authorizationUrl = await buildAuthorizationUrl(config, {
+      redirectUri: config.redirectUri ?? appUrl(req, '/api/admin/sso/callback'),
+      state,
+      nonce,
+      codeVerifier: verifier,
+    });
+
+    const res = NextResponse.redirect(authorizationUrl);
+    setSsoStateCookie(res, signSsoStateJWT({ state, nonce, verifier }));
+    return res;
+  } catch (error: unknown) {
+    console.error('SSO start failed:', error);
+    return ssoRedirect(req, { sso: 'error', error: 'The identity provider is unavailable' });
+  }
+}
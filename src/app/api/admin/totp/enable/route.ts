@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { NextRequest } from 'next/server';
+import { requireAuth } from '@/lib/admin-auth';
+import { recordAudit } from '@/lib/audit';
+import { confirmTotpEnrollment } from '@/lib/admin-totp';
+
+// POST /api/admin/totp/enable - Confirm the pending secret with a code
+export async function POST(req: NextRequest) {
+  let admin;
+  try {
+    admin = await requireAuth(req);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unauthorized';
+    return NextResponse.json({ error: message }, { status: 401 });
+  }
+
+  const body = await req.json().catch(() => ({}));
+  const code = typeof body?.code === 'string' ? body.code : '';
+
+  try {
+    const recoveryCodes = await confirmTotpEnrollment(admin.id, code);
+    if (!recoveryCodes) {
+      return NextResponse.json({ error: 'Invalid authentication code' }, { status: 400 });
+    }
+    await recordAudit(req, admin, { action: 'admin_user.totp.enable', entityType: 'admin_user', entityId: admin.id });
+    return NextResponse.json({ success: true, recovery_codes: recoveryCodes });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
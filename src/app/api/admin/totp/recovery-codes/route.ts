@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { NextRequest } from 'next/server';
+import { requireAuth } from '@/lib/admin-auth';
+import { recordAudit } from '@/lib/audit';
+import { regenerateRecoveryCodes, verifyTotpForAdmin } from '@/lib/admin-totp';
+
+// POST /api/admin/totp/recovery-codes - Replace all recovery codes
+export async function POST(req: NextRequest) {
+  let admin;
+  try {
+    admin = await requireAuth(req);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unauthorized';
+    return NextResponse.json({ error: message }, { status: 401 });
+  }
+
+  const body = await req.json().catch(() => ({}));
+  const code = typeof body?.code === 'string' ? body.code : '';
+
+  try {
+    if (!(await verifyTotpForAdmin(admin.id, code))) {
+      return NextResponse.json({ error: 'Invalid authentication code' }, { status: 400 });
+    }
+    const recoveryCodes = await regenerateRecoveryCodes(admin.id);
+    await recordAudit(req, admin, { action: 'admin_user.totp.recovery_codes.regenerate', entityType: 'admin_user', entityId: admin.id });
+    return NextResponse.json({ recovery_codes: recoveryCodes });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server';
+import { NextRequest } from 'next/server';
+import { requireAuth } from '@/lib/admin-auth';
+import { recordAudit } from '@/lib/audit';
+import { disableTotp, getTotpStatus, isTotpRequiredForRole, verifyTotpForAdmin } from '@/lib/admin-totp';
+
+// GET /api/admin/totp - Two-factor status for the current admin
+export async function GET(req: NextRequest) {
+  let admin;
+  try {
+    admin = await requireAuth(req);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unauthorized';
+    return NextResponse.json({ error: message }, { status: 401 });
+  }
+
+  try {
+    return NextResponse.json({ totp: await getTotpStatus(admin.id) });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+// DELETE /api/admin/totp - Turn off two-factor (only where the role does not require it)
+export async function DELETE(req: NextRequest) {
+  let admin;
+  try {
+    admin = await requireAuth(req);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unauthorized';
+    return NextResponse.json({ error: message }, { status: 401 });
+  }
+
+  const body = await req.json().catch(() => ({}));
+  const code = typeof body?.code === 'string' ? body.code : '';
+
+  try {
+    if (await isTotpRequiredForRole(admin.role)) {
+      return NextResponse.json({ error: 'Two-factor authentication is required for your role' }, { status: 403 });
+    }
+    if (!(await verifyTotpForAdmin(admin.id, code))) {
+      return NextResponse.json({ error: 'Invalid authentication code' }, { status: 400 });
+    }
+    await disableTotp(admin.id);
+    await recordAudit(req, admin, { action: 'admin_user.totp.disable', entityType: 'admin_user', entityId: admin.id });
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { NextRequest } from 'next/server';
+import { requireAuth } from '@/lib/admin-auth';
+import { getTotpStatus, startTotpEnrollment } from '@/lib/admin-totp';
+
+// POST /api/admin/totp/setup - Issue a provisioning secret and QR code
+export async function POST(req: NextRequest) {
+  let admin;
+  try {
+    admin = await requireAuth(req);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unauthorized';
+    return NextResponse.json({ error: message }, { status: 401 });
+  }
+
+  try {
+    const status = await getTotpStatus(admin.id);
+    if (status.enabled) {
+      return NextResponse.json({ error: 'Two-factor authentication is already enabled' }, { status: 400 });
+    }
+    return NextResponse.json({ enrollment: await startTotpEnrollment(admin) });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
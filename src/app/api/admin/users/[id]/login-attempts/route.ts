@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import { NextRequest } from 'next/server';
+import { requireCapability } from '@/lib/admin-auth';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+
+type Params = { params: Promise<{ id: string }> };
+
+// GET /api/admin/users/[id]/login-attempts - Recent sign-ins and failures for a user
+export async function GET(req: NextRequest, { params }: Params) {
+  try {
+    await requireCapability(req, 'admin_user.manage');
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unauthorized';
+    return NextResponse.json({ error: message }, { status: 403 });
+  }
+
+  const { id } = await params;
+  const { data: user } = await supabaseAdmin
+    .from('admin_users')
+    .select('id, email')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (!user) {
+    return NextResponse.json({ error: 'User not found' }, { status: 404 });
+  }
+
+  // Match on email too, so attempts made before the row existed (or against a
+  // since-changed address) still show up.
+  const { data, error } = await supabaseAdmin
+    .from('admin_login_attempts')
+    .select('id, email, ip, user_agent, outcome, created_at')
+    .or(`admin_user_id.eq.${user.id},email.eq."${user.email.toLowerCase()}"`)
+    .order('created_at', { ascending: false })
+    .limit(100);
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({ attempts: data ?? [] });
+}
@@ -1,16 +1,23 @@
 import { NextResponse } from 'next/server';
 import { NextRequest } from 'next/server';
 import bcrypt from 'bcrypt';
-import { requireAdmin } from '@/lib/admin-auth';
+import { requireCapability } from '@/lib/admin-auth';
+import { findAdminUserReferences } from '@/lib/admin-suspension';
+import { recordAudit } from '@/lib/audit';
+import { checkNewPassword } from '@/lib/breached-passwords';
+import { getAdminTokenClaims } from '@/lib/admin-sessions';
+import { revokeAllSessions } from '@/lib/admin-session-revocation';
+import { invalidatePasswordResetTokens } from '@/lib/password-reset';
 import { supabaseAdmin } from '@/lib/supabaseAdmin';
-import { AdminUserUpdateSchema } from '@/lib/validation';
+import { AdminUserUpdateSchema, isVendorRole } from '@/lib/validation';
+import { isAssignableVendor } from '@/lib/vendors';
 
 type Params = { params: Promise<{ id: string }> };
 
 // PATCH /api/admin/users/[id] - Update admin user
 export async function PATCH(req: NextRequest, { params }: Params) {
   try {
-    await requireAdmin(req);
+    const admin = await requireCapability(req, 'admin_user.manage');
     const { id } = await params;
 
     const json = await req.json();
@@ -20,20 +27,19 @@ export async function PATCH(req: NextRequest, { params }: Params) {
     }
 
     const updates: any = {};
-    if (parsed.data.vendor_id && parsed.data.role !== 'vendor_moderator') {
-      if (!parsed.data.role) {
-        const { data: existingRole } = await supabaseAdmin
-          .from('admin_users')
-          .select('role')
-          .eq('id', id)
-          .single();
-        if (existingRole?.role !== 'vendor_moderator') {
-          return NextResponse.json({ error: 'vendor_id is only allowed for vendor moderators' }, { status: 400 });
-        }
-      } else {
-        return NextResponse.json({ error: 'vendor_id is only allowed for vendor moderators' }, { status: 400 });
+    if (parsed.data.vendor_id && !parsed.data.role) {
+      const { data: existingRole } = await supabaseAdmin
+        .from('admin_users')
+        .select('role')
+        .eq('id', id)
+        .single();
+      if (!isVendorRole(existingRole?.role)) {
+        return NextResponse.json({ error: 'vendor_id is only allowed for vendor roles' }, { status: 400 });
       }
     }
+    if (parsed.data.vendor_id && !(await isAssignableVendor(parsed.data.vendor_id))) {
+      return NextResponse.json({ error: 'Vendor not found or archived' }, { status: 400 });
+    }
     if (parsed.data.email) {
       // Check if email already exists (excluding current user)
       const { data: existing } = await supabaseAdmin
@@ -50,12 +56,37 @@ export async function PATCH(req: NextRequest, { params }: Params) {
     }
 
     if (parsed.data.password) {
+      const passwordProblem = checkNewPassword(parsed.data.password);
+      if (passwordProblem) {
+        return NextResponse.json({ error: passwordProblem }, { status: 400 });
+      }
       updates.password_hash = await bcrypt.hash(parsed.data.password, 10);
+      updates.password_changed_at = new Date().toISOString();
+    }
+
+    if (parsed.data.must_change_password !== undefined) {
+      updates.must_change_password = parsed.data.must_change_password;
+    }
+
+    if (parsed.data.password_login_disabled !== undefined) {
+      if (parsed.data.password_login_disabled) {
+        const { data: linked } = await supabaseAdmin
+          .from('admin_users')
+          .select('sso_subject')
+          .eq('id', id)
+          .maybeSingle();
+        if (!linked?.sso_subject) {
+          return NextResponse.json({ error: 'Password sign-in can only be turned off once SSO is linked' }, { status: 400 });
+        }
+        // There is no password left to change.
+        updates.must_change_password = false;
+      }
+      updates.password_login_disabled = parsed.data.password_login_disabled;
     }
 
     if (parsed.data.role) {
       updates.role = parsed.data.role;
-      if (parsed.data.role !== 'vendor_moderator') {
+      if (!isVendorRole(parsed.data.role)) {
         updates.vendor_id = null;
       }
     }
@@ -68,11 +99,17 @@ export async function PATCH(req: NextRequest, { params }: Params) {
       return NextResponse.json({ error: 'No updates provided' }, { status: 400 });
     }
 
+    const { data: previous } = await supabaseAdmin
+      .from('admin_users')
+      .select('id, email, role, vendor_id, must_change_password, password_login_disabled, created_at')
+      .eq('id', id)
+      .maybeSingle();
+
     const { data, error } = await supabaseAdmin
       .from('admin_users')
       .update(updates)
       .eq('id', id)
-      .select('id, email, role, vendor_id, created_at')
+      .select('id, email, role, vendor_id, must_change_password, password_login_disabled, created_at')
       .single();
 
     if (error) {
@@ -83,6 +120,25 @@ export async function PATCH(req: NextRequest, { params }: Params) {
       return NextResponse.json({ error: 'User not found' }, { status: 404 });
     }
 
+    // A new password or role invalidates every token issued under the old one.
+    const passwordChanged = Boolean(updates.password_hash);
+    const roleChanged = Boolean(updates.role) && previous?.role !== data.role;
+    if (passwordChanged || roleChanged) {
+      await revokeAllSessions(
+        id,
+        passwordChanged ? 'password_changed' : 'role_changed',
+        getAdminTokenClaims(req)?.sid
+      );
+    }
+    if (passwordChanged || updates.password_login_disabled) {
+      await invalidatePasswordResetTokens(id);
+    }
+
+    await recordAudit(req, admin, { action: 'admin_user.update', entityType: 'admin_user', entityId: id, before: previous, after: data });
+    if (passwordChanged) {
+      await recordAudit(req, admin, { action: 'admin_user.password.set', entityType: 'admin_user', entityId: id });
+    }
+
     return NextResponse.json({ user: data });
   } catch (error: any) {
     if (error.message.includes('Unauthorized')) {
@@ -92,10 +148,11 @@ export async function PATCH(req: NextRequest, { params }: Params) {
   }
 }
 
-// DELETE /api/admin/users/[id] - Delete admin user
+// DELETE /api/admin/users/[id] - Delete an admin user that nothing refers to.
+// Anyone with history (ads, refunds, scans) has to be suspended instead.
 export async function DELETE(req: NextRequest, { params }: Params) {
   try {
-    const currentAdmin = await requireAdmin(req);
+    const currentAdmin = await requireCapability(req, 'admin_user.manage');
     const { id } = await params;
 
     // Prevent deleting yourself
@@ -103,6 +160,25 @@ export async function DELETE(req: NextRequest, { params }: Params) {
       return NextResponse.json({ error: 'Cannot delete your own account' }, { status: 400 });
     }
 
+    const { data: existing } = await supabaseAdmin
+      .from('admin_users')
+      .select('id, email, role, vendor_id, status, created_at')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (!existing) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const references = await findAdminUserReferences(id);
+    if (references.length > 0) {
+      const summary = references.map((reference) => `${reference.count} ${reference.label}`).join(', ');
+      return NextResponse.json(
+        { error: `This user is referenced by ${summary}. Suspend the account instead.`, references },
+        { status: 409 }
+      );
+    }
+
     const { error } = await supabaseAdmin
       .from('admin_users')
       .delete()
@@ -112,6 +188,8 @@ export async function DELETE(req: NextRequest, { params }: Params) {
       return NextResponse.json({ error: error.message }, { status: 500 });
     }
 
+    await recordAudit(req, currentAdmin, { action: 'admin_user.delete', entityType: 'admin_user', entityId: id, before: existing });
+
     return NextResponse.json({ success: true });
   } catch (error: any) {
     if (error.message.includes('Unauthorized')) {
@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { NextRequest } from 'next/server';
+import { requireCapability } from '@/lib/admin-auth';
+import { recordAudit } from '@/lib/audit';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { revokeSession } from '@/lib/admin-session-revocation';
+
+type Params = { params: Promise<{ id: string; sessionId: string }> };
+
+// DELETE /api/admin/users/[id]/sessions/[sessionId] - Revoke a single session
+export async function DELETE(req: NextRequest, { params }: Params) {
+  let admin;
+  try {
+    admin = await requireCapability(req, 'admin_user.manage');
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unauthorized';
+    return NextResponse.json({ error: message }, { status: 403 });
+  }
+
+  const { id, sessionId } = await params;
+  const { data: session } = await supabaseAdmin
+    .from('admin_sessions')
+    .select('id')
+    .eq('id', sessionId)
+    .eq('admin_user_id', id)
+    .maybeSingle();
+
+  if (!session) {
+    return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+  }
+
+  try {
+    await revokeSession(sessionId, 'revoked_by_admin');
+    await recordAudit(req, admin, { action: 'admin_session.revoke', entityType: 'admin_session', entityId: sessionId, before: { admin_user_id: id } });
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
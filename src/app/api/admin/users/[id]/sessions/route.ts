@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server';
+import { NextRequest } from 'next/server';
+import { requireCapability } from '@/lib/admin-auth';
+import { recordAudit } from '@/lib/audit';
+import { getAdminTokenClaims, listActiveSessions } from '@/lib/admin-sessions';
+import { revokeAllSessions } from '@/lib/admin-session-revocation';
+
+type Params = { params: Promise<{ id: string }> };
+
+// GET /api/admin/users/[id]/sessions - List a user's active sessions
+export async function GET(req: NextRequest, { params }: Params) {
+  try {
+    await requireCapability(req, 'admin_user.manage');
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unauthorized';
+    return NextResponse.json({ error: message }, { status: 403 });
+  }
+
+  const { id } = await params;
+  try {
+    const currentSessionId = getAdminTokenClaims(req)?.sid ?? null;
+    const sessions = await listActiveSessions(id);
+    return NextResponse.json({
+      sessions: sessions.map((session) => ({ ...session, current: session.id === currentSessionId })),
+    });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+// DELETE /api/admin/users/[id]/sessions - Revoke all of a user's sessions
+export async function DELETE(req: NextRequest, { params }: Params) {
+  let admin;
+  try {
+    admin = await requireCapability(req, 'admin_user.manage');
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unauthorized';
+    return NextResponse.json({ error: message }, { status: 403 });
+  }
+
+  const { id } = await params;
+  try {
+    // Never log the acting admin out of the browser they are using right now.
+    await revokeAllSessions(id, 'revoked_by_admin', getAdminTokenClaims(req)?.sid);
+    await recordAudit(req, admin, { action: 'admin_user.sessions.revoke_all', entityType: 'admin_user', entityId: id });
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import { NextRequest } from 'next/server';
+import { requireCapability } from '@/lib/admin-auth';
+import { recordAudit } from '@/lib/audit';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+
+type Params = { params: Promise<{ id: string }> };
+
+// DELETE /api/admin/users/[id]/sso - Unlink a user's SSO identity and turn password
+// sign-in back on. Their next SSO sign-in links whichever identity has their email.
+export async function DELETE(req: NextRequest, { params }: Params) {
+  let admin;
+  try {
+    admin = await requireCapability(req, 'admin_user.manage');
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unauthorized';
+    return NextResponse.json({ error: message }, { status: 403 });
+  }
+
+  const { id } = await params;
+  try {
+    const { data: before } = await supabaseAdmin
+      .from('admin_users')
+      .select('id, sso_issuer, sso_subject, sso_linked_at, password_login_disabled')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (!before?.sso_subject) {
+      return NextResponse.json({ error: 'User has no linked SSO identity' }, { status: 400 });
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('admin_users')
+      .update({ sso_issuer: null, sso_subject: null, sso_linked_at: null, password_login_disabled: false })
+      .eq('id', id)
+      .select('id, sso_issuer, sso_subject, sso_linked_at, password_login_disabled')
+      .single();
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    await recordAudit(req, admin, { action: 'admin_user.sso.unlink', entityType: 'admin_user', entityId: id, before, after: data });
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,85 @@
+import { NextResponse } from 'next/server';
+import { NextRequest } from 'next/server';
+import { requireCapability } from '@/lib/admin-auth';
+import { reinstateAdminUser, suspendAdminUser } from '@/lib/admin-suspension';
+import { recordAudit } from '@/lib/audit';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { AdminUserSuspendSchema } from '@/lib/validation';
+
+type Params = { params: Promise<{ id: string }> };
+
+// POST /api/admin/users/[id]/suspension - Suspend a user; takes effect on their next request
+export async function POST(req: NextRequest, { params }: Params) {
+  let admin;
+  try {
+    admin = await requireCapability(req, 'admin_user.manage');
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unauthorized';
+    return NextResponse.json({ error: message }, { status: 403 });
+  }
+
+  const { id } = await params;
+  if (id === admin.id) {
+    return NextResponse.json({ error: 'Cannot suspend your own account' }, { status: 400 });
+  }
+
+  const parsed = AdminUserSuspendSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.issues[0]?.message ?? 'Invalid payload' }, { status: 400 });
+  }
+
+  try {
+    const { data: before } = await supabaseAdmin
+      .from('admin_users')
+      .select('id, email, role, vendor_id, status, suspended_at, suspended_reason, suspended_by')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (!before) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const suspended = await suspendAdminUser(id, parsed.data.reason, admin.id);
+    if (!suspended) {
+      return NextResponse.json({ error: 'Only active users can be suspended' }, { status: 400 });
+    }
+    const { user } = suspended;
+
+    await recordAudit(req, admin, { action: 'admin_user.suspend', entityType: 'admin_user', entityId: id, before, after: user });
+    return NextResponse.json({ user });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+// DELETE /api/admin/users/[id]/suspension - Lift a suspension; the user signs in again as normal
+export async function DELETE(req: NextRequest, { params }: Params) {
+  let admin;
+  try {
+    admin = await requireCapability(req, 'admin_user.manage');
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unauthorized';
+    return NextResponse.json({ error: message }, { status: 403 });
+  }
+
+  const { id } = await params;
+  try {
+    const { data: before } = await supabaseAdmin
+      .from('admin_users')
+      .select('id, email, role, vendor_id, status, suspended_at, suspended_reason, suspended_by')
+      .eq('id', id)
+      .maybeSingle();
+
+    const user = before ? await reinstateAdminUser(id) : null;
+    if (!user) {
+      return NextResponse.json({ error: 'User is not suspended' }, { status: 400 });
+    }
+
+    await recordAudit(req, admin, { action: 'admin_user.reinstate', entityType: 'admin_user', entityId: id, before, after: user });
+    return NextResponse.json({ user });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { NextRequest } from 'next/server';
+import { requireCapability } from '@/lib/admin-auth';
+import { recordAudit } from '@/lib/audit';
+import { disableTotp } from '@/lib/admin-totp';
+
+type Params = { params: Promise<{ id: string }> };
+
+// DELETE /api/admin/users/[id]/totp - Reset a user's two-factor (lost device).
+// If their role requires 2FA they will be asked to enroll again at next sign-in.
+export async function DELETE(req: NextRequest, { params }: Params) {
+  let admin;
+  try {
+    admin = await requireCapability(req, 'admin_user.manage');
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unauthorized';
+    return NextResponse.json({ error: message }, { status: 403 });
+  }
+
+  const { id } = await params;
+  try {
+    await disableTotp(id);
+    await recordAudit(req, admin, { action: 'admin_user.totp.reset', entityType: 'admin_user', entityId: id });
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -2,24 +2,41 @@ import { NextResponse } from 'next/server';
 import { NextRequest } from 'next/server';
 import bcrypt from 'bcrypt';
 import { supabaseAdmin } from '@/lib/supabaseAdmin';
-import { AdminUserCreateSchema } from '@/lib/validation';
-import { requireAdmin } from '@/lib/admin-auth';
+import { AdminUserCreateSchema, isVendorRole } from '@/lib/validation';
+import { requireCapability } from '@/lib/admin-auth';
+import { recordAudit } from '@/lib/audit';
+import { checkNewPassword } from '@/lib/breached-passwords';
+import { isAssignableVendor } from '@/lib/vendors';
 
 // GET /api/admin/users - List all admin users
 export async function GET(req: NextRequest) {
   try {
-    await requireAdmin(req);
+    await requireCapability(req, 'admin_user.manage');
 
     const { data, error } = await supabaseAdmin
       .from('admin_users')
-      .select('id, email, role, vendor_id, created_at')
+      .select('id, email, role, vendor_id, status, created_at, totp_enabled_at, must_change_password, suspended_at, suspended_reason, sso_linked_at, password_login_disabled')
       .order('created_at', { ascending: false });
 
     if (error) {
       return NextResponse.json({ error: error.message }, { status: 500 });
     }
 
-    return NextResponse.json({ users: data || [] });
+    // Failed sign-ins in the last 24h, to surface credential stuffing at a glance
+    const { data: failures } = await supabaseAdmin
+      .from('admin_login_attempts')
+      .select('admin_user_id')
+      .in('outcome', ['invalid_password', 'invalid_totp'])
+      .not('admin_user_id', 'is', null)
+      .gt('created_at', new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString());
+
+    const failureCounts: Record<string, number> = {};
+    for (const row of failures ?? []) {
+      failureCounts[row.admin_user_id] = (failureCounts[row.admin_user_id] ?? 0) + 1;
+    }
+
+    const users = (data ?? []).map((user) => ({ ...user, failed_logins_24h: failureCounts[user.id] ?? 0 }));
+    return NextResponse.json({ users });
   } catch (error: any) {
     if (error.message.includes('Unauthorized')) {
       return NextResponse.json({ error: error.message }, { status: 403 });
@@ -31,7 +48,7 @@ export async function GET(req: NextRequest) {
 // POST /api/admin/users - Create new admin user
 export async function POST(req: NextRequest) {
   try {
-    await requireAdmin(req);
+    const admin = await requireCapability(req, 'admin_user.manage');
 
     const json = await req.json();
     const parsed = AdminUserCreateSchema.safeParse(json);
@@ -39,8 +56,15 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: 'Invalid payload' }, { status: 400 });
     }
 
-    const { email, password, role, vendor_id } = parsed.data;
-    const resolvedVendorId = role === 'vendor_moderator' ? vendor_id ?? null : null;
+    const { email, password, role, vendor_id, must_change_password } = parsed.data;
+    const passwordProblem = checkNewPassword(password);
+    if (passwordProblem) {
+      return NextResponse.json({ error: passwordProblem }, { status: 400 });
+    }
+    const resolvedVendorId = isVendorRole(role) ? vendor_id ?? null : null;
+    if (resolvedVendorId && !(await isAssignableVendor(resolvedVendorId))) {
+      return NextResponse.json({ error: 'Vendor not found or archived' }, { status: 400 });
+    }
 
     // Check if email already exists
     const { data: existing } = await supabaseAdmin
@@ -56,14 +80,23 @@ export async function POST(req: NextRequest) {
     const passwordHash = await bcrypt.hash(password, 10);
     const { data, error } = await supabaseAdmin
       .from('admin_users')
-      .insert({ email, password_hash: passwordHash, role, vendor_id: resolvedVendorId })
-      .select('id, email, role, vendor_id, created_at')
+      .insert({
+        email,
+        password_hash: passwordHash,
+        role,
+        vendor_id: resolvedVendorId,
+        must_change_password: must_change_password ?? false,
+        password_changed_at: new Date().toISOString(),
+      })
+      .select('id, email, role, vendor_id, must_change_password, created_at')
       .single();
 
     if (error) {
       return NextResponse.json({ error: error.message }, { status: 500 });
     }
 
+    await recordAudit(req, admin, { action: 'admin_user.create', entityType: 'admin_user', entityId: data.id, after: data });
+
     return NextResponse.json({ user: data }, { status: 201 });
   } catch (error: any) {
     if (error.message.includes('Unauthorized')) {
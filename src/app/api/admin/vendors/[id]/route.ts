@@ -0,0 +1,139 @@
+import { NextResponse } from 'next/server';
+import { NextRequest } from 'next/server';
+import { requireCapability } from '@/lib/admin-auth';
+import { recordAudit } from '@/lib/audit';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { VENDOR_COLUMNS, findVendorReferences } from '@/lib/vendors';
+import { VendorUpdateSchema } from '@/lib/validation';
+
+type Params = { params: Promise<{ id: string }> };
+
+// GET /api/admin/vendors/[id] - Vendor details, including payout details, and its members
+export async function GET(req: NextRequest, { params }: Params) {
+  try {
+    await requireCapability(req, 'vendor.manage');
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unauthorized';
+    return NextResponse.json({ error: message }, { status: 403 });
+  }
+
+  const { id } = await params;
+  try {
+    const { data: vendor, error } = await supabaseAdmin.from('vendors').select(VENDOR_COLUMNS).eq('id', id).maybeSingle();
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+    if (!vendor) {
+      return NextResponse.json({ error: 'Vendor not found' }, { status: 404 });
+    }
+
+    const { data: members } = await supabaseAdmin
+      .from('admin_users')
+      .select('id, email, role, status, created_at')
+      .eq('vendor_id', id)
+      .order('email', { ascending: true });
+
+    return NextResponse.json({ vendor, members: members ?? [] });
+  } catch {
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// PATCH /api/admin/vendors/[id] - Update a vendor's profile, payout details or status
+export async function PATCH(req: NextRequest, { params }: Params) {
+  let admin;
+  try {
+    admin = await requireCapability(req, 'vendor.manage');
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unauthorized';
+    return NextResponse.json({ error: message }, { status: 403 });
+  }
+
+  const parsed = VendorUpdateSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.issues[0]?.message ?? 'Invalid payload' }, { status: 400 });
+  }
+  if (Object.keys(parsed.data).length === 0) {
+    return NextResponse.json({ error: 'No updates provided' }, { status: 400 });
+  }
+
+  const { id } = await params;
+  try {
+    const { data: before } = await supabaseAdmin.from('vendors').select(VENDOR_COLUMNS).eq('id', id).maybeSingle();
+    if (!before) {
+      return NextResponse.json({ error: 'Vendor not found' }, { status: 404 });
+    }
+
+    // Archiving is for organizations nobody works for any more.
+    if (parsed.data.status === 'archived' && before.status !== 'archived') {
+      const { count } = await supabaseAdmin
+        .from('admin_users')
+        .select('*', { count: 'exact', head: true })
+        .eq('vendor_id', id)
+        .eq('status', 'active');
+      if (count) {
+        return NextResponse.json(
+          { error: `This vendor still has ${count} active member${count === 1 ? '' : 's'}. Suspend or reassign them first.` },
+          { status: 409 }
+        );
+      }
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('vendors')
+      .update({ ...parsed.data, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select(VENDOR_COLUMNS)
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json({ error: 'A vendor with this name or GSTIN already exists' }, { status: 400 });
+      }
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    await recordAudit(req, admin, { action: 'vendor.update', entityType: 'vendor', entityId: id, before, after: data });
+    return NextResponse.json({ vendor: data });
+  } catch {
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE /api/admin/vendors/[id] - Delete a vendor that owns nothing; archive it otherwise
+export async function DELETE(req: NextRequest, { params }: Params) {
+  let admin;
+  try {
+    admin = await requireCapability(req, 'vendor.manage');
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unauthorized';
+    return NextResponse.json({ error: message }, { status: 403 });
+  }
+
+  const { id } = await params;
+  try {
+    const { data: before } = await supabaseAdmin.from('vendors').select(VENDOR_COLUMNS).eq('id', id).maybeSingle();
+    if (!before) {
+      return NextResponse.json({ error: 'Vendor not found' }, { status: 404 });
+    }
+
+    const references = await findVendorReferences(id);
+    if (references.length > 0) {
+      const summary = references.map((reference) => `${reference.count} ${reference.label}`).join(', ');
+      return NextResponse.json(
+        { error: `This vendor still has ${summary}. Archive it instead.`, references },
+        { status: 409 }
+      );
+    }
+
+    const { error } = await supabaseAdmin.from('vendors').delete().eq('id', id);
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    await recordAudit(req, admin, { action: 'vendor.delete', entityType: 'vendor', entityId: id, before });
+    return NextResponse.json({ success: true });
+  } catch {
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
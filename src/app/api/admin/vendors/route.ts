@@ -1,23 +1,44 @@
 import { NextResponse } from 'next/server';
 import { NextRequest } from 'next/server';
 import { supabaseAdmin } from '@/lib/supabaseAdmin';
-import { requireAdmin } from '@/lib/admin-auth';
+import { requireCapability } from '@/lib/admin-auth';
+import { recordAudit } from '@/lib/audit';
+import { VENDOR_COLUMNS, VENDOR_SUMMARY_COLUMNS } from '@/lib/vendors';
+import { VendorCreateSchema } from '@/lib/validation';
 
+// GET /api/admin/vendors - List vendor organizations with their member counts.
+// Archived vendors are only included with ?status=all or ?status=archived.
 export async function GET(req: NextRequest) {
   try {
-    await requireAdmin(req);
+    await requireCapability(req, 'vendor.view');
 
-    const { data, error } = await supabaseAdmin
-      .from('admin_users')
-      .select('id, email')
-      .eq('role', 'vendor')
-      .order('email', { ascending: true });
+    const status = req.nextUrl.searchParams.get('status') ?? 'active';
+    let query = supabaseAdmin
+      .from('vendors')
+      .select(VENDOR_SUMMARY_COLUMNS)
+      .order('name', { ascending: true });
+    if (status !== 'all') {
+      query = query.eq('status', status === 'archived' ? 'archived' : 'active');
+    }
+
+    const { data, error } = await query;
 
     if (error) {
       return NextResponse.json({ error: error.message }, { status: 500 });
     }
 
-    return NextResponse.json({ vendors: data || [] });
+    const vendorIds = (data ?? []).map((vendor) => vendor.id);
+    const { data: members } = vendorIds.length
+      ? await supabaseAdmin.from('admin_users').select('vendor_id').in('vendor_id', vendorIds)
+      : { data: [] as { vendor_id: string }[] };
+    const memberCounts = new Map<string, number>();
+    for (const member of members ?? []) {
+      memberCounts.set(member.vendor_id, (memberCounts.get(member.vendor_id) ?? 0) + 1);
+    }
+
+    return NextResponse.json({
+      vendors: (data ?? []).map((vendor) => ({ ...vendor, member_count: memberCounts.get(vendor.id) ?? 0 })),
+    });
   } catch (error: any) {
     if (error.message.includes('Unauthorized')) {
       return NextResponse.json({ error: error.message }, { status: 403 });
@@ -25,3 +46,36 @@ export async function GET(req: NextRequest) {
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
 }
+
+// POST /api/admin/vendors - Create a vendor organization
+export async function POST(req: NextRequest) {
+  let admin;
+  try {
+    admin = await requireCapability(req, 'vendor.manage');
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unauthorized';
+    return NextResponse.json({ error: message }, { status: 403 });
+  }
+
+  const parsed = VendorCreateSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.issues[0]?.message ?? 'Invalid payload' }, { status: 400 });
+  }
+
+  try {
+    const { data, error } = await supabaseAdmin.from('vendors').insert(parsed.data).select(VENDOR_COLUMNS).single();
+
+    if (error) {
+      // Unique violations on the name or GSTIN indexes
+      if (error.code === '23505') {
+        return NextResponse.json({ error: 'A vendor with this name or GSTIN already exists' }, { status: 400 });
+      }
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    await recordAudit(req, admin, { action: 'vendor.create', entityType: 'vendor', entityId: data.id, after: data });
+    return NextResponse.json({ vendor: data }, { status: 201 });
+  } catch {
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,22 +1,21 @@
 import { NextResponse } from 'next/server';
 import { NextRequest } from 'next/server';
 import { supabaseAdmin } from '@/lib/supabaseAdmin';
-import { getVendorScopeId, requireAuth } from '@/lib/admin-auth';
+import { requireCapability } from '@/lib/admin-auth';
+import { can } from '@/lib/permissions';
 import { AdUpdateSchema } from '@/lib/validation';
+import { recordAudit } from '@/lib/audit';
+import { isAssignableVendor } from '@/lib/vendors';
 
 type Params = { params: Promise<{ id: string }> };
 
 export async function PATCH(req: NextRequest, { params }: Params) {
   let admin;
   try {
-    admin = await requireAuth(req);
+    admin = await requireCapability(req, 'ad.edit');
   } catch (error: unknown) {
     const message = error instanceof Error ? error.message : 'Unauthorized';
-    return NextResponse.json({ error: message }, { status: 401 });
-  }
-
-  if (admin.role === 'vendor_moderator') {
-    return NextResponse.json({ error: 'Unauthorized: Insufficient permissions' }, { status: 403 });
+    return NextResponse.json({ error: message }, { status: 403 });
   }
 
   const { id } = await params;
@@ -31,14 +30,11 @@ export async function PATCH(req: NextRequest, { params }: Params) {
     return NextResponse.json({ error: 'Ad not found' }, { status: 404 });
   }
 
-  const vendorScopeId = getVendorScopeId(admin);
-  if (admin.role === 'vendor') {
-    if (!vendorScopeId || current.vendor_id !== vendorScopeId) {
-      return NextResponse.json({ error: 'Unauthorized: Ad access denied' }, { status: 403 });
-    }
-    if (current.status !== 'pending') {
-      return NextResponse.json({ error: 'Only pending ads can be edited by vendors' }, { status: 403 });
-    }
+  if (!can(admin, 'ad.view', current)) {
+    return NextResponse.json({ error: 'Unauthorized: Ad access denied' }, { status: 403 });
+  }
+  if (!can(admin, 'ad.edit', current)) {
+    return NextResponse.json({ error: 'Only pending ads can be edited by vendors' }, { status: 403 });
   }
 
   try {
@@ -50,12 +46,15 @@ export async function PATCH(req: NextRequest, { params }: Params) {
 
     const updates = parsed.data as Record<string, unknown>;
 
-    // Vendors cannot change workflow state or ownership.
-    if (admin.role === 'vendor') {
+    // Without review rights the workflow state and ownership are fixed.
+    if (!can(admin, 'ad.approve', current)) {
       delete updates.status;
       delete updates.vendor_id;
       delete updates.created_by;
     }
+    if (updates.vendor_id && updates.vendor_id !== current.vendor_id && !(await isAssignableVendor(updates.vendor_id as string))) {
+      return NextResponse.json({ error: 'Vendor not found or archived' }, { status: 400 });
+    }
 
     // Normalize date fields to ISO strings if Date objects were passed
     if (updates.start_at instanceof Date) updates.start_at = updates.start_at.toISOString();
@@ -65,6 +64,7 @@ export async function PATCH(req: NextRequest, { params }: Params) {
     if (error) {
       return NextResponse.json({ error: error.message, code: error.code }, { status: 500 });
     }
+    await recordAudit(req, admin, { action: 'ad.update', entityType: 'ad', entityId: id, before: current, after: data });
     return NextResponse.json({ ad: data });
   } catch (e: unknown) {
     const message = e instanceof Error ? e.message : 'Internal server error';
@@ -75,20 +75,18 @@ export async function PATCH(req: NextRequest, { params }: Params) {
 export async function DELETE(req: NextRequest, { params }: Params) {
   let admin;
   try {
-    admin = await requireAuth(req);
+    admin = await requireCapability(req, 'ad.delete');
   } catch (error: unknown) {
     const message = error instanceof Error ? error.message : 'Unauthorized';
-    return NextResponse.json({ error: message }, { status: 401 });
-  }
-
-  if (admin.role !== 'admin') {
-    return NextResponse.json({ error: 'Unauthorized: Admin role required' }, { status: 403 });
+    return NextResponse.json({ error: message }, { status: 403 });
   }
 
   const { id } = await params;
+  const { data: before } = await supabaseAdmin.from('ads').select('*').eq('id', id).maybeSingle();
   const { error } = await supabaseAdmin.from('ads').delete().eq('id', id);
   if (error) {
     return NextResponse.json({ error: error.message }, { status: 500 });
   }
+  await recordAudit(req, admin, { action: 'ad.delete', entityType: 'ad', entityId: id, before });
   return NextResponse.json({ success: true });
 }
@@ -1,25 +1,27 @@
 import { NextResponse } from 'next/server';
 import { NextRequest } from 'next/server';
 import { supabaseAdmin } from '@/lib/supabaseAdmin';
-import { getVendorScopeId, requireAuth } from '@/lib/admin-auth';
+import { requireCapability } from '@/lib/admin-auth';
+import { can, getVendorScopeId, isVendorScoped } from '@/lib/permissions';
 import { AdCreateSchema } from '@/lib/validation';
+import { recordAudit } from '@/lib/audit';
+import { isAssignableVendor } from '@/lib/vendors';
 
 export async function GET(req: NextRequest) {
   let admin;
   try {
-    admin = await requireAuth(req);
+    admin = await requireCapability(req, 'ad.view');
   } catch (error: unknown) {
     const message = error instanceof Error ? error.message : 'Unauthorized';
-    return NextResponse.json({ error: message }, { status: 401 });
-  }
-
-  if (admin.role === 'vendor_moderator') {
-    return NextResponse.json({ error: 'Unauthorized: Insufficient permissions' }, { status: 403 });
+    return NextResponse.json({ error: message }, { status: 403 });
   }
 
   let query = supabaseAdmin.from('ads').select('*').order('created_at', { ascending: false });
   const vendorScopeId = getVendorScopeId(admin);
-  if (admin.role === 'vendor') {
+  if (isVendorScoped(admin)) {
+    if (!vendorScopeId) {
+      return NextResponse.json({ ads: [] });
+    }
     query = query.eq('vendor_id', vendorScopeId);
   }
 
@@ -34,14 +36,10 @@ export async function GET(req: NextRequest) {
 export async function POST(req: NextRequest) {
   let admin;
   try {
-    admin = await requireAuth(req);
+    admin = await requireCapability(req, 'ad.create');
   } catch (error: unknown) {
     const message = error instanceof Error ? error.message : 'Unauthorized';
-    return NextResponse.json({ error: message }, { status: 401 });
-  }
-
-  if (admin.role !== 'admin' && admin.role !== 'vendor') {
-    return NextResponse.json({ error: 'Unauthorized: Only admins and vendors can create ads' }, { status: 403 });
+    return NextResponse.json({ error: message }, { status: 403 });
   }
 
   try {
@@ -54,8 +52,12 @@ export async function POST(req: NextRequest) {
     const payload = parsed.data as Record<string, unknown>;
     payload.created_by = admin.id;
 
-    if (admin.role === 'vendor') {
-      payload.vendor_id = admin.id;
+    if (isVendorScoped(admin)) {
+      payload.vendor_id = getVendorScopeId(admin);
+    } else if (payload.vendor_id && !(await isAssignableVendor(payload.vendor_id as string))) {
+      return NextResponse.json({ error: 'Vendor not found or archived' }, { status: 400 });
+    }
+    if (!can(admin, 'ad.approve')) {
       payload.status = 'pending';
     }
 
@@ -68,6 +70,7 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: error.message, code: error.code }, { status: 500 });
     }
 
+    await recordAudit(req, admin, { action: 'ad.create', entityType: 'ad', entityId: data.id, after: data });
     return NextResponse.json({ ad: data }, { status: 201 });
   } catch (e: unknown) {
     const message = e instanceof Error ? e.message : 'Internal server error';
@@ -0,0 +1,63 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { NextResponse } from 'next/server';
+import { NextRequest } from 'next/server';
+import { recordAudit } from '@/lib/audit';
+import { runScheduledTransitions } from '@/lib/event-scheduler';
+
+// Called by an external scheduler (e.g. every minute), not by admins, so the
+// route is public in the registry and guarded by CRON_SECRET instead.
+function isAuthorized(req: NextRequest, secret: string) {
+  const header = req.headers.get('authorization') ?? '';
+  const provided = header.startsWith('Bearer ') ? header.slice('Bearer '.length) : '';
+  // Comparing digests keeps the comparison constant-time whatever the length.
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return provided.length > 0 && timingSafeEqual(digest(provided), digest(secret));
+}
+
+async function run(req: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    return NextResponse.json({ error: 'Scheduled transitions are not configured' }, { status: 503 });
+  }
+  if (!isAuthorized(req, secret)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const transitions = await runScheduledTransitions();
+    for (const transition of transitions) {
+      console.log(`Scheduled transition: event ${transition.event_id} ${transition.from} -> ${transition.to} (${transition.trigger})`);
+      await recordAudit(req, null, {
+        action: transition.to === 'published' ? 'event.publish.scheduled' : 'event.archive.scheduled',
+        entityType: 'event',
+        entityId: transition.event_id,
+        before: transition.before,
+        after: transition.after,
+      });
+    }
+    return NextResponse.json({
+      applied: transitions.map(({ event_id, title, from, to, trigger, scheduled_for }) => ({
+        event_id,
+        title,
+        from,
+        to,
+        trigger,
+        scheduled_for,
+      })),
+    });
+  } catch (error: unknown) {
+    console.error('Scheduled transitions failed:', error);
+    const message = error instanceof Error ? error.message : 'Scheduled transitions failed';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+// GET /api/cron/event-schedule - Apply due scheduled publishes and archives
+export async function GET(req: NextRequest) {
+  return run(req);
+}
+
+// POST /api/cron/event-schedule - Same as GET, for schedulers that only POST
+export async function POST(req: NextRequest) {
+  return run(req);
+}
@@ -0,0 +1,111 @@
+import { NextResponse } from 'next/server';
+import { NextRequest } from 'next/server';
+import { requireCapability } from '@/lib/admin-auth';
+import { recordAudit } from '@/lib/audit';
+import { EVENT_CATEGORY_COLUMNS, findCategoryReferences, type EventCategory } from '@/lib/event-categories';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { EventCategoryUpdateSchema } from '@/lib/validation';
+
+type Params = { params: Promise<{ id: string }> };
+
+async function findCategory(id: string) {
+  const { data } = await supabaseAdmin.from('event_categories').select(EVENT_CATEGORY_COLUMNS).eq('id', id).maybeSingle();
+  return data as EventCategory | null;
+}
+
+// PATCH /api/event-categories/[id] - Rename, reorder, (de)activate or move a category
+export async function PATCH(req: NextRequest, { params }: Params) {
+  let admin;
+  try {
+    admin = await requireCapability(req, 'category.manage');
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unauthorized';
+    return NextResponse.json({ error: message }, { status: 403 });
+  }
+
+  const parsed = EventCategoryUpdateSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.issues[0]?.message ?? 'Invalid payload' }, { status: 400 });
+  }
+  if (Object.keys(parsed.data).length === 0) {
+    return NextResponse.json({ error: 'No updates provided' }, { status: 400 });
+  }
+
+  const { id } = await params;
+  try {
+    const before = await findCategory(id);
+    if (!before) {
+      return NextResponse.json({ error: 'Category not found' }, { status: 404 });
+    }
+
+    // Events pair a category with one of its own sub-categories, so anything
+    // in use stays where it is.
+    const nextParentId = parsed.data.parent_id === undefined ? before.parent_id : parsed.data.parent_id;
+    if (nextParentId !== before.parent_id) {
+      const references = await findCategoryReferences(before);
+      if (references.length > 0) {
+        const summary = references.map((reference) => `${reference.count} ${reference.label}`).join(', ');
+        return NextResponse.json({ error: `This category still has ${summary}, so it cannot be moved.` }, { status: 409 });
+      }
+      if (nextParentId) {
+        const parent = await findCategory(nextParentId);
+        if (!parent || parent.parent_id || parent.id === id) {
+          return NextResponse.json({ error: 'Sub-categories can only be added to a top-level category' }, { status: 400 });
+        }
+      }
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('event_categories')
+      .update({ ...parsed.data, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select(EVENT_CATEGORY_COLUMNS)
+      .single();
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    await recordAudit(req, admin, { action: 'event_category.update', entityType: 'event_category', entityId: id, before, after: data });
+    return NextResponse.json({ category: data });
+  } catch {
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE /api/event-categories/[id] - Delete a category nothing uses; deactivate it otherwise
+export async function DELETE(req: NextRequest, { params }: Params) {
+  let admin;
+  try {
+    admin = await requireCapability(req, 'category.manage');
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unauthorized';
+    return NextResponse.json({ error: message }, { status: 403 });
+  }
+
+  const { id } = await params;
+  try {
+    const before = await findCategory(id);
+    if (!before) {
+      return NextResponse.json({ error: 'Category not found' }, { status: 404 });
+    }
+
+    const references = await findCategoryReferences(before);
+    if (references.length > 0) {
+      const summary = references.map((reference) => `${reference.count} ${reference.label}`).join(', ');
+      return NextResponse.json(
+        { error: `This category still has ${summary}. Deactivate it instead.`, references },
+        { status: 409 }
+      );
+    }
+
+    const { error } = await supabaseAdmin.from('event_categories').delete().eq('id', id);
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    await recordAudit(req, admin, { action: 'event_category.delete', entityType: 'event_category', entityId: id, before });
+    return NextResponse.json({ success: true });
+  } catch {
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
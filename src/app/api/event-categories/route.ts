@@ -0,0 +1,70 @@
+import { NextResponse } from 'next/server';
+import { NextRequest } from 'next/server';
+import { requireCapability } from '@/lib/admin-auth';
+import { recordAudit } from '@/lib/audit';
+import { EVENT_CATEGORY_COLUMNS, listEventCategories } from '@/lib/event-categories';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { EventCategoryCreateSchema } from '@/lib/validation';
+
+// GET /api/event-categories - The category taxonomy, including deactivated entries
+export async function GET(req: NextRequest) {
+  try {
+    await requireCapability(req, 'event.view');
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unauthorized';
+    return NextResponse.json({ error: message }, { status: 403 });
+  }
+
+  try {
+    return NextResponse.json({ categories: await listEventCategories() });
+  } catch (error: unknown) {
+    console.error('Error listing event categories:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST /api/event-categories - Add a category, or a sub-category when parent_id is set
+export async function POST(req: NextRequest) {
+  let admin;
+  try {
+    admin = await requireCapability(req, 'category.manage');
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unauthorized';
+    return NextResponse.json({ error: message }, { status: 403 });
+  }
+
+  const parsed = EventCategoryCreateSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.issues[0]?.message ?? 'Invalid payload' }, { status: 400 });
+  }
+
+  try {
+    if (parsed.data.parent_id) {
+      const { data: parent } = await supabaseAdmin
+        .from('event_categories')
+        .select('id, parent_id')
+        .eq('id', parsed.data.parent_id)
+        .maybeSingle();
+      if (!parent || parent.parent_id) {
+        return NextResponse.json({ error: 'Sub-categories can only be added to a top-level category' }, { status: 400 });
+      }
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('event_categories')
+      .insert(parsed.data)
+      .select(EVENT_CATEGORY_COLUMNS)
+      .single();
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json({ error: 'A category with this slug already exists' }, { status: 400 });
+      }
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    await recordAudit(req, admin, { action: 'event_category.create', entityType: 'event_category', entityId: data.id, after: data });
+    return NextResponse.json({ category: data }, { status: 201 });
+  } catch {
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
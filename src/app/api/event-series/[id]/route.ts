@@ -0,0 +1,174 @@
+import { NextResponse } from 'next/server';
+import { NextRequest } from 'next/server';
+import { requireCapability, type AdminUser } from '@/lib/admin-auth';
+import { recordAudit } from '@/lib/audit';
+import {
+  findEventSeries,
+  generateOccurrences,
+  OCCURRENCE_COLUMNS,
+  removeOccurrences,
+  SERIES_COLUMNS,
+  type EventSeries,
+} from '@/lib/event-series';
+import { can, type Capability } from '@/lib/permissions';
+import { MAX_SERIES_OCCURRENCES, occurrenceDates } from '@/lib/recurrence';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { toZonedParts } from '@/lib/timezones';
+import { EventSeriesUpdateSchema } from '@/lib/validation';
+
+type Params = { params: Promise<{ id: string }> };
+
+// A series is checked like its template event: same vendor, and API keys pinned to another event are refused.
+async function loadSeries(admin: AdminUser, id: string, capability: Capability) {
+  const series = await findEventSeries(id);
+  if (!series || !can(admin, capability, { id: series.template_event_id, vendor_id: series.vendor_id })) {
+    return null;
+  }
+  return series;
+}
+
+async function loadOccurrences(seriesId: string) {
+  const { data, error } = await supabaseAdmin
+    .from('events')
+    .select(OCCURRENCE_COLUMNS)
+    .eq('series_id', seriesId)
+    .order('start_at', { ascending: true });
+  if (error) {
+    throw new Error(error.message);
+  }
+  return data ?? [];
+}
+
+// GET /api/event-series/[id] - The series' schedule and its occurrences
+export async function GET(req: NextRequest, { params }: Params) {
+  let admin;
+  try {
+    admin = await requireCapability(req, 'event.view');
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unauthorized';
+    return NextResponse.json({ error: message }, { status: 403 });
+  }
+
+  const { id } = await params;
+  try {
+    const series = await loadSeries(admin, id, 'event.view');
+    if (!series) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+    const { data: template } = await supabaseAdmin
+      .from('events')
+      .select('id, title, start_at, end_at')
+      .eq('id', series.template_event_id)
+      .single();
+    return NextResponse.json({ series, template, occurrences: await loadOccurrences(id) });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+// PATCH /api/event-series/[id] - Change the schedule: adds missing future dates and removes future ones it no longer has
+export async function PATCH(req: NextRequest, { params }: Params) {
+  let admin;
+  try {
+    admin = await requireCapability(req, 'event.edit');
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unauthorized';
+    return NextResponse.json({ error: message }, { status: 403 });
+  }
+
+  const parsed = EventSeriesUpdateSchema.safeParse(await req.json().catch(() => ({})));
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid payload', details: parsed.error.issues }, { status: 400 });
+  }
+
+  const { id } = await params;
+  try {
+    const before = await loadSeries(admin, id, 'event.edit');
+    if (!before) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    const dates = occurrenceDates(parsed.data.recurrence, before.starts_on);
+    if (dates.length > MAX_SERIES_OCCURRENCES) {
+      return NextResponse.json(
+        { error: `A series can have at most ${MAX_SERIES_OCCURRENCES} occurrences; choose an earlier end date` },
+        { status: 400 }
+      );
+    }
+
+    const { data: series, error } = await supabaseAdmin
+      .from('event_series')
+      .update({ recurrence: parsed.data.recurrence, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select(SERIES_COLUMNS)
+      .single<EventSeries>();
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    // The past is left as it happened; only dates from today on change.
+    const today = toZonedParts(new Date(), series.timezone).date;
+    const wanted = new Set(dates);
+    const occurrences = await loadOccurrences(id);
+    const stale = occurrences.filter(
+      (event) =>
+        event.series_occurrence_date >= today &&
+        event.series_occurrence_date !== series.starts_on &&
+        !wanted.has(event.series_occurrence_date)
+    );
+    const { removed, retained } = await removeOccurrences(stale.map((event) => event.id));
+    const added = await generateOccurrences(
+      series,
+      dates.filter((date) => date >= today),
+      'draft'
+    );
+
+    await recordAudit(req, admin, {
+      action: 'event_series.update',
+      entityType: 'event_series',
+      entityId: id,
+      before,
+      after: { ...series, added: added.map((event) => event.id), removed, retained },
+    });
+    return NextResponse.json({ series, added: added.length, removed: removed.length, retained: retained.length });
+  } catch (error: unknown) {
+    console.error('Error updating event series:', error);
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+// DELETE /api/event-series/[id] - End the series; its occurrences stay as standalone events
+export async function DELETE(req: NextRequest, { params }: Params) {
+  let admin;
+  try {
+    admin = await requireCapability(req, 'event.edit');
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unauthorized';
+    return NextResponse.json({ error: message }, { status: 403 });
+  }
+
+  const { id } = await params;
+  try {
+    const series = await loadSeries(admin, id, 'event.edit');
+    if (!series) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    const { error } = await supabaseAdmin.from('event_series').delete().eq('id', id);
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+    const { error: templateError } = await supabaseAdmin.from('events').delete().eq('id', series.template_event_id);
+    if (templateError) {
+      console.error('Failed to delete series template:', templateError);
+    }
+
+    await recordAudit(req, admin, { action: 'event_series.delete', entityType: 'event_series', entityId: id, before: series });
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,130 @@
+import { NextResponse } from 'next/server';
+import { NextRequest } from 'next/server';
+import { getEventAccess, requireCapability } from '@/lib/admin-auth';
+import { recordAudit } from '@/lib/audit';
+import { duplicateEvent, getDuplicateScope } from '@/lib/event-duplication';
+import { generateOccurrences, SERIES_COLUMNS, type EventSeries } from '@/lib/event-series';
+import { can } from '@/lib/permissions';
+import { MAX_SERIES_OCCURRENCES, occurrenceDates } from '@/lib/recurrence';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { toZonedParts } from '@/lib/timezones';
+import { EventSeriesCreateSchema } from '@/lib/validation';
+import { isAssignableVendor } from '@/lib/vendors';
+
+// POST /api/event-series - Make an event recurring: it becomes the first occurrence of a new series
+export async function POST(req: NextRequest) {
+  let admin;
+  try {
+    admin = await requireCapability(req, 'event.create');
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unauthorized';
+    return NextResponse.json({ error: message }, { status: 403 });
+  }
+
+  const parsed = EventSeriesCreateSchema.safeParse(await req.json().catch(() => ({})));
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid payload', details: parsed.error.issues }, { status: 400 });
+  }
+  const { event_id: eventId, recurrence, timezone, status } = parsed.data;
+
+  const eventAccess = await getEventAccess(admin, eventId, 'event.edit');
+  if (!eventAccess) {
+    return NextResponse.json({ error: 'Unauthorized: Event access denied' }, { status: 403 });
+  }
+  if (status === 'published' && !can(admin, 'event.publish', eventAccess)) {
+    return NextResponse.json({ error: 'Unauthorized: Cannot publish events' }, { status: 403 });
+  }
+
+  const { data: source } = await supabaseAdmin
+    .from('events')
+    .select('id, start_at, series_id, is_series_template')
+    .eq('id', eventId)
+    .single();
+  if (!source || source.is_series_template) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+  if (source.series_id) {
+    return NextResponse.json({ error: 'This event is already part of a series' }, { status: 409 });
+  }
+  if (can(admin, 'event.vendor.assign') && eventAccess.vendor_id && !(await isAssignableVendor(eventAccess.vendor_id))) {
+    return NextResponse.json(
+      { error: "This event's vendor is archived; restore the vendor before making it recurring" },
+      { status: 400 }
+    );
+  }
+
+  const startsOn = toZonedParts(new Date(source.start_at), timezone).date;
+  const dates = occurrenceDates(recurrence, startsOn);
+  if (dates.length === 0) {
+    return NextResponse.json({ error: 'The schedule has no dates after this event' }, { status: 400 });
+  }
+  if (dates.length > MAX_SERIES_OCCURRENCES) {
+    return NextResponse.json(
+      { error: `A series can have at most ${MAX_SERIES_OCCURRENCES} occurrences; choose an earlier end date` },
+      { status: 400 }
+    );
+  }
+
+  const scope = getDuplicateScope(admin, eventAccess);
+  if (!scope.ok) {
+    return NextResponse.json({ error: scope.error }, { status: 403 });
+  }
+
+  let series: EventSeries | null = null;
+  let templateId: string | null = null;
+  try {
+    const template = await duplicateEvent(eventId, {
+      offsetMinutes: 0,
+      overrides: { ...scope.overrides, status: 'draft', is_series_template: true },
+      parts: scope.parts,
+    });
+    if (!template) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+    templateId = template.event.id as string;
+
+    const { data, error } = await supabaseAdmin
+      .from('event_series')
+      .insert({
+        vendor_id: template.event.vendor_id ?? null,
+        template_event_id: templateId,
+        recurrence,
+        timezone,
+        starts_on: startsOn,
+        created_by: admin.id,
+      })
+      .select(SERIES_COLUMNS)
+      .single<EventSeries>();
+    if (error) {
+      throw new Error(error.message);
+    }
+    series = data;
+
+    const { error: linkError } = await supabaseAdmin
+      .from('events')
+      .update({ series_id: series.id, series_occurrence_date: startsOn })
+      .eq('id', eventId);
+    if (linkError) {
+      throw new Error(linkError.message);
+    }
+
+    const occurrences = await generateOccurrences(series, dates, status);
+    await recordAudit(req, admin, {
+      action: 'event_series.create',
+      entityType: 'event_series',
+      entityId: series.id,
+      after: { ...series, source_event_id: eventId, occurrences: occurrences.map((event) => event.id) },
+    });
+    return NextResponse.json({ series, occurrences }, { status: 201 });
+  } catch (error: unknown) {
+    console.error('Error creating event series:', error);
+    // Undo whatever was made; the source event is unlinked when its series goes.
+    if (series) {
+      await supabaseAdmin.from('events').delete().eq('series_id', series.id).neq('id', eventId);
+      await supabaseAdmin.from('event_series').delete().eq('id', series.id);
+    }
+    if (templateId) await supabaseAdmin.from('events').delete().eq('id', templateId);
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -1,6 +1,6 @@
 import { NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/lib/supabaseAdmin';
-import { getEventAccess, requireAuth } from '@/lib/admin-auth';
+import { getEventAccess, requireCapability } from '@/lib/admin-auth';
 import { NextRequest } from 'next/server';
 
 type Params = { params: Promise<{ id: string }> };
@@ -8,13 +8,13 @@ type Params = { params: Promise<{ id: string }> };
 export async function GET(req: NextRequest, { params }: Params) {
   let admin;
   try {
-    admin = await requireAuth(req); // All authenticated roles can view attendees (scoped for vendors)
+    admin = await requireCapability(req, 'attendee.view'); // Scoped to their own events for vendors
   } catch (error: any) {
     return NextResponse.json({ error: error.message }, { status: 401 });
   }
 
   const { id } = await params;
-  const eventAccess = await getEventAccess(admin, id);
+  const eventAccess = await getEventAccess(admin, id, 'attendee.view');
   if (!eventAccess) {
     return NextResponse.json({ error: 'Unauthorized: Event access denied' }, { status: 403 });
   }
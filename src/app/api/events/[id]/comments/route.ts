@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server';
+import { NextRequest } from 'next/server';
+import { getEventAccess, requireCapability } from '@/lib/admin-auth';
+import { recordAudit } from '@/lib/audit';
+import { addReviewComment, canDiscussEvent, listReviewComments } from '@/lib/event-review';
+import { EventReviewCommentSchema } from '@/lib/validation';
+
+type Params = { params: Promise<{ id: string }> };
+
+// GET /api/events/[id]/comments - The event's review discussion, oldest first
+export async function GET(req: NextRequest, { params }: Params) {
+  let admin;
+  try {
+    admin = await requireCapability(req, 'event.view');
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unauthorized';
+    return NextResponse.json({ error: message }, { status: 403 });
+  }
+
+  const { id } = await params;
+  const eventAccess = await getEventAccess(admin, id);
+  if (!eventAccess) {
+    return NextResponse.json({ error: 'Unauthorized: Event access denied' }, { status: 403 });
+  }
+
+  try {
+    return NextResponse.json({ comments: await listReviewComments(id), can_comment: canDiscussEvent(admin, eventAccess) });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+// POST /api/events/[id]/comments - Reply in the event's review discussion
+export async function POST(req: NextRequest, { params }: Params) {
+  let admin;
+  try {
+    admin = await requireCapability(req, 'event.view');
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unauthorized';
+    return NextResponse.json({ error: message }, { status: 403 });
+  }
+
+  const { id } = await params;
+  const eventAccess = await getEventAccess(admin, id);
+  if (!eventAccess || !canDiscussEvent(admin, eventAccess)) {
+    return NextResponse.json({ error: 'Unauthorized: Cannot comment on this event' }, { status: 403 });
+  }
+
+  const parsed = EventReviewCommentSchema.safeParse(await req.json().catch(() => ({})));
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid payload', details: parsed.error.issues }, { status: 400 });
+  }
+
+  try {
+    const comment = await addReviewComment(eventAccess, admin, 'comment', parsed.data.body);
+    await recordAudit(req, admin, {
+      action: 'event_review_comment.create',
+      entityType: 'event_review_comment',
+      entityId: comment.id,
+      after: comment,
+    });
+    return NextResponse.json({ comment }, { status: 201 });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,85 @@
+import { NextResponse } from 'next/server';
+import { NextRequest } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { getEventAccess, requireCapability } from '@/lib/admin-auth';
+import { can } from '@/lib/permissions';
+import { recordAudit } from '@/lib/audit';
+import { duplicateEvent, getDuplicateScope } from '@/lib/event-duplication';
+import { recordEventRevision } from '@/lib/event-revisions';
+import { EventDuplicateSchema } from '@/lib/validation';
+import { isAssignableVendor } from '@/lib/vendors';
+
+type Params = { params: Promise<{ id: string }> };
+
+// POST /api/events/[id]/duplicate - Copy an event into a new draft, optionally with shifted dates
+export async function POST(req: NextRequest, { params }: Params) {
+  let admin;
+  try {
+    admin = await requireCapability(req, 'event.create');
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unauthorized';
+    return NextResponse.json({ error: message }, { status: 403 });
+  }
+
+  const { id } = await params;
+  const eventAccess = await getEventAccess(admin, id);
+  if (!eventAccess) {
+    return NextResponse.json({ error: 'Unauthorized: Event access denied' }, { status: 403 });
+  }
+
+  const parsed = EventDuplicateSchema.safeParse(await req.json().catch(() => ({})));
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid payload', details: parsed.error.issues }, { status: 400 });
+  }
+  const input = parsed.data;
+
+  const scope = getDuplicateScope(admin, eventAccess, {
+    tiers: input.copy_tiers,
+    images: input.copy_images,
+    entry_gates: input.copy_entry_gates,
+  });
+  if (!scope.ok) {
+    return NextResponse.json({ error: scope.error }, { status: 403 });
+  }
+  if (can(admin, 'event.vendor.assign') && eventAccess.vendor_id && !(await isAssignableVendor(eventAccess.vendor_id))) {
+    return NextResponse.json(
+      { error: "This event's vendor is archived; restore the vendor before duplicating" },
+      { status: 400 }
+    );
+  }
+
+  const { data: source } = await supabaseAdmin.from('events').select('title').eq('id', id).single();
+
+  try {
+    const duplicate = await duplicateEvent(id, {
+      offsetMinutes: input.offset_minutes,
+      overrides: { ...scope.overrides, title: input.title ?? `${source?.title ?? 'Event'} (copy)`, status: 'draft' },
+      parts: scope.parts,
+    });
+    if (!duplicate) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    await recordAudit(req, admin, {
+      action: 'event.duplicate',
+      entityType: 'event',
+      entityId: duplicate.event.id as string,
+      after: {
+        ...duplicate.event,
+        duplicated_from: id,
+        offset_minutes: input.offset_minutes,
+        copied: {
+          ticket_tiers: duplicate.tiers.length,
+          images: duplicate.images.length,
+          entry_gates: duplicate.entry_gates.length,
+        },
+      },
+    });
+    await recordEventRevision(duplicate.event.id as string, admin, 'event.duplicate');
+    return NextResponse.json(duplicate, { status: 201 });
+  } catch (error: unknown) {
+    console.error('Error duplicating event:', error);
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
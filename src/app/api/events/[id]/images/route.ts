@@ -1,15 +1,17 @@
 import { NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/lib/supabaseAdmin';
 import { ImageCreateSchema } from '@/lib/validation';
-import { getEventAccess, requireAuth, requireEventEdit } from '@/lib/admin-auth';
+import { getEventAccess, requireCapability } from '@/lib/admin-auth';
 import { NextRequest } from 'next/server';
+import { recordAudit } from '@/lib/audit';
+import { ensureBaselineRevision, recordEventRevision } from '@/lib/event-revisions';
 
 type Params = { params: Promise<{ id: string }> };
 
 export async function GET(req: NextRequest, { params }: Params) {
   let admin;
   try {
-    admin = await requireAuth(req); // All authenticated roles can view images (scoped for vendors)
+    admin = await requireCapability(req, 'event.view'); // Scoped to their own events for vendors
   } catch (error: any) {
     return NextResponse.json({ error: error.message }, { status: 401 });
   }
@@ -32,9 +34,9 @@ export async function GET(req: NextRequest, { params }: Params) {
 
 export async function POST(req: NextRequest, { params }: Params) {
   try {
-    const admin = await requireEventEdit(req); // Admins, moderators, vendors (no vendor_moderator)
+    const admin = await requireCapability(req, 'event.images.manage');
     const { id: eventId } = await params;
-    const eventAccess = await getEventAccess(admin, eventId);
+    const eventAccess = await getEventAccess(admin, eventId, 'event.images.manage');
     if (!eventAccess) {
       return NextResponse.json({ error: 'Unauthorized: Event access denied' }, { status: 403 });
     }
@@ -45,6 +47,7 @@ export async function POST(req: NextRequest, { params }: Params) {
     }
 
     const payload = { ...parsed.data, event_id: eventId } as Record<string, unknown>;
+    await ensureBaselineRevision(eventId);
     const { data, error } = await supabaseAdmin
       .from('event_images')
       .insert(payload)
@@ -53,6 +56,8 @@ export async function POST(req: NextRequest, { params }: Params) {
     if (error) {
       return NextResponse.json({ error: error.message }, { status: 500 });
     }
+    await recordEventRevision(eventId, admin, 'event_image.create');
+    await recordAudit(req, admin, { action: 'event_image.create', entityType: 'event_image', entityId: data.id, after: data });
     return NextResponse.json({ image: data }, { status: 201 });
   } catch (e) {
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { NextRequest } from 'next/server';
+import { getEventAccess, requireCapability } from '@/lib/admin-auth';
+import { loadEventCapacity, reconcileEventTickets } from '@/lib/event-capacity';
+
+type Params = { params: Promise<{ id: string }> };
+
+// GET /api/events/[id]/reconciliation - Tier sales counts checked against the tickets actually issued
+export async function GET(req: NextRequest, { params }: Params) {
+  let admin;
+  try {
+    admin = await requireCapability(req, 'event.view');
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unauthorized';
+    return NextResponse.json({ error: message }, { status: 403 });
+  }
+
+  const { id } = await params;
+  const eventAccess = await getEventAccess(admin, id);
+  if (!eventAccess) {
+    return NextResponse.json({ error: 'Unauthorized: Event access denied' }, { status: 403 });
+  }
+
+  try {
+    return NextResponse.json({ reconciliation: await reconcileEventTickets(id, await loadEventCapacity(id)) });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,78 @@
+import { NextResponse } from 'next/server';
+import { NextRequest } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { getEventAccess, requireCapability } from '@/lib/admin-auth';
+import { recordAudit } from '@/lib/audit';
+import { addReviewComment, transitionReview } from '@/lib/event-review';
+import { recordEventRevision } from '@/lib/event-revisions';
+import { scheduleError, type SchedulableEvent } from '@/lib/event-schedule';
+import { EventReviewDecisionSchema } from '@/lib/validation';
+
+type Params = { params: Promise<{ id: string }> };
+
+// POST /api/events/[id]/review/decision - Approve (publish) a submitted event or ask for changes
+export async function POST(req: NextRequest, { params }: Params) {
+  let admin;
+  try {
+    admin = await requireCapability(req, 'event.publish');
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unauthorized';
+    return NextResponse.json({ error: message }, { status: 403 });
+  }
+
+  const { id } = await params;
+  const eventAccess = await getEventAccess(admin, id, 'event.publish');
+  if (!eventAccess) {
+    return NextResponse.json({ error: 'Unauthorized: Event access denied' }, { status: 403 });
+  }
+
+  const parsed = EventReviewDecisionSchema.safeParse(await req.json().catch(() => ({})));
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid payload', details: parsed.error.issues }, { status: 400 });
+  }
+  const input = parsed.data;
+
+  try {
+    const { data: current } = await supabaseAdmin.from('events').select('*').eq('id', id).single();
+    if (!current) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+    if (current.review_status !== 'pending') {
+      return NextResponse.json({ error: 'This event is not waiting for review' }, { status: 409 });
+    }
+
+    const changes: Record<string, unknown> = {
+      review_status: input.decision === 'approve' ? 'approved' : 'changes_requested',
+    };
+    // An approved event with a publish time still to come is left to the scheduler.
+    if (input.decision === 'approve' && !(current.publish_at && Date.parse(current.publish_at) > Date.now())) {
+      changes.status = 'published';
+      changes.publish_at = null;
+      const scheduleProblem = scheduleError({ ...current, ...changes } as SchedulableEvent, current.status);
+      if (scheduleProblem) {
+        return NextResponse.json({ error: scheduleProblem }, { status: 400 });
+      }
+    }
+
+    const event = await transitionReview(id, ['pending'], changes);
+    if (!event) {
+      return NextResponse.json({ error: 'This event is not waiting for review' }, { status: 409 });
+    }
+    const comment = await addReviewComment(
+      eventAccess,
+      admin,
+      input.decision === 'approve' ? 'approved' : 'changes_requested',
+      input.comment ?? null
+    );
+    const action = input.decision === 'approve' ? 'event.review.approve' : 'event.review.request_changes';
+    await recordAudit(req, admin, { action, entityType: 'event', entityId: id, before: current, after: event });
+    if (event.status !== current.status) {
+      await recordEventRevision(id, admin, action);
+    }
+    return NextResponse.json({ event, comment });
+  } catch (error: unknown) {
+    console.error('Error recording review decision:', error);
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
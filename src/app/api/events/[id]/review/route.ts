@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server';
+import { NextRequest } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { getEventAccess, requireCapability } from '@/lib/admin-auth';
+import { recordAudit } from '@/lib/audit';
+import { addReviewComment, transitionReview } from '@/lib/event-review';
+import { EventReviewSubmitSchema } from '@/lib/validation';
+
+type Params = { params: Promise<{ id: string }> };
+
+// POST /api/events/[id]/review - Submit a draft to the review queue
+export async function POST(req: NextRequest, { params }: Params) {
+  let admin;
+  try {
+    admin = await requireCapability(req, 'event.edit');
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unauthorized';
+    return NextResponse.json({ error: message }, { status: 403 });
+  }
+
+  const { id } = await params;
+  const eventAccess = await getEventAccess(admin, id, 'event.edit');
+  if (!eventAccess) {
+    return NextResponse.json({ error: 'Unauthorized: Event access denied' }, { status: 403 });
+  }
+
+  const parsed = EventReviewSubmitSchema.safeParse(await req.json().catch(() => ({})));
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid payload', details: parsed.error.issues }, { status: 400 });
+  }
+
+  try {
+    const { data: current } = await supabaseAdmin.from('events').select('*').eq('id', id).single();
+    if (!current) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+    if (current.status !== 'draft') {
+      return NextResponse.json({ error: 'Only draft events can be submitted for review' }, { status: 400 });
+    }
+    if (current.review_status === 'pending') {
+      return NextResponse.json({ error: 'This event is already waiting for review' }, { status: 409 });
+    }
+
+    const event = await transitionReview(id, [null, 'changes_requested', 'approved'], {
+      review_status: 'pending',
+      review_submitted_at: new Date().toISOString(),
+    });
+    if (!event) {
+      return NextResponse.json({ error: 'This event is already waiting for review' }, { status: 409 });
+    }
+    const comment = await addReviewComment(eventAccess, admin, 'submitted', parsed.data.comment ?? null);
+    await recordAudit(req, admin, { action: 'event.review.submit', entityType: 'event', entityId: id, before: current, after: event });
+    return NextResponse.json({ event, comment });
+  } catch (error: unknown) {
+    console.error('Error submitting event for review:', error);
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,71 @@
+import { NextResponse } from 'next/server';
+import { NextRequest } from 'next/server';
+import { getEventAccess, requireCapability } from '@/lib/admin-auth';
+import { can } from '@/lib/permissions';
+import { recordAudit } from '@/lib/audit';
+import { scheduleError, withoutElapsedSchedule, type SchedulableEvent } from '@/lib/event-schedule';
+import {
+  ensureBaselineRevision,
+  findEventRevision,
+  loadEventSnapshot,
+  recordEventRevision,
+  restoreEventRevision,
+  restoreTierError,
+} from '@/lib/event-revisions';
+
+type Params = { params: Promise<{ id: string; revisionId: string }> };
+
+// POST /api/events/[id]/revisions/[revisionId]/restore - Roll the event back to a revision
+export async function POST(req: NextRequest, { params }: Params) {
+  let admin;
+  try {
+    admin = await requireCapability(req, 'event.edit');
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unauthorized';
+    return NextResponse.json({ error: message }, { status: 403 });
+  }
+
+  const { id, revisionId } = await params;
+  const eventAccess = await getEventAccess(admin, id, 'event.edit');
+  if (!eventAccess) {
+    return NextResponse.json({ error: 'Unauthorized: Event access denied' }, { status: 403 });
+  }
+
+  try {
+    const [revision, current] = await Promise.all([findEventRevision(id, { id: revisionId }), loadEventSnapshot(id)]);
+    if (!revision || !current) {
+      return NextResponse.json({ error: 'Revision not found' }, { status: 404 });
+    }
+    // Checked as written: restoring clears publish and archive times that have passed.
+    const scheduleProblem = scheduleError(
+      withoutElapsedSchedule({ ...current.event, ...revision.snapshot.event } as SchedulableEvent),
+      current.event.status as string
+    );
+    if (scheduleProblem) {
+      return NextResponse.json({ error: scheduleProblem }, { status: 400 });
+    }
+    const tierProblem = restoreTierError(revision.snapshot, current, can(admin, 'event.tiers.manage', eventAccess));
+    if (tierProblem) {
+      return NextResponse.json({ error: tierProblem }, { status: 409 });
+    }
+
+    await ensureBaselineRevision(id);
+    const result = await restoreEventRevision(admin, eventAccess, revision, current);
+    const after = await loadEventSnapshot(id);
+    await recordAudit(req, admin, {
+      action: 'event.restore',
+      entityType: 'event',
+      entityId: id,
+      before: { ...current.event, ticket_tiers: current.tiers, images: current.images, entry_gates: current.entry_gates },
+      after: after
+        ? { ...after.event, ticket_tiers: after.tiers, images: after.images, entry_gates: after.entry_gates, restored_revision: revision.revision_number }
+        : null,
+    });
+    await recordEventRevision(id, admin, 'event.restore', revision.id);
+    return NextResponse.json(result);
+  } catch (error: unknown) {
+    console.error('Error restoring event revision:', error);
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server';
+import { NextRequest } from 'next/server';
+import { getEventAccess, requireCapability } from '@/lib/admin-auth';
+import { diffSnapshots, findEventRevision, loadEventSnapshot } from '@/lib/event-revisions';
+
+type Params = { params: Promise<{ id: string; revisionId: string }> };
+
+// GET /api/events/[id]/revisions/[revisionId] - A revision and what changed in it
+// (?compare=current: what restoring it would change instead)
+export async function GET(req: NextRequest, { params }: Params) {
+  let admin;
+  try {
+    admin = await requireCapability(req, 'event.view');
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unauthorized';
+    return NextResponse.json({ error: message }, { status: 403 });
+  }
+
+  const { id, revisionId } = await params;
+  const eventAccess = await getEventAccess(admin, id);
+  if (!eventAccess) {
+    return NextResponse.json({ error: 'Unauthorized: Event access denied' }, { status: 403 });
+  }
+
+  try {
+    const revision = await findEventRevision(id, { id: revisionId });
+    if (!revision) {
+      return NextResponse.json({ error: 'Revision not found' }, { status: 404 });
+    }
+    if (req.nextUrl.searchParams.get('compare') === 'current') {
+      const current = await loadEventSnapshot(id);
+      if (!current) {
+        return NextResponse.json({ error: 'Not found' }, { status: 404 });
+      }
+      return NextResponse.json({ revision, compared_to: 'current', diff: diffSnapshots(current, revision.snapshot) });
+    }
+    const previous = await findEventRevision(id, { before: revision.revision_number });
+    return NextResponse.json({
+      revision,
+      compared_to: previous ? previous.revision_number : null,
+      diff: diffSnapshots(previous?.snapshot ?? null, revision.snapshot),
+    });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
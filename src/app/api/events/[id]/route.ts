@@ -1,7 +1,18 @@
 import { NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/lib/supabaseAdmin';
 import { EventUpdateSchema } from '@/lib/validation';
-import { getEventAccess, requireAuth, requireEventDelete, requireEventEdit } from '@/lib/admin-auth';
+import { getEventAccess, requireCapability } from '@/lib/admin-auth';
+import { can } from '@/lib/permissions';
+import { recordAudit } from '@/lib/audit';
+import { isAssignableVendor } from '@/lib/vendors';
+import { carryOverStart, findEventSeries } from '@/lib/event-series';
+import { scheduleError, type SchedulableEvent } from '@/lib/event-schedule';
+import { loadEventGates, syncEventGates, type GateInput } from '@/lib/event-gates';
+import { ensureBaselineRevision, recordEventRevision } from '@/lib/event-revisions';
+import { listEventCategories, taxonomyError, type EventClassification } from '@/lib/event-categories';
+import { isLinkableVenue } from '@/lib/venues';
+import { eventCapacityError, loadTierAllocations } from '@/lib/event-capacity';
+import type { AdminUser } from '@/lib/admin-auth';
 import { NextRequest } from 'next/server';
 
 type Params = { params: Promise<{ id: string }> };
@@ -17,14 +28,6 @@ const normalizeAllowedDomains = (domains: unknown): string[] => {
   );
 };
 
-type GateInput = {
-  id?: string;
-  name: string;
-  code?: string;
-  sort_order?: number;
-  is_active?: boolean;
-};
-
 const normalizeEntryGates = (gates: unknown): GateInput[] => {
   if (!Array.isArray(gates)) return [];
   return gates
@@ -48,76 +51,113 @@ const normalizeEntryGates = (gates: unknown): GateInput[] => {
     .filter((gate): gate is GateInput => !!gate);
 };
 
-async function syncEventGates(eventId: string, incomingGates: GateInput[]) {
-  const normalized = incomingGates.map((gate, index) => ({
-    id: gate.id,
-    event_id: eventId,
-    name: gate.name,
-    code: gate.code ?? null,
-    sort_order: gate.sort_order ?? index,
-    is_active: gate.is_active !== false,
-  }));
-
-  const { data: existingGates, error: existingGatesError } = await supabaseAdmin
-    .from('event_entry_gates')
-    .select('id')
-    .eq('event_id', eventId);
+// Gates are matched to the other event's own gates by code, or by name when
+// there is none, so their ids (and any scans recorded against them) survive.
+async function matchGatesTo(eventId: string, gates: GateInput[]): Promise<GateInput[]> {
+  const existing = await loadEventGates(eventId);
+  return gates.map((gate) => {
+    const match = existing.find((row) => (gate.code ? row.code === gate.code : !row.code && row.name === gate.name));
+    return { ...gate, id: match?.id };
+  });
+}
 
-  if (existingGatesError) {
-    throw new Error(existingGatesError.message);
+// Kept at the same distance from the start as on the edited occurrence.
+const RELATIVE_DATE_COLUMNS = ['end_at', 'publish_at', 'archive_at'] as const;
+type RelativeDateColumn = (typeof RELATIVE_DATE_COLUMNS)[number];
+
+/**
+ * Carry an edit of one series occurrence over to every later occurrence and
+ * to the template future ones are generated from. Dates move by the same
+ * number of days to the new time of day; everything else is copied as is.
+ */
+async function applyToLaterOccurrences(
+  req: NextRequest,
+  admin: AdminUser,
+  edit: {
+    before: { id: string; series_id: string; start_at: string };
+    after: Record<RelativeDateColumn, string | null> & { start_at: string };
+    payload: Record<string, unknown>;
+    gates: GateInput[] | null;
+    canManageGates: boolean;
   }
+) {
+  const series = await findEventSeries(edit.before.series_id);
+  if (!series) return { updated: 0, skipped: 0 };
 
-  const existingIds = new Set((existingGates ?? []).map((gate) => gate.id));
-  const keepIds = new Set(normalized.filter((gate) => gate.id).map((gate) => gate.id as string));
-
-  const toDelete = [...existingIds].filter((id) => !keepIds.has(id));
-  if (toDelete.length > 0) {
-    const { error: deleteError } = await supabaseAdmin
-      .from('event_entry_gates')
-      .delete()
-      .in('id', toDelete);
-    if (deleteError) {
-      throw new Error(deleteError.message);
-    }
+  const { data: later, error } = await supabaseAdmin
+    .from('events')
+    .select('*')
+    .eq('series_id', series.id)
+    .gt('start_at', edit.before.start_at)
+    .neq('id', edit.before.id);
+  if (error) {
+    throw new Error(error.message);
   }
+  const { data: template } = await supabaseAdmin
+    .from('events')
+    .select('*')
+    .eq('id', series.template_event_id)
+    .single();
 
-  for (const gate of normalized) {
-    if (gate.id && existingIds.has(gate.id)) {
-      const { error: updateError } = await supabaseAdmin
-        .from('event_entry_gates')
-        .update({
-          name: gate.name,
-          code: gate.code,
-          sort_order: gate.sort_order,
-          is_active: gate.is_active,
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', gate.id);
-      if (updateError) {
-        throw new Error(updateError.message);
-      }
+  let updated = 0;
+  let skipped = 0;
+  for (const target of [...(later ?? []), ...(template ? [template] : [])]) {
+    if (!can(admin, 'event.edit', target)) {
+      skipped += 1;
       continue;
     }
+    await ensureBaselineRevision(target.id);
+    const changes: Record<string, unknown> = { ...edit.payload };
+    delete changes.vendor_id;
+    if (target.id === series.template_event_id) delete changes.status;
+    // Occurrences whose tiers already offer more keep their own capacity.
+    if ('capacity' in changes && eventCapacityError((changes.capacity as number | null) ?? null, await loadTierAllocations(target.id))) {
+      delete changes.capacity;
+    }
+    const start = changes.start_at
+      ? carryOverStart(target.start_at, { before: edit.before.start_at, after: edit.after.start_at }, series.timezone)
+      : target.start_at;
+    if (changes.start_at) changes.start_at = start;
+    for (const column of RELATIVE_DATE_COLUMNS) {
+      if (!(column in changes)) continue;
+      const value = edit.after[column];
+      changes[column] = value
+        ? new Date(Date.parse(start) + Date.parse(value) - Date.parse(edit.after.start_at)).toISOString()
+        : null;
+    }
 
-    const { error: insertError } = await supabaseAdmin
-      .from('event_entry_gates')
-      .insert({
-        event_id: eventId,
-        name: gate.name,
-        code: gate.code,
-        sort_order: gate.sort_order,
-        is_active: gate.is_active,
-      });
-    if (insertError) {
-      throw new Error(insertError.message);
+    const { data, error: updateError } = await supabaseAdmin
+      .from('events')
+      .update(changes)
+      .eq('id', target.id)
+      .select('*')
+      .single();
+    if (updateError || !data) {
+      throw new Error(updateError?.message ?? 'Update failed');
     }
+    await recordAudit(req, admin, { action: 'event.update', entityType: 'event', entityId: target.id, before: target, after: data });
+
+    if (edit.canManageGates) {
+      if (edit.gates) {
+        await syncEventGates(target.id, await matchGatesTo(target.id, edit.gates));
+      }
+      if (data.enable_entry_gate_flow === false) {
+        await supabaseAdmin
+          .from('event_entry_gates')
+          .update({ is_active: false, updated_at: new Date().toISOString() })
+          .eq('event_id', target.id);
+      }
+    }
+    await recordEventRevision(target.id, admin, 'event.update');
+    updated += 1;
   }
+  return { updated, skipped };
 }
 
 export async function GET(req: NextRequest, { params }: Params) {
   let admin;
   try {
-    admin = await requireAuth(req); // All authenticated roles can view events (scoped for vendors)
+    admin = await requireCapability(req, 'event.view'); // Scoped to their own events for vendors
   } catch (error: any) {
     return NextResponse.json({ error: error.message }, { status: 401 });
   }
@@ -150,20 +190,30 @@ export async function GET(req: NextRequest, { params }: Params) {
     .eq('event_id', id)
     .order('sort_order', { ascending: true });
 
-  return NextResponse.json({ event, tiers: tiers ?? [], images: images ?? [], entry_gates: entryGates ?? [] });
+  const { data: series } = event.series_id
+    ? await supabaseAdmin.from('event_series').select('id, recurrence, timezone').eq('id', event.series_id).maybeSingle()
+    : { data: null };
+
+  return NextResponse.json({
+    event,
+    tiers: tiers ?? [],
+    images: images ?? [],
+    entry_gates: entryGates ?? [],
+    series,
+  });
 }
 
 export async function PATCH(req: NextRequest, { params }: Params) {
   try {
-    const admin = await requireEventEdit(req); // Admins, moderators, vendors (no vendor_moderator)
+    const admin = await requireCapability(req, 'event.edit');
     const { id } = await params;
-    const eventAccess = await getEventAccess(admin, id);
+    const eventAccess = await getEventAccess(admin, id, 'event.edit');
     if (!eventAccess) {
       return NextResponse.json({ error: 'Unauthorized: Event access denied' }, { status: 403 });
     }
     const { data: currentEvent } = await supabaseAdmin
       .from('events')
-      .select('require_email_domain_verification, allowed_email_domains, enable_entry_gate_flow')
+      .select('*')
       .eq('id', id)
       .single();
     const json = await req.json();
@@ -174,24 +224,63 @@ export async function PATCH(req: NextRequest, { params }: Params) {
     const payload = parsed.data as Record<string, unknown>;
     const requestedEntryGates = normalizeEntryGates(payload.entry_gates);
     delete payload.entry_gates;
+    const seriesScope = payload.series_scope;
+    delete payload.series_scope;
+    if (seriesScope === 'future' && !currentEvent?.series_id) {
+      return NextResponse.json({ error: 'This event is not part of a series' }, { status: 400 });
+    }
     if (payload.start_at instanceof Date) payload.start_at = payload.start_at.toISOString();
     if (payload.end_at instanceof Date) payload.end_at = (payload.end_at as Date).toISOString();
+    if (payload.publish_at instanceof Date) payload.publish_at = payload.publish_at.toISOString();
+    if (payload.archive_at instanceof Date) payload.archive_at = payload.archive_at.toISOString();
 
-    if (admin.role !== 'admin') {
+    const canManageSettings = can(admin, 'event.settings.manage', eventAccess);
+    const canManageGates = can(admin, 'event.gates.manage', eventAccess);
+
+    if (!can(admin, 'event.vendor.assign', eventAccess)) {
       delete payload.vendor_id;
-      delete payload.allow_cab;
-      delete payload.require_instagram_verification;
-      delete payload.require_email_domain_verification;
-      delete payload.allowed_email_domains;
-      delete payload.enable_entry_gate_flow;
     } else if ('vendor_id' in payload) {
       const nextVendorId = payload.vendor_id ?? null;
       if (eventAccess.vendor_id && eventAccess.vendor_id !== nextVendorId) {
         return NextResponse.json({ error: 'Vendor reassignment is not allowed' }, { status: 400 });
       }
+      if (nextVendorId && nextVendorId !== eventAccess.vendor_id && !(await isAssignableVendor(nextVendorId as string))) {
+        return NextResponse.json({ error: 'Vendor not found or archived' }, { status: 400 });
+      }
+    }
+
+    if (payload.venue_id && payload.venue_id !== currentEvent?.venue_id && !(await isLinkableVenue(payload.venue_id as string))) {
+      return NextResponse.json({ error: 'Venue not found or archived' }, { status: 400 });
+    }
+
+    if ('capacity' in payload && payload.capacity !== (currentEvent?.capacity ?? null)) {
+      const capacityError = eventCapacityError((payload.capacity as number | null) ?? null, await loadTierAllocations(id));
+      if (capacityError) {
+        return NextResponse.json({ error: capacityError }, { status: 409 });
+      }
     }
 
-    if (admin.role === 'admin') {
+    if ('category' in payload || 'subcategory' in payload) {
+      // A new category drops a sub-category that belonged to the old one.
+      if ('category' in payload && payload.category !== currentEvent?.category && !('subcategory' in payload)) {
+        payload.subcategory = null;
+      }
+      const taxonomyProblem = taxonomyError(
+        await listEventCategories(),
+        { ...(currentEvent ?? {}), ...payload } as EventClassification,
+        currentEvent ?? {}
+      );
+      if (taxonomyProblem) {
+        return NextResponse.json({ error: taxonomyProblem }, { status: 400 });
+      }
+    }
+
+    if (!canManageSettings) {
+      delete payload.allow_cab;
+      delete payload.require_instagram_verification;
+      delete payload.require_email_domain_verification;
+      delete payload.allowed_email_domains;
+    } else {
       if ('allowed_email_domains' in payload) {
         payload.allowed_email_domains = normalizeAllowedDomains(payload.allowed_email_domains);
       }
@@ -212,7 +301,11 @@ export async function PATCH(req: NextRequest, { params }: Params) {
           { status: 400 }
         );
       }
+    }
 
+    if (!canManageGates) {
+      delete payload.enable_entry_gate_flow;
+    } else {
       const resolvedEnableEntryGateFlow =
         'enable_entry_gate_flow' in payload
           ? Boolean(payload.enable_entry_gate_flow)
@@ -246,12 +339,33 @@ export async function PATCH(req: NextRequest, { params }: Params) {
       }
     }
 
-    if (admin.role === 'vendor') {
+    if (!can(admin, 'event.publish', eventAccess)) {
       if (payload.status && payload.status !== 'draft') {
-        return NextResponse.json({ error: 'Vendors cannot publish events' }, { status: 403 });
+        return NextResponse.json({ error: 'Unauthorized: Cannot publish events' }, { status: 403 });
       }
+      // Clearing a scheduled publish is allowed; setting or moving one is not.
+      const currentPublishAt = currentEvent?.publish_at ? Date.parse(currentEvent.publish_at) : null;
+      if (payload.publish_at && Date.parse(payload.publish_at as string) !== currentPublishAt) {
+        return NextResponse.json({ error: 'Unauthorized: Cannot schedule publishing' }, { status: 403 });
+      }
+    }
+    if (payload.status === 'published') {
+      payload.publish_at = null;
+      // Publishing directly settles a review that was still open.
+      if (currentEvent?.review_status === 'pending') payload.review_status = 'approved';
     }
 
+    const scheduleProblem = scheduleError(
+      { ...(currentEvent ?? {}), ...payload } as SchedulableEvent,
+      currentEvent?.status ?? null
+    );
+    if (scheduleProblem) {
+      return NextResponse.json({ error: scheduleProblem }, { status: 400 });
+    }
+
+    const gatesBefore = canManageGates ? await loadEventGates(id) : [];
+    await ensureBaselineRevision(id);
+
     const { data, error } = await supabaseAdmin
       .from('events')
       .update(payload)
@@ -259,10 +373,21 @@ export async function PATCH(req: NextRequest, { params }: Params) {
       .select('*')
       .single();
     if (error || !data) {
+      // A tier grew between the capacity check and the update
+      if (error?.code === '23514') {
+        return NextResponse.json({ error: "The event's tiers no longer fit this capacity" }, { status: 409 });
+      }
       return NextResponse.json({ error: error?.message ?? 'Update failed' }, { status: 500 });
     }
+    await recordAudit(req, admin, {
+      action: 'event.update',
+      entityType: 'event',
+      entityId: id,
+      before: currentEvent,
+      after: data,
+    });
 
-    if (admin.role === 'admin') {
+    if (canManageGates) {
       if ('entry_gates' in (json as Record<string, unknown>)) {
         await syncEventGates(id, requestedEntryGates);
       }
@@ -276,6 +401,30 @@ export async function PATCH(req: NextRequest, { params }: Params) {
           return NextResponse.json({ error: disableError.message }, { status: 500 });
         }
       }
+
+      const gatesAfter = await loadEventGates(id);
+      if (JSON.stringify(gatesBefore) !== JSON.stringify(gatesAfter)) {
+        await recordAudit(req, admin, {
+          action: 'event.gates.sync',
+          entityType: 'event',
+          entityId: id,
+          before: { entry_gates: gatesBefore },
+          after: { entry_gates: gatesAfter },
+        });
+      }
+    }
+
+    await recordEventRevision(id, admin, 'event.update');
+
+    if (seriesScope === 'future') {
+      const seriesUpdate = await applyToLaterOccurrences(req, admin, {
+        before: currentEvent,
+        after: data,
+        payload,
+        gates: 'entry_gates' in (json as Record<string, unknown>) ? requestedEntryGates : null,
+        canManageGates,
+      });
+      return NextResponse.json({ event: data, series_update: seriesUpdate });
     }
     return NextResponse.json({ event: data });
   } catch (e) {
@@ -284,16 +433,19 @@ export async function PATCH(req: NextRequest, { params }: Params) {
 }
 
 export async function DELETE(req: NextRequest, { params }: Params) {
+  let admin;
   try {
-    await requireEventDelete(req); // Only admins can delete events
+    admin = await requireCapability(req, 'event.delete');
   } catch (error: any) {
     return NextResponse.json({ error: error.message }, { status: 403 });
   }
 
   const { id } = await params;
+  const { data: before } = await supabaseAdmin.from('events').select('*').eq('id', id).maybeSingle();
   const { error } = await supabaseAdmin.from('events').delete().eq('id', id);
   if (error) {
     return NextResponse.json({ error: error.message }, { status: 500 });
   }
+  await recordAudit(req, admin, { action: 'event.delete', entityType: 'event', entityId: id, before });
   return NextResponse.json({ success: true });
 }
@@ -1,15 +1,18 @@
 import { NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/lib/supabaseAdmin';
 import { TierCreateSchema } from '@/lib/validation';
-import { getEventAccess, requireAuth, requireEventEdit } from '@/lib/admin-auth';
+import { getEventAccess, requireCapability } from '@/lib/admin-auth';
 import { NextRequest } from 'next/server';
+import { recordAudit } from '@/lib/audit';
+import { ensureBaselineRevision, recordEventRevision } from '@/lib/event-revisions';
+import { loadEventCapacity, loadTierAllocations, tierCapacityError } from '@/lib/event-capacity';
 
 type Params = { params: Promise<{ id: string }> };
 
 export async function GET(req: NextRequest, { params }: Params) {
   let admin;
   try {
-    admin = await requireAuth(req); // All authenticated roles can view tiers (scoped for vendors)
+    admin = await requireCapability(req, 'event.view'); // Scoped to their own events for vendors
   } catch (error: any) {
     return NextResponse.json({ error: error.message }, { status: 401 });
   }
@@ -32,9 +35,9 @@ export async function GET(req: NextRequest, { params }: Params) {
 
 export async function POST(req: NextRequest, { params }: Params) {
   try {
-    const admin = await requireEventEdit(req); // Admins, moderators, vendors (no vendor_moderator)
+    const admin = await requireCapability(req, 'event.tiers.manage');
     const { id: eventId } = await params;
-    const eventAccess = await getEventAccess(admin, eventId);
+    const eventAccess = await getEventAccess(admin, eventId, 'event.tiers.manage');
     if (!eventAccess) {
       return NextResponse.json({ error: 'Unauthorized: Event access denied' }, { status: 403 });
     }
@@ -48,14 +51,27 @@ export async function POST(req: NextRequest, { params }: Params) {
     if (payload.sales_start instanceof Date) payload.sales_start = payload.sales_start.toISOString();
     if (payload.sales_end instanceof Date) payload.sales_end = payload.sales_end.toISOString();
 
+    const [capacity, tiers] = await Promise.all([loadEventCapacity(eventId), loadTierAllocations(eventId)]);
+    const capacityError = tierCapacityError(capacity, tiers, { total_quantity: parsed.data.total_quantity });
+    if (capacityError) {
+      return NextResponse.json({ error: capacityError }, { status: 409 });
+    }
+
+    await ensureBaselineRevision(eventId);
     const { data, error } = await supabaseAdmin
       .from('ticket_tiers')
       .insert(payload)
       .select('*')
       .single();
     if (error) {
+      // Another tier took the room between the check and the insert
+      if (error.code === '23514') {
+        return NextResponse.json({ error: 'The event no longer has room for this many tickets' }, { status: 409 });
+      }
       return NextResponse.json({ error: error.message }, { status: 500 });
     }
+    await recordEventRevision(eventId, admin, 'ticket_tier.create');
+    await recordAudit(req, admin, { action: 'ticket_tier.create', entityType: 'ticket_tier', entityId: data.id, after: data });
     return NextResponse.json({ tier: data }, { status: 201 });
   } catch (e) {
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
@@ -1,12 +1,13 @@
 import { NextResponse } from 'next/server';
 import { NextRequest } from 'next/server';
 import { supabaseAdmin } from '@/lib/supabaseAdmin';
-import { getVendorScopeId, requireAuth } from '@/lib/admin-auth';
+import { requireCapability } from '@/lib/admin-auth';
+import { getEventScopeId, getVendorScopeId, isVendorScoped } from '@/lib/permissions';
 
 export async function GET(req: NextRequest) {
   let admin;
   try {
-    admin = await requireAuth(req);
+    admin = await requireCapability(req, 'event.view');
   } catch (error: unknown) {
     const message = error instanceof Error ? error.message : 'Unauthorized';
     return NextResponse.json({ error: message }, { status: 401 });
@@ -20,7 +21,8 @@ export async function GET(req: NextRequest) {
 
   let query = supabaseAdmin
     .from('events')
-    .select('id, title, start_at, status')
+    .select('id, title, start_at, timezone, status')
+    .eq('is_series_template', false)
     .order('created_at', { ascending: false });
 
   if (q) {
@@ -28,12 +30,16 @@ export async function GET(req: NextRequest) {
   }
 
   const vendorScopeId = getVendorScopeId(admin);
-  if (admin.role === 'vendor' || admin.role === 'vendor_moderator') {
+  if (isVendorScoped(admin)) {
     if (!vendorScopeId) {
       return NextResponse.json({ events: [] });
     }
     query = query.eq('vendor_id', vendorScopeId);
   }
+  const eventScopeId = getEventScopeId(admin);
+  if (eventScopeId) {
+    query = query.eq('id', eventScopeId);
+  }
 
   const { data, error } = await query.limit(limit);
   if (error) {
@@ -0,0 +1,79 @@
+import { NextResponse } from 'next/server';
+import { NextRequest } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { requireCapability } from '@/lib/admin-auth';
+import { getEventScopeId, getVendorScopeId, isVendorScoped } from '@/lib/permissions';
+import { REVIEW_COMMENT_COLUMNS, type EventReviewComment } from '@/lib/event-review';
+
+// GET /api/events/review-queue - Events waiting for review, longest-waiting first
+export async function GET(req: NextRequest) {
+  let admin;
+  try {
+    admin = await requireCapability(req, 'event.publish');
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unauthorized';
+    return NextResponse.json({ error: message }, { status: 403 });
+  }
+
+  let query = supabaseAdmin
+    .from('events')
+    .select('id, title, start_at, city, status, publish_at, vendor_id, review_submitted_at')
+    .eq('review_status', 'pending')
+    .eq('is_series_template', false)
+    .order('review_submitted_at', { ascending: true });
+  if (isVendorScoped(admin)) {
+    const vendorScopeId = getVendorScopeId(admin);
+    if (!vendorScopeId) {
+      return NextResponse.json({ events: [] });
+    }
+    query = query.eq('vendor_id', vendorScopeId);
+  }
+  const eventScopeId = getEventScopeId(admin);
+  if (eventScopeId) {
+    query = query.eq('id', eventScopeId);
+  }
+
+  const { data: events, error } = await query;
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  try {
+    const vendorIds = Array.from(
+      new Set((events ?? []).map((event) => event.vendor_id as string | null).filter((id): id is string => !!id))
+    );
+    const { data: vendors } = vendorIds.length
+      ? await supabaseAdmin.from('vendors').select('id, name').in('id', vendorIds)
+      : { data: [] };
+    const vendorNames = Object.fromEntries((vendors ?? []).map((vendor) => [vendor.id, vendor.name]));
+
+    const { data: comments, error: commentsError } = (events ?? []).length
+      ? await supabaseAdmin
+          .from('event_review_comments')
+          .select(REVIEW_COMMENT_COLUMNS)
+          .in('event_id', (events ?? []).map((event) => event.id))
+          .in('kind', ['submitted', 'comment'])
+          .order('created_at', { ascending: true })
+      : { data: [], error: null };
+    if (commentsError) {
+      throw new Error(commentsError.message);
+    }
+
+    const queue = (events ?? []).map((event) => {
+      const thread = ((comments ?? []) as EventReviewComment[]).filter((comment) => comment.event_id === event.id);
+      // The note left with the latest submission, if any.
+      const submission = thread.filter((comment) => comment.kind === 'submitted').pop();
+      return {
+        ...event,
+        vendor_name: event.vendor_id ? vendorNames[event.vendor_id] ?? null : null,
+        submitted_by: submission?.author_email ?? null,
+        submission_note: submission?.body ?? null,
+        comment_count: thread.filter((comment) => comment.kind === 'comment').length,
+      };
+    });
+    return NextResponse.json({ events: queue });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
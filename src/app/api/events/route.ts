@@ -1,8 +1,16 @@
 import { NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/lib/supabaseAdmin';
 import { EventCreateSchema } from '@/lib/validation';
-import { getVendorScopeId, requireEventCreate, requireAuth } from '@/lib/admin-auth';
+import { requireCapability } from '@/lib/admin-auth';
+import { can, getEventScopeId, getVendorScopeId, isVendorScoped } from '@/lib/permissions';
 import { NextRequest } from 'next/server';
+import { recordAudit } from '@/lib/audit';
+import { isAssignableVendor } from '@/lib/vendors';
+import { scheduleError, type SchedulableEvent } from '@/lib/event-schedule';
+import { recordEventRevision } from '@/lib/event-revisions';
+import { latestChangeRequests } from '@/lib/event-review';
+import { listEventCategories, taxonomyError, type EventClassification } from '@/lib/event-categories';
+import { isLinkableVenue } from '@/lib/venues';
 
 const normalizeAllowedDomains = (domains: unknown): string[] => {
   if (!Array.isArray(domains)) return [];
@@ -49,20 +57,29 @@ const normalizeEntryGates = (gates: unknown): GateInput[] => {
 export async function GET(req: NextRequest) {
   let admin;
   try {
-    admin = await requireAuth(req); // All authenticated roles can view events (scoped for vendors)
+    admin = await requireCapability(req, 'event.view'); // Scoped to their own events for vendors
   } catch (error: any) {
     return NextResponse.json({ error: error.message }, { status: 401 });
   }
 
   // Fetch events
-  let query = supabaseAdmin.from('events').select('*').order('created_at', { ascending: false });
+  // Series templates are only ever reached through their series.
+  let query = supabaseAdmin
+    .from('events')
+    .select('*')
+    .eq('is_series_template', false)
+    .order('created_at', { ascending: false });
   const vendorScopeId = getVendorScopeId(admin);
-  if (admin.role === 'vendor' || admin.role === 'vendor_moderator') {
+  if (isVendorScoped(admin)) {
     if (!vendorScopeId) {
       return NextResponse.json({ events: [] });
     }
     query = query.eq('vendor_id', vendorScopeId);
   }
+  const eventScopeId = getEventScopeId(admin);
+  if (eventScopeId) {
+    query = query.eq('id', eventScopeId);
+  }
 
   const { data: events, error } = await query;
   if (error) {
@@ -85,14 +102,33 @@ export async function GET(req: NextRequest) {
     map[row.event_id] = (map[row.event_id] ?? 0) + 1;
   }
 
-  const withCounts = (events ?? []).map((e: any) => ({ ...e, cab_opt_in_count: map[e.id] ?? 0 }));
-  return NextResponse.json({ events: withCounts });
+  const seriesIds = Array.from(
+    new Set((events ?? []).map((e) => e.series_id as string | null).filter((id): id is string => !!id))
+  );
+  const { data: series } = seriesIds.length
+    ? await supabaseAdmin.from('event_series').select('id, recurrence, timezone').in('id', seriesIds)
+    : { data: [] };
+
+  // What reviewers asked to change, for events sent back to their vendor.
+  const feedback = await latestChangeRequests(
+    (events ?? []).filter((e) => e.review_status === 'changes_requested').map((e) => e.id as string)
+  ).catch((feedbackError: unknown) => {
+    console.error('Failed to load review feedback:', feedbackError);
+    return {} as Awaited<ReturnType<typeof latestChangeRequests>>;
+  });
+
+  const withCounts = (events ?? []).map((e: any) => ({
+    ...e,
+    cab_opt_in_count: map[e.id] ?? 0,
+    review_feedback: feedback[e.id] ?? null,
+  }));
+  return NextResponse.json({ events: withCounts, series: series ?? [] });
 }
 
 export async function POST(req: NextRequest) {
   let admin;
   try {
-    admin = await requireEventCreate(req); // Admins and vendors can create events
+    admin = await requireCapability(req, 'event.create');
   } catch (error: any) {
     return NextResponse.json({ error: error.message }, { status: 403 });
   }
@@ -111,17 +147,31 @@ export async function POST(req: NextRequest) {
     const requestedEntryGates = normalizeEntryGates(payload.entry_gates);
     delete payload.entry_gates;
 
-    if (admin.role === 'vendor') {
-      payload.vendor_id = admin.id;
+    if (!can(admin, 'event.vendor.assign')) {
+      payload.vendor_id = getVendorScopeId(admin);
+    } else if (payload.vendor_id && !(await isAssignableVendor(payload.vendor_id as string))) {
+      return NextResponse.json({ error: 'Vendor not found or archived' }, { status: 400 });
+    }
+    if (payload.venue_id && !(await isLinkableVenue(payload.venue_id as string))) {
+      return NextResponse.json({ error: 'Venue not found or archived' }, { status: 400 });
+    }
+    if (payload.category || payload.subcategory) {
+      const taxonomyProblem = taxonomyError(await listEventCategories(), payload as EventClassification);
+      if (taxonomyProblem) {
+        return NextResponse.json({ error: taxonomyProblem }, { status: 400 });
+      }
+    }
+    if (!can(admin, 'event.publish')) {
       payload.status = 'draft';
+      // A scheduled publish is still a publish.
+      delete payload.publish_at;
     }
 
-    if (admin.role !== 'admin') {
+    if (!can(admin, 'event.settings.manage')) {
       delete payload.allow_cab;
       delete payload.require_instagram_verification;
       delete payload.require_email_domain_verification;
       delete payload.allowed_email_domains;
-      delete payload.enable_entry_gate_flow;
     } else {
       payload.allowed_email_domains = normalizeAllowedDomains(payload.allowed_email_domains);
       if (!payload.require_email_domain_verification) {
@@ -132,6 +182,12 @@ export async function POST(req: NextRequest) {
           { status: 400 }
         );
       }
+    }
+
+    const canManageGates = can(admin, 'event.gates.manage');
+    if (!canManageGates) {
+      delete payload.enable_entry_gate_flow;
+    } else {
       payload.enable_entry_gate_flow = Boolean(payload.enable_entry_gate_flow);
       if (payload.enable_entry_gate_flow && requestedEntryGates.length === 0) {
         return NextResponse.json(
@@ -153,6 +209,14 @@ export async function POST(req: NextRequest) {
     // Normalize date fields to ISO strings if Date objects were passed
     if (payload.start_at instanceof Date) payload.start_at = payload.start_at.toISOString();
     if (payload.end_at instanceof Date) payload.end_at = (payload.end_at as Date).toISOString();
+    if (payload.publish_at instanceof Date) payload.publish_at = payload.publish_at.toISOString();
+    if (payload.archive_at instanceof Date) payload.archive_at = payload.archive_at.toISOString();
+    if (payload.status === 'published') payload.publish_at = null;
+
+    const scheduleProblem = scheduleError(payload as SchedulableEvent, null);
+    if (scheduleProblem) {
+      return NextResponse.json({ error: scheduleProblem }, { status: 400 });
+    }
 
     // Remove null/undefined base_price_cents to avoid sending it if not needed
     if (payload.base_price_cents === null || payload.base_price_cents === undefined) {
@@ -168,7 +232,14 @@ export async function POST(req: NextRequest) {
       }, { status: 500 });
     }
 
-    if (admin.role === 'admin' && data.enable_entry_gate_flow) {
+    await recordAudit(req, admin, {
+      action: 'event.create',
+      entityType: 'event',
+      entityId: data.id,
+      after: { ...data, entry_gates: canManageGates && data.enable_entry_gate_flow ? requestedEntryGates : [] },
+    });
+
+    if (canManageGates && data.enable_entry_gate_flow) {
       const gateRows = requestedEntryGates.map((gate, index) => ({
         event_id: data.id,
         name: gate.name,
@@ -188,6 +259,7 @@ export async function POST(req: NextRequest) {
         }
       }
     }
+    await recordEventRevision(data.id, admin, 'event.create');
     return NextResponse.json({ event: data }, { status: 201 });
   } catch (e) {
     console.error('Error creating event:', e);
@@ -1,24 +1,26 @@
 import { NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/lib/supabaseAdmin';
 import { ImageUpdateSchema } from '@/lib/validation';
-import { getEventAccess, requireEventEdit } from '@/lib/admin-auth';
+import { getEventAccess, requireCapability } from '@/lib/admin-auth';
 import { NextRequest } from 'next/server';
+import { recordAudit } from '@/lib/audit';
+import { ensureBaselineRevision, recordEventRevision } from '@/lib/event-revisions';
 
 type Params = { params: Promise<{ id: string }> };
 
 export async function PATCH(req: NextRequest, { params }: Params) {
   try {
-    const admin = await requireEventEdit(req); // Admins, moderators, vendors (no vendor_moderator)
+    const admin = await requireCapability(req, 'event.images.manage');
     const { id } = await params;
     const { data: image, error: imageError } = await supabaseAdmin
       .from('event_images')
-      .select('id, event_id')
+      .select('*')
       .eq('id', id)
       .single();
     if (imageError || !image) {
       return NextResponse.json({ error: 'Image not found' }, { status: 404 });
     }
-    const eventAccess = await getEventAccess(admin, image.event_id);
+    const eventAccess = await getEventAccess(admin, image.event_id, 'event.images.manage');
     if (!eventAccess) {
       return NextResponse.json({ error: 'Unauthorized: Event access denied' }, { status: 403 });
     }
@@ -28,6 +30,7 @@ export async function PATCH(req: NextRequest, { params }: Params) {
       return NextResponse.json({ error: 'Invalid payload' }, { status: 400 });
     }
     const payload = parsed.data as Record<string, unknown>;
+    await ensureBaselineRevision(image.event_id);
     const { data, error } = await supabaseAdmin
       .from('event_images')
       .update(payload)
@@ -37,6 +40,8 @@ export async function PATCH(req: NextRequest, { params }: Params) {
     if (error || !data) {
       return NextResponse.json({ error: error?.message ?? 'Update failed' }, { status: 500 });
     }
+    await recordEventRevision(image.event_id, admin, 'event_image.update');
+    await recordAudit(req, admin, { action: 'event_image.update', entityType: 'event_image', entityId: id, before: image, after: data });
     return NextResponse.json({ image: data });
   } catch (e) {
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
@@ -45,25 +50,28 @@ export async function PATCH(req: NextRequest, { params }: Params) {
 
 export async function DELETE(req: NextRequest, { params }: Params) {
   try {
-    const admin = await requireEventEdit(req); // Admins, moderators, vendors (no vendor_moderator)
+    const admin = await requireCapability(req, 'event.images.manage');
     const { id } = await params;
     const { data: image, error: imageError } = await supabaseAdmin
       .from('event_images')
-      .select('id, event_id')
+      .select('*')
       .eq('id', id)
       .single();
     if (imageError || !image) {
       return NextResponse.json({ error: 'Image not found' }, { status: 404 });
     }
-    const eventAccess = await getEventAccess(admin, image.event_id);
+    const eventAccess = await getEventAccess(admin, image.event_id, 'event.images.manage');
     if (!eventAccess) {
       return NextResponse.json({ error: 'Unauthorized: Event access denied' }, { status: 403 });
     }
 
+    await ensureBaselineRevision(image.event_id);
     const { error } = await supabaseAdmin.from('event_images').delete().eq('id', id);
     if (error) {
       return NextResponse.json({ error: error.message }, { status: 500 });
     }
+    await recordEventRevision(image.event_id, admin, 'event_image.delete');
+    await recordAudit(req, admin, { action: 'event_image.delete', entityType: 'event_image', entityId: id, before: image });
     return NextResponse.json({ success: true });
   } catch (error: any) {
     return NextResponse.json({ error: error.message || 'Internal server error' }, { status: 500 });
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getEventAccess, requireAuth } from '@/lib/admin-auth';
+import { getEventAccess, requireCapability } from '@/lib/admin-auth';
 import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { recordAudit } from '@/lib/audit';
 
 type Params = { params: Promise<{ id: string }> };
 type InstagramStatus = 'pending' | 'approved' | 'rejected' | 'not_required';
@@ -9,7 +10,7 @@ const ALLOWED_STATUSES: InstagramStatus[] = ['pending', 'approved', 'rejected',
 
 export async function PATCH(req: NextRequest, { params }: Params) {
   try {
-    const admin = await requireAuth(req);
+    const admin = await requireCapability(req, 'instagram.review');
     const { id } = await params;
     const body = await req.json();
     const status = String(body?.status ?? '') as InstagramStatus;
@@ -20,7 +21,7 @@ export async function PATCH(req: NextRequest, { params }: Params) {
 
     const { data: order, error: orderError } = await supabaseAdmin
       .from('orders')
-      .select('id, event_id, instagram_handle')
+      .select('id, event_id, instagram_handle, instagram_verification_status, instagram_verified_at, instagram_verified_by, refund_requested, refund_reason, refund_requested_at')
       .eq('id', id)
       .single();
 
@@ -28,7 +29,7 @@ export async function PATCH(req: NextRequest, { params }: Params) {
       return NextResponse.json({ error: 'Order not found' }, { status: 404 });
     }
 
-    const eventAccess = await getEventAccess(admin, order.event_id);
+    const eventAccess = await getEventAccess(admin, order.event_id, 'instagram.review');
     if (!eventAccess) {
       return NextResponse.json({ error: 'Unauthorized: Event access denied' }, { status: 403 });
     }
@@ -58,16 +59,24 @@ export async function PATCH(req: NextRequest, { params }: Params) {
       .from('orders')
       .update(updatePayload)
       .eq('id', id)
-      .select('id, instagram_verification_status, instagram_verified_at, instagram_verified_by, refund_requested')
+      .select('id, instagram_verification_status, instagram_verified_at, instagram_verified_by, refund_requested, refund_reason, refund_requested_at')
       .single();
 
     if (updateError || !updated) {
       return NextResponse.json({ error: updateError?.message ?? 'Failed to update status' }, { status: 500 });
     }
 
+    await recordAudit(req, admin, {
+      action: `order.instagram.${status}`,
+      entityType: 'order',
+      entityId: id,
+      before: order,
+      after: updated,
+    });
+
     return NextResponse.json({ order: updated });
   } catch (error: unknown) {
     const message = error instanceof Error ? error.message : 'Internal server error';
-    return NextResponse.json({ error: message }, { status: 500 });
+    return NextResponse.json({ error: message }, { status: message.startsWith('Unauthorized') ? 403 : 500 });
   }
 }
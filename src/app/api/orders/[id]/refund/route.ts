@@ -1,7 +1,8 @@
 import { NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/lib/supabaseAdmin';
-import { requireAuth, getEventAccess } from '@/lib/admin-auth';
+import { requireCapability, getEventAccess } from '@/lib/admin-auth';
 import { NextRequest } from 'next/server';
+import { recordAudit } from '@/lib/audit';
 import { z } from 'zod';
 
 type Params = { params: Promise<{ id: string }> };
@@ -14,7 +15,7 @@ const UpdateRefundSchema = z.object({
 export async function PATCH(req: NextRequest, { params }: Params) {
   let admin;
   try {
-    admin = await requireAuth(req);
+    admin = await requireCapability(req, 'refund.process');
   } catch (error: any) {
     return NextResponse.json({ error: error.message }, { status: 401 });
   }
@@ -39,7 +40,7 @@ export async function PATCH(req: NextRequest, { params }: Params) {
   // Fetch the order to get event_id for access check
   const { data: order, error: orderError } = await supabaseAdmin
     .from('orders')
-    .select('id, event_id, refund_requested')
+    .select('id, event_id, refund_requested, refund_processed, refund_processed_at, refund_processed_by, refund_notes')
     .eq('id', orderId)
     .single();
 
@@ -48,7 +49,7 @@ export async function PATCH(req: NextRequest, { params }: Params) {
   }
 
   // Check if admin has access to this event
-  const eventAccess = await getEventAccess(admin, order.event_id);
+  const eventAccess = await getEventAccess(admin, order.event_id, 'refund.process');
   if (!eventAccess) {
     return NextResponse.json({ error: 'Unauthorized: Event access denied' }, { status: 403 });
   }
@@ -77,7 +78,7 @@ export async function PATCH(req: NextRequest, { params }: Params) {
     .from('orders')
     .update(updateData)
     .eq('id', orderId)
-    .select('id, refund_processed, refund_processed_at, refund_notes')
+    .select('id, refund_processed, refund_processed_at, refund_processed_by, refund_notes')
     .single();
 
   if (updateError) {
@@ -85,6 +86,14 @@ export async function PATCH(req: NextRequest, { params }: Params) {
     return NextResponse.json({ error: updateError.message }, { status: 500 });
   }
 
+  await recordAudit(req, admin, {
+    action: processed ? 'order.refund.process' : 'order.refund.update',
+    entityType: 'order',
+    entityId: orderId,
+    before: order,
+    after: updatedOrder,
+  });
+
   return NextResponse.json({
     success: true,
     order: updatedOrder,
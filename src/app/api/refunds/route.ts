@@ -1,12 +1,13 @@
 import { NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/lib/supabaseAdmin';
-import { requireAuth, getVendorScopeId } from '@/lib/admin-auth';
+import { requireCapability } from '@/lib/admin-auth';
+import { getEventScopeId, getVendorScopeId } from '@/lib/permissions';
 import { NextRequest } from 'next/server';
 
 export async function GET(req: NextRequest) {
   let admin;
   try {
-    admin = await requireAuth(req);
+    admin = await requireCapability(req, 'refund.process');
   } catch (error: any) {
     return NextResponse.json({ error: error.message }, { status: 401 });
   }
@@ -33,6 +34,11 @@ export async function GET(req: NextRequest) {
     .eq('refund_requested', true)
     .order('refund_requested_at', { ascending: false });
 
+  const eventScopeId = getEventScopeId(admin);
+  if (eventScopeId) {
+    query = query.eq('event_id', eventScopeId);
+  }
+
   const { data: orders, error } = await query;
 
   if (error) {
@@ -1,12 +1,13 @@
 import { NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/lib/supabaseAdmin';
-import { requireAuth } from '@/lib/admin-auth';
+import { getEventAccess, requireCapability } from '@/lib/admin-auth';
 import { NextRequest } from 'next/server';
+import { recordAudit } from '@/lib/audit';
 
 export async function POST(req: NextRequest) {
   let admin;
   try {
-    admin = await requireAuth(req);
+    admin = await requireCapability(req, 'ticket.reject');
   } catch (error: any) {
     return NextResponse.json({ error: error.message }, { status: 401 });
   }
@@ -35,6 +36,11 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    const eventAccess = await getEventAccess(admin, ticket.event_id, 'ticket.reject');
+    if (!eventAccess) {
+      return NextResponse.json({ error: 'Unauthorized: Event access denied' }, { status: 403 });
+    }
+
     // Check if ticket is already cancelled or used
     if (ticket.status === 'cancelled') {
       return NextResponse.json(
@@ -51,13 +57,15 @@ export async function POST(req: NextRequest) {
     }
 
     // Update ticket status to 'cancelled'
-    const { error: updateError } = await supabaseAdmin
+    const { data: updatedTicket, error: updateError } = await supabaseAdmin
       .from('tickets')
       .update({
         status: 'cancelled',
         updated_at: new Date().toISOString(),
       })
-      .eq('id', ticketId);
+      .eq('id', ticketId)
+      .select('*')
+      .single();
 
     if (updateError) {
       return NextResponse.json(
@@ -66,6 +74,14 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    await recordAudit(req, admin, {
+      action: 'ticket.reject',
+      entityType: 'ticket',
+      entityId: ticketId,
+      before: ticket,
+      after: updatedTicket,
+    });
+
     return NextResponse.json({
       success: true,
       message: 'Ticket rejected successfully',
@@ -1,6 +1,6 @@
 import { NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/lib/supabaseAdmin';
-import { getEventAccess, requireAuth } from '@/lib/admin-auth';
+import { getEventAccess, requireCapability } from '@/lib/admin-auth';
 import { NextRequest } from 'next/server';
 
 interface QRCodeData {
@@ -97,7 +97,7 @@ function buildGateProgress(activeGates: { id: string }[], gateScans: GateScanIte
 export async function POST(req: NextRequest) {
   let admin;
   try {
-    admin = await requireAuth(req);
+    admin = await requireCapability(req, 'ticket.verify');
   } catch (error: any) {
     return NextResponse.json({ error: error.message }, { status: 401 });
   }
@@ -163,7 +163,7 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    const eventAccess = await getEventAccess(admin, ticket.event_id);
+    const eventAccess = await getEventAccess(admin, ticket.event_id, 'ticket.verify');
     if (!eventAccess) {
       return NextResponse.json({ error: 'Unauthorized: Event access denied' }, { status: 403 });
     }
@@ -1,24 +1,27 @@
 import { NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/lib/supabaseAdmin';
 import { TierUpdateSchema } from '@/lib/validation';
-import { getEventAccess, requireEventEdit } from '@/lib/admin-auth';
+import { getEventAccess, requireCapability } from '@/lib/admin-auth';
 import { NextRequest } from 'next/server';
+import { recordAudit } from '@/lib/audit';
+import { ensureBaselineRevision, recordEventRevision } from '@/lib/event-revisions';
+import { loadEventCapacity, loadTierAllocations, tierCapacityError } from '@/lib/event-capacity';
 
 type Params = { params: Promise<{ id: string }> };
 
 export async function PATCH(req: NextRequest, { params }: Params) {
   try {
-    const admin = await requireEventEdit(req); // Admins, moderators, vendors (no vendor_moderator)
+    const admin = await requireCapability(req, 'event.tiers.manage');
     const { id } = await params;
     const { data: tier, error: tierError } = await supabaseAdmin
       .from('ticket_tiers')
-      .select('id, event_id')
+      .select('*')
       .eq('id', id)
       .single();
     if (tierError || !tier) {
       return NextResponse.json({ error: 'Tier not found' }, { status: 404 });
     }
-    const eventAccess = await getEventAccess(admin, tier.event_id);
+    const eventAccess = await getEventAccess(admin, tier.event_id, 'event.tiers.manage');
     if (!eventAccess) {
       return NextResponse.json({ error: 'Unauthorized: Event access denied' }, { status: 403 });
     }
@@ -31,6 +34,19 @@ export async function PATCH(req: NextRequest, { params }: Params) {
     if (payload.sales_start instanceof Date) payload.sales_start = payload.sales_start.toISOString();
     if (payload.sales_end instanceof Date) payload.sales_end = payload.sales_end.toISOString();
 
+    if (parsed.data.total_quantity !== undefined && parsed.data.total_quantity !== tier.total_quantity) {
+      const [capacity, tiers] = await Promise.all([loadEventCapacity(tier.event_id), loadTierAllocations(tier.event_id)]);
+      const capacityError = tierCapacityError(capacity, tiers, {
+        id,
+        total_quantity: parsed.data.total_quantity,
+        sold_quantity: tier.sold_quantity,
+      });
+      if (capacityError) {
+        return NextResponse.json({ error: capacityError }, { status: 409 });
+      }
+    }
+
+    await ensureBaselineRevision(tier.event_id);
     const { data, error } = await supabaseAdmin
       .from('ticket_tiers')
       .update(payload)
@@ -38,8 +54,14 @@ export async function PATCH(req: NextRequest, { params }: Params) {
       .select('*')
       .single();
     if (error || !data) {
+      // Sales or another tier took the room between the check and the update
+      if (error?.code === '23514') {
+        return NextResponse.json({ error: 'The event no longer has room for this many tickets' }, { status: 409 });
+      }
       return NextResponse.json({ error: error?.message ?? 'Update failed' }, { status: 500 });
     }
+    await recordEventRevision(tier.event_id, admin, 'ticket_tier.update');
+    await recordAudit(req, admin, { action: 'ticket_tier.update', entityType: 'ticket_tier', entityId: id, before: tier, after: data });
     return NextResponse.json({ tier: data });
   } catch (e) {
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
@@ -48,25 +70,28 @@ export async function PATCH(req: NextRequest, { params }: Params) {
 
 export async function DELETE(req: NextRequest, { params }: Params) {
   try {
-    const admin = await requireEventEdit(req); // Admins, moderators, vendors (no vendor_moderator)
+    const admin = await requireCapability(req, 'event.tiers.manage');
     const { id } = await params;
     const { data: tier, error: tierError } = await supabaseAdmin
       .from('ticket_tiers')
-      .select('id, event_id')
+      .select('*')
       .eq('id', id)
       .single();
     if (tierError || !tier) {
       return NextResponse.json({ error: 'Tier not found' }, { status: 404 });
     }
-    const eventAccess = await getEventAccess(admin, tier.event_id);
+    const eventAccess = await getEventAccess(admin, tier.event_id, 'event.tiers.manage');
     if (!eventAccess) {
       return NextResponse.json({ error: 'Unauthorized: Event access denied' }, { status: 403 });
     }
 
+    await ensureBaselineRevision(tier.event_id);
     const { error } = await supabaseAdmin.from('ticket_tiers').delete().eq('id', id);
     if (error) {
       return NextResponse.json({ error: error.message }, { status: 500 });
     }
+    await recordEventRevision(tier.event_id, admin, 'ticket_tier.delete');
+    await recordAudit(req, admin, { action: 'ticket_tier.delete', entityType: 'ticket_tier', entityId: id, before: tier });
     return NextResponse.json({ success: true });
   } catch (error: any) {
     return NextResponse.json({ error: error.message || 'Internal server error' }, { status: 500 });
@@ -1,7 +1,8 @@
 import { NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/lib/supabaseAdmin';
 import { compressImage } from '@/lib/image-compress';
-import { getEventAccess, requireEventEdit } from '@/lib/admin-auth';
+import { getEventAccess, requireCapability } from '@/lib/admin-auth';
+import { recordAudit } from '@/lib/audit';
 import { NextRequest } from 'next/server';
 
 const BUCKET = process.env.EVENT_IMAGES_BUCKET || process.env.NEXT_PUBLIC_EVENT_IMAGES_BUCKET || 'event-images';
@@ -10,7 +11,7 @@ const MAX_IMAGE_SIZE_KB = 30;
 export async function POST(req: NextRequest) {
   let admin;
   try {
-    admin = await requireEventEdit(req); // Admins, moderators, vendors (no vendor_moderator)
+    admin = await requireCapability(req, 'event.images.manage'); // Also used for ad creatives
   } catch (error: any) {
     return NextResponse.json({ error: error.message }, { status: 403 });
   }
@@ -33,7 +34,7 @@ export async function POST(req: NextRequest) {
     }
 
     if (eventId) {
-      const eventAccess = await getEventAccess(admin, eventId);
+      const eventAccess = await getEventAccess(admin, eventId, 'event.images.manage');
       if (!eventAccess) {
         return NextResponse.json({ error: 'Unauthorized: Event access denied' }, { status: 403 });
       }
@@ -110,6 +111,12 @@ export async function POST(req: NextRequest) {
         return NextResponse.json({ error: `DB insert failed: ${error.message}`, url }, { status: 500 });
       }
       imageRow = data;
+      await recordAudit(req, admin, {
+        action: 'event_image.create',
+        entityType: 'event_image',
+        entityId: data.id,
+        after: data,
+      });
     }
 
     console.log('[upload] success');
@@ -120,7 +127,15 @@ export async function POST(req: NextRequest) {
   }
 }
 
-export async function GET() {
+// GET /api/upload - Storage diagnostics: configured bucket and whether it exists
+export async function GET(req: NextRequest) {
+  try {
+    await requireCapability(req, 'system.diagnostics');
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unauthorized';
+    return NextResponse.json({ error: message }, { status: 403 });
+  }
+
   try {
     const host = (() => {
       try {
@@ -0,0 +1,140 @@
+import { NextResponse } from 'next/server';
+import { NextRequest } from 'next/server';
+import { requireCapability } from '@/lib/admin-auth';
+import { recordAudit } from '@/lib/audit';
+import { getEventScopeId, getVendorScopeId, isVendorScoped } from '@/lib/permissions';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { VENUE_COLUMNS, countVenueEvents, findVenue } from '@/lib/venues';
+import { VenueUpdateSchema } from '@/lib/validation';
+
+type Params = { params: Promise<{ id: string }> };
+
+// GET /api/venues/[id] - Venue details and the events held there, latest first.
+// Vendors only see their own events.
+export async function GET(req: NextRequest, { params }: Params) {
+  let admin;
+  try {
+    admin = await requireCapability(req, 'event.view');
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unauthorized';
+    return NextResponse.json({ error: message }, { status: 403 });
+  }
+
+  const { id } = await params;
+  try {
+    const venue = await findVenue(id);
+    if (!venue) {
+      return NextResponse.json({ error: 'Venue not found' }, { status: 404 });
+    }
+
+    let query = supabaseAdmin
+      .from('events')
+      .select('id, title, start_at, end_at, timezone, status, vendor_id, series_id')
+      .eq('venue_id', id)
+      .eq('is_series_template', false)
+      .order('start_at', { ascending: false });
+    if (isVendorScoped(admin)) {
+      const vendorScopeId = getVendorScopeId(admin);
+      if (!vendorScopeId) {
+        return NextResponse.json({ venue, events: [] });
+      }
+      query = query.eq('vendor_id', vendorScopeId);
+    }
+    const eventScopeId = getEventScopeId(admin);
+    if (eventScopeId) {
+      query = query.eq('id', eventScopeId);
+    }
+
+    const { data: events, error } = await query;
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ venue, events: events ?? [] });
+  } catch {
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// PATCH /api/venues/[id] - Update a venue's details, default gates, photos or status.
+// Events already linked keep the details they were created with.
+export async function PATCH(req: NextRequest, { params }: Params) {
+  let admin;
+  try {
+    admin = await requireCapability(req, 'venue.manage');
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unauthorized';
+    return NextResponse.json({ error: message }, { status: 403 });
+  }
+
+  const parsed = VenueUpdateSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.issues[0]?.message ?? 'Invalid payload' }, { status: 400 });
+  }
+  if (Object.keys(parsed.data).length === 0) {
+    return NextResponse.json({ error: 'No updates provided' }, { status: 400 });
+  }
+
+  const { id } = await params;
+  try {
+    const before = await findVenue(id);
+    if (!before) {
+      return NextResponse.json({ error: 'Venue not found' }, { status: 404 });
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('venues')
+      .update({ ...parsed.data, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select(VENUE_COLUMNS)
+      .single();
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json({ error: 'A venue with this name already exists in this city' }, { status: 400 });
+      }
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    await recordAudit(req, admin, { action: 'venue.update', entityType: 'venue', entityId: id, before, after: data });
+    return NextResponse.json({ venue: data });
+  } catch {
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE /api/venues/[id] - Delete a venue no event uses; archive it otherwise
+export async function DELETE(req: NextRequest, { params }: Params) {
+  let admin;
+  try {
+    admin = await requireCapability(req, 'venue.manage');
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unauthorized';
+    return NextResponse.json({ error: message }, { status: 403 });
+  }
+
+  const { id } = await params;
+  try {
+    const before = await findVenue(id);
+    if (!before) {
+      return NextResponse.json({ error: 'Venue not found' }, { status: 404 });
+    }
+
+    const eventCount = await countVenueEvents(id);
+    if (eventCount > 0) {
+      return NextResponse.json(
+        { error: `This venue still has ${eventCount} event${eventCount === 1 ? '' : 's'}. Archive it instead.` },
+        { status: 409 }
+      );
+    }
+
+    const { error } = await supabaseAdmin.from('venues').delete().eq('id', id);
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    await recordAudit(req, admin, { action: 'venue.delete', entityType: 'venue', entityId: id, before });
+    return NextResponse.json({ success: true });
+  } catch {
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,77 @@
+import { NextResponse } from 'next/server';
+import { NextRequest } from 'next/server';
+import { requireCapability } from '@/lib/admin-auth';
+import { recordAudit } from '@/lib/audit';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { VENUE_COLUMNS } from '@/lib/venues';
+import { VenueCreateSchema } from '@/lib/validation';
+
+// GET /api/venues - List venues with how many events are linked to each.
+// Archived venues are only included with ?status=all or ?status=archived.
+export async function GET(req: NextRequest) {
+  try {
+    await requireCapability(req, 'event.view');
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unauthorized';
+    return NextResponse.json({ error: message }, { status: 403 });
+  }
+
+  try {
+    const status = req.nextUrl.searchParams.get('status') ?? 'active';
+    let query = supabaseAdmin.from('venues').select(VENUE_COLUMNS).order('name', { ascending: true });
+    if (status !== 'all') {
+      query = query.eq('status', status === 'archived' ? 'archived' : 'active');
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    const venueIds = (data ?? []).map((venue) => venue.id);
+    const { data: events } = venueIds.length
+      ? await supabaseAdmin.from('events').select('venue_id').eq('is_series_template', false).in('venue_id', venueIds)
+      : { data: [] as { venue_id: string }[] };
+    const eventCounts = new Map<string, number>();
+    for (const event of events ?? []) {
+      eventCounts.set(event.venue_id, (eventCounts.get(event.venue_id) ?? 0) + 1);
+    }
+
+    return NextResponse.json({
+      venues: (data ?? []).map((venue) => ({ ...venue, event_count: eventCounts.get(venue.id) ?? 0 })),
+    });
+  } catch {
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST /api/venues - Add a venue
+export async function POST(req: NextRequest) {
+  let admin;
+  try {
+    admin = await requireCapability(req, 'venue.manage');
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unauthorized';
+    return NextResponse.json({ error: message }, { status: 403 });
+  }
+
+  const parsed = VenueCreateSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.issues[0]?.message ?? 'Invalid payload' }, { status: 400 });
+  }
+
+  try {
+    const { data, error } = await supabaseAdmin.from('venues').insert(parsed.data).select(VENUE_COLUMNS).single();
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json({ error: 'A venue with this name already exists in this city' }, { status: 400 });
+      }
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    await recordAudit(req, admin, { action: 'venue.create', entityType: 'venue', entityId: data.id, after: data });
+    return NextResponse.json({ venue: data }, { status: 201 });
+  } catch {
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
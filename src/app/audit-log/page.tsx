@@ -0,0 +1,293 @@
+"use client";
+
+import { Fragment, useCallback, useEffect, useState } from 'react';
+
+type AuditEntry = {
+  id: number;
+  created_at: string;
+  actor_admin_id: string | null;
+  actor_email: string | null;
+  impersonator_admin_id: string | null;
+  api_key_id: string | null;
+  action: string;
+  entity_type: string;
+  entity_id: string | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  changes: Record<string, { from: unknown; to: unknown }> | null;
+  ip: string | null;
+  user_agent: string | null;
+};
+
+type Filters = {
+  actor: string;
+  entity_type: string;
+  entity_id: string;
+  action: string;
+  from: string;
+  to: string;
+};
+
+const EMPTY_FILTERS: Filters = { actor: '', entity_type: '', entity_id: '', action: '', from: '', to: '' };
+
+const ENTITY_TYPES = [
+  'event',
+  'event_image',
+  'ticket_tier',
+  'ticket',
+  'order',
+  'ad',
+  'admin_user',
+  'admin_session',
+  'api_key',
+  'role_policy',
+];
+
+function buildQuery(filters: Filters, extra: Record<string, string> = {}): string {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(filters)) {
+    if (!value) continue;
+    // Date inputs are local calendar days; widen `to` to the end of that day.
+    if (key === 'from') params.set(key, new Date(`${value}T00:00:00`).toISOString());
+    else if (key === 'to') params.set(key, new Date(`${value}T23:59:59.999`).toISOString());
+    else params.set(key, value);
+  }
+  for (const [key, value] of Object.entries(extra)) params.set(key, value);
+  return params.toString();
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'string') return value;
+  return JSON.stringify(value);
+}
+
+function actorLabel(entry: AuditEntry): string {
+  if (entry.actor_email) return entry.actor_email;
+  if (entry.actor_admin_id) return entry.actor_admin_id;
+  return 'Signed-out user';
+}
+
+export default function AuditLogPage() {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [pageSize, setPageSize] = useState(50);
+  const [page, setPage] = useState(1);
+  const [draft, setDraft] = useState<Filters>(EMPTY_FILTERS);
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [expanded, setExpanded] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/admin/audit-log?${buildQuery(filters, { page: String(page) })}`, { cache: 'no-store' });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setError(data?.error || 'Failed to load audit log');
+        return;
+      }
+      setEntries(data.entries ?? []);
+      setTotal(data.total ?? 0);
+      setPageSize(data.page_size ?? 50);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : 'Failed to load audit log');
+    } finally {
+      setLoading(false);
+    }
+  }, [filters, page]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const applyFilters = (e: React.FormEvent) => {
+    e.preventDefault();
+    setPage(1);
+    setFilters(draft);
+  };
+
+  const clearFilters = () => {
+    setDraft(EMPTY_FILTERS);
+    setPage(1);
+    setFilters(EMPTY_FILTERS);
+  };
+
+  const pageCount = Math.max(1, Math.ceil(total / pageSize));
+
+  return (
+    <div>
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-8">
+        <div>
+          <h1 className="text-2xl font-bold text-[var(--hh-text)] tracking-tight">Audit Log</h1>
+          <p className="text-[var(--hh-text-secondary)] mt-1">Every change made through the admin panel and API keys. Entries cannot be edited or removed.</p>
+        </div>
+        <a href={`/api/admin/audit-log?${buildQuery(filters, { format: 'csv' })}`} className="hh-btn-secondary flex items-center gap-2">
+          <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v2a2 2 0 002 2h12a2 2 0 002-2v-2M7 10l5 5 5-5M12 15V3" />
+          </svg>
+          Export CSV
+        </a>
+      </div>
+
+      <form onSubmit={applyFilters} className="hh-card p-4 mb-6 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-6 gap-3">
+        <input
+          value={draft.actor}
+          onChange={(e) => setDraft({ ...draft, actor: e.target.value })}
+          className="hh-input w-full"
+          placeholder="Actor email or ID"
+        />
+        <select
+          value={draft.entity_type}
+          onChange={(e) => setDraft({ ...draft, entity_type: e.target.value })}
+          className="hh-input w-full"
+        >
+          <option value="">All entities</option>
+          {ENTITY_TYPES.map((type) => (
+            <option key={type} value={type}>{type}</option>
+          ))}
+        </select>
+        <input
+          value={draft.entity_id}
+          onChange={(e) => setDraft({ ...draft, entity_id: e.target.value })}
+          className="hh-input w-full"
+          placeholder="Entity ID"
+        />
+        <input
+          value={draft.action}
+          onChange={(e) => setDraft({ ...draft, action: e.target.value })}
+          className="hh-input w-full"
+          placeholder="Action, e.g. event.update"
+        />
+        <input
+          type="date"
+          value={draft.from}
+          onChange={(e) => setDraft({ ...draft, from: e.target.value })}
+          className="hh-input w-full"
+          aria-label="From"
+        />
+        <input
+          type="date"
+          value={draft.to}
+          onChange={(e) => setDraft({ ...draft, to: e.target.value })}
+          className="hh-input w-full"
+          aria-label="To"
+        />
+        <div className="sm:col-span-2 lg:col-span-6 flex justify-end gap-2">
+          <button type="button" onClick={clearFilters} className="hh-btn-secondary text-sm">Clear</button>
+          <button type="submit" className="hh-btn-primary text-sm">Apply filters</button>
+        </div>
+      </form>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-500/10 border border-red-500/20 rounded-xl text-red-400">{error}</div>
+      )}
+
+      <div className="hh-card overflow-hidden shadow-sm">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-[var(--hh-bg-elevated)]/50 border-b border-[var(--hh-border)]">
+              <tr>
+                <th className="px-6 py-4 text-left text-xs font-semibold text-[var(--hh-text-tertiary)] uppercase tracking-wider">When</th>
+                <th className="px-6 py-4 text-left text-xs font-semibold text-[var(--hh-text-tertiary)] uppercase tracking-wider">Actor</th>
+                <th className="px-6 py-4 text-left text-xs font-semibold text-[var(--hh-text-tertiary)] uppercase tracking-wider">Action</th>
+                <th className="px-6 py-4 text-left text-xs font-semibold text-[var(--hh-text-tertiary)] uppercase tracking-wider">Entity</th>
+                <th className="px-6 py-4 text-left text-xs font-semibold text-[var(--hh-text-tertiary)] uppercase tracking-wider">IP</th>
+                <th className="px-6 py-4 text-right text-xs font-semibold text-[var(--hh-text-tertiary)] uppercase tracking-wider">Details</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-[var(--hh-border)]">
+              {loading ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-12 text-center text-[var(--hh-text-secondary)]">Loading audit log...</td>
+                </tr>
+              ) : entries.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-12 text-center text-[var(--hh-text-secondary)]">No entries match these filters</td>
+                </tr>
+              ) : (
+                entries.map((entry) => {
+                  const changeKeys = Object.keys(entry.changes ?? {});
+                  const isOpen = expanded === entry.id;
+                  return (
+                    <Fragment key={entry.id}>
+                      <tr className="hover:bg-[var(--hh-bg-elevated)]/30 transition-colors">
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-[var(--hh-text-secondary)]">{new Date(entry.created_at).toLocaleString()}</td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm">
+                          <div className="text-[var(--hh-text)]">{actorLabel(entry)}</div>
+                          {entry.impersonator_admin_id && (
+                            <div className="text-xs text-amber-400">via impersonation by {entry.impersonator_admin_id}</div>
+                          )}
+                          {entry.api_key_id && (
+                            <div className="text-xs text-[var(--hh-text-tertiary)]">via API key {entry.api_key_id}</div>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm font-mono text-[var(--hh-text)]">{entry.action}</td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-[var(--hh-text-secondary)]">
+                          <div>{entry.entity_type}</div>
+                          {entry.entity_id && <div className="text-xs text-[var(--hh-text-tertiary)] font-mono">{entry.entity_id}</div>}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-[var(--hh-text-secondary)]">{entry.ip ?? '—'}</td>
+                        <td className="px-6 py-4 whitespace-nowrap text-right">
+                          {(entry.before || entry.after) && (
+                            <button onClick={() => setExpanded(isOpen ? null : entry.id)} className="hh-btn-secondary text-xs">
+                              {isOpen ? 'Hide' : changeKeys.length > 0 ? `${changeKeys.length} change${changeKeys.length === 1 ? '' : 's'}` : 'View'}
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                      {isOpen && (
+                        <tr className="bg-[var(--hh-bg-elevated)]/30">
+                          <td colSpan={6} className="px-6 py-4">
+                            {changeKeys.length > 0 ? (
+                              <table className="w-full text-xs">
+                                <thead>
+                                  <tr className="text-left text-[var(--hh-text-tertiary)] uppercase tracking-wider">
+                                    <th className="py-1 pr-4 font-semibold">Field</th>
+                                    <th className="py-1 pr-4 font-semibold">Before</th>
+                                    <th className="py-1 font-semibold">After</th>
+                                  </tr>
+                                </thead>
+                                <tbody>
+                                  {changeKeys.map((key) => (
+                                    <tr key={key} className="align-top">
+                                      <td className="py-1 pr-4 font-mono text-[var(--hh-text)]">{key}</td>
+                                      <td className="py-1 pr-4 font-mono text-red-400 break-all">{formatValue(entry.changes?.[key].from)}</td>
+                                      <td className="py-1 font-mono text-green-400 break-all">{formatValue(entry.changes?.[key].to)}</td>
+                                    </tr>
+                                  ))}
+                                </tbody>
+                              </table>
+                            ) : (
+                              <pre className="text-xs font-mono text-[var(--hh-text-secondary)] whitespace-pre-wrap break-all">
+                                {JSON.stringify(entry.after ?? entry.before, null, 2)}
+                              </pre>
+                            )}
+                            {entry.user_agent && (
+                              <div className="mt-3 text-xs text-[var(--hh-text-tertiary)]">{entry.user_agent}</div>
+                            )}
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between mt-4 text-sm text-[var(--hh-text-secondary)]">
+        <span>{total} {total === 1 ? 'entry' : 'entries'}</span>
+        <div className="flex items-center gap-2">
+          <button disabled={page <= 1} onClick={() => setPage(page - 1)} className="hh-btn-secondary text-xs disabled:opacity-50">Previous</button>
+          <span>Page {page} of {pageCount}</span>
+          <button disabled={page >= pageCount} onClick={() => setPage(page + 1)} className="hh-btn-secondary text-xs disabled:opacity-50">Next</button>
+        </div>
+      </div>
+    </div>
+  );
+}
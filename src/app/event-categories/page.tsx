@@ -0,0 +1,279 @@
+"use client";
+
+import { useEffect, useMemo, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { EventCategoryCreateSchema } from '@/lib/validation';
+import type { EventCategory } from '@/lib/event-categories';
+
+type CategoryFormValues = z.input<typeof EventCategoryCreateSchema>;
+
+const EMPTY_FORM: CategoryFormValues = { slug: '', name: '', icon: '', parent_id: null, sort_order: 0 };
+
+const slugify = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 48);
+
+export default function EventCategoriesPage() {
+  const [categories, setCategories] = useState<EventCategory[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showCreateModal, setShowCreateModal] = useState(false);
+  const [editingCategory, setEditingCategory] = useState<EventCategory | null>(null);
+
+  const form = useForm<CategoryFormValues>({
+    resolver: zodResolver(EventCategoryCreateSchema),
+    defaultValues: EMPTY_FORM,
+  });
+
+  const load = () =>
+    fetch('/api/event-categories', { cache: 'no-store' })
+      .then(async (res) => {
+        const data = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(data?.error || 'Failed to load categories');
+        setCategories(data.categories ?? []);
+        setError(null);
+      })
+      .catch((err: unknown) => setError(err instanceof Error ? err.message : 'Failed to load categories'))
+      .finally(() => setLoading(false));
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  // Each top-level category followed by its sub-categories.
+  const rows = useMemo(
+    () =>
+      categories
+        .filter((category) => !category.parent_id)
+        .flatMap((parent) => [parent, ...categories.filter((category) => category.parent_id === parent.id)]),
+    [categories]
+  );
+  const parents = categories.filter((category) => !category.parent_id);
+
+  const closeModal = () => {
+    form.reset(EMPTY_FORM);
+    setShowCreateModal(false);
+    setEditingCategory(null);
+  };
+
+  const openCreate = (parent?: EventCategory) => {
+    form.reset({ ...EMPTY_FORM, parent_id: parent?.id ?? null });
+    setShowCreateModal(true);
+  };
+
+  const openEdit = (category: EventCategory) => {
+    setEditingCategory(category);
+    form.reset({
+      slug: category.slug,
+      name: category.name,
+      icon: category.icon ?? '',
+      parent_id: category.parent_id,
+      sort_order: category.sort_order,
+    });
+  };
+
+  const onSubmit = async (values: CategoryFormValues) => {
+    const { slug, ...changes } = values;
+    const res = await fetch(editingCategory ? `/api/event-categories/${editingCategory.id}` : '/api/event-categories', {
+      method: editingCategory ? 'PATCH' : 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(editingCategory ? changes : { slug, ...changes }),
+    });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      alert(data?.error || 'Failed to save category');
+      return;
+    }
+    closeModal();
+    await load();
+  };
+
+  const setActive = async (category: EventCategory, isActive: boolean) => {
+    if (!isActive && !confirm(`Deactivate ${category.name}? Events already using it keep it, but it is no longer offered.`)) return;
+    const res = await fetch(`/api/event-categories/${category.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ is_active: isActive }),
+    });
+    if (!res.ok) {
+      const data = await res.json().catch(() => ({}));
+      alert(data?.error || 'Failed to update category');
+      return;
+    }
+    await load();
+  };
+
+  const remove = async (category: EventCategory) => {
+    if (!confirm(`Delete ${category.name}? This cannot be undone.`)) return;
+    const res = await fetch(`/api/event-categories/${category.id}`, { method: 'DELETE' });
+    if (!res.ok) {
+      const data = await res.json().catch(() => ({}));
+      alert(data?.error || 'Failed to delete category');
+      return;
+    }
+    await load();
+  };
+
+  if (loading && categories.length === 0) {
+    return (
+      <div className="min-h-[60vh] flex items-center justify-center">
+        <div className="flex flex-col items-center gap-3">
+          <div className="w-8 h-8 border-2 border-[var(--hh-primary)] border-t-transparent rounded-full animate-spin"></div>
+          <div className="text-[var(--hh-text-secondary)]">Loading categories...</div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-8">
+        <div>
+          <h1 className="text-2xl font-bold text-[var(--hh-text)] tracking-tight">Event Categories</h1>
+          <p className="text-[var(--hh-text-secondary)] mt-1">
+            What events can be filed under. Events keep the slug, so names can change freely.
+          </p>
+        </div>
+        <button onClick={() => openCreate()} className="hh-btn-primary flex items-center gap-2">
+          <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+          </svg>
+          New Category
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-500/10 border border-red-500/20 rounded-xl text-red-400">{error}</div>
+      )}
+
+      <div className="hh-card overflow-hidden shadow-sm">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-[var(--hh-bg-elevated)]/50 border-b border-[var(--hh-border)]">
+              <tr>
+                <th className="px-6 py-4 text-left text-xs font-semibold text-[var(--hh-text-tertiary)] uppercase tracking-wider">Category</th>
+                <th className="px-6 py-4 text-left text-xs font-semibold text-[var(--hh-text-tertiary)] uppercase tracking-wider">Slug</th>
+                <th className="px-6 py-4 text-left text-xs font-semibold text-[var(--hh-text-tertiary)] uppercase tracking-wider">Order</th>
+                <th className="px-6 py-4 text-right text-xs font-semibold text-[var(--hh-text-tertiary)] uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-[var(--hh-border)]">
+              {rows.length === 0 ? (
+                <tr>
+                  <td colSpan={4} className="px-6 py-12 text-center text-[var(--hh-text-secondary)]">No categories yet</td>
+                </tr>
+              ) : (
+                rows.map((category) => (
+                  <tr key={category.id} className="hover:bg-[var(--hh-bg-elevated)]/30 transition-colors">
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className={`flex items-center gap-2 ${category.parent_id ? 'pl-6' : ''}`}>
+                        {category.icon && <span>{category.icon}</span>}
+                        <span className={category.parent_id ? 'text-[var(--hh-text-secondary)]' : 'text-[var(--hh-text)] font-medium'}>
+                          {category.name}
+                        </span>
+                        {!category.is_active && (
+                          <span className="inline-flex items-center px-2 py-0.5 rounded-full text-[10px] font-medium border bg-[var(--hh-bg-elevated)] text-[var(--hh-text-tertiary)] border-[var(--hh-border)]">
+                            Inactive
+                          </span>
+                        )}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-mono text-[var(--hh-text-secondary)]">{category.slug}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-[var(--hh-text-secondary)]">{category.sort_order}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right">
+                      <div className="flex items-center justify-end gap-2">
+                        {!category.parent_id && (
+                          <button onClick={() => openCreate(category)} className="hh-btn-secondary text-xs">Add Sub-category</button>
+                        )}
+                        <button onClick={() => openEdit(category)} className="hh-btn-secondary text-xs">Edit</button>
+                        {category.is_active ? (
+                          <button onClick={() => setActive(category, false)} className="hh-btn-secondary text-xs hover:text-amber-400">Deactivate</button>
+                        ) : (
+                          <button onClick={() => setActive(category, true)} className="hh-btn-secondary text-xs hover:text-green-400">Activate</button>
+                        )}
+                        <button onClick={() => remove(category)} className="hh-btn-secondary text-xs hover:text-red-400">Delete</button>
+                      </div>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Create / Edit Modal */}
+      {(showCreateModal || editingCategory) && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm transition-all">
+          <div className="hh-card max-w-lg w-full p-6 shadow-2xl animate-in fade-in zoom-in-95 duration-200 max-h-[90vh] overflow-y-auto">
+            <div className="flex items-center justify-between mb-6">
+              <h2 className="text-xl font-bold text-[var(--hh-text)]">{editingCategory ? 'Edit Category' : 'New Category'}</h2>
+              <button onClick={closeModal} className="text-[var(--hh-text-tertiary)] hover:text-[var(--hh-text)]">
+                <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="sm:col-span-2">
+                  <label className="block text-sm font-medium mb-1.5 text-[var(--hh-text-secondary)]">Display name</label>
+                  <input
+                    {...form.register('name', {
+                      onChange: (e) => {
+                        if (!editingCategory && !form.formState.dirtyFields.slug) form.setValue('slug', slugify(e.target.value));
+                      },
+                    })}
+                    className="hh-input w-full"
+                    placeholder="Workshop"
+                  />
+                  {form.formState.errors.name && <p className="mt-1 text-xs text-red-400">{form.formState.errors.name.message}</p>}
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-1.5 text-[var(--hh-text-secondary)]">Slug</label>
+                  <input {...form.register('slug')} className="hh-input w-full font-mono" placeholder="workshop" readOnly={!!editingCategory} />
+                  {form.formState.errors.slug && <p className="mt-1 text-xs text-red-400">{form.formState.errors.slug.message}</p>}
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-1.5 text-[var(--hh-text-secondary)]">Icon</label>
+                  <input {...form.register('icon')} className="hh-input w-full" placeholder="🎨" />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-1.5 text-[var(--hh-text-secondary)]">Parent</label>
+                  <select {...form.register('parent_id', { setValueAs: (value) => value || null })} className="hh-input w-full">
+                    <option value="">None (top-level)</option>
+                    {parents
+                      .filter((parent) => parent.id !== editingCategory?.id)
+                      .map((parent) => (
+                        <option key={parent.id} value={parent.id}>{parent.name}</option>
+                      ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-1.5 text-[var(--hh-text-secondary)]">Sort order</label>
+                  <input type="number" min={0} {...form.register('sort_order', { valueAsNumber: true })} className="hh-input w-full" />
+                  {form.formState.errors.sort_order && <p className="mt-1 text-xs text-red-400">{form.formState.errors.sort_order.message}</p>}
+                </div>
+              </div>
+
+              <div className="flex gap-3 pt-2">
+                <button type="button" onClick={closeModal} className="hh-btn-secondary flex-1 justify-center">
+                  Cancel
+                </button>
+                <button type="submit" className="hh-btn-primary flex-1 justify-center" disabled={form.formState.isSubmitting}>
+                  {form.formState.isSubmitting ? 'Saving...' : editingCategory ? 'Save Changes' : 'Create Category'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useParams, useRouter } from 'next/navigation';
+import { RecurrenceEditor } from '@/components/RecurrenceEditor';
+import { describeRecurrence, type Recurrence } from '@/lib/recurrence';
+import { usePermissions } from '@/lib/use-permissions';
+
+type Series = {
+  id: string;
+  template_event_id: string;
+  recurrence: Recurrence;
+  timezone: string;
+  starts_on: string;
+};
+
+type Occurrence = {
+  id: string;
+  title: string;
+  start_at: string;
+  end_at: string | null;
+  status: 'draft' | 'published' | 'archived';
+  series_occurrence_date: string;
+};
+
+export default function EventSeriesPage() {
+  const params = useParams<{ id: string }>();
+  const seriesId = params.id;
+  const router = useRouter();
+  const [series, setSeries] = useState<Series | null>(null);
+  const [template, setTemplate] = useState<{ id: string; title: string } | null>(null);
+  const [occurrences, setOccurrences] = useState<Occurrence[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [recurrence, setRecurrence] = useState<Recurrence | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  // Vendor scoping follows the template event.
+  const { can } = usePermissions(series ? { eventId: series.template_event_id } : undefined);
+  const canEdit = can('event.edit');
+
+  const load = async () => {
+    setLoading(true);
+    setError(null);
+    const res = await fetch(`/api/event-series/${seriesId}`, { cache: 'no-store' });
+    if (!res.ok) {
+      setError('Failed to load series');
+      setLoading(false);
+      return;
+    }
+    const data = await res.json();
+    setSeries(data.series);
+    setTemplate(data.template);
+    setOccurrences(data.occurrences ?? []);
+    setRecurrence(data.series.recurrence);
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [seriesId]);
+
+  const saveSchedule = async () => {
+    if (!recurrence) return;
+    setSaving(true);
+    setError(null);
+    setNotice(null);
+    const res = await fetch(`/api/event-series/${seriesId}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ recurrence }),
+    });
+    const data = await res.json().catch(() => ({}));
+    setSaving(false);
+    if (!res.ok) {
+      setError(data?.details?.[0]?.message || data?.error || 'Failed to update schedule');
+      return;
+    }
+    const parts = [`${data.added} added`, `${data.removed} removed`];
+    if (data.retained) parts.push(`${data.retained} kept because they have orders`);
+    setNotice(`Schedule saved: ${parts.join(', ')}.`);
+    await load();
+  };
+
+  const endSeries = async () => {
+    if (!confirm('End this series? Its occurrences stay as individual events; no new dates are added.')) return;
+    const res = await fetch(`/api/event-series/${seriesId}`, { method: 'DELETE' });
+    if (!res.ok) {
+      const data = await res.json().catch(() => ({}));
+      setError(data?.error || 'Failed to end series');
+      return;
+    }
+    router.push('/events');
+  };
+
+  if (loading && !series) return <div>Loading...</div>;
+  if (!series || !recurrence) return <div className="text-red-600">{error ?? 'Not found'}</div>;
+
+  const now = Date.now();
+
+  return (
+    <div className="max-w-4xl">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-4 md:mb-6">
+        <div>
+          <h1 className="text-xl md:text-2xl font-semibold text-[var(--hh-text)]">{template?.title ?? 'Event Series'}</h1>
+          <p className="text-sm text-[var(--hh-text-secondary)] mt-1">
+            {describeRecurrence(series.recurrence)} &middot; {series.timezone}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {canEdit && (
+            <button onClick={endSeries} className="hh-btn-secondary text-sm text-red-400">End Series</button>
+          )}
+          <Link href="/events" className="text-sm text-[var(--hh-text-secondary)] hover:text-[var(--hh-text)] self-center">Back</Link>
+        </div>
+      </div>
+
+      {canEdit && (
+        <section className="hh-card p-4 md:p-6 mb-6">
+          <h2 className="font-medium mb-3">Schedule</h2>
+          <RecurrenceEditor value={recurrence} onChange={setRecurrence} startsOn={series.starts_on} />
+          <p className="text-xs text-[var(--hh-text-tertiary)] mt-3">
+            Saving adds the missing dates from today on and removes upcoming ones the schedule no longer has, unless
+            they have orders. To change the details of every upcoming date, edit one occurrence and save it for all
+            future occurrences.
+          </p>
+          {error && <p className="text-sm text-red-400 mt-2">{error}</p>}
+          {notice && <p className="text-sm text-green-400 mt-2">{notice}</p>}
+          <div className="flex justify-end mt-3">
+            <button onClick={saveSchedule} disabled={saving} className="hh-btn-primary text-sm">
+              {saving ? 'Saving...' : 'Save Schedule'}
+            </button>
+          </div>
+        </section>
+      )}
+
+      <section className="hh-card p-4 md:p-6">
+        <h2 className="font-medium mb-3">Occurrences ({occurrences.length})</h2>
+        <ul className="divide-y divide-[var(--hh-border)]">
+          {occurrences.map((occurrence) => (
+            <li key={occurrence.id} className="flex items-center justify-between py-2 text-sm">
+              <div className="flex flex-col">
+                <Link href={`/events/${occurrence.id}`} className="font-medium hover:text-[var(--hh-primary)] transition-colors">
+                  {new Date(occurrence.start_at).toLocaleString(undefined, { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric', hour: '2-digit', minute: '2-digit', timeZone: series.timezone })}
+                </Link>
+                <span className="text-xs text-[var(--hh-text-tertiary)]">{occurrence.title}</span>
+              </div>
+              <div className="flex items-center gap-2">
+                {Date.parse(occurrence.start_at) < now && (
+                  <span className="text-xs text-[var(--hh-text-tertiary)]">Past</span>
+                )}
+                <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium border ${
+                  occurrence.status === 'published'
+                    ? 'bg-green-500/10 text-green-400 border-green-500/20'
+                    : occurrence.status === 'archived'
+                      ? 'bg-[var(--hh-bg-elevated)] text-[var(--hh-text-tertiary)] border-[var(--hh-border)]'
+                      : 'bg-yellow-500/10 text-yellow-400 border-yellow-500/20'
+                }`}>
+                  {occurrence.status}
+                </span>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </section>
+    </div>
+  );
+}
@@ -6,6 +6,18 @@ import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { EventUpdateSchema, type EventUpdateInput, TierCreateSchema, ImageCreateSchema } from '@/lib/validation';
+import { usePermissions } from '@/lib/use-permissions';
+import { parseTags, selectableCategories, useEventCategories } from '@/lib/use-event-categories';
+import { selectableVenues, useVenues, venueGateRows } from '@/lib/use-venues';
+import { DEFAULT_TIME_ZONE, formatInTimeZone, moveToTimeZone } from '@/lib/timezones';
+import { TimeZoneSelect, ZonedDateTimeInput } from '@/components/TimeZoneInputs';
+import { DuplicateEventModal } from '@/components/DuplicateEventModal';
+import { MakeRecurringModal } from '@/components/MakeRecurringModal';
+import { EventHistoryPanel } from '@/components/EventHistoryPanel';
+import { EventReviewPanel } from '@/components/EventReviewPanel';
+import { TicketReconciliationPanel } from '@/components/TicketReconciliationPanel';
+import type { ReviewStatus } from '@/lib/event-review';
+import { describeRecurrence, type Recurrence } from '@/lib/recurrence';
 import Link from 'next/link';
 
 type Tier = {
@@ -15,6 +27,8 @@ type Tier = {
   currency: string;
   total_quantity: number;
   sold_quantity: number;
+  sales_start: string | null;
+  sales_end: string | null;
 };
 
 type Image = {
@@ -28,9 +42,14 @@ type EventDetail = {
   title: string;
   description: string | null;
   category: string | null;
+  subcategory: string | null;
+  tags: string[] | null;
   hero_image_url: string | null;
   start_at: string;
   end_at: string | null;
+  timezone: string;
+  venue_id: string | null;
+  capacity: number | null;
   venue_name: string | null;
   address_line: string | null;
   city: string | null;
@@ -39,12 +58,16 @@ type EventDetail = {
   base_price_cents: number | null;
   currency: string | null;
   status: 'draft' | 'published' | 'archived';
+  publish_at: string | null;
+  archive_at: string | null;
+  review_status: ReviewStatus | null;
   vendor_id: string | null;
   allow_cab: boolean;
   require_instagram_verification: boolean;
   require_email_domain_verification: boolean;
   enable_entry_gate_flow: boolean;
   allowed_email_domains: string[] | null;
+  series_id: string | null;
 };
 
 type EntryGate = {
@@ -55,7 +78,8 @@ type EntryGate = {
   is_active: boolean;
 };
 
-const categories = ['Music', 'Tech', 'Comedy', 'Art', 'Sports'] as const;
+const DATE_FIELDS = ['start_at', 'end_at', 'publish_at', 'archive_at'] as const;
+
 const parseAllowedDomains = (value: string): string[] =>
   Array.from(
     new Set(
@@ -69,8 +93,8 @@ const parseAllowedDomains = (value: string): string[] =>
 export default function EditEventPage() {
   const params = useParams<{ id: string }>();
   const eventId = params.id;
-  const [currentUser, setCurrentUser] = useState<{ role: 'admin' | 'moderator' | 'vendor' | 'vendor_moderator' } | null>(null);
-  const [vendors, setVendors] = useState<{ id: string; email: string }[]>([]);
+  const { can } = usePermissions({ eventId });
+  const [vendors, setVendors] = useState<{ id: string; name: string; status: 'active' | 'archived' }[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [event, setEvent] = useState<EventDetail | null>(null);
@@ -78,12 +102,23 @@ export default function EditEventPage() {
   const [images, setImages] = useState<Image[]>([]);
   const [entryGates, setEntryGates] = useState<EntryGate[]>([]);
   const [allowedEmailDomainsInput, setAllowedEmailDomainsInput] = useState('');
+  const [tagsInput, setTagsInput] = useState('');
+  const { topLevel, subcategoriesOf } = useEventCategories();
+  const { venues } = useVenues();
+  const [showDuplicate, setShowDuplicate] = useState(false);
+  const [showMakeRecurring, setShowMakeRecurring] = useState(false);
+  const [loadCount, setLoadCount] = useState(0);
+  const [series, setSeries] = useState<{ id: string; recurrence: Recurrence } | null>(null);
+  const [seriesScope, setSeriesScope] = useState<'this' | 'future'>('this');
+  const [saveNotice, setSaveNotice] = useState<string | null>(null);
+  const [tierError, setTierError] = useState<string | null>(null);
 
   const {
     register,
     handleSubmit,
     reset,
     watch,
+    setValue,
     formState: { errors, isSubmitting },
   } = useForm<EventUpdateInput>({ resolver: zodResolver(EventUpdateSchema) });
 
@@ -111,20 +146,21 @@ export default function EditEventPage() {
     setTiers(data.tiers);
     setImages(data.images);
     setEntryGates((data.entry_gates ?? []) as EntryGate[]);
-    
-    const toLocalISO = (str: string) => {
-      if (!str) return '';
-      const d = new Date(str);
-      return new Date(d.getTime() - (d.getTimezoneOffset() * 60000)).toISOString().slice(0, 16);
-    };
+    setSeries(data.series ?? null);
+    setLoadCount((count) => count + 1);
+
 
     reset({
       title: data.event.title,
       description: data.event.description ?? '',
       category: data.event.category ?? undefined,
+      subcategory: data.event.subcategory ?? undefined,
       hero_image_url: data.event.hero_image_url ?? '',
-      start_at: toLocalISO(data.event.start_at),
-      end_at: data.event.end_at ? toLocalISO(data.event.end_at) : '',
+      start_at: data.event.start_at,
+      end_at: data.event.end_at,
+      timezone: data.event.timezone ?? DEFAULT_TIME_ZONE,
+      venue_id: data.event.venue_id ?? undefined,
+      capacity: data.event.capacity ?? null,
       venue_name: data.event.venue_name ?? '',
       address_line: data.event.address_line ?? '',
       city: data.event.city ?? '',
@@ -133,6 +169,8 @@ export default function EditEventPage() {
       base_price_cents: data.event.base_price_cents ?? 0,
       currency: data.event.currency ?? 'INR',
       status: data.event.status,
+      publish_at: data.event.publish_at,
+      archive_at: data.event.archive_at,
       allow_cab: !!data.event.allow_cab,
       require_instagram_verification: !!data.event.require_instagram_verification,
       require_email_domain_verification: !!data.event.require_email_domain_verification,
@@ -140,42 +178,75 @@ export default function EditEventPage() {
       allowed_email_domains: data.event.allowed_email_domains ?? [],
     });
     setAllowedEmailDomainsInput((data.event.allowed_email_domains ?? []).join('\n'));
+    setTagsInput((data.event.tags ?? []).join(', '));
     setLoading(false);
   };
 
   useEffect(() => {
-    fetch('/api/admin/me')
-      .then(res => res.json())
-      .then(data => {
-        if (data.admin) {
-          setCurrentUser(data.admin);
-        }
-      })
-      .catch(() => {});
-
     load();
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [eventId]);
 
+  const canEdit = can('event.edit');
+  const canPublish = can('event.publish');
+  const canAssignVendor = can('event.vendor.assign');
+  const canManageSettings = can('event.settings.manage');
+  const canManageGates = can('event.gates.manage');
+  const canManageTiers = can('event.tiers.manage');
+  const canManageImages = can('event.images.manage');
+
   useEffect(() => {
-    if (currentUser?.role !== 'admin') return;
-    fetch('/api/admin/vendors')
+    if (!can('vendor.view')) return;
+    fetch('/api/admin/vendors?status=all')
       .then(res => res.json())
       .then(data => setVendors(data.vendors ?? []))
       .catch(() => {});
-  }, [currentUser?.role]);
-
-  const canEdit = currentUser ? currentUser.role !== 'vendor_moderator' : false;
+  }, [can]);
   const enableEntryGateFlow = !!watch('enable_entry_gate_flow');
+  const subcategories = selectableCategories(subcategoriesOf(watch('category')), event?.subcategory);
+  const timezone = watch('timezone') ?? DEFAULT_TIME_ZONE;
+
+  // Times keep their wall-clock reading in the new zone. A scheduled publish
+  // is left alone for admins who may not move it.
+  const changeTimeZone = (next: string) => {
+    const fields = canPublish ? DATE_FIELDS : DATE_FIELDS.filter((field) => field !== 'publish_at');
+    for (const field of fields) {
+      const moved = moveToTimeZone(watch(field), timezone, next);
+      if (moved) setValue(field, moved, { shouldDirty: true });
+    }
+    setValue('timezone', next, { shouldDirty: true });
+  };
+
+  // Linking a venue fills in what the venue knows. Gates and capacity are only
+  // taken from the venue while the event has none of its own.
+  const changeVenue = (venueId: string) => {
+    setValue('venue_id', venueId, { shouldDirty: true });
+    const venue = venues.find((row) => row.id === venueId);
+    if (!venue) return;
+    setValue('venue_name', venue.name, { shouldDirty: true });
+    setValue('address_line', venue.address_line ?? '', { shouldDirty: true });
+    setValue('city', venue.city ?? '', { shouldDirty: true });
+    setValue('latitude', venue.latitude ?? undefined, { shouldDirty: true });
+    setValue('longitude', venue.longitude ?? undefined, { shouldDirty: true });
+    if (venue.timezone !== timezone) changeTimeZone(venue.timezone);
+    if (venue.capacity && !watch('capacity')) setValue('capacity', venue.capacity, { shouldDirty: true });
+    if (canManageGates && !enableEntryGateFlow && venue.entry_gates.length > 0) {
+      setValue('enable_entry_gate_flow', true, { shouldDirty: true });
+      setEntryGates(venueGateRows(venue));
+    }
+  };
 
   const onSubmit = async (values: EventUpdateInput) => {
     if (!canEdit) return;
     setError(null);
+    setSaveNotice(null);
     const payload = {
       ...values,
-      start_at: values.start_at ? new Date(values.start_at).toISOString() : undefined,
-      end_at: values.end_at ? new Date(values.end_at).toISOString() : undefined,
+      series_scope: series ? seriesScope : undefined,
+      // Only publishers may move a scheduled publish; leave it alone for everyone else.
+      publish_at: canPublish ? values.publish_at : undefined,
       allowed_email_domains: parseAllowedDomains(allowedEmailDomainsInput),
+      tags: parseTags(tagsInput),
       entry_gates: entryGates.map((gate, index) => ({
         id: /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i.test(gate.id)
           ? gate.id
@@ -197,30 +268,63 @@ export default function EditEventPage() {
       setError(data?.error ?? 'Update failed');
       return;
     }
+    const data = await res.json().catch(() => ({}));
+    if (data?.series_update) {
+      const { updated, skipped } = data.series_update;
+      setSaveNotice(`Also updated ${updated} later ${updated === 1 ? 'occurrence' : 'occurrences'}${skipped ? ` (${skipped} skipped: no access)` : ''}.`);
+    }
     await load();
   };
 
   const addTier = async (values: z.input<typeof TierCreateSchema>) => {
-    if (!canEdit) return;
+    if (!canManageTiers) return;
     const res = await fetch(`/api/events/${eventId}/tiers`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(values),
     });
-    if (res.ok) {
-      tierForm.reset();
-      await load();
+    if (!res.ok) {
+      const data = await res.json().catch(() => ({}));
+      setTierError(data?.error || 'Failed to add tier');
+      return;
     }
+    setTierError(null);
+    tierForm.reset();
+    await load();
+  };
+
+  // Sold counts only move through checkout, so the quantity is all a resize changes.
+  const resizeTier = async (tier: Tier) => {
+    if (!canManageTiers) return;
+    const input = prompt(`New total quantity for ${tier.name} (${tier.sold_quantity} sold)`, String(tier.total_quantity));
+    if (input === null) return;
+    const totalQuantity = Number(input);
+    if (!Number.isInteger(totalQuantity) || totalQuantity < 0) {
+      setTierError('Enter a whole number of tickets');
+      return;
+    }
+    const res = await fetch(`/api/tiers/${tier.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ total_quantity: totalQuantity }),
+    });
+    if (!res.ok) {
+      const data = await res.json().catch(() => ({}));
+      setTierError(data?.error || 'Failed to resize tier');
+      return;
+    }
+    setTierError(null);
+    await load();
   };
 
   const deleteTier = async (tierId: string) => {
-    if (!canEdit) return;
+    if (!canManageTiers) return;
     await fetch(`/api/tiers/${tierId}`, { method: 'DELETE' });
     await load();
   };
 
   const addImage = async (values: z.input<typeof ImageCreateSchema>) => {
-    if (!canEdit) return;
+    if (!canManageImages) return;
     const res = await fetch(`/api/events/${eventId}/images`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
@@ -233,7 +337,7 @@ export default function EditEventPage() {
   };
 
   const uploadImage = async (file: File, position?: number) => {
-    if (!canEdit) return;
+    if (!canManageImages) return;
     const fd = new FormData();
     fd.append('file', file);
     fd.append('event_id', eventId);
@@ -245,7 +349,7 @@ export default function EditEventPage() {
   };
 
   const uploadHero = async (file: File) => {
-    if (!canEdit) return;
+    if (!canManageImages) return;
     const fd = new FormData();
     fd.append('file', file);
     fd.append('event_id', eventId);
@@ -262,7 +366,7 @@ export default function EditEventPage() {
   };
 
   const moveImage = async (index: number, direction: -1 | 1) => {
-    if (!canEdit) return;
+    if (!canManageImages) return;
     const newIndex = index + direction;
     if (newIndex < 0 || newIndex >= images.length) return;
     const current = images[index];
@@ -284,13 +388,13 @@ export default function EditEventPage() {
   };
 
   const deleteImage = async (imageId: string) => {
-    if (!canEdit) return;
+    if (!canManageImages) return;
     await fetch(`/api/images/${imageId}`, { method: 'DELETE' });
     await load();
   };
 
   const assignVendor = async (vendorId: string) => {
-    if (currentUser?.role !== 'admin') return;
+    if (!canAssignVendor) return;
     const res = await fetch(`/api/events/${eventId}`, {
       method: 'PATCH',
       headers: { 'Content-Type': 'application/json' },
@@ -308,23 +412,42 @@ export default function EditEventPage() {
   if (error) return <div className="text-red-600">{error}</div>;
   if (!event) return <div>Not found</div>;
 
+  const allocated = tiers.reduce((sum, tier) => sum + tier.total_quantity, 0);
+
   return (
     <div className="max-w-4xl">
       <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-4 md:mb-6">
         <h1 className="text-xl md:text-2xl font-semibold text-[var(--hh-text)]">Edit Event</h1>
         <div className="flex gap-2">
           <Link href={`/events/${eventId}/attendees`} className="hh-btn-secondary text-sm">View Attendees</Link>
+          {can('event.create') && (
+            <button type="button" onClick={() => setShowDuplicate(true)} className="hh-btn-secondary text-sm">Duplicate</button>
+          )}
+          {can('event.create') && canEdit && !series && (
+            <button type="button" onClick={() => setShowMakeRecurring(true)} className="hh-btn-secondary text-sm">Make Recurring</button>
+          )}
           <Link href="/events" className="text-sm text-[var(--hh-text-secondary)] hover:text-[var(--hh-text)] w-full sm:w-auto text-center sm:text-left">Back</Link>
         </div>
       </div>
 
+      {series && (
+        <div className="hh-card px-4 py-3 mb-4 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 text-sm">
+          <span className="text-[var(--hh-text-secondary)]">
+            One date of a recurring series: {describeRecurrence(series.recurrence)}
+          </span>
+          <Link href={`/event-series/${series.id}`} className="text-[var(--hh-primary)] hover:underline">Manage series</Link>
+        </div>
+      )}
+
+      <EventReviewPanel event={event} canEdit={canEdit} canReview={canPublish} refreshKey={loadCount} onChanged={load} />
+
       <form onSubmit={handleSubmit(onSubmit)} className="grid grid-cols-1 gap-4 mb-6 md:mb-8 hh-card p-4 md:p-6">
-        {currentUser?.role === 'admin' && (
+        {canAssignVendor && (
           <div>
             <label className="block text-sm font-medium mb-1">Vendor Assignment</label>
             {event.vendor_id ? (
               <div className="text-sm text-[var(--hh-text-secondary)]">
-                Assigned to {vendors.find((v) => v.id === event.vendor_id)?.email ?? event.vendor_id}
+                Assigned to {vendors.find((v) => v.id === event.vendor_id)?.name ?? event.vendor_id}
               </div>
             ) : (
               <select
@@ -335,9 +458,9 @@ export default function EditEventPage() {
                 defaultValue=""
               >
                 <option value="">Select vendor...</option>
-                {vendors.map((vendor) => (
+                {vendors.filter((vendor) => vendor.status === 'active').map((vendor) => (
                   <option key={vendor.id} value={vendor.id}>
-                    {vendor.email}
+                    {vendor.name}
                   </option>
                 ))}
               </select>
@@ -353,15 +476,43 @@ export default function EditEventPage() {
           <label className="block text-sm font-medium mb-1">Description</label>
           <textarea className="w-full hh-input px-3 py-2 text-sm" rows={4} {...register('description')} disabled={!canEdit} />
         </div>
+        <div>
+          <label className="block text-sm font-medium mb-1">Tags</label>
+          <input
+            className="w-full hh-input px-3 py-2 text-sm"
+            placeholder="e.g. jazz, open-air, all-ages"
+            value={tagsInput}
+            onChange={(e) => setTagsInput(e.target.value)}
+            disabled={!canEdit}
+          />
+        </div>
         <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-          <div>
-            <label className="block text-sm font-medium mb-1">Category</label>
-            <select className="w-full hh-input px-3 py-2 text-sm" {...register('category')} disabled={!canEdit}>
-              <option value="">Select...</option>
-              {categories.map((c) => (
-                <option key={c} value={c}>{c}</option>
-              ))}
-            </select>
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium mb-1">Category</label>
+              <select
+                className="w-full hh-input px-3 py-2 text-sm"
+                {...register('category', { onChange: () => setValue('subcategory', null) })}
+                disabled={!canEdit}
+              >
+                <option value="">Select...</option>
+                {selectableCategories(topLevel, event.category).map((c) => (
+                  <option key={c.id} value={c.slug}>{c.icon ? `${c.icon} ${c.name}` : c.name}</option>
+                ))}
+              </select>
+              {errors.category && <p className="text-xs text-red-600">{errors.category.message}</p>}
+            </div>
+            {subcategories.length > 0 && (
+              <div>
+                <label className="block text-sm font-medium mb-1">Sub-category</label>
+                <select className="w-full hh-input px-3 py-2 text-sm" {...register('subcategory')} disabled={!canEdit}>
+                  <option value="">None</option>
+                  {subcategories.map((c) => (
+                    <option key={c.id} value={c.slug}>{c.icon ? `${c.icon} ${c.name}` : c.name}</option>
+                  ))}
+                </select>
+              </div>
+            )}
           </div>
           <div>
             <label className="block text-sm font-medium mb-1">Hero Image</label>
@@ -383,16 +534,57 @@ export default function EditEventPage() {
             </div>
           </div>
         </div>
+        <div>
+          <label className="block text-sm font-medium mb-1">Time Zone</label>
+          <TimeZoneSelect value={timezone} onChange={changeTimeZone} disabled={!canEdit} className="w-full hh-input px-3 py-2 text-sm" />
+          <p className="mt-1 text-xs text-[var(--hh-text-tertiary)]">
+            Event and ticket sale times are entered and shown in this zone. Changing it keeps the times as they read on the clock.
+          </p>
+        </div>
         <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
           <div>
             <label className="block text-sm font-medium mb-1">Start At</label>
-            <input type="datetime-local" className="w-full hh-input px-3 py-2 text-sm" {...register('start_at')} disabled={!canEdit} />
+            <ZonedDateTimeInput
+              value={watch('start_at')}
+              onChange={(value) => setValue('start_at', value ?? '', { shouldDirty: true, shouldValidate: true })}
+              timeZone={timezone}
+              disabled={!canEdit}
+              className="w-full hh-input px-3 py-2 text-sm"
+            />
+            {errors.start_at && <p className="text-xs text-red-600">{errors.start_at.message}</p>}
           </div>
           <div>
             <label className="block text-sm font-medium mb-1">End At</label>
-            <input type="datetime-local" className="w-full hh-input px-3 py-2 text-sm" {...register('end_at')} disabled={!canEdit} />
+            <ZonedDateTimeInput
+              value={watch('end_at')}
+              onChange={(value) => setValue('end_at', value, { shouldDirty: true, shouldValidate: true })}
+              timeZone={timezone}
+              disabled={!canEdit}
+              className="w-full hh-input px-3 py-2 text-sm"
+            />
           </div>
         </div>
+        <div>
+          <label className="block text-sm font-medium mb-1">Linked venue</label>
+          <select
+            className="w-full hh-input px-3 py-2 text-sm"
+            value={watch('venue_id') ?? ''}
+            onChange={(e) => changeVenue(e.target.value)}
+            disabled={!canEdit}
+          >
+            <option value="">Not linked to a venue</option>
+            {selectableVenues(venues, event?.venue_id).map((venue) => (
+              <option key={venue.id} value={venue.id}>
+                {venue.name}{venue.city ? ` • ${venue.city}` : ''}{venue.status === 'archived' ? ' (archived)' : ''}
+              </option>
+            ))}
+          </select>
+          {event?.venue_id && (
+            <Link href={`/venues/${event.venue_id}`} className="mt-1 inline-block text-xs text-[var(--hh-primary)] hover:underline">
+              View venue and its other events
+            </Link>
+          )}
+        </div>
         <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
           <div>
             <label className="block text-sm font-medium mb-1">Venue</label>
@@ -417,6 +609,19 @@ export default function EditEventPage() {
             <input type="number" step="0.000001" className="w-full hh-input px-3 py-2 text-sm" {...register('longitude', { valueAsNumber: true })} disabled={!canEdit} />
           </div>
         </div>
+        <div>
+          <label className="block text-sm font-medium mb-1">Capacity</label>
+          <input
+            type="number"
+            min={1}
+            placeholder="No limit"
+            className="w-full hh-input px-3 py-2 text-sm"
+            {...register('capacity', { setValueAs: (v) => (v === '' || v === null || v === undefined ? null : Number(v)) })}
+            disabled={!canEdit}
+          />
+          <p className="text-xs text-[var(--hh-text-tertiary)] mt-1">The most tickets all tiers together may offer.</p>
+          {errors.capacity && <p className="text-xs text-red-400 mt-1">{errors.capacity.message}</p>}
+        </div>
         <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
           <div>
             <label className="block text-sm font-medium mb-1">Base Price (cents)</label>
@@ -442,40 +647,64 @@ export default function EditEventPage() {
           </div>
           <div>
             <label className="block text-sm font-medium mb-1">Status</label>
-            <select className="w-full hh-input px-3 py-2 text-sm" {...register('status')} disabled={!canEdit || currentUser?.role === 'vendor'}>
+            <select className="w-full hh-input px-3 py-2 text-sm" {...register('status')} disabled={!canEdit || !canPublish}>
               <option value="draft">Draft</option>
               <option value="published">Published</option>
               <option value="archived">Archived</option>
             </select>
-            {currentUser?.role === 'vendor' && (
-              <p className="mt-1 text-xs text-[var(--hh-text-tertiary)]">Only admins can publish events.</p>
+            {canEdit && !canPublish && (
+              <p className="mt-1 text-xs text-[var(--hh-text-tertiary)]">Only admins can publish events. Submit it for review when it is ready.</p>
             )}
           </div>
         </div>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium mb-1">Publish At</label>
+            <ZonedDateTimeInput
+              value={watch('publish_at')}
+              onChange={(value) => setValue('publish_at', value, { shouldDirty: true, shouldValidate: true })}
+              timeZone={timezone}
+              disabled={!canEdit || !canPublish}
+              className="w-full hh-input px-3 py-2 text-sm"
+            />
+            <p className="mt-1 text-xs text-[var(--hh-text-tertiary)]">A draft is published automatically at this time.</p>
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-1">Archive At</label>
+            <ZonedDateTimeInput
+              value={watch('archive_at')}
+              onChange={(value) => setValue('archive_at', value, { shouldDirty: true, shouldValidate: true })}
+              timeZone={timezone}
+              disabled={!canEdit}
+              className="w-full hh-input px-3 py-2 text-sm"
+            />
+            <p className="mt-1 text-xs text-[var(--hh-text-tertiary)]">Defaults to the end time for published events.</p>
+          </div>
+        </div>
         <div>
           <label className="block text-sm font-medium mb-1">Offer cab option at checkout</label>
           <div className="flex items-center gap-2">
-            <input type="checkbox" className="h-4 w-4" {...register('allow_cab')} disabled={!canEdit || currentUser?.role !== 'admin'} />
+            <input type="checkbox" className="h-4 w-4" {...register('allow_cab')} disabled={!canEdit || !canManageSettings} />
             <span className="text-[var(--hh-text-secondary)] text-sm">Customers can request a cab when booking</span>
           </div>
-          {currentUser?.role !== 'admin' && (
+          {!canManageSettings && (
             <p className="mt-1 text-xs text-[var(--hh-text-tertiary)]">Only admins can enable cab options.</p>
           )}
         </div>
         <div>
           <label className="block text-sm font-medium mb-1">Require Instagram verification</label>
           <div className="flex items-center gap-2">
-            <input type="checkbox" className="h-4 w-4" {...register('require_instagram_verification')} disabled={!canEdit || currentUser?.role !== 'admin'} />
+            <input type="checkbox" className="h-4 w-4" {...register('require_instagram_verification')} disabled={!canEdit || !canManageSettings} />
             <span className="text-[var(--hh-text-secondary)] text-sm">Buyers must submit Instagram handle and be approved before entry.</span>
           </div>
-          {currentUser?.role !== 'admin' && (
+          {!canManageSettings && (
             <p className="mt-1 text-xs text-[var(--hh-text-tertiary)]">Only admins can configure Instagram verification.</p>
           )}
         </div>
         <div>
           <label className="block text-sm font-medium mb-1">Restrict to school/college email domains</label>
           <div className="flex items-center gap-2 mb-2">
-            <input type="checkbox" className="h-4 w-4" {...register('require_email_domain_verification')} disabled={!canEdit || currentUser?.role !== 'admin'} />
+            <input type="checkbox" className="h-4 w-4" {...register('require_email_domain_verification')} disabled={!canEdit || !canManageSettings} />
             <span className="text-[var(--hh-text-secondary)] text-sm">Only listed domains can complete checkout.</span>
           </div>
           <textarea
@@ -483,16 +712,16 @@ export default function EditEventPage() {
             onChange={(event) => setAllowedEmailDomainsInput(event.target.value)}
             className="w-full hh-input px-3 py-2 text-sm min-h-[96px]"
             placeholder={'One domain per line or comma-separated\nexample.edu\ncampus.ac.in'}
-            disabled={!canEdit || currentUser?.role !== 'admin'}
+            disabled={!canEdit || !canManageSettings}
           />
-          {currentUser?.role !== 'admin' && (
+          {!canManageSettings && (
             <p className="mt-1 text-xs text-[var(--hh-text-tertiary)]">Only admins can configure allowed email domains.</p>
           )}
         </div>
         <div>
           <label className="block text-sm font-medium mb-1">Enable entry gate flow</label>
           <div className="flex items-center gap-2 mb-2">
-            <input type="checkbox" className="h-4 w-4" {...register('enable_entry_gate_flow')} disabled={!canEdit || currentUser?.role !== 'admin'} />
+            <input type="checkbox" className="h-4 w-4" {...register('enable_entry_gate_flow')} disabled={!canEdit || !canManageGates} />
             <span className="text-[var(--hh-text-secondary)] text-sm">Ticket is marked used only after all active gates are scanned.</span>
           </div>
           {enableEntryGateFlow && (
@@ -510,7 +739,7 @@ export default function EditEventPage() {
                     }
                     className="hh-input col-span-5"
                     placeholder={`Gate ${index + 1}`}
-                    disabled={!canEdit || currentUser?.role !== 'admin'}
+                    disabled={!canEdit || !canManageGates}
                   />
                   <input
                     value={gate.code ?? ''}
@@ -531,7 +760,7 @@ export default function EditEventPage() {
                     }
                     className="hh-input col-span-3"
                     placeholder="CODE"
-                    disabled={!canEdit || currentUser?.role !== 'admin'}
+                    disabled={!canEdit || !canManageGates}
                   />
                   <label className="col-span-2 flex items-center gap-2 text-xs text-[var(--hh-text-secondary)]">
                     <input
@@ -544,7 +773,7 @@ export default function EditEventPage() {
                           ),
                         )
                       }
-                      disabled={!canEdit || currentUser?.role !== 'admin'}
+                      disabled={!canEdit || !canManageGates}
                     />
                     Active
                   </label>
@@ -554,7 +783,7 @@ export default function EditEventPage() {
                     onClick={() =>
                       setEntryGates((prev) => (prev.length <= 1 ? prev : prev.filter((row) => row.id !== gate.id)))
                     }
-                    disabled={!canEdit || currentUser?.role !== 'admin' || entryGates.length <= 1}
+                    disabled={!canEdit || !canManageGates || entryGates.length <= 1}
                   >
                     Remove
                   </button>
@@ -575,16 +804,30 @@ export default function EditEventPage() {
                     },
                   ])
                 }
-                disabled={!canEdit || currentUser?.role !== 'admin'}
+                disabled={!canEdit || !canManageGates}
               >
                 Add Gate
               </button>
             </div>
           )}
-          {currentUser?.role !== 'admin' && (
+          {!canManageGates && (
             <p className="mt-1 text-xs text-[var(--hh-text-tertiary)]">Only admins can configure gate flow.</p>
           )}
         </div>
+        {series && canEdit && (
+          <div className="flex flex-col sm:flex-row gap-2 sm:gap-4 text-sm">
+            <span className="font-medium">Save changes to</span>
+            <label className="flex items-center gap-2 text-[var(--hh-text-secondary)]">
+              <input type="radio" checked={seriesScope === 'this'} onChange={() => setSeriesScope('this')} />
+              This occurrence only
+            </label>
+            <label className="flex items-center gap-2 text-[var(--hh-text-secondary)]">
+              <input type="radio" checked={seriesScope === 'future'} onChange={() => setSeriesScope('future')} />
+              This and all future occurrences
+            </label>
+          </div>
+        )}
+        {saveNotice && <p className="text-sm text-green-400">{saveNotice}</p>}
         <div className="flex flex-col sm:flex-row gap-2">
           <button type="submit" disabled={isSubmitting || !canEdit} className="hh-btn-primary px-4 py-2 text-sm disabled:opacity-50 w-full sm:w-auto">Save</button>
           <Link href="/events" className="hh-btn-secondary px-4 py-2 text-sm w-full sm:w-auto text-center">Back</Link>
@@ -593,27 +836,60 @@ export default function EditEventPage() {
 
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 md:gap-8">
         <section>
-          <h2 className="text-base md:text-lg font-semibold mb-3 md:mb-4 text-[var(--hh-text)]">Ticket Tiers</h2>
+          <h2 className="text-base md:text-lg font-semibold mb-1 text-[var(--hh-text)]">Ticket Tiers</h2>
+          <p className="text-xs text-[var(--hh-text-tertiary)] mb-3 md:mb-4">
+            {allocated} {event.capacity !== null ? `of ${event.capacity} tickets allocated` : 'tickets allocated, no capacity limit'}
+          </p>
+          {tierError && <p className="text-sm text-red-400 mb-2">{tierError}</p>}
           <div className="space-y-2 mb-4">
             {tiers.map((t) => (
               <div key={t.id} className="flex items-center justify-between hh-card p-3">
                 <div className="text-sm">
                   <div className="font-medium">{t.name}</div>
                   <div className="text-gray-600">{t.currency} {t.price_cents} • Qty {t.total_quantity} • Sold {t.sold_quantity}</div>
+                  {(t.sales_start || t.sales_end) && (
+                    <div className="text-xs text-[var(--hh-text-tertiary)]">
+                      On sale {t.sales_start ? `from ${formatInTimeZone(t.sales_start, event.timezone)}` : ''}
+                      {t.sales_end ? ` until ${formatInTimeZone(t.sales_end, event.timezone)}` : ''}
+                    </div>
+                  )}
                 </div>
-                {canEdit && (
-                  <button onClick={() => deleteTier(t.id)} className="text-xs hh-btn-secondary">Delete</button>
+                {canManageTiers && (
+                  <div className="flex gap-2">
+                    <button onClick={() => resizeTier(t)} className="text-xs hh-btn-secondary">Resize</button>
+                    <button onClick={() => deleteTier(t.id)} className="text-xs hh-btn-secondary">Delete</button>
+                  </div>
                 )}
               </div>
             ))}
             {tiers.length === 0 && <p className="text-sm text-gray-600">No tiers yet.</p>}
           </div>
-          {canEdit && (
+          {canManageTiers && (
             <form onSubmit={tierForm.handleSubmit(addTier)} className="grid grid-cols-1 sm:grid-cols-2 gap-3">
               <input placeholder="Name" className="hh-input px-3 py-2 text-sm col-span-1 sm:col-span-2" {...tierForm.register('name')} />
               <input type="number" placeholder="Price (cents)" className="hh-input px-3 py-2 text-sm" {...tierForm.register('price_cents', { valueAsNumber: true })} />
               <input placeholder="Currency" className="hh-input px-3 py-2 text-sm" {...tierForm.register('currency')} />
               <input type="number" placeholder="Total Qty" className="hh-input px-3 py-2 text-sm" {...tierForm.register('total_quantity', { valueAsNumber: true })} />
+              <div className="col-span-1 sm:col-span-2 grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-xs font-medium mb-1 text-[var(--hh-text-secondary)]">Sales start (optional)</label>
+                  <ZonedDateTimeInput
+                    value={tierForm.watch('sales_start')}
+                    onChange={(value) => tierForm.setValue('sales_start', value, { shouldValidate: true })}
+                    timeZone={event.timezone}
+                    className="w-full hh-input px-3 py-2 text-sm"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium mb-1 text-[var(--hh-text-secondary)]">Sales end (optional)</label>
+                  <ZonedDateTimeInput
+                    value={tierForm.watch('sales_end')}
+                    onChange={(value) => tierForm.setValue('sales_end', value, { shouldValidate: true })}
+                    timeZone={event.timezone}
+                    className="w-full hh-input px-3 py-2 text-sm"
+                  />
+                </div>
+              </div>
               <button className="hh-btn-primary px-3 py-2 text-sm col-span-1 sm:col-span-2 w-full sm:w-auto">Add Tier</button>
             </form>
           )}
@@ -628,7 +904,7 @@ export default function EditEventPage() {
                   <div className="font-medium">Position {img.position}</div>
                   <div className="text-gray-600">{img.url}</div>
                 </div>
-                {canEdit && (
+                {canManageImages && (
                   <div className="flex gap-2">
                     <button onClick={() => moveImage(idx, -1)} className="text-xs hh-btn-secondary">Up</button>
                     <button onClick={() => moveImage(idx, 1)} className="text-xs hh-btn-secondary">Down</button>
@@ -639,7 +915,7 @@ export default function EditEventPage() {
             ))}
             {images.length === 0 && <p className="text-sm text-gray-600">No images yet.</p>}
           </div>
-          {canEdit && (
+          {canManageImages && (
             <>
               <form onSubmit={imageForm.handleSubmit(addImage)} className="grid grid-cols-1 sm:grid-cols-3 gap-3">
                 <input placeholder="Image URL" className="hh-input px-3 py-2 text-sm col-span-1 sm:col-span-2" {...imageForm.register('url')} />
@@ -664,6 +940,15 @@ export default function EditEventPage() {
           )}
         </section>
       </div>
+
+      <TicketReconciliationPanel eventId={eventId} refreshKey={loadCount} />
+
+      <EventHistoryPanel eventId={eventId} canRestore={canEdit} refreshKey={loadCount} onRestored={load} />
+
+      {showDuplicate && <DuplicateEventModal event={event} onClose={() => setShowDuplicate(false)} />}
+      {showMakeRecurring && (
+        <MakeRecurringModal event={event} canPublish={canPublish} onClose={() => setShowMakeRecurring(false)} />
+      )}
     </div>
   );
 }
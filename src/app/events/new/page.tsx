@@ -7,8 +7,14 @@ import { EventCreateSchema, type EventCreateInput } from '@/lib/validation';
 import Link from 'next/link';
 import { useState, useEffect } from 'react';
 import { toast } from 'sonner';
+import { usePermissions } from '@/lib/use-permissions';
+import { parseTags, selectableCategories, useEventCategories } from '@/lib/use-event-categories';
+import { selectableVenues, useVenues, venueGateRows } from '@/lib/use-venues';
+import { DEFAULT_TIME_ZONE, moveToTimeZone } from '@/lib/timezones';
+import { TimeZoneSelect, ZonedDateTimeInput } from '@/components/TimeZoneInputs';
+
+const DATE_FIELDS = ['start_at', 'end_at', 'publish_at', 'archive_at'] as const;
 
-const categories = ['Music', 'Tech', 'Comedy', 'Art', 'Sports'] as const;
 const parseAllowedDomains = (value: string): string[] =>
   Array.from(
     new Set(
@@ -52,37 +58,27 @@ const steps = [
 
 export default function NewEventPage() {
   const router = useRouter();
-  const [currentUser, setCurrentUser] = useState<{ role: 'admin' | 'moderator' | 'vendor' | 'vendor_moderator' } | null>(null);
+  const { can, loaded: permissionsLoaded } = usePermissions();
   const [currentStep, setCurrentStep] = useState(0);
-  const [isLoadingUser, setIsLoadingUser] = useState(true);
   const [isUploadingImage, setIsUploadingImage] = useState(false);
   const [isValidatingStep, setIsValidatingStep] = useState(false);
   const [allowedEmailDomainsInput, setAllowedEmailDomainsInput] = useState('');
+  const [tagsInput, setTagsInput] = useState('');
+  const { topLevel, subcategoriesOf } = useEventCategories();
+  const { venues } = useVenues();
   const [entryGates, setEntryGates] = useState<EntryGateInput[]>([
     { id: `gate-${Date.now()}`, name: 'Gate 1', code: 'GATE1', is_active: true },
   ]);
 
+  const canPublish = can('event.publish');
+  const canManageSettings = can('event.settings.manage');
+  const canManageGates = can('event.gates.manage');
+
   useEffect(() => {
-    // Load current user role
-    setIsLoadingUser(true);
-    fetch('/api/admin/me')
-      .then(res => res.json())
-      .then(data => {
-        if (data.admin) {
-          setCurrentUser(data.admin);
-          // Only admins and vendors can create events
-          if (data.admin.role !== 'admin' && data.admin.role !== 'vendor') {
-            router.push('/events');
-          }
-        }
-      })
-      .catch(() => {
-        toast.error('Failed to load user information');
-      })
-      .finally(() => {
-        setIsLoadingUser(false);
-      });
-  }, [router]);
+    if (permissionsLoaded && !can('event.create')) {
+      router.push('/events');
+    }
+  }, [permissionsLoaded, can, router]);
 
   const { register, handleSubmit, setValue, watch, trigger, formState: { errors, isSubmitting } } = useForm<EventCreateInput>({
     resolver: zodResolver(EventCreateSchema),
@@ -90,9 +86,14 @@ export default function NewEventPage() {
       title: '',
       description: '',
       category: undefined,
+      subcategory: undefined,
       hero_image_url: '',
       start_at: '',
-      end_at: '',
+      end_at: null,
+      publish_at: null,
+      archive_at: null,
+      timezone: DEFAULT_TIME_ZONE,
+      venue_id: undefined,
       venue_name: '',
       address_line: '',
       city: '',
@@ -110,6 +111,35 @@ export default function NewEventPage() {
   });
 
   const heroUrl = watch('hero_image_url');
+  const timezone = watch('timezone') ?? DEFAULT_TIME_ZONE;
+
+  // Times already entered keep their wall-clock reading in the new zone.
+  const changeTimeZone = (next: string) => {
+    for (const field of DATE_FIELDS) {
+      const moved = moveToTimeZone(watch(field), timezone, next);
+      if (moved) setValue(field, moved, { shouldDirty: true });
+    }
+    setValue('timezone', next, { shouldDirty: true });
+  };
+
+  // Linking a venue fills in what the venue knows; all of it stays editable.
+  const changeVenue = (venueId: string) => {
+    setValue('venue_id', venueId, { shouldDirty: true });
+    const venue = venues.find((row) => row.id === venueId);
+    if (!venue) return;
+    setValue('venue_name', venue.name, { shouldDirty: true, shouldValidate: true });
+    setValue('address_line', venue.address_line ?? '', { shouldDirty: true });
+    setValue('city', venue.city ?? '', { shouldDirty: true });
+    setValue('latitude', venue.latitude ?? undefined, { shouldDirty: true });
+    setValue('longitude', venue.longitude ?? undefined, { shouldDirty: true });
+    if (venue.timezone !== timezone) changeTimeZone(venue.timezone);
+    if (venue.capacity) setValue('capacity', venue.capacity, { shouldDirty: true });
+    if (canManageGates && venue.entry_gates.length > 0) {
+      setValue('enable_entry_gate_flow', true, { shouldDirty: true });
+      setEntryGates(venueGateRows(venue));
+    }
+  };
+  const subcategories = selectableCategories(subcategoriesOf(watch('category')), null);
   const enableEntryGateFlow = !!watch('enable_entry_gate_flow');
 
   const uploadHero = async (file: File) => {
@@ -137,9 +167,8 @@ export default function NewEventPage() {
     try {
       const payload = {
         ...values,
-        start_at: values.start_at ? new Date(values.start_at).toISOString() : undefined,
-        end_at: values.end_at ? new Date(values.end_at).toISOString() : undefined,
         allowed_email_domains: parseAllowedDomains(allowedEmailDomainsInput),
+        tags: parseTags(tagsInput),
         entry_gates: enableEntryGateFlow
           ? entryGates.map((gate, index) => ({
               name: gate.name.trim(),
@@ -175,13 +204,13 @@ export default function NewEventPage() {
       
       switch (currentStep) {
         case 0: // Basic
-          fieldsToValidate = ['title', 'description', 'category', 'status'];
+          fieldsToValidate = ['title', 'description', 'category', 'subcategory', 'status'];
           break;
         case 1: // Media
           fieldsToValidate = ['hero_image_url'];
           break;
         case 2: // Schedule
-          fieldsToValidate = ['start_at', 'end_at', 'venue_name', 'city', 'address_line', 'latitude', 'longitude'];
+          fieldsToValidate = ['timezone', 'start_at', 'end_at', 'publish_at', 'archive_at', 'venue_id', 'venue_name', 'city', 'address_line', 'latitude', 'longitude'];
           break;
         case 3: // Pricing
           // No specific validation needed to proceed, ready to submit
@@ -206,7 +235,7 @@ export default function NewEventPage() {
   };
 
   // Show loading or redirect if not admin
-  if (isLoadingUser || !currentUser) {
+  if (!permissionsLoaded) {
     return (
       <div className="min-h-[60vh] flex items-center justify-center">
         <div className="flex flex-col items-center gap-3">
@@ -217,7 +246,7 @@ export default function NewEventPage() {
     );
   }
 
-  if (currentUser.role !== 'admin' && currentUser.role !== 'vendor') {
+  if (!can('event.create')) {
     return (
       <div className="min-h-[60vh] flex items-center justify-center">
         <div className="bg-red-500/10 border border-red-500/20 rounded-xl p-6 text-center max-w-md">
@@ -309,26 +338,53 @@ export default function NewEventPage() {
 
           <div>
                   <label className="block text-sm font-medium mb-1.5 text-[var(--hh-text-secondary)]">Category</label>
-                  <select className="hh-input w-full appearance-none" {...register('category')}>
+                  <select
+                    className="hh-input w-full appearance-none"
+                    {...register('category', { onChange: () => setValue('subcategory', null) })}
+                  >
                     <option value="">Select category...</option>
-              {categories.map((c) => (
-                <option key={c} value={c}>{c}</option>
+              {selectableCategories(topLevel, null).map((c) => (
+                <option key={c.id} value={c.slug}>{c.icon ? `${c.icon} ${c.name}` : c.name}</option>
               ))}
             </select>
                   {errors.category && <p className="mt-1.5 text-xs text-red-400">{errors.category.message}</p>}
                 </div>
 
+                {subcategories.length > 0 && (
+                  <div>
+                    <label className="block text-sm font-medium mb-1.5 text-[var(--hh-text-secondary)]">Sub-category</label>
+                    <select className="hh-input w-full appearance-none" {...register('subcategory')}>
+                      <option value="">None</option>
+                      {subcategories.map((c) => (
+                        <option key={c.id} value={c.slug}>{c.icon ? `${c.icon} ${c.name}` : c.name}</option>
+                      ))}
+                    </select>
+                    {errors.subcategory && <p className="mt-1.5 text-xs text-red-400">{errors.subcategory.message}</p>}
+                  </div>
+                )}
+
                 <div>
                   <label className="block text-sm font-medium mb-1.5 text-[var(--hh-text-secondary)]">Status</label>
-                  <select className="hh-input w-full appearance-none" {...register('status')} disabled={currentUser?.role === 'vendor'}>
+                  <select className="hh-input w-full appearance-none" {...register('status')} disabled={!canPublish}>
                     <option value="draft">Draft (Hidden)</option>
                     <option value="published">Published (Visible)</option>
                     <option value="archived">Archived</option>
                   </select>
-                  {currentUser?.role === 'vendor' && (
+                  {!canPublish && (
                     <p className="mt-1.5 text-xs text-[var(--hh-text-tertiary)]">Vendor events require admin approval before publishing.</p>
                   )}
                 </div>
+
+                <div className="col-span-2">
+                  <label className="block text-sm font-medium mb-1.5 text-[var(--hh-text-secondary)]">Tags</label>
+                  <input
+                    className="hh-input w-full"
+                    placeholder="e.g. jazz, open-air, all-ages"
+                    value={tagsInput}
+                    onChange={(e) => setTagsInput(e.target.value)}
+                  />
+                  <p className="mt-1.5 text-xs text-[var(--hh-text-tertiary)]">Separate tags with commas.</p>
+                </div>
               </div>
             </div>
           </div>
@@ -401,27 +457,71 @@ export default function NewEventPage() {
               {steps[2].icon} Schedule & Location
             </h2>
             <div className="grid gap-6">
+              <div>
+                  <label className="block text-sm font-medium mb-1.5 text-[var(--hh-text-secondary)]">Time Zone</label>
+                  <TimeZoneSelect value={timezone} onChange={changeTimeZone} className="hh-input w-full" />
+                  <p className="mt-1.5 text-xs text-[var(--hh-text-tertiary)]">Where the event takes place. All times below are in this zone.</p>
+                  {errors.timezone && <p className="mt-1.5 text-xs text-red-400">{errors.timezone.message}</p>}
+              </div>
+
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
           <div>
                   <label className="block text-sm font-medium mb-1.5 text-[var(--hh-text-secondary)]">Start Date & Time</label>
-                  <input 
-                    type="datetime-local" 
-                    className="hh-input w-full" 
-                    {...register('start_at')} 
+                  <ZonedDateTimeInput
+                    value={watch('start_at')}
+                    onChange={(value) => setValue('start_at', value ?? '', { shouldDirty: true, shouldValidate: true })}
+                    timeZone={timezone}
+                    className="hh-input w-full"
                   />
                   {errors.start_at && <p className="mt-1.5 text-xs text-red-400">{errors.start_at.message}</p>}
           </div>
           <div>
                   <label className="block text-sm font-medium mb-1.5 text-[var(--hh-text-secondary)]">End Date & Time</label>
-                  <input 
-                    type="datetime-local" 
-                    className="hh-input w-full" 
-                    {...register('end_at')} 
+                  <ZonedDateTimeInput
+                    value={watch('end_at')}
+                    onChange={(value) => setValue('end_at', value, { shouldDirty: true, shouldValidate: true })}
+                    timeZone={timezone}
+                    className="hh-input w-full"
                   />
                   {errors.end_at && <p className="mt-1.5 text-xs text-red-400">{errors.end_at.message}</p>}
           </div>
         </div>
 
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div>
+                  <label className="block text-sm font-medium mb-1.5 text-[var(--hh-text-secondary)]">Publish At (optional)</label>
+                  <ZonedDateTimeInput
+                    value={watch('publish_at')}
+                    onChange={(value) => setValue('publish_at', value, { shouldDirty: true, shouldValidate: true })}
+                    timeZone={timezone}
+                    className="hh-input w-full"
+                    disabled={!canPublish}
+                  />
+                  <p className="mt-1.5 text-xs text-[var(--hh-text-tertiary)]">Save as a draft to publish it automatically at this time.</p>
+          </div>
+          <div>
+                  <label className="block text-sm font-medium mb-1.5 text-[var(--hh-text-secondary)]">Archive At (optional)</label>
+                  <ZonedDateTimeInput
+                    value={watch('archive_at')}
+                    onChange={(value) => setValue('archive_at', value, { shouldDirty: true, shouldValidate: true })}
+                    timeZone={timezone}
+                    className="hh-input w-full"
+                  />
+                  <p className="mt-1.5 text-xs text-[var(--hh-text-tertiary)]">Defaults to the end time once published.</p>
+          </div>
+        </div>
+
+              <div>
+                  <label className="block text-sm font-medium mb-1.5 text-[var(--hh-text-secondary)]">Venue</label>
+                  <select className="hh-input w-full" value={watch('venue_id') ?? ''} onChange={(e) => changeVenue(e.target.value)}>
+                    <option value="">Not linked to a venue</option>
+                    {selectableVenues(venues, null).map((venue) => (
+                      <option key={venue.id} value={venue.id}>{venue.name}{venue.city ? ` • ${venue.city}` : ''}</option>
+                    ))}
+                  </select>
+                  <p className="mt-1.5 text-xs text-[var(--hh-text-tertiary)]">Picking a venue fills in the location, time zone and entry gates.</p>
+              </div>
+
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
           <div>
                   <label className="block text-sm font-medium mb-1.5 text-[var(--hh-text-secondary)]">Venue Name</label>
@@ -453,6 +553,19 @@ export default function NewEventPage() {
                 {errors.address_line && <p className="mt-1.5 text-xs text-red-400">{errors.address_line.message}</p>}
         </div>
 
+              <div>
+                <label className="block text-sm font-medium mb-1.5 text-[var(--hh-text-secondary)]">Capacity</label>
+                <input
+                  type="number"
+                  min={1}
+                  className="hh-input w-full"
+                  placeholder="No limit"
+                  {...register('capacity', { setValueAs: (v) => (v === '' || v === null || v === undefined ? null : Number(v)) })}
+                />
+                <p className="mt-1.5 text-xs text-[var(--hh-text-tertiary)]">The most tickets all tiers together may offer.</p>
+                {errors.capacity && <p className="mt-1.5 text-xs text-red-400">{errors.capacity.message}</p>}
+              </div>
+
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6 p-4 bg-[var(--hh-bg-elevated)]/30 rounded-xl border border-[var(--hh-border)]">
           <div>
                   <label className="block text-sm font-medium mb-1.5 text-[var(--hh-text-secondary)]">Latitude</label>
@@ -530,13 +643,13 @@ export default function NewEventPage() {
                     type="checkbox" 
                     className="h-4 w-4 rounded border-[var(--hh-border)] text-[var(--hh-primary)] focus:ring-[var(--hh-primary)] bg-[var(--hh-bg-input)]" 
                     {...register('allow_cab')} 
-                    disabled={currentUser?.role !== 'admin'}
+                    disabled={!canManageSettings}
                   />
                 </div>
                 <div className="text-sm">
                   <label htmlFor="allow_cab" className="font-medium text-[var(--hh-text)]">Cab Booking Option</label>
                   <p className="text-[var(--hh-text-secondary)] mt-0.5">Allow customers to request a cab ride when booking their tickets.</p>
-                  {currentUser?.role !== 'admin' && (
+                  {!canManageSettings && (
                     <p className="text-[var(--hh-text-tertiary)] mt-1">Only admins can enable cab options.</p>
                   )}
                 </div>
@@ -549,7 +662,7 @@ export default function NewEventPage() {
                     type="checkbox"
                     className="h-4 w-4 rounded border-[var(--hh-border)] text-[var(--hh-primary)] focus:ring-[var(--hh-primary)] bg-[var(--hh-bg-input)]"
                     {...register('enable_entry_gate_flow')}
-                    disabled={currentUser?.role !== 'admin'}
+                    disabled={!canManageSettings}
                   />
                 </div>
                 <div className="text-sm flex-1">
@@ -570,7 +683,7 @@ export default function NewEventPage() {
                             }
                             className="hh-input col-span-5"
                             placeholder={`Gate ${index + 1}`}
-                            disabled={currentUser?.role !== 'admin'}
+                            disabled={!canManageGates}
                           />
                           <input
                             value={gate.code}
@@ -591,7 +704,7 @@ export default function NewEventPage() {
                             }
                             className="hh-input col-span-3"
                             placeholder="CODE"
-                            disabled={currentUser?.role !== 'admin'}
+                            disabled={!canManageGates}
                           />
                           <label className="col-span-2 flex items-center gap-2 text-xs text-[var(--hh-text-secondary)]">
                             <input
@@ -604,7 +717,7 @@ export default function NewEventPage() {
                                   ),
                                 )
                               }
-                              disabled={currentUser?.role !== 'admin'}
+                              disabled={!canManageGates}
                             />
                             Active
                           </label>
@@ -616,7 +729,7 @@ export default function NewEventPage() {
                                 prev.length <= 1 ? prev : prev.filter((row) => row.id !== gate.id),
                               )
                             }
-                            disabled={currentUser?.role !== 'admin' || entryGates.length <= 1}
+                            disabled={!canManageGates || entryGates.length <= 1}
                           >
                             Remove
                           </button>
@@ -636,13 +749,13 @@ export default function NewEventPage() {
                             },
                           ])
                         }
-                        disabled={currentUser?.role !== 'admin'}
+                        disabled={!canManageGates}
                       >
                         Add Gate
                       </button>
                     </div>
                   )}
-                  {currentUser?.role !== 'admin' && (
+                  {!canManageGates && (
                     <p className="text-[var(--hh-text-tertiary)] mt-1">Only admins can configure gate flow.</p>
                   )}
                 </div>
@@ -655,13 +768,13 @@ export default function NewEventPage() {
                     type="checkbox"
                     className="h-4 w-4 rounded border-[var(--hh-border)] text-[var(--hh-primary)] focus:ring-[var(--hh-primary)] bg-[var(--hh-bg-input)]"
                     {...register('require_instagram_verification')}
-                    disabled={currentUser?.role !== 'admin'}
+                    disabled={!canManageSettings}
                   />
                 </div>
                 <div className="text-sm">
                   <label htmlFor="require_instagram_verification" className="font-medium text-[var(--hh-text)]">Instagram Verification Gate</label>
                   <p className="text-[var(--hh-text-secondary)] mt-0.5">Require buyers to submit an Instagram handle for manual approval before entry.</p>
-                  {currentUser?.role !== 'admin' && (
+                  {!canManageSettings && (
                     <p className="text-[var(--hh-text-tertiary)] mt-1">Only admins can enable Instagram verification.</p>
                   )}
                 </div>
@@ -674,7 +787,7 @@ export default function NewEventPage() {
                     type="checkbox"
                     className="h-4 w-4 rounded border-[var(--hh-border)] text-[var(--hh-primary)] focus:ring-[var(--hh-primary)] bg-[var(--hh-bg-input)]"
                     {...register('require_email_domain_verification')}
-                    disabled={currentUser?.role !== 'admin'}
+                    disabled={!canManageSettings}
                   />
                 </div>
                 <div className="text-sm flex-1">
@@ -689,9 +802,9 @@ export default function NewEventPage() {
                       setAllowedEmailDomainsInput(nextValue);
                       setValue('allowed_email_domains', parseAllowedDomains(nextValue), { shouldDirty: true, shouldValidate: true });
                     }}
-                    disabled={currentUser?.role !== 'admin'}
+                    disabled={!canManageSettings}
                   />
-                  {currentUser?.role !== 'admin' && (
+                  {!canManageSettings && (
                     <p className="text-[var(--hh-text-tertiary)] mt-1">Only admins can configure allowed email domains.</p>
                   )}
                 </div>
@@ -1,33 +1,66 @@
 "use client";
 
 import Link from 'next/link';
-import { useEffect, useMemo, useState } from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
 import { DataTable, type Column } from '@/components/DataTable';
+import { DuplicateEventModal } from '@/components/DuplicateEventModal';
+import { usePermissions } from '@/lib/use-permissions';
+import { useEventCategories } from '@/lib/use-event-categories';
+import { useVenues } from '@/lib/use-venues';
+import { describeRecurrence, type Recurrence } from '@/lib/recurrence';
+import { upcomingChanges, type ScheduledChange } from '@/lib/event-schedule';
+import { REVIEW_STATUS_CLASSES, REVIEW_STATUS_LABELS } from '@/components/EventReviewPanel';
+import type { EventReviewComment, ReviewStatus } from '@/lib/event-review';
 
 type Event = {
   id: string;
   title: string;
   category: string | null;
+  subcategory?: string | null;
+  tags?: string[] | null;
   city: string | null;
+  venue_id?: string | null;
   start_at: string;
+  end_at?: string | null;
+  timezone: string;
   status: 'draft' | 'published' | 'archived';
+  publish_at?: string | null;
+  archive_at?: string | null;
+  review_status?: ReviewStatus | null;
+  review_feedback?: EventReviewComment | null;
   cab_opt_in_count?: number;
   vendor_id?: string | null;
+  series_id?: string | null;
 };
 
+type SeriesSummary = { id: string; recurrence: Recurrence };
+
+const SCHEDULE_WINDOW_MS = 7 * 86_400_000;
+
+const formatScheduled = (change: ScheduledChange) =>
+  `${change.to === 'published' ? 'Publishes' : 'Archives'} ${new Date(change.at).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}`;
+
 const COLS_KEY = 'events_table_cols';
 
 export default function EventsPage() {
   const [events, setEvents] = useState<Event[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [currentUser, setCurrentUser] = useState<{ role: 'admin' | 'moderator' | 'vendor' | 'vendor_moderator' } | null>(null);
+  const { can } = usePermissions();
+  const { topLevel, nameOf } = useEventCategories();
+  const { venues } = useVenues();
+  const [duplicating, setDuplicating] = useState<Event | null>(null);
+  const [seriesById, setSeriesById] = useState<Record<string, SeriesSummary>>({});
+  const [expandedSeries, setExpandedSeries] = useState<string[]>([]);
+  // Scheduled changes are shown relative to when the list was fetched.
+  const [loadedAt, setLoadedAt] = useState(0);
 
   // Filters
   const [q, setQ] = useState('');
   const [status, setStatus] = useState<'all'|'draft'|'published'|'archived'>('all');
   const [category, setCategory] = useState<string>('all');
   const [city, setCity] = useState<string>('all');
+  const [venue, setVenue] = useState<string>('all');
   const [from, setFrom] = useState<string>('');
   const [to, setTo] = useState<string>('');
 
@@ -51,18 +84,6 @@ export default function EventsPage() {
     window.localStorage.setItem(COLS_KEY, JSON.stringify(visibleCols));
   }, [visibleCols]);
 
-  useEffect(() => {
-    // Load current user role
-    fetch('/api/admin/me')
-      .then(res => res.json())
-      .then(data => {
-        if (data.admin) {
-          setCurrentUser(data.admin);
-        }
-      })
-      .catch(() => {});
-  }, []);
-
   const load = async () => {
     setLoading(true);
     setError(null);
@@ -74,6 +95,8 @@ export default function EventsPage() {
     }
     const data = await res.json();
     setEvents(data.events ?? []);
+    setLoadedAt(Date.now());
+    setSeriesById(Object.fromEntries((data.series ?? []).map((series: SeriesSummary) => [series.id, series])));
     setLoading(false);
   };
 
@@ -81,7 +104,11 @@ export default function EventsPage() {
 
   const togglePublish = async (event: Event) => {
     const next = event.status === 'published' ? 'draft' : 'published';
-    await fetch(`/api/events/${event.id}`, { method: 'PATCH', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ status: next }) });
+    const res = await fetch(`/api/events/${event.id}`, { method: 'PATCH', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ status: next }) });
+    if (!res.ok) {
+      const data = await res.json().catch(() => ({}));
+      alert(data?.error || 'Failed to update event');
+    }
     await load();
   };
 
@@ -90,28 +117,116 @@ export default function EventsPage() {
     const res = await fetch(`/api/events/${event.id}`, { method: 'DELETE' });
     if (!res.ok) {
       const data = await res.json().catch(() => ({}));
-      alert(data?.error || 'Failed to delete event. Only admins can delete events.');
+      alert(data?.error || 'Failed to delete event');
       return;
     }
     await load();
   };
 
-  const uniqueCategories = useMemo(() => Array.from(new Set(events.map(e => e.category).filter(Boolean))) as string[], [events]);
   const uniqueCities = useMemo(() => Array.from(new Set(events.map(e => e.city).filter(Boolean))) as string[], [events]);
 
   const filtered = useMemo(() => {
     let rows = events.slice();
     if (q.trim()) {
       const s = q.trim().toLowerCase();
-      rows = rows.filter(e => e.title.toLowerCase().includes(s) || (e.category ?? '').toLowerCase().includes(s) || (e.city ?? '').toLowerCase().includes(s));
+      rows = rows.filter(e =>
+        e.title.toLowerCase().includes(s) ||
+        (nameOf(e.category) ?? '').toLowerCase().includes(s) ||
+        (nameOf(e.subcategory) ?? '').toLowerCase().includes(s) ||
+        (e.tags ?? []).some(tag => tag.includes(s)) ||
+        (e.city ?? '').toLowerCase().includes(s)
+      );
     }
     if (status !== 'all') rows = rows.filter(e => e.status === status);
     if (category !== 'all') rows = rows.filter(e => (e.category ?? '') === category);
     if (city !== 'all') rows = rows.filter(e => (e.city ?? '') === city);
+    if (venue !== 'all') rows = rows.filter(e => (e.venue_id ?? '') === venue);
     if (from) rows = rows.filter(e => Date.parse(e.start_at) >= Date.parse(from));
     if (to) rows = rows.filter(e => Date.parse(e.start_at) <= Date.parse(to) + 86_400_000 - 1);
     return rows;
-  }, [events, q, status, category, city, from, to]);
+  }, [events, q, status, category, city, venue, from, to, nameOf]);
+
+  const scheduled = useMemo(() => {
+    return events
+      .flatMap((event) => upcomingChanges(event).map((change) => ({ event, change, due: Date.parse(change.at) <= loadedAt })))
+      .filter(({ change }) => Date.parse(change.at) - loadedAt <= SCHEDULE_WINDOW_MS)
+      .sort((a, b) => Date.parse(a.change.at) - Date.parse(b.change.at));
+  }, [events, loadedAt]);
+
+  // A series shows as its next upcoming date until expanded; its other dates then follow it.
+  const seriesCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    for (const e of filtered) if (e.series_id) counts[e.series_id] = (counts[e.series_id] ?? 0) + 1;
+    return counts;
+  }, [filtered]);
+
+  const rows = useMemo(() => {
+    const bySeries = new Map<string, Event[]>();
+    for (const e of filtered) {
+      if (!e.series_id) continue;
+      bySeries.set(e.series_id, [...(bySeries.get(e.series_id) ?? []), e]);
+    }
+    const result: Event[] = [];
+    const placed = new Set<string>();
+    for (const e of filtered) {
+      if (!e.series_id) {
+        result.push(e);
+        continue;
+      }
+      if (placed.has(e.series_id)) continue;
+      placed.add(e.series_id);
+      const occurrences = (bySeries.get(e.series_id) ?? []).sort((a, b) => Date.parse(a.start_at) - Date.parse(b.start_at));
+      if (expandedSeries.includes(e.series_id)) {
+        result.push(...occurrences);
+      } else {
+        result.push(occurrences.find((o) => Date.parse(o.start_at) >= loadedAt) ?? occurrences[occurrences.length - 1]);
+      }
+    }
+    return result;
+  }, [filtered, expandedSeries, loadedAt]);
+
+  const toggleSeries = useCallback((seriesId: string) => {
+    setExpandedSeries((prev) => (prev.includes(seriesId) ? prev.filter((id) => id !== seriesId) : [...prev, seriesId]));
+  }, []);
+
+  // An approval only matters while the event still waits to be published.
+  const reviewInfo = (e: Event) => {
+    if (!e.review_status || (e.review_status === 'approved' && e.status !== 'draft')) return null;
+    return (
+      <span className="block text-xs mt-0.5">
+        <span className={`inline-flex items-center px-1.5 py-0.5 rounded border ${REVIEW_STATUS_CLASSES[e.review_status]}`}>
+          {REVIEW_STATUS_LABELS[e.review_status]}
+        </span>
+        {e.review_feedback?.body && (
+          <Link href={`/events/${e.id}`} className="block mt-0.5 text-[var(--hh-text-secondary)] line-clamp-2 hover:text-[var(--hh-text)]" title={e.review_feedback.body}>
+            &ldquo;{e.review_feedback.body}&rdquo;
+          </Link>
+        )}
+      </span>
+    );
+  };
+
+  const seriesBadge = useCallback((e: Event) => {
+    if (!e.series_id) return null;
+    const series = seriesById[e.series_id];
+    const count = seriesCounts[e.series_id] ?? 1;
+    return (
+      <span className="flex items-center gap-2 text-xs mt-0.5">
+        <button
+          type="button"
+          onClick={() => toggleSeries(e.series_id as string)}
+          className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded border border-[var(--hh-border)] text-[var(--hh-text-secondary)] hover:bg-[var(--hh-bg-elevated)]"
+          title={series ? describeRecurrence(series.recurrence) : 'Recurring series'}
+        >
+          <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+          </svg>
+          {expandedSeries.includes(e.series_id) ? 'Collapse series' : `Series · ${count} ${count === 1 ? 'date' : 'dates'}`}
+        </button>
+        <Link href={`/event-series/${e.series_id}`} className="text-[var(--hh-text-tertiary)] hover:text-(--hh-primary)">Manage</Link>
+      </span>
+    );
+  }, [seriesById, seriesCounts, expandedSeries, toggleSeries]);
 
   const exportCsv = () => {
     // Export only visible (non-action) columns
@@ -122,7 +237,7 @@ export default function EventsPage() {
       const rowVals = visibleCols.filter((id)=>id!=='actions').map((id) => {
         switch (id) {
           case 'title': return e.title;
-          case 'category': return e.category ?? '';
+          case 'category': return nameOf(e.category) ?? '';
           case 'city': return e.city ?? '';
           case 'start': return new Date(e.start_at).toISOString();
           case 'status': return e.status;
@@ -143,9 +258,16 @@ export default function EventsPage() {
       <div className="flex flex-col">
         <Link href={`/events/${e.id}/attendees`} className="hover:text-(--hh-primary) transition-colors font-semibold">{e.title}</Link>
         <span className="text-xs text-(--hh-text-tertiary)">ID: {e.id.slice(0,8)}...</span>
+        {seriesBadge(e)}
+        {reviewInfo(e)}
       </div>
     ) },
-    { id: 'category', header: 'Category', field: 'category', sortable: true, className: 'text-(--hh-text-secondary)' },
+    { id: 'category', header: 'Category', field: 'category', sortable: true, className: 'text-(--hh-text-secondary)', accessor: (e) => (
+        <div className="flex flex-col">
+            <span>{nameOf(e.category) ?? ''}</span>
+            {e.subcategory && <span className="text-xs text-(--hh-text-tertiary)">{nameOf(e.subcategory)}</span>}
+        </div>
+    ) },
     { id: 'city', header: 'Location', field: 'city', sortable: true, className: 'text-(--hh-text-secondary)', accessor: (e) => (
         <div className="flex items-center gap-1">
             <svg className="w-3 h-3 text-(--hh-text-tertiary)" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -157,12 +279,13 @@ export default function EventsPage() {
     ) },
     { id: 'start', header: 'Date & Time', sortable: true, className: 'text-(--hh-text-secondary)', accessor: (e) => (
       <div className="flex flex-col">
-        <span className="text-sm">{new Date(e.start_at).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' })}</span>
-        <span className="text-xs text-(--hh-text-tertiary)">{new Date(e.start_at).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })}</span>
+        <span className="text-sm">{new Date(e.start_at).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric', timeZone: e.timezone })}</span>
+        <span className="text-xs text-(--hh-text-tertiary)">{new Date(e.start_at).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit', timeZone: e.timezone, timeZoneName: 'short' })}</span>
       </div>
     ) },
     { id: 'cab', header: 'Cabs', sortable: true, accessor: (e) => (e.cab_opt_in_count ?? 0), className: 'text-(--hh-text-secondary)' },
     { id: 'status', header: 'Status', sortable: true, accessor: (e) => (
+      <>
       <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium border ${
         e.status === 'published' 
           ? 'bg-green-500/10 text-green-400 border-green-500/20' 
@@ -175,6 +298,10 @@ export default function EventsPage() {
         }`}></span>
         {e.status.charAt(0).toUpperCase() + e.status.slice(1)}
       </span>
+      {upcomingChanges(e)[0] && (
+        <span className="block mt-1 text-xs text-[var(--hh-text-tertiary)]">{formatScheduled(upcomingChanges(e)[0])}</span>
+      )}
+      </>
     )},
     { id: 'actions', header: '', className: 'w-[50px]', accessor: (e) => (
       <div className="flex items-center justify-end gap-2">
@@ -183,21 +310,28 @@ export default function EventsPage() {
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4.354a4 4 0 110 5.292M15 21H3v-1a6 6 0 0112 0v1zm0 0h6v-1a6 6 0 00-9-5.197M13 7a4 4 0 11-8 0 4 4 0 018 0z" />
             </svg>
         </Link>
-        {(currentUser?.role === 'admin' || currentUser?.role === 'moderator') && (
+        {can('event.publish') && (
           <button onClick={() => togglePublish(e)} className={`p-2 hover:bg-[var(--hh-bg-elevated)] rounded-lg transition-colors ${e.status === 'published' ? 'text-green-400' : 'text-[var(--hh-text-secondary)]'}`} title={e.status === 'published' ? 'Unpublish' : 'Publish'}>
               <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d={e.status === 'published' ? "M13.875 18.825A10.05 10.05 0 0112 19c-4.478 0-8.268-2.943-9.543-7a9.97 9.97 0 011.563-3.029m5.858.908a3 3 0 114.243 4.243M9.878 9.878l4.242 4.242M9.88 9.88l-3.29-3.29m7.532 7.532l3.29 3.29M3 3l3.59 3.59m0 0A9.953 9.953 0 0112 5c4.478 0 8.268 2.943 9.543 7a10.025 10.025 0 01-4.132 5.411m0 0L21 21" : "M15 12a3 3 0 11-6 0 3 3 0 016 0z M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z"} />
               </svg>
           </button>
         )}
-        {currentUser?.role !== 'vendor_moderator' && (
+        {can('event.edit') && (
           <Link href={`/events/${e.id}`} className="p-2 hover:bg-[var(--hh-bg-elevated)] rounded-lg text-[var(--hh-text-secondary)] transition-colors" title="Edit Event">
               <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
               </svg>
           </Link>
         )}
-        {currentUser?.role === 'admin' && (
+        {can('event.create') && (
+          <button onClick={() => setDuplicating(e)} className="p-2 hover:bg-[var(--hh-bg-elevated)] rounded-lg text-[var(--hh-text-secondary)] transition-colors" title="Duplicate Event">
+            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
+            </svg>
+          </button>
+        )}
+        {can('event.delete') && (
           <button onClick={() => destroy(e)} className="p-2 hover:bg-red-500/10 rounded-lg text-[var(--hh-text-secondary)] hover:text-red-400 transition-colors" title="Delete Event">
             <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
@@ -206,7 +340,7 @@ export default function EventsPage() {
         )}
       </div>
     )},
-  ], [togglePublish, destroy, currentUser]);
+  ], [togglePublish, destroy, can, seriesBadge, nameOf]);
 
   const columns = useMemo(() => allColumns.filter(c => visibleCols.includes(c.id) || c.id === 'actions'), [allColumns, visibleCols]);
 
@@ -263,7 +397,12 @@ export default function EventsPage() {
             </svg>
             Export CSV
           </button>
-          {currentUser?.role === 'admin' && (
+          {can('event.publish') && (
+            <Link href="/events/review" className="hh-btn-secondary flex items-center gap-2 text-sm">
+                Review Queue
+            </Link>
+          )}
+          {can('event.create') && (
             <Link href="/events/new" className="hh-btn-primary flex items-center gap-2 text-sm">
                 <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
@@ -274,6 +413,22 @@ export default function EventsPage() {
         </div>
       </div>
 
+      {scheduled.length > 0 && (
+        <div className="hh-card p-4 md:p-5 mb-6">
+          <h2 className="text-sm font-medium text-[var(--hh-text)] mb-3">Upcoming scheduled changes</h2>
+          <ul className="space-y-1.5">
+            {scheduled.map(({ event, change, due }) => (
+              <li key={`${event.id}-${change.trigger}`} className="flex items-center justify-between gap-3 text-sm">
+                <Link href={`/events/${event.id}`} className="truncate hover:text-[var(--hh-primary)] transition-colors">{event.title}</Link>
+                <span className={`shrink-0 text-xs ${due ? 'text-yellow-400' : 'text-[var(--hh-text-secondary)]'}`}>
+                  {due ? `Due: ${formatScheduled(change)}` : formatScheduled(change)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Filters */}
       <div className="hh-card p-4 md:p-5 mb-6 space-y-4">
         <div className="flex flex-col md:flex-row gap-4">
@@ -299,7 +454,7 @@ export default function EventsPage() {
           </select>
                 <select value={category} onChange={(e)=>setCategory(e.target.value)} className="hh-input min-w-[140px]">
                     <option value="all">Category: All</option>
-            {uniqueCategories.map(c => <option key={c} value={c}>{c}</option>)}
+            {topLevel.map(c => <option key={c.id} value={c.slug}>{c.name}</option>)}
           </select>
             </div>
         </div>
@@ -314,6 +469,10 @@ export default function EventsPage() {
              <select value={city} onChange={(e)=>setCity(e.target.value)} className="hh-input py-1.5 text-sm min-w-[120px]">
                 <option value="all">City: All</option>
             {uniqueCities.map(c => <option key={c} value={c}>{c}</option>)}
+          </select>
+             <select value={venue} onChange={(e)=>setVenue(e.target.value)} className="hh-input py-1.5 text-sm min-w-[120px]">
+                <option value="all">Venue: All</option>
+            {venues.map(v => <option key={v.id} value={v.id}>{v.name}{v.city ? ` • ${v.city}` : ''}</option>)}
           </select>
             <div className="flex items-center gap-2 bg-[var(--hh-bg-input)] border border-[var(--hh-border)] rounded-xl px-3 py-1.5">
                 <span className="text-xs text-[var(--hh-text-tertiary)] uppercase font-bold">From</span>
@@ -323,10 +482,10 @@ export default function EventsPage() {
                 <span className="text-xs text-[var(--hh-text-tertiary)] uppercase font-bold">To</span>
                 <input type="date" value={to} onChange={(e)=>setTo(e.target.value)} className="bg-transparent text-sm text-[var(--hh-text)] outline-none w-[110px] appearance-none" />
           </div>
-            {(q || status !== 'all' || category !== 'all' || city !== 'all' || from || to) && (
+            {(q || status !== 'all' || category !== 'all' || city !== 'all' || venue !== 'all' || from || to) && (
                 <button 
                     onClick={() => {
-                        setQ(''); setStatus('all'); setCategory('all'); setCity('all'); setFrom(''); setTo('');
+                        setQ(''); setStatus('all'); setCategory('all'); setCity('all'); setVenue('all'); setFrom(''); setTo('');
                     }}
                     className="text-sm text-red-400 hover:text-red-300 ml-auto flex items-center gap-1 px-2 py-1 rounded hover:bg-red-400/10 transition-colors"
                 >
@@ -358,7 +517,7 @@ export default function EventsPage() {
         <>
           {/* Mobile Card View */}
           <div className="md:hidden space-y-4">
-            {filtered.length === 0 ? (
+            {rows.length === 0 ? (
                 <div className="text-center py-12 bg-[var(--hh-bg-card)] rounded-2xl border border-[var(--hh-border)]">
                     <div className="inline-flex items-center justify-center w-12 h-12 rounded-full bg-[var(--hh-bg-elevated)] mb-3">
                         <svg className="w-6 h-6 text-[var(--hh-text-tertiary)]" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -369,13 +528,15 @@ export default function EventsPage() {
                     <p className="text-[var(--hh-text-secondary)] text-sm mt-1">Try adjusting your search or filters</p>
                 </div>
             ) : (
-                filtered.map((e) => (
+                rows.map((e) => (
                 <div key={e.id} className="hh-card p-4 space-y-3">
                     <div className="flex justify-between items-start">
                         <div>
                             <Link href={`/events/${e.id}/attendees`} className="font-semibold text-[var(--hh-text)] mb-1 block text-lg">{e.title}</Link>
+                            {seriesBadge(e)}
+                            {reviewInfo(e)}
                             <div className="flex flex-wrap gap-2 text-xs text-[var(--hh-text-secondary)] mt-1">
-                                <span className="bg-[var(--hh-bg-elevated)] px-2 py-0.5 rounded border border-[var(--hh-border)]">{e.category || 'Uncategorized'}</span>
+                                <span className="bg-[var(--hh-bg-elevated)] px-2 py-0.5 rounded border border-[var(--hh-border)]">{nameOf(e.category) || 'Uncategorized'}</span>
                                 {e.city && <span className="bg-[var(--hh-bg-elevated)] px-2 py-0.5 rounded border border-[var(--hh-border)]">{e.city}</span>}
                             </div>
                         </div>
@@ -395,29 +556,40 @@ export default function EventsPage() {
                             <svg className="w-4 h-4 text-[var(--hh-text-tertiary)]" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
                             </svg>
-                            {new Date(e.start_at).toLocaleDateString()}
+                            {new Date(e.start_at).toLocaleDateString(undefined, { timeZone: e.timezone })}
                         </div>
                         <div className="flex items-center gap-1.5">
                              <svg className="w-4 h-4 text-[var(--hh-text-tertiary)]" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
                             </svg>
-                            {new Date(e.start_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                            {new Date(e.start_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', timeZone: e.timezone, timeZoneName: 'short' })}
                         </div>
                     </div>
 
                     <div className="flex items-center justify-between pt-1">
                         <div className="flex gap-2">
+                            {can('event.publish') && (
                             <button onClick={() => togglePublish(e)} className="p-2 rounded-lg bg-[var(--hh-bg-elevated)] text-[var(--hh-text)] border border-[var(--hh-border)]">
                                 <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d={e.status === 'published' ? "M13.875 18.825A10.05 10.05 0 0112 19c-4.478 0-8.268-2.943-9.543-7a9.97 9.97 0 011.563-3.029m5.858.908a3 3 0 114.243 4.243M9.878 9.878l4.242 4.242M9.88 9.88l-3.29-3.29m7.532 7.532l3.29 3.29M3 3l3.59 3.59m0 0A9.953 9.953 0 0112 5c4.478 0 8.268 2.943 9.543 7a10.025 10.025 0 01-4.132 5.411m0 0L21 21" : "M15 12a3 3 0 11-6 0 3 3 0 016 0z M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z"} />
                                 </svg>
                             </button>
+                            )}
+                            {can('event.edit') && (
                             <Link href={`/events/${e.id}`} className="p-2 rounded-lg bg-[var(--hh-bg-elevated)] text-[var(--hh-text)] border border-[var(--hh-border)]">
                                 <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
                                 </svg>
                             </Link>
-                    {currentUser?.role === 'admin' && (
+                            )}
+                            {can('event.create') && (
+                            <button onClick={() => setDuplicating(e)} className="p-2 rounded-lg bg-[var(--hh-bg-elevated)] text-[var(--hh-text)] border border-[var(--hh-border)]">
+                                <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
+                                </svg>
+                            </button>
+                            )}
+                    {can('event.delete') && (
                                 <button onClick={() => destroy(e)} className="p-2 rounded-lg bg-red-500/10 text-red-400 border border-red-500/20">
                                     <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
@@ -434,10 +606,12 @@ export default function EventsPage() {
 
           {/* Desktop DataTable */}
           <div className="hidden md:block">
-            <DataTable data={filtered} columns={columns} emptyLabel="No events match your filters" />
+            <DataTable data={rows} columns={columns} emptyLabel="No events match your filters" />
           </div>
         </>
       )}
+
+      {duplicating && <DuplicateEventModal event={duplicating} onClose={() => setDuplicating(null)} />}
     </div>
   );
 }
@@ -0,0 +1,111 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+
+type QueuedEvent = {
+  id: string;
+  title: string;
+  start_at: string;
+  city: string | null;
+  publish_at: string | null;
+  vendor_name: string | null;
+  review_submitted_at: string;
+  submitted_by: string | null;
+  submission_note: string | null;
+  comment_count: number;
+};
+
+export default function EventReviewQueuePage() {
+  const [events, setEvents] = useState<QueuedEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [approvingId, setApprovingId] = useState<string | null>(null);
+
+  const load = () =>
+    fetch('/api/events/review-queue', { cache: 'no-store' })
+      .then(async (res) => {
+        const data = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(data?.error ?? 'Failed to load review queue');
+        setEvents(data.events ?? []);
+        setError(null);
+      })
+      .catch((err: unknown) => setError(err instanceof Error ? err.message : 'Failed to load review queue'))
+      .finally(() => setLoading(false));
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const approve = async (event: QueuedEvent) => {
+    if (!confirm(`Approve and publish "${event.title}"?`)) return;
+    setApprovingId(event.id);
+    const res = await fetch(`/api/events/${event.id}/review/decision`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ decision: 'approve' }),
+    });
+    setApprovingId(null);
+    if (!res.ok) {
+      const data = await res.json().catch(() => ({}));
+      setError(data?.error ?? 'Failed to approve event');
+      return;
+    }
+    await load();
+  };
+
+  return (
+    <div className="max-w-4xl">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-4 md:mb-6">
+        <div>
+          <h1 className="text-xl md:text-2xl font-semibold text-[var(--hh-text)]">Review Queue</h1>
+          <p className="text-sm text-[var(--hh-text-secondary)] mt-1">Vendor events waiting to be approved, longest-waiting first.</p>
+        </div>
+        <Link href="/events" className="text-sm text-[var(--hh-text-secondary)] hover:text-[var(--hh-text)]">Back to events</Link>
+      </div>
+
+      {error && <p className="text-sm text-red-400 mb-4">{error}</p>}
+
+      {loading ? (
+        <div className="text-[var(--hh-text-secondary)]">Loading...</div>
+      ) : events.length === 0 ? (
+        <div className="hh-card p-6 text-sm text-[var(--hh-text-secondary)]">Nothing is waiting for review.</div>
+      ) : (
+        <ul className="space-y-3">
+          {events.map((event) => (
+            <li key={event.id} className="hh-card p-4 space-y-2">
+              <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3">
+                <div>
+                  <Link href={`/events/${event.id}`} className="font-medium hover:text-[var(--hh-primary)] transition-colors">{event.title}</Link>
+                  <div className="text-xs text-[var(--hh-text-tertiary)] mt-0.5">
+                    {event.vendor_name ?? 'No vendor'} &middot; {new Date(event.start_at).toLocaleString(undefined, { month: 'short', day: 'numeric', year: 'numeric', hour: '2-digit', minute: '2-digit' })}
+                    {event.city && <> &middot; {event.city}</>}
+                  </div>
+                  <div className="text-xs text-[var(--hh-text-tertiary)] mt-0.5">
+                    Submitted {new Date(event.review_submitted_at).toLocaleString()}
+                    {event.submitted_by && <> by {event.submitted_by}</>}
+                    {event.comment_count > 0 && <> &middot; {event.comment_count} comment{event.comment_count === 1 ? '' : 's'}</>}
+                  </div>
+                  {event.publish_at && (
+                    <div className="text-xs text-[var(--hh-text-secondary)] mt-0.5">
+                      Publishes {new Date(event.publish_at).toLocaleString()} once approved
+                    </div>
+                  )}
+                </div>
+                <div className="flex gap-2 shrink-0">
+                  <Link href={`/events/${event.id}`} className="hh-btn-secondary text-sm">Review</Link>
+                  <button onClick={() => approve(event)} disabled={approvingId === event.id} className="hh-btn-primary text-sm">
+                    {approvingId === event.id ? 'Approving...' : 'Approve'}
+                  </button>
+                </div>
+              </div>
+              {event.submission_note && (
+                <p className="text-sm text-[var(--hh-text-secondary)] whitespace-pre-wrap border-l-2 border-[var(--hh-border)] pl-3">{event.submission_note}</p>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -2,6 +2,7 @@ import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
 import "./globals.css";
 import Sidebar from "@/components/Sidebar";
+import ImpersonationBanner from "@/components/ImpersonationBanner";
 import { cookies } from "next/headers";
 import { verifyAdminJWT } from "@/lib/jwt";
 
@@ -42,6 +43,7 @@ export default async function RootLayout({
           className={`min-h-screen w-full transition-all duration-300 ${isAuthed ? 'lg:pl-64' : ''}`}
         >
           <div className="p-4 md:p-8 max-w-7xl mx-auto w-full">
+          {isAuthed ? <ImpersonationBanner /> : null}
           {children}
           </div>
         </main>
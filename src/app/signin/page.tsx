@@ -3,12 +3,39 @@
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { LoginSchema, type LoginInput } from '@/lib/validation';
+import { describePasswordPolicy, passwordPolicyIssues } from '@/lib/password-policy';
 import { useRouter } from 'next/navigation';
-import { useState } from 'react';
+import { useEffect, useState, type FormEvent } from 'react';
+
+type Step = 'password' | 'change_password' | 'totp' | 'enroll' | 'recovery_codes' | 'forgot' | 'forgot_sent';
+
+// What the password and password-change endpoints say to do next.
+type LoginStepResponse = {
+  challenge?: string;
+  requires_password_change?: boolean;
+  requires_totp?: boolean;
+  requires_totp_enrollment?: boolean;
+};
+
+type Enrollment = {
+  secret: string;
+  otpauth_url: string;
+  qr_data_url: string;
+};
 
 export default function SignInPage() {
   const router = useRouter();
   const [error, setError] = useState<string | null>(null);
+  const [step, setStep] = useState<Step>('password');
+  const [challenge, setChallenge] = useState<string | null>(null);
+  const [code, setCode] = useState('');
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+  const [resetEmail, setResetEmail] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmNewPassword, setConfirmNewPassword] = useState('');
+  const [ssoProvider, setSsoProvider] = useState<string | null>(null);
   const { register, handleSubmit, formState: { errors, isSubmitting } } = useForm<LoginInput>({
     resolver: zodResolver(LoginSchema),
     defaultValues: { email: '', password: '' },
@@ -21,12 +48,174 @@ export default function SignInPage() {
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(values),
     });
-    if (res.ok) {
-      router.replace('/');
-      router.refresh();
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      setError(data?.error ?? 'Sign in failed');
+      return;
+    }
+    await continueLogin(data);
+  };
+
+  const continueLogin = async (data: LoginStepResponse) => {
+    if (data.requires_password_change) {
+      setChallenge(data.challenge ?? null);
+      setNewPassword('');
+      setConfirmNewPassword('');
+      setStep('change_password');
+      return;
+    }
+    if (data.requires_totp) {
+      setChallenge(data.challenge ?? null);
+      setCode('');
+      setStep('totp');
+      return;
+    }
+    if (data.requires_totp_enrollment && data.challenge) {
+      setChallenge(data.challenge);
+      setCode('');
+      setStep('enroll');
+      await startEnrollment(data.challenge);
+      return;
+    }
+    finish();
+  };
+
+  // The SSO callback comes back here with its outcome in the URL fragment.
+  useEffect(() => {
+    fetch('/api/admin/sso')
+      .then((res) => res.json())
+      .then((data) => setSsoProvider(data?.enabled ? data.provider_name : null))
+      .catch(() => {});
+
+    const result = new URLSearchParams(window.location.hash.slice(1));
+    const outcome = result.get('sso');
+    if (!outcome) return;
+    window.history.replaceState(null, '', window.location.pathname + window.location.search);
+    if (outcome === 'complete') {
+      finish();
+    } else if (outcome === 'totp' || outcome === 'enroll') {
+      continueLogin({
+        challenge: result.get('challenge') ?? undefined,
+        requires_totp: outcome === 'totp',
+        requires_totp_enrollment: outcome === 'enroll',
+      });
     } else {
+      setError(result.get('error') ?? 'Single sign-on failed');
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const finish = () => {
+    router.replace('/');
+    router.refresh();
+  };
+
+  const backToPassword = (message?: string) => {
+    setChallenge(null);
+    setEnrollment(null);
+    setCode('');
+    setStep('password');
+    setError(message ?? null);
+  };
+
+  const requestReset = async (e: FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setSubmitting(true);
+    try {
+      const res = await fetch('/api/admin/password-reset', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: resetEmail.trim() }),
+      });
       const data = await res.json().catch(() => ({}));
-      setError(data?.error ?? 'Sign in failed');
+      if (!res.ok) {
+        setError(data?.error ?? 'Could not send reset link');
+        return;
+      }
+      setStep('forgot_sent');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const submitNewPassword = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!challenge) return;
+    setError(null);
+    const issues = passwordPolicyIssues(newPassword);
+    if (issues.length > 0) {
+      setError(issues[0]);
+      return;
+    }
+    if (newPassword !== confirmNewPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+    setSubmitting(true);
+    try {
+      const res = await fetch('/api/admin/login/password', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ challenge, password: newPassword }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (res.status === 401 && data?.error?.includes('expired')) {
+        backToPassword(data.error);
+        return;
+      }
+      if (!res.ok) {
+        setError(data?.error ?? 'Could not change password');
+        return;
+      }
+      await continueLogin(data);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const startEnrollment = async (loginChallenge: string) => {
+    const res = await fetch('/api/admin/login/totp/enroll', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ challenge: loginChallenge }),
+    });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      backToPassword(data?.error ?? 'Could not start two-factor setup');
+      return;
+    }
+    setEnrollment(data.enrollment);
+  };
+
+  const submitCode = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!challenge) return;
+    setError(null);
+    setSubmitting(true);
+    try {
+      const res = await fetch(step === 'enroll' ? '/api/admin/login/totp/enroll' : '/api/admin/login/totp', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ challenge, code: code.trim() }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (res.status === 401 && data?.error?.includes('expired')) {
+        backToPassword(data.error);
+        return;
+      }
+      if (!res.ok) {
+        setError(data?.error ?? 'Verification failed');
+        return;
+      }
+      if (step === 'enroll') {
+        setRecoveryCodes(data.recovery_codes ?? []);
+        setStep('recovery_codes');
+        return;
+      }
+      finish();
+    } finally {
+      setSubmitting(false);
     }
   };
 
@@ -38,7 +227,19 @@ export default function SignInPage() {
             H
           </div>
           <h1 className="text-2xl font-bold text-[var(--hh-text)] tracking-tight">Admin Sign In</h1>
-          <p className="text-[var(--hh-text-secondary)] mt-2 text-sm">Enter your credentials to continue</p>
+          <p className="text-[var(--hh-text-secondary)] mt-2 text-sm">
+            {step === 'password'
+              ? 'Enter your credentials to continue'
+              : step === 'change_password'
+                ? 'You need to choose a new password to continue'
+              : step === 'totp'
+                ? 'Enter the code from your authenticator app'
+                : step === 'enroll'
+                  ? 'Your role requires two-factor authentication'
+                  : step === 'forgot' || step === 'forgot_sent'
+                    ? 'Reset your password'
+                    : 'Save your recovery codes'}
+          </p>
         </div>
 
         <div className="hh-card p-6 md:p-8 shadow-xl shadow-black/20 backdrop-blur-sm bg-[var(--hh-bg-card)]/95">
@@ -51,6 +252,7 @@ export default function SignInPage() {
             </div>
           )}
           
+          {step === 'password' && (
           <form onSubmit={handleSubmit(onSubmit)} className="space-y-5">
           <div>
               <label className="block text-sm font-medium text-[var(--hh-text-secondary)] mb-1.5">Email</label>
@@ -105,7 +307,169 @@ export default function SignInPage() {
                 'Sign In'
               )}
           </button>
+            <button
+              type="button"
+              onClick={() => {
+                setError(null);
+                setStep('forgot');
+              }}
+              className="w-full text-sm text-[var(--hh-text-tertiary)] hover:text-[var(--hh-text)]"
+            >
+              Forgot password?
+            </button>
+            {ssoProvider && (
+              <>
+                <div className="flex items-center gap-3 text-xs text-[var(--hh-text-tertiary)]">
+                  <div className="flex-1 border-t border-[var(--hh-border)]" />
+                  or
+                  <div className="flex-1 border-t border-[var(--hh-border)]" />
+                </div>
+                <a href="/api/admin/sso/start" className="w-full hh-btn-secondary flex items-center justify-center gap-2">
+                  Sign in with {ssoProvider}
+                </a>
+              </>
+            )}
         </form>
+          )}
+
+          {step === 'forgot' && (
+            <form onSubmit={requestReset} className="space-y-5">
+              <p className="text-sm text-[var(--hh-text-secondary)]">
+                Enter your account email and we&apos;ll send you a link to choose a new password.
+              </p>
+              <div>
+                <label className="block text-sm font-medium text-[var(--hh-text-secondary)] mb-1.5">Email</label>
+                <input
+                  type="email"
+                  value={resetEmail}
+                  onChange={(e) => setResetEmail(e.target.value)}
+                  className="hh-input w-full"
+                  placeholder="admin@hypehaus.com"
+                  autoFocus
+                />
+              </div>
+              <button
+                type="submit"
+                disabled={submitting || !resetEmail.trim()}
+                className="w-full hh-btn-primary disabled:opacity-70 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+              >
+                {submitting ? 'Sending...' : 'Send Reset Link'}
+              </button>
+              <button type="button" onClick={() => backToPassword()} className="w-full text-sm text-[var(--hh-text-tertiary)] hover:text-[var(--hh-text)]">
+                Back to sign in
+              </button>
+            </form>
+          )}
+
+          {step === 'forgot_sent' && (
+            <div className="space-y-5">
+              <p className="text-sm text-[var(--hh-text-secondary)]">
+                If an account exists for <span className="text-[var(--hh-text)]">{resetEmail.trim()}</span>, a reset link is on its way. The link expires in 30 minutes.
+              </p>
+              <button type="button" onClick={() => backToPassword()} className="w-full hh-btn-primary">
+                Back to sign in
+              </button>
+            </div>
+          )}
+
+          {step === 'change_password' && (
+            <form onSubmit={submitNewPassword} className="space-y-5">
+              <div>
+                <label className="block text-sm font-medium text-[var(--hh-text-secondary)] mb-1.5">New password</label>
+                <input
+                  type="password"
+                  value={newPassword}
+                  onChange={(e) => setNewPassword(e.target.value)}
+                  className="hh-input w-full"
+                  placeholder="••••••••"
+                  autoComplete="new-password"
+                  autoFocus
+                />
+                <p className="mt-1.5 text-xs text-[var(--hh-text-tertiary)]">{describePasswordPolicy()}</p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-[var(--hh-text-secondary)] mb-1.5">Confirm password</label>
+                <input
+                  type="password"
+                  value={confirmNewPassword}
+                  onChange={(e) => setConfirmNewPassword(e.target.value)}
+                  className="hh-input w-full"
+                  placeholder="••••••••"
+                  autoComplete="new-password"
+                />
+              </div>
+              <button
+                type="submit"
+                disabled={submitting || !newPassword || !confirmNewPassword}
+                className="w-full hh-btn-primary disabled:opacity-70 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+              >
+                {submitting ? 'Saving...' : 'Change Password & Continue'}
+              </button>
+              <button type="button" onClick={() => backToPassword()} className="w-full text-sm text-[var(--hh-text-tertiary)] hover:text-[var(--hh-text)]">
+                Back to sign in
+              </button>
+            </form>
+          )}
+
+          {(step === 'totp' || step === 'enroll') && (
+            <form onSubmit={submitCode} className="space-y-5">
+              {step === 'enroll' && (
+                <div className="space-y-3 text-sm text-[var(--hh-text-secondary)]">
+                  <p>Scan this QR code with an authenticator app, then enter the 6-digit code it shows.</p>
+                  {enrollment ? (
+                    <>
+                      {/* eslint-disable-next-line @next/next/no-img-element */}
+                      <img src={enrollment.qr_data_url} alt="Authenticator QR code" className="mx-auto rounded-lg bg-white p-2" width={220} height={220} />
+                      <p className="text-xs text-center break-all">
+                        Or enter this key manually: <span className="font-mono text-[var(--hh-text)]">{enrollment.secret}</span>
+                      </p>
+                    </>
+                  ) : (
+                    <p className="text-center text-[var(--hh-text-tertiary)]">Generating secret...</p>
+                  )}
+                </div>
+              )}
+              <div>
+                <label className="block text-sm font-medium text-[var(--hh-text-secondary)] mb-1.5">
+                  {step === 'totp' ? 'Authentication or recovery code' : 'Authentication code'}
+                </label>
+                <input
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  className="hh-input w-full tracking-widest text-center"
+                  placeholder={step === 'totp' ? '123456 or xxxxx-xxxxx' : '123456'}
+                  autoComplete="one-time-code"
+                  autoFocus
+                />
+              </div>
+              <button
+                type="submit"
+                disabled={submitting || !code.trim()}
+                className="w-full hh-btn-primary disabled:opacity-70 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+              >
+                {submitting ? 'Verifying...' : step === 'enroll' ? 'Enable & Sign In' : 'Verify'}
+              </button>
+              <button type="button" onClick={() => backToPassword()} className="w-full text-sm text-[var(--hh-text-tertiary)] hover:text-[var(--hh-text)]">
+                Back to sign in
+              </button>
+            </form>
+          )}
+
+          {step === 'recovery_codes' && (
+            <div className="space-y-5">
+              <p className="text-sm text-[var(--hh-text-secondary)]">
+                Store these recovery codes somewhere safe. Each one can be used once if you lose access to your authenticator app.
+              </p>
+              <div className="grid grid-cols-2 gap-2 font-mono text-sm text-[var(--hh-text)] bg-[var(--hh-bg-elevated)] rounded-xl p-4">
+                {recoveryCodes.map((item) => (
+                  <span key={item}>{item}</span>
+                ))}
+              </div>
+              <button type="button" onClick={finish} className="w-full hh-btn-primary">
+                I have saved these codes
+              </button>
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,331 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { VendorCreateSchema } from '@/lib/validation';
+
+type Vendor = {
+  id: string;
+  name: string;
+  contact_name: string | null;
+  contact_email: string | null;
+  contact_phone: string | null;
+  status: 'active' | 'archived';
+  created_at: string;
+  member_count: number;
+};
+
+type VendorDetails = Omit<Vendor, 'member_count'> & {
+  gstin: string | null;
+  payout_account_name: string | null;
+  payout_account_number: string | null;
+  payout_ifsc: string | null;
+  payout_upi_id: string | null;
+};
+
+type VendorMember = {
+  id: string;
+  email: string;
+  role: 'vendor' | 'vendor_moderator';
+  status: 'pending' | 'active' | 'suspended';
+};
+
+type VendorFormValues = z.input<typeof VendorCreateSchema>;
+
+const EMPTY_FORM: VendorFormValues = {
+  name: '',
+  contact_name: '',
+  contact_email: '',
+  contact_phone: '',
+  gstin: '',
+  payout_account_name: '',
+  payout_account_number: '',
+  payout_ifsc: '',
+  payout_upi_id: '',
+};
+
+const FIELDS: { name: keyof VendorFormValues; label: string; placeholder?: string }[] = [
+  { name: 'name', label: 'Display name' },
+  { name: 'contact_name', label: 'Contact name' },
+  { name: 'contact_email', label: 'Contact email', placeholder: 'ops@vendor.com' },
+  { name: 'contact_phone', label: 'Contact phone' },
+  { name: 'gstin', label: 'GSTIN', placeholder: '27AAPFU0939F1ZV' },
+  { name: 'payout_account_name', label: 'Payout account holder' },
+  { name: 'payout_account_number', label: 'Payout account number' },
+  { name: 'payout_ifsc', label: 'Payout IFSC', placeholder: 'HDFC0001234' },
+  { name: 'payout_upi_id', label: 'Payout UPI ID', placeholder: 'vendor@okbank' },
+];
+
+const MEMBER_ROLE_LABELS: Record<VendorMember['role'], string> = {
+  vendor: 'Vendor',
+  vendor_moderator: 'Vendor Moderator',
+};
+
+export default function VendorsPage() {
+  const [vendors, setVendors] = useState<Vendor[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState<'active' | 'archived' | 'all'>('active');
+  const [showCreateModal, setShowCreateModal] = useState(false);
+  const [editingVendor, setEditingVendor] = useState<VendorDetails | null>(null);
+  const [members, setMembers] = useState<VendorMember[]>([]);
+
+  const form = useForm<VendorFormValues>({
+    resolver: zodResolver(VendorCreateSchema),
+    defaultValues: EMPTY_FORM,
+  });
+
+  const load = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/admin/vendors?status=${statusFilter}`, { cache: 'no-store' });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setError(data?.error || 'Failed to load vendors');
+        return;
+      }
+      setVendors(data.vendors ?? []);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : 'Failed to load vendors');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [statusFilter]);
+
+  const closeModal = () => {
+    form.reset(EMPTY_FORM);
+    setShowCreateModal(false);
+    setEditingVendor(null);
+    setMembers([]);
+  };
+
+  const openEdit = async (vendor: Vendor) => {
+    const res = await fetch(`/api/admin/vendors/${vendor.id}`, { cache: 'no-store' });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      alert(data?.error || 'Failed to load vendor');
+      return;
+    }
+    const details: VendorDetails = data.vendor;
+    setEditingVendor(details);
+    setMembers(data.members ?? []);
+    form.reset(
+      Object.fromEntries(FIELDS.map(({ name }) => [name, details[name] ?? ''])) as VendorFormValues
+    );
+  };
+
+  const onSubmit = async (values: VendorFormValues) => {
+    const res = await fetch(editingVendor ? `/api/admin/vendors/${editingVendor.id}` : '/api/admin/vendors', {
+      method: editingVendor ? 'PATCH' : 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(values),
+    });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      alert(data?.error || 'Failed to save vendor');
+      return;
+    }
+    closeModal();
+    await load();
+  };
+
+  const setStatus = async (vendor: Vendor, status: Vendor['status']) => {
+    if (status === 'archived' && !confirm(`Archive ${vendor.name}? It keeps its events and ads but cannot be assigned anything new.`)) return;
+    const res = await fetch(`/api/admin/vendors/${vendor.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ status }),
+    });
+    if (!res.ok) {
+      const data = await res.json().catch(() => ({}));
+      alert(data?.error || 'Failed to update vendor');
+      return;
+    }
+    await load();
+  };
+
+  const remove = async (vendor: Vendor) => {
+    if (!confirm(`Delete ${vendor.name}? This cannot be undone.`)) return;
+    const res = await fetch(`/api/admin/vendors/${vendor.id}`, { method: 'DELETE' });
+    if (!res.ok) {
+      const data = await res.json().catch(() => ({}));
+      alert(data?.error || 'Failed to delete vendor');
+      return;
+    }
+    await load();
+  };
+
+  if (loading && vendors.length === 0) {
+    return (
+      <div className="min-h-[60vh] flex items-center justify-center">
+        <div className="flex flex-col items-center gap-3">
+          <div className="w-8 h-8 border-2 border-[var(--hh-primary)] border-t-transparent rounded-full animate-spin"></div>
+          <div className="text-[var(--hh-text-secondary)]">Loading vendors...</div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-8">
+        <div>
+          <h1 className="text-2xl font-bold text-[var(--hh-text)] tracking-tight">Vendors</h1>
+          <p className="text-[var(--hh-text-secondary)] mt-1">
+            Organizations that own events and ads. Add people to a vendor from Admin Users.
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as typeof statusFilter)}
+            className="hh-input w-36"
+          >
+            <option value="active">Active</option>
+            <option value="archived">Archived</option>
+            <option value="all">All</option>
+          </select>
+          <button onClick={() => setShowCreateModal(true)} className="hh-btn-primary flex items-center gap-2">
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+            </svg>
+            New Vendor
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-500/10 border border-red-500/20 rounded-xl text-red-400">{error}</div>
+      )}
+
+      <div className="hh-card overflow-hidden shadow-sm">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-[var(--hh-bg-elevated)]/50 border-b border-[var(--hh-border)]">
+              <tr>
+                <th className="px-6 py-4 text-left text-xs font-semibold text-[var(--hh-text-tertiary)] uppercase tracking-wider">Vendor</th>
+                <th className="px-6 py-4 text-left text-xs font-semibold text-[var(--hh-text-tertiary)] uppercase tracking-wider">Contact</th>
+                <th className="px-6 py-4 text-left text-xs font-semibold text-[var(--hh-text-tertiary)] uppercase tracking-wider">Members</th>
+                <th className="px-6 py-4 text-left text-xs font-semibold text-[var(--hh-text-tertiary)] uppercase tracking-wider">Since</th>
+                <th className="px-6 py-4 text-right text-xs font-semibold text-[var(--hh-text-tertiary)] uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-[var(--hh-border)]">
+              {vendors.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="px-6 py-12 text-center text-[var(--hh-text-secondary)]">No vendors found</td>
+                </tr>
+              ) : (
+                vendors.map((vendor) => (
+                  <tr key={vendor.id} className="hover:bg-[var(--hh-bg-elevated)]/30 transition-colors">
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="flex items-center gap-2">
+                        <span className="text-[var(--hh-text)] font-medium">{vendor.name}</span>
+                        {vendor.status === 'archived' && (
+                          <span className="inline-flex items-center px-2 py-0.5 rounded-full text-[10px] font-medium border bg-[var(--hh-bg-elevated)] text-[var(--hh-text-tertiary)] border-[var(--hh-border)]">
+                            Archived
+                          </span>
+                        )}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-[var(--hh-text-secondary)]">
+                      {vendor.contact_name ?? '—'}
+                      {(vendor.contact_email || vendor.contact_phone) && (
+                        <div className="text-xs text-[var(--hh-text-tertiary)]">
+                          {[vendor.contact_email, vendor.contact_phone].filter(Boolean).join(' • ')}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-[var(--hh-text-secondary)]">{vendor.member_count}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-[var(--hh-text-secondary)]">
+                      {new Date(vendor.created_at).toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' })}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right">
+                      <div className="flex items-center justify-end gap-2">
+                        <button onClick={() => openEdit(vendor)} className="hh-btn-secondary text-xs">Edit</button>
+                        {vendor.status === 'active' ? (
+                          <button onClick={() => setStatus(vendor, 'archived')} className="hh-btn-secondary text-xs hover:text-amber-400">Archive</button>
+                        ) : (
+                          <button onClick={() => setStatus(vendor, 'active')} className="hh-btn-secondary text-xs hover:text-green-400">Restore</button>
+                        )}
+                        <button onClick={() => remove(vendor)} className="hh-btn-secondary text-xs hover:text-red-400">Delete</button>
+                      </div>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Create / Edit Modal */}
+      {(showCreateModal || editingVendor) && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm transition-all">
+          <div className="hh-card max-w-lg w-full p-6 shadow-2xl animate-in fade-in zoom-in-95 duration-200 max-h-[90vh] overflow-y-auto">
+            <div className="flex items-center justify-between mb-6">
+              <h2 className="text-xl font-bold text-[var(--hh-text)]">{editingVendor ? 'Edit Vendor' : 'New Vendor'}</h2>
+              <button onClick={closeModal} className="text-[var(--hh-text-tertiary)] hover:text-[var(--hh-text)]">
+                <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                {FIELDS.map((field) => (
+                  <div key={field.name} className={field.name === 'name' ? 'sm:col-span-2' : undefined}>
+                    <label className="block text-sm font-medium mb-1.5 text-[var(--hh-text-secondary)]">{field.label}</label>
+                    <input {...form.register(field.name)} className="hh-input w-full" placeholder={field.placeholder} />
+                    {form.formState.errors[field.name] && (
+                      <p className="mt-1 text-xs text-red-400">{form.formState.errors[field.name]?.message}</p>
+                    )}
+                  </div>
+                ))}
+              </div>
+
+              {editingVendor && (
+                <div>
+                  <h3 className="text-sm font-medium mb-1.5 text-[var(--hh-text-secondary)]">Members</h3>
+                  {members.length === 0 ? (
+                    <p className="text-xs text-[var(--hh-text-tertiary)]">Nobody belongs to this vendor yet.</p>
+                  ) : (
+                    <div className="space-y-1">
+                      {members.map((member) => (
+                        <div key={member.id} className="flex items-center justify-between text-sm">
+                          <span className="text-[var(--hh-text)] truncate">{member.email}</span>
+                          <span className="text-xs text-[var(--hh-text-tertiary)]">
+                            {MEMBER_ROLE_LABELS[member.role] ?? member.role}
+                            {member.status !== 'active' && ` • ${member.status}`}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              <div className="flex gap-3 pt-2">
+                <button type="button" onClick={closeModal} className="hh-btn-secondary flex-1 justify-center">
+                  Cancel
+                </button>
+                <button type="submit" className="hh-btn-primary flex-1 justify-center" disabled={form.formState.isSubmitting}>
+                  {form.formState.isSubmitting ? 'Saving...' : editingVendor ? 'Save Changes' : 'Create Vendor'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+"use client";
+
+import Link from 'next/link';
+import { useEffect, useState } from 'react';
+import { useParams } from 'next/navigation';
+import { usePermissions } from '@/lib/use-permissions';
+import type { Venue } from '@/lib/venues';
+
+type VenueEvent = {
+  id: string;
+  title: string;
+  start_at: string;
+  end_at: string | null;
+  timezone: string;
+  status: 'draft' | 'published' | 'archived';
+};
+
+const STATUS_CLASSES: Record<VenueEvent['status'], string> = {
+  published: 'bg-green-500/10 text-green-400 border-green-500/20',
+  draft: 'bg-yellow-500/10 text-yellow-400 border-yellow-500/20',
+  archived: 'bg-[var(--hh-bg-elevated)] text-[var(--hh-text-tertiary)] border-[var(--hh-border)]',
+};
+
+export default function VenueDetailPage() {
+  const params = useParams<{ id: string }>();
+  const { can } = usePermissions();
+  const [venue, setVenue] = useState<Venue | null>(null);
+  const [events, setEvents] = useState<VenueEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [loadedAt, setLoadedAt] = useState(0);
+
+  useEffect(() => {
+    fetch(`/api/venues/${params.id}`, { cache: 'no-store' })
+      .then(async (res) => {
+        const data = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(data?.error || 'Failed to load venue');
+        setVenue(data.venue);
+        setEvents(data.events ?? []);
+        setLoadedAt(Date.now());
+      })
+      .catch((err: unknown) => setError(err instanceof Error ? err.message : 'Failed to load venue'))
+      .finally(() => setLoading(false));
+  }, [params.id]);
+
+  if (loading) {
+    return (
+      <div className="min-h-[60vh] flex items-center justify-center">
+        <div className="flex flex-col items-center gap-3">
+          <div className="w-8 h-8 border-2 border-[var(--hh-primary)] border-t-transparent rounded-full animate-spin"></div>
+          <div className="text-[var(--hh-text-secondary)]">Loading venue...</div>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !venue) {
+    return <div className="p-4 bg-red-500/10 border border-red-500/20 rounded-xl text-red-400">{error ?? 'Venue not found'}</div>;
+  }
+
+  const upcoming = events.filter((event) => Date.parse(event.end_at ?? event.start_at) >= loadedAt).reverse();
+  const past = events.filter((event) => Date.parse(event.end_at ?? event.start_at) < loadedAt);
+
+  const eventRows = (rows: VenueEvent[], empty: string) =>
+    rows.length === 0 ? (
+      <p className="px-6 py-8 text-center text-sm text-[var(--hh-text-secondary)]">{empty}</p>
+    ) : (
+      <ul className="divide-y divide-[var(--hh-border)]">
+        {rows.map((event) => (
+          <li key={event.id} className="px-6 py-3 flex items-center justify-between gap-4">
+            <div className="min-w-0">
+              <Link href={`/events/${event.id}`} className="text-[var(--hh-text)] font-medium hover:text-[var(--hh-primary)] truncate block">
+                {event.title}
+              </Link>
+              <div className="text-xs text-[var(--hh-text-tertiary)]">
+                {new Date(event.start_at).toLocaleString(undefined, {
+                  month: 'short',
+                  day: 'numeric',
+                  year: 'numeric',
+                  hour: '2-digit',
+                  minute: '2-digit',
+                  timeZone: event.timezone,
+                  timeZoneName: 'short',
+                })}
+              </div>
+            </div>
+            <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium border ${STATUS_CLASSES[event.status]}`}>
+              {event.status}
+            </span>
+          </li>
+        ))}
+      </ul>
+    );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-4">
+        <div>
+          <div className="flex items-center gap-2">
+            <h1 className="text-2xl font-bold text-[var(--hh-text)] tracking-tight">{venue.name}</h1>
+            {venue.status === 'archived' && (
+              <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium border bg-[var(--hh-bg-elevated)] text-[var(--hh-text-tertiary)] border-[var(--hh-border)]">
+                Archived
+              </span>
+            )}
+          </div>
+          <p className="text-[var(--hh-text-secondary)] mt-1">
+            {[venue.address_line, venue.city].filter(Boolean).join(', ') || 'No address'}
+          </p>
+        </div>
+        {can('venue.manage') && (
+          <Link href="/venues" className="hh-btn-secondary text-sm">All venues</Link>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div className="hh-card p-4">
+          <div className="text-xs text-[var(--hh-text-tertiary)] uppercase">Capacity</div>
+          <div className="text-lg text-[var(--hh-text)]">{venue.capacity ?? '—'}</div>
+        </div>
+        <div className="hh-card p-4">
+          <div className="text-xs text-[var(--hh-text-tertiary)] uppercase">Time zone</div>
+          <div className="text-lg text-[var(--hh-text)]">{venue.timezone}</div>
+        </div>
+        <div className="hh-card p-4">
+          <div className="text-xs text-[var(--hh-text-tertiary)] uppercase">Coordinates</div>
+          <div className="text-lg text-[var(--hh-text)] font-mono">
+            {venue.latitude !== null && venue.longitude !== null ? `${venue.latitude}, ${venue.longitude}` : '—'}
+          </div>
+        </div>
+        <div className="hh-card p-4">
+          <div className="text-xs text-[var(--hh-text-tertiary)] uppercase">Default gates</div>
+          <div className="text-sm text-[var(--hh-text)]">
+            {venue.entry_gates.length === 0
+              ? '—'
+              : venue.entry_gates.map((gate) => (gate.code ? `${gate.name} (${gate.code})` : gate.name)).join(', ')}
+          </div>
+        </div>
+      </div>
+
+      {venue.photo_urls.length > 0 && (
+        <div className="flex flex-wrap gap-3">
+          {venue.photo_urls.map((url) => (
+            <a key={url} href={url} target="_blank" rel="noreferrer" className="w-40 h-28 rounded-xl overflow-hidden border border-[var(--hh-border)]">
+              {/* eslint-disable-next-line @next/next/no-img-element */}
+              <img src={url} alt="" className="w-full h-full object-cover" />
+            </a>
+          ))}
+        </div>
+      )}
+
+      <div className="hh-card overflow-hidden">
+        <h2 className="px-6 py-4 border-b border-[var(--hh-border)] font-semibold text-[var(--hh-text)]">Upcoming events</h2>
+        {eventRows(upcoming, 'Nothing scheduled here.')}
+      </div>
+
+      <div className="hh-card overflow-hidden">
+        <h2 className="px-6 py-4 border-b border-[var(--hh-border)] font-semibold text-[var(--hh-text)]">Past events</h2>
+        {eventRows(past, 'No events have been held here yet.')}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,401 @@
+"use client";
+
+import Link from 'next/link';
+import { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { VenueCreateSchema } from '@/lib/validation';
+import { DEFAULT_TIME_ZONE } from '@/lib/timezones';
+import { TimeZoneSelect } from '@/components/TimeZoneInputs';
+import type { Venue, VenueGate } from '@/lib/venues';
+
+type VenueRow = Venue & { event_count: number };
+
+type VenueFormValues = z.input<typeof VenueCreateSchema>;
+
+const EMPTY_FORM: VenueFormValues = {
+  name: '',
+  address_line: '',
+  city: '',
+  latitude: null,
+  longitude: null,
+  capacity: null,
+  timezone: DEFAULT_TIME_ZONE,
+  entry_gates: [],
+  photo_urls: [],
+};
+
+const optionalNumber = (value: unknown) => (value === '' || value === null || value === undefined ? null : Number(value));
+
+export default function VenuesPage() {
+  const [venues, setVenues] = useState<VenueRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showCreateModal, setShowCreateModal] = useState(false);
+  const [editingVenue, setEditingVenue] = useState<VenueRow | null>(null);
+  const [isUploadingPhoto, setIsUploadingPhoto] = useState(false);
+
+  const form = useForm<VenueFormValues>({
+    resolver: zodResolver(VenueCreateSchema),
+    defaultValues: EMPTY_FORM,
+  });
+  const gates = form.watch('entry_gates') ?? [];
+  const photoUrls = form.watch('photo_urls') ?? [];
+
+  const load = () =>
+    fetch('/api/venues?status=all', { cache: 'no-store' })
+      .then(async (res) => {
+        const data = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(data?.error || 'Failed to load venues');
+        setVenues(data.venues ?? []);
+        setError(null);
+      })
+      .catch((err: unknown) => setError(err instanceof Error ? err.message : 'Failed to load venues'))
+      .finally(() => setLoading(false));
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const closeModal = () => {
+    form.reset(EMPTY_FORM);
+    setShowCreateModal(false);
+    setEditingVenue(null);
+  };
+
+  const openEdit = (venue: VenueRow) => {
+    setEditingVenue(venue);
+    form.reset({
+      name: venue.name,
+      address_line: venue.address_line ?? '',
+      city: venue.city ?? '',
+      latitude: venue.latitude,
+      longitude: venue.longitude,
+      capacity: venue.capacity,
+      timezone: venue.timezone,
+      entry_gates: venue.entry_gates,
+      photo_urls: venue.photo_urls,
+    });
+  };
+
+  const setGates = (next: VenueGate[]) => form.setValue('entry_gates', next, { shouldDirty: true });
+  const updateGate = (index: number, changes: Partial<VenueGate>) =>
+    setGates(gates.map((gate, i) => (i === index ? { ...gate, ...changes } : gate)));
+
+  const uploadPhoto = async (file: File) => {
+    setIsUploadingPhoto(true);
+    try {
+      const fd = new FormData();
+      fd.append('file', file);
+      const res = await fetch('/api/upload', { method: 'POST', body: fd });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        alert(data?.error || 'Photo upload failed');
+        return;
+      }
+      form.setValue('photo_urls', [...photoUrls, data.url as string], { shouldDirty: true, shouldValidate: true });
+    } finally {
+      setIsUploadingPhoto(false);
+    }
+  };
+
+  const onSubmit = async (values: VenueFormValues) => {
+    const res = await fetch(editingVenue ? `/api/venues/${editingVenue.id}` : '/api/venues', {
+      method: editingVenue ? 'PATCH' : 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(values),
+    });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      alert(data?.error || 'Failed to save venue');
+      return;
+    }
+    closeModal();
+    await load();
+  };
+
+  const setStatus = async (venue: VenueRow, status: Venue['status']) => {
+    if (status === 'archived' && !confirm(`Archive ${venue.name}? Events already linked keep it, but new events cannot pick it.`)) return;
+    const res = await fetch(`/api/venues/${venue.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ status }),
+    });
+    if (!res.ok) {
+      const data = await res.json().catch(() => ({}));
+      alert(data?.error || 'Failed to update venue');
+      return;
+    }
+    await load();
+  };
+
+  const remove = async (venue: VenueRow) => {
+    if (!confirm(`Delete ${venue.name}? This cannot be undone.`)) return;
+    const res = await fetch(`/api/venues/${venue.id}`, { method: 'DELETE' });
+    if (!res.ok) {
+      const data = await res.json().catch(() => ({}));
+      alert(data?.error || 'Failed to delete venue');
+      return;
+    }
+    await load();
+  };
+
+  if (loading && venues.length === 0) {
+    return (
+      <div className="min-h-[60vh] flex items-center justify-center">
+        <div className="flex flex-col items-center gap-3">
+          <div className="w-8 h-8 border-2 border-[var(--hh-primary)] border-t-transparent rounded-full animate-spin"></div>
+          <div className="text-[var(--hh-text-secondary)]">Loading venues...</div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-8">
+        <div>
+          <h1 className="text-2xl font-bold text-[var(--hh-text)] tracking-tight">Venues</h1>
+          <p className="text-[var(--hh-text-secondary)] mt-1">
+            Places events are held at. Linking an event to a venue fills in its location, time zone and gates.
+          </p>
+        </div>
+        <button onClick={() => setShowCreateModal(true)} className="hh-btn-primary flex items-center gap-2">
+          <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+          </svg>
+          New Venue
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-500/10 border border-red-500/20 rounded-xl text-red-400">{error}</div>
+      )}
+
+      <div className="hh-card overflow-hidden shadow-sm">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-[var(--hh-bg-elevated)]/50 border-b border-[var(--hh-border)]">
+              <tr>
+                <th className="px-6 py-4 text-left text-xs font-semibold text-[var(--hh-text-tertiary)] uppercase tracking-wider">Venue</th>
+                <th className="px-6 py-4 text-left text-xs font-semibold text-[var(--hh-text-tertiary)] uppercase tracking-wider">Capacity</th>
+                <th className="px-6 py-4 text-left text-xs font-semibold text-[var(--hh-text-tertiary)] uppercase tracking-wider">Time zone</th>
+                <th className="px-6 py-4 text-left text-xs font-semibold text-[var(--hh-text-tertiary)] uppercase tracking-wider">Gates</th>
+                <th className="px-6 py-4 text-left text-xs font-semibold text-[var(--hh-text-tertiary)] uppercase tracking-wider">Events</th>
+                <th className="px-6 py-4 text-right text-xs font-semibold text-[var(--hh-text-tertiary)] uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-[var(--hh-border)]">
+              {venues.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-12 text-center text-[var(--hh-text-secondary)]">No venues yet</td>
+                </tr>
+              ) : (
+                venues.map((venue) => (
+                  <tr key={venue.id} className="hover:bg-[var(--hh-bg-elevated)]/30 transition-colors">
+                    <td className="px-6 py-4">
+                      <div className="flex items-center gap-2">
+                        <Link href={`/venues/${venue.id}`} className="text-[var(--hh-text)] font-medium hover:text-[var(--hh-primary)]">
+                          {venue.name}
+                        </Link>
+                        {venue.status === 'archived' && (
+                          <span className="inline-flex items-center px-2 py-0.5 rounded-full text-[10px] font-medium border bg-[var(--hh-bg-elevated)] text-[var(--hh-text-tertiary)] border-[var(--hh-border)]">
+                            Archived
+                          </span>
+                        )}
+                      </div>
+                      <div className="text-xs text-[var(--hh-text-tertiary)]">
+                        {[venue.address_line, venue.city].filter(Boolean).join(', ') || '—'}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-[var(--hh-text-secondary)]">{venue.capacity ?? '—'}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-[var(--hh-text-secondary)]">{venue.timezone}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-[var(--hh-text-secondary)]">{venue.entry_gates.length || '—'}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-[var(--hh-text-secondary)]">{venue.event_count}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right">
+                      <div className="flex items-center justify-end gap-2">
+                        <button onClick={() => openEdit(venue)} className="hh-btn-secondary text-xs">Edit</button>
+                        {venue.status === 'active' ? (
+                          <button onClick={() => setStatus(venue, 'archived')} className="hh-btn-secondary text-xs hover:text-amber-400">Archive</button>
+                        ) : (
+                          <button onClick={() => setStatus(venue, 'active')} className="hh-btn-secondary text-xs hover:text-green-400">Restore</button>
+                        )}
+                        <button onClick={() => remove(venue)} className="hh-btn-secondary text-xs hover:text-red-400">Delete</button>
+                      </div>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Create / Edit Modal */}
+      {(showCreateModal || editingVenue) && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm transition-all">
+          <div className="hh-card max-w-2xl w-full p-6 shadow-2xl animate-in fade-in zoom-in-95 duration-200 max-h-[90vh] overflow-y-auto">
+            <div className="flex items-center justify-between mb-6">
+              <h2 className="text-xl font-bold text-[var(--hh-text)]">{editingVenue ? 'Edit Venue' : 'New Venue'}</h2>
+              <button onClick={closeModal} className="text-[var(--hh-text-tertiary)] hover:text-[var(--hh-text)]">
+                <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium mb-1.5 text-[var(--hh-text-secondary)]">Name</label>
+                  <input {...form.register('name')} className="hh-input w-full" placeholder="The Grand Arena" />
+                  {form.formState.errors.name && <p className="mt-1 text-xs text-red-400">{form.formState.errors.name.message}</p>}
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-1.5 text-[var(--hh-text-secondary)]">City</label>
+                  <input {...form.register('city')} className="hh-input w-full" placeholder="Mumbai" />
+                </div>
+                <div className="sm:col-span-2">
+                  <label className="block text-sm font-medium mb-1.5 text-[var(--hh-text-secondary)]">Address</label>
+                  <input {...form.register('address_line')} className="hh-input w-full" placeholder="Street address, landmarks, etc." />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-1.5 text-[var(--hh-text-secondary)]">Latitude</label>
+                  <input
+                    type="number"
+                    step="0.000001"
+                    {...form.register('latitude', { setValueAs: optionalNumber })}
+                    className="hh-input w-full font-mono text-sm"
+                    placeholder="19.0760"
+                  />
+                  {form.formState.errors.latitude && <p className="mt-1 text-xs text-red-400">{form.formState.errors.latitude.message}</p>}
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-1.5 text-[var(--hh-text-secondary)]">Longitude</label>
+                  <input
+                    type="number"
+                    step="0.000001"
+                    {...form.register('longitude', { setValueAs: optionalNumber })}
+                    className="hh-input w-full font-mono text-sm"
+                    placeholder="72.8777"
+                  />
+                  {form.formState.errors.longitude && <p className="mt-1 text-xs text-red-400">{form.formState.errors.longitude.message}</p>}
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-1.5 text-[var(--hh-text-secondary)]">Capacity</label>
+                  <input type="number" min={1} {...form.register('capacity', { setValueAs: optionalNumber })} className="hh-input w-full" placeholder="500" />
+                  {form.formState.errors.capacity && <p className="mt-1 text-xs text-red-400">{form.formState.errors.capacity.message}</p>}
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-1.5 text-[var(--hh-text-secondary)]">Time zone</label>
+                  <TimeZoneSelect
+                    value={form.watch('timezone') ?? DEFAULT_TIME_ZONE}
+                    onChange={(value) => form.setValue('timezone', value, { shouldDirty: true })}
+                    className="hh-input w-full"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium mb-1.5 text-[var(--hh-text-secondary)]">Default entry gates</label>
+                <p className="mb-2 text-xs text-[var(--hh-text-tertiary)]">New events at this venue start with these gates.</p>
+                <div className="space-y-2">
+                  {gates.map((gate, index) => (
+                    <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                      <input
+                        value={gate.name}
+                        onChange={(event) => updateGate(index, { name: event.target.value })}
+                        className="hh-input col-span-5"
+                        placeholder={`Gate ${index + 1}`}
+                      />
+                      <input
+                        value={gate.code ?? ''}
+                        onChange={(event) =>
+                          updateGate(index, { code: event.target.value.toUpperCase().replace(/[^A-Z0-9_-]/g, '').slice(0, 24) })
+                        }
+                        className="hh-input col-span-3"
+                        placeholder="CODE"
+                      />
+                      <label className="col-span-2 flex items-center gap-2 text-xs text-[var(--hh-text-secondary)]">
+                        <input
+                          type="checkbox"
+                          checked={gate.is_active !== false}
+                          onChange={(event) => updateGate(index, { is_active: event.target.checked })}
+                        />
+                        Active
+                      </label>
+                      <button
+                        type="button"
+                        className="hh-btn-secondary col-span-2 text-xs"
+                        onClick={() => setGates(gates.filter((_, i) => i !== index))}
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  ))}
+                  <button
+                    type="button"
+                    className="hh-btn-secondary text-xs"
+                    onClick={() =>
+                      setGates([...gates, { name: `Gate ${gates.length + 1}`, code: `GATE${gates.length + 1}`, is_active: true }])
+                    }
+                  >
+                    Add Gate
+                  </button>
+                </div>
+                {form.formState.errors.entry_gates && (
+                  <p className="mt-1 text-xs text-red-400">Every gate needs a name, and codes use letters, digits, dashes or underscores.</p>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium mb-1.5 text-[var(--hh-text-secondary)]">Reference photos</label>
+                <div className="flex flex-wrap gap-2">
+                  {photoUrls.map((url) => (
+                    <div key={url} className="relative w-20 h-20 rounded-lg overflow-hidden border border-[var(--hh-border)]">
+                      {/* eslint-disable-next-line @next/next/no-img-element */}
+                      <img src={url} alt="" className="w-full h-full object-cover" />
+                      <button
+                        type="button"
+                        onClick={() => form.setValue('photo_urls', photoUrls.filter((row) => row !== url), { shouldDirty: true })}
+                        className="absolute top-1 right-1 rounded bg-black/60 px-1 text-xs text-white"
+                        aria-label="Remove photo"
+                      >
+                        ×
+                      </button>
+                    </div>
+                  ))}
+                  <label className="w-20 h-20 rounded-lg border border-dashed border-[var(--hh-border)] flex items-center justify-center text-xs text-[var(--hh-text-tertiary)] cursor-pointer hover:border-[var(--hh-primary)]">
+                    {isUploadingPhoto ? 'Uploading…' : 'Add photo'}
+                    <input
+                      type="file"
+                      accept="image/*"
+                      className="hidden"
+                      disabled={isUploadingPhoto}
+                      onChange={(event) => {
+                        const file = event.target.files?.[0];
+                        event.target.value = '';
+                        if (file) uploadPhoto(file);
+                      }}
+                    />
+                  </label>
+                </div>
+                {form.formState.errors.photo_urls && <p className="mt-1 text-xs text-red-400">{form.formState.errors.photo_urls.message}</p>}
+              </div>
+
+              <div className="flex gap-3 pt-2">
+                <button type="button" onClick={closeModal} className="hh-btn-secondary flex-1 justify-center">
+                  Cancel
+                </button>
+                <button type="submit" className="hh-btn-primary flex-1 justify-center" disabled={form.formState.isSubmitting || isUploadingPhoto}>
+                  {form.formState.isSubmitting ? 'Saving...' : editingVenue ? 'Save Changes' : 'Create Venue'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { usePermissions } from '@/lib/use-permissions';
+import { formatInTimeZone } from '@/lib/timezones';
+
+type Props = {
+  event: { id: string; title: string; start_at: string; timezone: string };
+  onClose: () => void;
+};
+
+const PARTS = [
+  { key: 'copy_tiers', label: 'Ticket tiers', hint: 'sold counts start at zero', capability: 'event.tiers.manage' },
+  { key: 'copy_images', label: 'Images', hint: 'reuses the uploaded files', capability: 'event.images.manage' },
+  { key: 'copy_entry_gates', label: 'Entry gates', hint: '', capability: 'event.gates.manage' },
+] as const;
+
+type PartKey = (typeof PARTS)[number]['key'];
+
+/**
+ * Copies an event into a new draft and opens it for editing
+ */
+export function DuplicateEventModal({ event, onClose }: Props) {
+  const router = useRouter();
+  const { can, loaded } = usePermissions({ eventId: event.id });
+  const [title, setTitle] = useState(`${event.title} (copy)`);
+  const [days, setDays] = useState(7);
+  const [hours, setHours] = useState(0);
+  const [skipped, setSkipped] = useState<PartKey[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const offsetMinutes = Math.round(((Number(days) || 0) * 24 + (Number(hours) || 0)) * 60);
+  const newStart = new Date(Date.parse(event.start_at) + offsetMinutes * 60_000);
+  const availableParts = PARTS.filter((part) => can(part.capability));
+
+  const togglePart = (key: PartKey) => {
+    setSkipped((prev) => (prev.includes(key) ? prev.filter((k) => k !== key) : [...prev, key]));
+  };
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    const body: Record<string, unknown> = { title: title.trim() || undefined, offset_minutes: offsetMinutes };
+    for (const part of availableParts) body[part.key] = !skipped.includes(part.key);
+    const res = await fetch(`/api/events/${event.id}/duplicate`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      setError(data?.error || 'Failed to duplicate event');
+      setSubmitting(false);
+      return;
+    }
+    router.push(`/events/${data.event.id}`);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm transition-all">
+      <div className="hh-card max-w-md w-full p-6 shadow-2xl animate-in fade-in zoom-in-95 duration-200 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-xl font-bold text-[var(--hh-text)]">Duplicate Event</h2>
+          <button onClick={onClose} className="text-[var(--hh-text-tertiary)] hover:text-[var(--hh-text)]">
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <form onSubmit={submit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium mb-1">Title</label>
+            <input value={title} onChange={(e) => setTitle(e.target.value)} className="w-full hh-input px-3 py-2 text-sm" maxLength={200} />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-1">Shift all dates by</label>
+            <div className="flex items-center gap-2">
+              <input type="number" value={days} onChange={(e) => setDays(Number(e.target.value))} className="hh-input px-3 py-2 text-sm w-24" />
+              <span className="text-sm text-[var(--hh-text-secondary)]">days</span>
+              <input type="number" value={hours} onChange={(e) => setHours(Number(e.target.value))} className="hh-input px-3 py-2 text-sm w-20" />
+              <span className="text-sm text-[var(--hh-text-secondary)]">hours</span>
+            </div>
+            <p className="text-xs text-[var(--hh-text-tertiary)] mt-1">
+              Starts {formatInTimeZone(newStart, event.timezone)}. Ticket sale windows move by the same amount.
+            </p>
+          </div>
+
+          {availableParts.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium mb-1">Copy</label>
+              <div className="space-y-2">
+                {availableParts.map((part) => (
+                  <label key={part.key} className="flex items-center gap-2 text-sm text-[var(--hh-text-secondary)]">
+                    <input type="checkbox" checked={!skipped.includes(part.key)} onChange={() => togglePart(part.key)} />
+                    {part.label}
+                    {part.hint && <span className="text-xs text-[var(--hh-text-tertiary)]">({part.hint})</span>}
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <p className="text-xs text-[var(--hh-text-tertiary)]">The copy is saved as a draft.</p>
+          {error && <p className="text-sm text-red-400">{error}</p>}
+
+          <div className="flex justify-end gap-3 pt-2">
+            <button type="button" onClick={onClose} className="hh-btn-secondary text-sm">Cancel</button>
+            <button type="submit" disabled={submitting || !loaded} className="hh-btn-primary text-sm">
+              {submitting ? 'Duplicating...' : 'Duplicate'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,204 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { EventRevision, ItemChange, SnapshotDiff } from '@/lib/event-revisions';
+
+type Props = {
+  eventId: string;
+  canRestore: boolean;
+  /** Changes whenever the event is reloaded, so new revisions show up */
+  refreshKey: number;
+  onRestored: () => void;
+};
+
+const ACTION_LABELS: Record<string, string> = {
+  'event.baseline': 'Before first tracked save',
+  'event.create': 'Created',
+  'event.duplicate': 'Created as a copy',
+  'event.update': 'Saved',
+  'event.restore': 'Restored',
+  'event.review.approve': 'Approved and published',
+  'ticket_tier.create': 'Tier added',
+  'ticket_tier.update': 'Tier changed',
+  'ticket_tier.delete': 'Tier deleted',
+  'event_image.create': 'Image added',
+  'event_image.update': 'Image changed',
+  'event_image.delete': 'Image deleted',
+};
+
+const COLLECTION_LABELS: Record<Exclude<keyof SnapshotDiff, 'event'>, string> = {
+  tiers: 'Ticket tiers',
+  images: 'Images',
+  entry_gates: 'Entry gates',
+};
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'string') return value;
+  return JSON.stringify(value);
+}
+
+function ChangeTable({ changes }: { changes: Record<string, { from: unknown; to: unknown }> }) {
+  return (
+    <table className="w-full text-xs">
+      <tbody>
+        {Object.entries(changes).map(([key, change]) => (
+          <tr key={key} className="align-top">
+            <td className="py-1 pr-4 font-mono text-[var(--hh-text)]">{key}</td>
+            <td className="py-1 pr-4 font-mono text-red-400 break-all">{formatValue(change.from)}</td>
+            <td className="py-1 font-mono text-green-400 break-all">{formatValue(change.to)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+function ItemChanges({ items }: { items: ItemChange[] }) {
+  return (
+    <div className="space-y-2">
+      {items.map((item) => (
+        <div key={item.id}>
+          <div className="text-xs text-[var(--hh-text-secondary)] mb-1">
+            <span className={item.change === 'added' ? 'text-green-400' : item.change === 'removed' ? 'text-red-400' : 'text-yellow-400'}>
+              {item.change}
+            </span>{' '}
+            {item.label}
+          </div>
+          {item.change === 'changed' && <ChangeTable changes={item.fields} />}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Saved revisions of an event, what each one changed, and restoring one
+ */
+export function EventHistoryPanel({ eventId, canRestore, refreshKey, onRestored }: Props) {
+  const [revisions, setRevisions] = useState<EventRevision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [compare, setCompare] = useState<'previous' | 'current'>('previous');
+  const [diff, setDiff] = useState<SnapshotDiff | null>(null);
+  const [restoring, setRestoring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch(`/api/events/${eventId}/revisions`, { cache: 'no-store' })
+      .then((res) => (res.ok ? res.json() : { revisions: [] }))
+      .then((data) => setRevisions(data.revisions ?? []))
+      .catch(() => setRevisions([]))
+      .finally(() => setLoading(false));
+  }, [eventId, refreshKey]);
+
+  useEffect(() => {
+    if (!selected) return;
+    const query = compare === 'current' ? '?compare=current' : '';
+    fetch(`/api/events/${eventId}/revisions/${selected}${query}`, { cache: 'no-store' })
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => setDiff(data?.diff ?? null))
+      .catch(() => setDiff(null));
+  }, [eventId, selected, compare, refreshKey]);
+
+  const restore = async (revision: EventRevision) => {
+    if (!confirm(`Restore revision ${revision.revision_number}? The current version stays in the history.`)) return;
+    setRestoring(true);
+    setError(null);
+    setNotice(null);
+    const res = await fetch(`/api/events/${eventId}/revisions/${revision.id}/restore`, { method: 'POST' });
+    const data = await res.json().catch(() => ({}));
+    setRestoring(false);
+    if (!res.ok) {
+      setError(data?.error || 'Failed to restore revision');
+      return;
+    }
+    const parts = [`Restored revision ${revision.revision_number}.`];
+    if (data.skipped?.length) parts.push(`Left unchanged: ${data.skipped.join(', ')}.`);
+    if (data.retained_tiers) parts.push(`${data.retained_tiers} tier(s) with sales were kept.`);
+    setNotice(parts.join(' '));
+    onRestored();
+  };
+
+  const hasChanges =
+    diff &&
+    (Object.keys(diff.event).length > 0 || diff.tiers.length > 0 || diff.images.length > 0 || diff.entry_gates.length > 0);
+
+  return (
+    <section className="hh-card p-4 md:p-6 mt-6 md:mt-8">
+      <h2 className="text-base md:text-lg font-semibold mb-3 md:mb-4 text-[var(--hh-text)]">History</h2>
+      {error && <p className="text-sm text-red-400 mb-2">{error}</p>}
+      {notice && <p className="text-sm text-green-400 mb-2">{notice}</p>}
+      {loading ? (
+        <p className="text-sm text-[var(--hh-text-secondary)]">Loading...</p>
+      ) : revisions.length === 0 ? (
+        <p className="text-sm text-[var(--hh-text-secondary)]">No saved revisions yet.</p>
+      ) : (
+        <ul className="divide-y divide-[var(--hh-border)]">
+          {revisions.map((revision, index) => {
+            const isOpen = selected === revision.id;
+            return (
+              <li key={revision.id} className="py-2">
+                <div className="flex items-center justify-between gap-3 text-sm">
+                  <button type="button" onClick={() => { setDiff(null); setSelected(isOpen ? null : revision.id); }} className="text-left flex-1">
+                    <span className="font-medium">#{revision.revision_number}</span>{' '}
+                    <span className="text-[var(--hh-text-secondary)]">{ACTION_LABELS[revision.action] ?? revision.action}</span>
+                    <span className="block text-xs text-[var(--hh-text-tertiary)]">
+                      {new Date(revision.created_at).toLocaleString()} &middot; {revision.actor_email ?? 'system'}
+                    </span>
+                  </button>
+                  {canRestore && index > 0 && (
+                    <button type="button" onClick={() => restore(revision)} disabled={restoring} className="hh-btn-secondary text-xs">
+                      Restore
+                    </button>
+                  )}
+                </div>
+                {isOpen && (
+                  <div className="mt-3 pl-2 space-y-3">
+                    <div className="flex gap-2 text-xs">
+                      <button
+                        type="button"
+                        onClick={() => { setDiff(null); setCompare('previous'); }}
+                        className={compare === 'previous' ? 'text-[var(--hh-primary)]' : 'text-[var(--hh-text-secondary)]'}
+                      >
+                        Changes in this revision
+                      </button>
+                      <span className="text-[var(--hh-text-tertiary)]">|</span>
+                      <button
+                        type="button"
+                        onClick={() => { setDiff(null); setCompare('current'); }}
+                        className={compare === 'current' ? 'text-[var(--hh-primary)]' : 'text-[var(--hh-text-secondary)]'}
+                      >
+                        What restoring it would change
+                      </button>
+                    </div>
+                    {!diff ? (
+                      <p className="text-xs text-[var(--hh-text-tertiary)]">Loading...</p>
+                    ) : !hasChanges ? (
+                      <p className="text-xs text-[var(--hh-text-tertiary)]">No differences.</p>
+                    ) : (
+                      <>
+                        {Object.keys(diff.event).length > 0 && <ChangeTable changes={diff.event} />}
+                        {(Object.keys(COLLECTION_LABELS) as (keyof typeof COLLECTION_LABELS)[]).map((collection) =>
+                          diff[collection].length > 0 ? (
+                            <div key={collection}>
+                              <div className="text-xs font-semibold uppercase tracking-wider text-[var(--hh-text-tertiary)] mb-1">
+                                {COLLECTION_LABELS[collection]}
+                              </div>
+                              <ItemChanges items={diff[collection]} />
+                            </div>
+                          ) : null
+                        )}
+                      </>
+                    )}
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,164 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { EventReviewComment, ReviewStatus } from '@/lib/event-review';
+
+type Props = {
+  event: { id: string; status: 'draft' | 'published' | 'archived'; review_status: ReviewStatus | null };
+  canEdit: boolean;
+  canReview: boolean;
+  /** Changes whenever the event is reloaded, so the thread stays current */
+  refreshKey: number;
+  onChanged: () => void;
+};
+
+export const REVIEW_STATUS_LABELS: Record<ReviewStatus, string> = {
+  pending: 'Waiting for review',
+  changes_requested: 'Changes requested',
+  approved: 'Approved',
+};
+
+export const REVIEW_STATUS_CLASSES: Record<ReviewStatus, string> = {
+  pending: 'bg-blue-500/10 text-blue-400 border-blue-500/20',
+  changes_requested: 'bg-orange-500/10 text-orange-400 border-orange-500/20',
+  approved: 'bg-green-500/10 text-green-400 border-green-500/20',
+};
+
+const KIND_LABELS: Record<EventReviewComment['kind'], string | null> = {
+  comment: null,
+  submitted: 'submitted for review',
+  approved: 'approved',
+  changes_requested: 'requested changes',
+};
+
+/**
+ * Review state of an event, the vendor's submit action, the reviewer's
+ * decision, and the discussion between them
+ */
+export function EventReviewPanel({ event, canEdit, canReview, refreshKey, onChanged }: Props) {
+  const [comments, setComments] = useState<EventReviewComment[]>([]);
+  const [canComment, setCanComment] = useState(false);
+  const [draft, setDraft] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch(`/api/events/${event.id}/comments`, { cache: 'no-store' })
+      .then((res) => (res.ok ? res.json() : { comments: [], can_comment: false }))
+      .then((data) => {
+        setComments(data.comments ?? []);
+        setCanComment(!!data.can_comment);
+      })
+      .catch(() => setComments([]));
+  }, [event.id, refreshKey]);
+
+  const send = async (url: string, body: Record<string, unknown>, failure: string) => {
+    setBusy(true);
+    setError(null);
+    const res = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    const data = await res.json().catch(() => ({}));
+    setBusy(false);
+    if (!res.ok) {
+      setError(data?.details?.[0]?.message || data?.error || failure);
+      return;
+    }
+    setDraft('');
+    onChanged();
+  };
+
+  const note = draft.trim() || undefined;
+  const canSubmit = canEdit && !canReview && event.status === 'draft' && event.review_status !== 'pending';
+  const canDecide = canReview && event.review_status === 'pending';
+
+  if (!canSubmit && !canDecide && !event.review_status && comments.length === 0) return null;
+
+  return (
+    <section className="hh-card p-4 md:p-6 mb-4">
+      <div className="flex items-center justify-between gap-3 mb-3">
+        <h2 className="text-base md:text-lg font-semibold text-[var(--hh-text)]">Review</h2>
+        {event.review_status && (
+          <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium border ${REVIEW_STATUS_CLASSES[event.review_status]}`}>
+            {REVIEW_STATUS_LABELS[event.review_status]}
+          </span>
+        )}
+      </div>
+
+      {comments.length > 0 && (
+        <ul className="space-y-3 mb-4">
+          {comments.map((comment) => (
+            <li key={comment.id} className="text-sm">
+              <div className="text-xs text-[var(--hh-text-tertiary)]">
+                <span className="text-[var(--hh-text-secondary)]">{comment.author_email ?? 'Someone'}</span>
+                {comment.author_is_reviewer && ' (reviewer)'}
+                {KIND_LABELS[comment.kind] && <span className="font-medium"> {KIND_LABELS[comment.kind]}</span>}
+                {' '}&middot; {new Date(comment.created_at).toLocaleString()}
+              </div>
+              {comment.body && <p className="mt-1 whitespace-pre-wrap text-[var(--hh-text)]">{comment.body}</p>}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {(canComment || canSubmit || canDecide) && (
+        <>
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            rows={3}
+            placeholder={canDecide ? 'Feedback for the vendor (required to request changes)' : 'Add a note or reply'}
+            className="w-full hh-input px-3 py-2 text-sm"
+          />
+          {error && <p className="text-sm text-red-400 mt-2">{error}</p>}
+          <div className="flex flex-wrap justify-end gap-2 mt-2">
+            {canComment && (
+              <button
+                type="button"
+                disabled={busy || !note}
+                onClick={() => send(`/api/events/${event.id}/comments`, { body: note }, 'Failed to add comment')}
+                className="hh-btn-secondary text-sm disabled:opacity-50"
+              >
+                Comment
+              </button>
+            )}
+            {canSubmit && (
+              <button
+                type="button"
+                disabled={busy}
+                onClick={() => send(`/api/events/${event.id}/review`, { comment: note }, 'Failed to submit for review')}
+                className="hh-btn-primary text-sm"
+              >
+                {event.review_status === 'changes_requested' ? 'Resubmit for Review' : 'Submit for Review'}
+              </button>
+            )}
+            {canDecide && (
+              <>
+                <button
+                  type="button"
+                  disabled={busy || !note}
+                  onClick={() =>
+                    send(`/api/events/${event.id}/review/decision`, { decision: 'request_changes', comment: note }, 'Failed to request changes')
+                  }
+                  className="hh-btn-secondary text-sm disabled:opacity-50"
+                >
+                  Request Changes
+                </button>
+                <button
+                  type="button"
+                  disabled={busy}
+                  onClick={() => send(`/api/events/${event.id}/review/decision`, { decision: 'approve', comment: note }, 'Failed to approve')}
+                  className="hh-btn-primary text-sm"
+                >
+                  Approve &amp; Publish
+                </button>
+              </>
+            )}
+          </div>
+        </>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,70 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+
+type ImpersonationState = {
+  targetEmail: string;
+  targetRole: string;
+  actorEmail: string;
+  allowMutations: boolean;
+  expiresAt: string;
+};
+
+export default function ImpersonationBanner() {
+  const [state, setState] = useState<ImpersonationState | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const [stopping, setStopping] = useState(false);
+
+  useEffect(() => {
+    fetch('/api/admin/me', { cache: 'no-store' })
+      .then(res => res.json())
+      .then(data => {
+        if (data.admin && data.impersonation) {
+          setState({
+            targetEmail: data.admin.email,
+            targetRole: data.admin.role,
+            actorEmail: data.impersonation.actor_email,
+            allowMutations: data.impersonation.allow_mutations,
+            expiresAt: data.impersonation.expires_at,
+          });
+        }
+      })
+      .catch(() => {});
+  }, []);
+
+  useEffect(() => {
+    if (!state) return;
+    const timer = setInterval(() => setNow(Date.now()), 15 * 1000);
+    return () => clearInterval(timer);
+  }, [state]);
+
+  const minutesLeft = state ? Math.max(0, Math.ceil((Date.parse(state.expiresAt) - now) / 60000)) : 0;
+
+  // The server stops honouring the impersonation at expiry; reload back into the real account.
+  useEffect(() => {
+    if (state && minutesLeft === 0) {
+      window.location.href = '/';
+    }
+  }, [state, minutesLeft]);
+
+  const stop = async () => {
+    setStopping(true);
+    await fetch('/api/admin/impersonation', { method: 'DELETE' }).catch(() => {});
+    window.location.href = '/admin-users';
+  };
+
+  if (!state) return null;
+
+  return (
+    <div className="sticky top-0 z-40 mb-6 -mx-4 md:-mx-8 -mt-4 md:-mt-8 px-4 md:px-8 py-3 bg-amber-500/15 border-b border-amber-500/30 text-amber-200 flex flex-wrap items-center justify-between gap-3 text-sm">
+      <div>
+        Viewing as <span className="font-semibold">{state.targetEmail}</span> ({state.targetRole})
+        <span className="text-amber-200/70"> • started by {state.actorEmail} • {minutesLeft} min left • </span>
+        <span className="font-medium">{state.allowMutations ? 'Changes allowed' : 'Read-only'}</span>
+      </div>
+      <button onClick={stop} disabled={stopping} className="hh-btn-secondary text-xs">
+        {stopping ? 'Stopping...' : 'Stop viewing as'}
+      </button>
+    </div>
+  );
+}
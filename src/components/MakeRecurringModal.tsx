@@ -0,0 +1,98 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { defaultRecurrence, RecurrenceEditor } from '@/components/RecurrenceEditor';
+import type { Recurrence } from '@/lib/recurrence';
+import { toZonedParts } from '@/lib/timezones';
+
+type Props = {
+  event: { id: string; title: string; start_at: string; timezone: string };
+  canPublish: boolean;
+  onClose: () => void;
+};
+
+/**
+ * Turns an event into the first occurrence of a new series
+ */
+export function MakeRecurringModal({ event, canPublish, onClose }: Props) {
+  const router = useRouter();
+  const timeZones = useMemo(() => Intl.supportedValuesOf('timeZone'), []);
+  // Occurrences follow the event's own zone unless told otherwise.
+  const [timezone, setTimezone] = useState(event.timezone);
+  const startsOn = toZonedParts(new Date(event.start_at), timezone).date;
+  const [recurrence, setRecurrence] = useState<Recurrence>(() => defaultRecurrence(startsOn));
+  const [status, setStatus] = useState<'draft' | 'published'>('draft');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    const res = await fetch('/api/event-series', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ event_id: event.id, recurrence, timezone, status }),
+    });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      setError(data?.details?.[0]?.message || data?.error || 'Failed to create series');
+      setSubmitting(false);
+      return;
+    }
+    router.push(`/event-series/${data.series.id}`);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm transition-all">
+      <div className="hh-card max-w-lg w-full p-6 shadow-2xl animate-in fade-in zoom-in-95 duration-200 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-xl font-bold text-[var(--hh-text)]">Make Recurring</h2>
+          <button onClick={onClose} className="text-[var(--hh-text-tertiary)] hover:text-[var(--hh-text)]">
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <form onSubmit={submit} className="space-y-4">
+          <p className="text-sm text-[var(--hh-text-secondary)]">
+            &ldquo;{event.title}&rdquo; becomes the first date. Each later date gets its own copy of the event with its
+            tiers, images and gates, at the same local time.
+          </p>
+
+          <div>
+            <label className="block text-sm font-medium mb-1">Time zone</label>
+            <select value={timezone} onChange={(e) => setTimezone(e.target.value)} className="w-full hh-input px-3 py-2 text-sm">
+              {timeZones.map((zone) => (
+                <option key={zone} value={zone}>{zone}</option>
+              ))}
+            </select>
+          </div>
+
+          <RecurrenceEditor value={recurrence} onChange={setRecurrence} startsOn={startsOn} />
+
+          {canPublish && (
+            <div>
+              <label className="block text-sm font-medium mb-1">New occurrences are</label>
+              <select value={status} onChange={(e) => setStatus(e.target.value as 'draft' | 'published')} className="w-full hh-input px-3 py-2 text-sm">
+                <option value="draft">Drafts</option>
+                <option value="published">Published</option>
+              </select>
+            </div>
+          )}
+
+          {error && <p className="text-sm text-red-400">{error}</p>}
+
+          <div className="flex justify-end gap-3 pt-2">
+            <button type="button" onClick={onClose} className="hh-btn-secondary text-sm">Cancel</button>
+            <button type="submit" disabled={submitting} className="hh-btn-primary text-sm">
+              {submitting ? 'Creating...' : 'Create Series'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
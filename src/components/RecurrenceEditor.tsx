@@ -0,0 +1,146 @@
+'use client';
+
+import { useState } from 'react';
+import { addDays, MAX_SERIES_OCCURRENCES, occurrenceDates, WEEKDAY_LABELS, type Recurrence } from '@/lib/recurrence';
+
+type Props = {
+  value: Recurrence;
+  onChange: (value: Recurrence) => void;
+  /** The series' first date, which the rule counts from */
+  startsOn: string;
+};
+
+export function defaultRecurrence(startsOn: string): Extract<Recurrence, { type: 'weekly' }> {
+  return {
+    type: 'weekly',
+    weekdays: [new Date(`${startsOn}T00:00:00Z`).getUTCDay()],
+    interval_weeks: 1,
+    until: addDays(startsOn, 12 * 7),
+  };
+}
+
+/**
+ * Form fields for a series schedule, with a preview of the dates it produces
+ */
+export function RecurrenceEditor({ value, onChange, startsOn }: Props) {
+  const [newDate, setNewDate] = useState('');
+  const dates = occurrenceDates(value, startsOn);
+
+  const setType = (type: Recurrence['type']) => {
+    const until = value.type === 'dates' ? addDays(startsOn, 12 * 7) : value.until;
+    if (type === 'weekly') onChange({ ...defaultRecurrence(startsOn), until });
+    if (type === 'monthly') onChange({ type, day_of_month: Number(startsOn.slice(8, 10)), until });
+    if (type === 'dates') onChange({ type, dates: dates.slice(0, MAX_SERIES_OCCURRENCES) });
+  };
+
+  const toggleWeekday = (day: number) => {
+    if (value.type !== 'weekly') return;
+    const weekdays = value.weekdays.includes(day) ? value.weekdays.filter((d) => d !== day) : [...value.weekdays, day];
+    onChange({ ...value, weekdays: weekdays.sort() });
+  };
+
+  const addDate = () => {
+    if (value.type !== 'dates' || !newDate || value.dates.includes(newDate)) return;
+    onChange({ ...value, dates: [...value.dates, newDate].sort() });
+    setNewDate('');
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className="block text-sm font-medium mb-1">Repeats</label>
+        <select value={value.type} onChange={(e) => setType(e.target.value as Recurrence['type'])} className="w-full hh-input px-3 py-2 text-sm">
+          <option value="weekly">Weekly on chosen days</option>
+          <option value="monthly">Monthly on a date</option>
+          <option value="dates">On specific dates</option>
+        </select>
+      </div>
+
+      {value.type === 'weekly' && (
+        <>
+          <div className="flex flex-wrap gap-1.5">
+            {WEEKDAY_LABELS.map((label, day) => (
+              <button
+                key={label}
+                type="button"
+                onClick={() => toggleWeekday(day)}
+                className={`px-2.5 py-1 rounded-lg text-xs border transition-colors ${
+                  value.weekdays.includes(day)
+                    ? 'bg-[var(--hh-primary)] border-[var(--hh-primary)] text-white'
+                    : 'border-[var(--hh-border)] text-[var(--hh-text-secondary)] hover:bg-[var(--hh-bg-elevated)]'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs text-[var(--hh-text-secondary)] mb-1">Every</label>
+              <select
+                value={value.interval_weeks}
+                onChange={(e) => onChange({ ...value, interval_weeks: Number(e.target.value) })}
+                className="w-full hh-input px-3 py-2 text-sm"
+              >
+                {[1, 2, 3, 4].map((n) => (
+                  <option key={n} value={n}>{n === 1 ? 'week' : `${n} weeks`}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs text-[var(--hh-text-secondary)] mb-1">Until</label>
+              <input type="date" value={value.until} min={startsOn} onChange={(e) => onChange({ ...value, until: e.target.value })} className="w-full hh-input px-3 py-2 text-sm" />
+            </div>
+          </div>
+        </>
+      )}
+
+      {value.type === 'monthly' && (
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="block text-xs text-[var(--hh-text-secondary)] mb-1">Day of month</label>
+            <input
+              type="number"
+              min={1}
+              max={31}
+              value={value.day_of_month}
+              onChange={(e) => onChange({ ...value, day_of_month: Math.min(31, Math.max(1, Number(e.target.value) || 1)) })}
+              className="w-full hh-input px-3 py-2 text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-[var(--hh-text-secondary)] mb-1">Until</label>
+            <input type="date" value={value.until} min={startsOn} onChange={(e) => onChange({ ...value, until: e.target.value })} className="w-full hh-input px-3 py-2 text-sm" />
+          </div>
+        </div>
+      )}
+
+      {value.type === 'dates' && (
+        <div>
+          <div className="flex gap-2">
+            <input type="date" value={newDate} min={startsOn} onChange={(e) => setNewDate(e.target.value)} className="flex-1 hh-input px-3 py-2 text-sm" />
+            <button type="button" onClick={addDate} className="hh-btn-secondary text-sm">Add</button>
+          </div>
+          <div className="flex flex-wrap gap-1.5 mt-2">
+            {value.dates.map((date) => (
+              <span key={date} className="inline-flex items-center gap-1 px-2 py-0.5 rounded border border-[var(--hh-border)] text-xs text-[var(--hh-text-secondary)]">
+                {date}
+                <button type="button" onClick={() => onChange({ ...value, dates: value.dates.filter((d) => d !== date) })} className="hover:text-red-400">
+                  &times;
+                </button>
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <p className="text-xs text-[var(--hh-text-tertiary)]">
+        {dates.length === 0
+          ? 'No dates after the first one yet.'
+          : dates.length > MAX_SERIES_OCCURRENCES
+            ? `More than ${MAX_SERIES_OCCURRENCES} dates; choose an earlier end date.`
+            : `${dates.length} more ${dates.length === 1 ? 'date' : 'dates'} after ${startsOn}: ${dates.slice(0, 6).join(', ')}${dates.length > 6 ? ', ...' : ''}`}
+      </p>
+    </div>
+  );
+}
@@ -3,6 +3,7 @@
 import React, { useEffect, useState } from 'react';
 import Link from 'next/link';
 import { useRouter, usePathname } from 'next/navigation';
+import { usePermissions } from '@/lib/use-permissions';
 
 export default function Sidebar() {
   const router = useRouter();
@@ -10,6 +11,7 @@ export default function Sidebar() {
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
   const [currentUser, setCurrentUser] = useState<{ role: 'admin' | 'moderator' | 'vendor' | 'vendor_moderator'; email?: string } | null>(null);
   const [isCollapsed, setIsCollapsed] = useState(false);
+  const { canOpen } = usePermissions();
 
   // Load current user role
   useEffect(() => {
@@ -47,6 +49,13 @@ export default function Sidebar() {
     router.replace('/signin');
   };
 
+  const logoutEverywhere = async () => {
+    if (!confirm('Sign out of every browser and device?')) return;
+    setMobileMenuOpen(false);
+    await fetch('/api/admin/sessions', { method: 'DELETE' });
+    router.replace('/signin');
+  };
+
   const NavLink = ({ href, label, icon }: { href: string; label: string; icon: React.ReactNode }) => {
     const active = pathname === href || (href !== '/' && pathname?.startsWith(href));
     return (
@@ -96,6 +105,13 @@ export default function Sidebar() {
     </svg>
   );
 
+  const IconReview = (
+    <svg className="w-5 h-5" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+      <path d="M9 11l3 3L22 4" />
+      <path d="M21 12v7a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h11" />
+    </svg>
+  );
+
   const IconQr = (
     <svg className="w-5 h-5" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
       <path d="M3 3h7v7H3z" />
@@ -161,26 +177,94 @@ export default function Sidebar() {
     </svg>
   );
 
+  const IconKey = (
+    <svg className="w-5 h-5" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+      <circle cx="7.5" cy="15.5" r="4.5" />
+      <path d="M10.7 12.3L21 2" />
+      <path d="M16 7l3 3" />
+    </svg>
+  );
+
+  const IconStore = (
+    <svg className="w-5 h-5" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+      <path d="M3 9l1.5-5h15L21 9" />
+      <path d="M3 9h18v2a3 3 0 0 1-6 0 3 3 0 0 1-6 0 3 3 0 0 1-6 0z" />
+      <path d="M5 13v8h14v-8" />
+      <path d="M10 21v-5h4v5" />
+    </svg>
+  );
+
+  const IconTag = (
+    <svg className="w-5 h-5" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+      <path d="M20.59 13.41l-7.17 7.17a2 2 0 0 1-2.83 0L2 12V2h10l8.59 8.59a2 2 0 0 1 0 2.82z" />
+      <line x1="7" y1="7" x2="7.01" y2="7" />
+    </svg>
+  );
+  const IconPin = (
+    <svg className="w-5 h-5" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+      <path d="M21 10c0 7-9 13-9 13s-9-6-9-13a9 9 0 0 1 18 0z" />
+      <circle cx="12" cy="10" r="3" />
+    </svg>
+  );
+
+  const IconAudit = (
+    <svg className="w-5 h-5" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+      <path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z" />
+      <path d="M14 2v6h6" />
+      <path d="M8 13h8" />
+      <path d="M8 17h5" />
+    </svg>
+  );
+
+  const IconShield = (
+    <svg className="w-5 h-5" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+      <path d="M12 22s8-4 8-10V5l-8-3-8 3v7c0 6 8 10 8 10z" />
+    </svg>
+  );
+
   const NavContent = () => (
     <nav className="flex-1 px-3 py-4 space-y-1">
       <NavLink href="/" label="Dashboard" icon={IconHome} />
-      <NavLink href="/events" label="Events" icon={IconCalendar} />
-      {(currentUser?.role === 'admin' || currentUser?.role === 'vendor') && (
+      {canOpen('/events') && (
+        <NavLink href="/events" label="Events" icon={IconCalendar} />
+      )}
+      {canOpen('/events/new') && (
         <NavLink href="/events/new" label="Create Event" icon={IconPlus} />
       )}
-      {(currentUser?.role === 'admin' || currentUser?.role === 'vendor') && (
+      {canOpen('/events/review') && (
+        <NavLink href="/events/review" label="Review Queue" icon={IconReview} />
+      )}
+      {canOpen('/ads') && (
         <NavLink href="/ads" label="Ads" icon={IconMegaphone} />
       )}
-      <NavLink href="/scan" label="Scan Tickets" icon={IconQr} />
-      {currentUser?.role === 'admin' && (
+      {canOpen('/scan') && (
+        <NavLink href="/scan" label="Scan Tickets" icon={IconQr} />
+      )}
+      {canOpen('/admin-users') && (
         <NavLink href="/admin-users" label="Admin Users" icon={IconUsers} />
       )}
-      {currentUser?.role === 'admin' && (
+      {canOpen('/vendors') && (
+        <NavLink href="/vendors" label="Vendors" icon={IconStore} />
+      )}
+      {canOpen('/event-categories') && (
+        <NavLink href="/event-categories" label="Categories" icon={IconTag} />
+      )}
+      {canOpen('/venues') && (
+        <NavLink href="/venues" label="Venues" icon={IconPin} />
+      )}
+      {canOpen('/api-keys') && (
+        <NavLink href="/api-keys" label="API Keys" icon={IconKey} />
+      )}
+      {canOpen('/audit-log') && (
+        <NavLink href="/audit-log" label="Audit Log" icon={IconAudit} />
+      )}
+      {canOpen('/instagram-reviews') && (
         <NavLink href="/instagram-reviews" label="Instagram Reviews" icon={IconInstagram} />
       )}
-      {currentUser?.role === 'admin' && (
+      {canOpen('/refunds') && (
         <NavLink href="/refunds" label="Refunds" icon={IconRefund} />
       )}
+      <NavLink href="/account/security" label="Security" icon={IconShield} />
     </nav>
   );
 
@@ -247,6 +331,9 @@ export default function Sidebar() {
               {IconLogout}
               <span>Sign out</span>
             </button>
+            <button onClick={logoutEverywhere} className="w-full mt-2 text-xs text-[var(--hh-text-tertiary)] hover:text-red-400 transition-colors">
+              Sign out everywhere
+            </button>
           </div>
         </div>
       </aside>
@@ -302,6 +389,11 @@ export default function Sidebar() {
             {IconLogout}
             {!isCollapsed && <span>Sign out</span>}
           </button>
+          {!isCollapsed && (
+            <button onClick={logoutEverywhere} className="w-full px-3 py-1 text-xs text-left text-[var(--hh-text-tertiary)] hover:text-red-400 transition-colors">
+              Sign out everywhere
+            </button>
+          )}
         </div>
       </aside>
     </>
@@ -0,0 +1,108 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { TicketReconciliation } from '@/lib/event-capacity';
+
+type Props = {
+  eventId: string;
+  /** Changes whenever the event is reloaded, so tier edits show up */
+  refreshKey: number;
+};
+
+/**
+ * Each tier's recorded sales next to the tickets actually issued for it, with
+ * anything that does not add up highlighted
+ */
+export function TicketReconciliationPanel({ eventId, refreshKey }: Props) {
+  const [report, setReport] = useState<TicketReconciliation | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch(`/api/events/${eventId}/reconciliation`, { cache: 'no-store' })
+      .then(async (res) => {
+        const data = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(data?.error || 'Failed to load reconciliation');
+        setReport(data.reconciliation);
+        setError(null);
+      })
+      .catch((err: unknown) => setError(err instanceof Error ? err.message : 'Failed to load reconciliation'))
+      .finally(() => setLoading(false));
+  }, [eventId, refreshKey]);
+
+  return (
+    <section className="hh-card p-4 md:p-6 mt-6 md:mt-8">
+      <div className="flex items-center justify-between gap-3 mb-3 md:mb-4">
+        <h2 className="text-base md:text-lg font-semibold text-[var(--hh-text)]">Ticket reconciliation</h2>
+        {report && (
+          <span
+            className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium border ${
+              report.has_drift
+                ? 'bg-red-500/10 text-red-400 border-red-500/20'
+                : 'bg-green-500/10 text-green-400 border-green-500/20'
+            }`}
+          >
+            {report.has_drift ? 'Needs attention' : 'In balance'}
+          </span>
+        )}
+      </div>
+      {error && <p className="text-sm text-red-400 mb-2">{error}</p>}
+      {loading ? (
+        <p className="text-sm text-[var(--hh-text-secondary)]">Loading...</p>
+      ) : report && (
+        <>
+          <p className="text-sm text-[var(--hh-text-secondary)] mb-3">
+            Tiers offer {report.allocated}
+            {report.capacity !== null ? ` of the ${report.capacity} tickets this event holds` : ' tickets; the event has no capacity limit'}.
+            {report.capacity !== null && report.allocated > report.capacity && (
+              <span className="text-red-400"> That is more than the event holds.</span>
+            )}
+          </p>
+          {report.tiers.length === 0 ? (
+            <p className="text-sm text-[var(--hh-text-secondary)]">No tiers yet.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs uppercase tracking-wider text-[var(--hh-text-tertiary)]">
+                    <th className="py-2 pr-4">Tier</th>
+                    <th className="py-2 pr-4 text-right">Quantity</th>
+                    <th className="py-2 pr-4 text-right">Recorded sold</th>
+                    <th className="py-2 pr-4 text-right">Tickets issued</th>
+                    <th className="py-2 pr-4 text-right">Cancelled</th>
+                    <th className="py-2 text-right">Drift</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-[var(--hh-border)]">
+                  {report.tiers.map((tier) => (
+                    <tr key={tier.id} className={tier.drift !== 0 || tier.oversold ? 'bg-red-500/5' : undefined}>
+                      <td className="py-2 pr-4 text-[var(--hh-text)]">
+                        {tier.name}
+                        {tier.oversold && <span className="ml-2 text-xs text-red-400">oversold</span>}
+                      </td>
+                      <td className="py-2 pr-4 text-right font-mono">{tier.total_quantity}</td>
+                      <td className="py-2 pr-4 text-right font-mono">{tier.sold_quantity}</td>
+                      <td className="py-2 pr-4 text-right font-mono">{tier.issued}</td>
+                      <td className="py-2 pr-4 text-right font-mono">{tier.cancelled}</td>
+                      <td className={`py-2 text-right font-mono ${tier.drift !== 0 ? 'text-red-400' : 'text-[var(--hh-text-tertiary)]'}`}>
+                        {tier.drift > 0 ? `+${tier.drift}` : tier.drift}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+          {report.unmatched !== 0 && (
+            <p className="text-sm text-red-400 mt-3">
+              {report.unmatched} {report.unmatched === 1 ? 'ticket is' : 'tickets are'} not linked to any of this event&apos;s tiers.
+            </p>
+          )}
+          <p className="text-xs text-[var(--hh-text-tertiary)] mt-3">
+            Drift is recorded sales minus tickets issued. Cancelled tickets were still sold, so they count as issued.
+          </p>
+        </>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,54 @@
+'use client';
+
+import { useMemo } from 'react';
+import { fromZonedInputValue, timeZoneOffsetLabel, toZonedInputValue } from '@/lib/timezones';
+
+type ZonedDateTimeInputProps = {
+  /** The instant, as an ISO string with an offset */
+  value: string | Date | null | undefined;
+  onChange: (value: string | null) => void;
+  timeZone: string;
+  disabled?: boolean;
+  className?: string;
+};
+
+/**
+ * A date and time entered and shown as wall-clock time in the given zone,
+ * whatever zone the browser is in. Reports the instant it stands for.
+ */
+export function ZonedDateTimeInput({ value, onChange, timeZone, disabled, className }: ZonedDateTimeInputProps) {
+  const at = value ? new Date(value) : undefined;
+  return (
+    <div>
+      <input
+        type="datetime-local"
+        className={className}
+        value={toZonedInputValue(value, timeZone)}
+        onChange={(e) => onChange(fromZonedInputValue(e.target.value, timeZone))}
+        disabled={disabled}
+      />
+      <p className="mt-1 text-xs text-[var(--hh-text-tertiary)]">
+        {timeZone} ({timeZoneOffsetLabel(timeZone, at)})
+      </p>
+    </div>
+  );
+}
+
+type TimeZoneSelectProps = {
+  value: string;
+  onChange: (value: string) => void;
+  disabled?: boolean;
+  className?: string;
+};
+
+export function TimeZoneSelect({ value, onChange, disabled, className }: TimeZoneSelectProps) {
+  const timeZones = useMemo(() => Intl.supportedValuesOf('timeZone'), []);
+  return (
+    <select value={value} onChange={(e) => onChange(e.target.value)} disabled={disabled} className={className}>
+      {!timeZones.includes(value) && <option value={value}>{value}</option>}
+      {timeZones.map((zone) => (
+        <option key={zone} value={zone}>{zone}</option>
+      ))}
+    </select>
+  );
+}
@@ -1,5 +1,9 @@
 import { NextRequest } from 'next/server';
-import { verifyAdminJWT } from '@/lib/jwt';
+import { findActiveApiKey, getBearerApiKey } from '@/lib/api-keys';
+import { findActiveSession, getAdminTokenClaims } from '@/lib/admin-sessions';
+import { getClientIp } from '@/lib/client-ip';
+import { findActiveImpersonation } from '@/lib/impersonation';
+import { can, type Capability } from '@/lib/permissions';
 import { supabaseAdmin } from '@/lib/supabaseAdmin';
 
 export type AdminRole = 'admin' | 'moderator' | 'vendor' | 'vendor_moderator';
@@ -8,7 +12,27 @@ export type AdminUser = {
   id: string;
   email: string;
   role: AdminRole;
+  // The vendor organization for vendor and vendor_moderator users
   vendor_id: string | null;
+  // Set when the request authenticated with an API key instead of a session
+  api_key?: ApiKeyScope;
+  // Set when a different admin is viewing the panel as this user
+  impersonation?: ImpersonationScope;
+};
+
+export type ImpersonationScope = {
+  id: string;
+  actor_id: string;
+  actor_email: string;
+  allow_mutations: boolean;
+  expires_at: string;
+};
+
+export type ApiKeyScope = {
+  id: string;
+  name: string;
+  capabilities: Capability[];
+  event_id: string | null;
 };
 
 export type EventAccess = {
@@ -17,41 +41,114 @@ export type EventAccess = {
 };
 
 /**
- * Get the current admin user from the request
+ * Only active accounts may act; suspended and pending ones resolve to no admin
  */
-export async function getCurrentAdmin(req: NextRequest): Promise<AdminUser | null> {
-  const token = req.cookies.get('admin_token')?.value;
-  if (!token) {
+function activeAdmin(row: (Omit<AdminUser, 'api_key' | 'impersonation'> & { status: string }) | null): AdminUser | null {
+  if (!row || row.status !== 'active') {
     return null;
   }
+  return { id: row.id, email: row.email, role: row.role, vendor_id: row.vendor_id };
+}
 
+/**
+ * Resolve a bearer API key to the admin it acts as, carrying the key's scope
+ */
+async function getApiKeyAdmin(key: string, req: NextRequest): Promise<AdminUser | null> {
   try {
-    const { sub: adminId } = verifyAdminJWT(token);
+    const apiKey = await findActiveApiKey(key, getClientIp(req));
+    if (!apiKey) {
+      return null;
+    }
+
     const { data, error } = await supabaseAdmin
       .from('admin_users')
-      .select('id, email, role, vendor_id')
-      .eq('id', adminId)
+      .select('id, email, role, vendor_id, status')
+      .eq('id', apiKey.admin_user_id)
       .single();
 
-    if (error || !data) {
+    // A key stops working while the admin it acts as is suspended.
+    const owner = error ? null : activeAdmin(data);
+    if (!owner) {
       return null;
     }
 
-    return data;
+    return {
+      ...owner,
+      api_key: {
+        id: apiKey.id,
+        name: apiKey.name,
+        capabilities: apiKey.capabilities,
+        event_id: apiKey.event_id,
+      },
+    };
   } catch {
     return null;
   }
 }
 
 /**
- * Check if the current admin has admin role
+ * Get the current admin user from the request, via an API key bearer header
+ * or the session cookie
  */
-export async function requireAdmin(req: NextRequest): Promise<AdminUser> {
-  const admin = await getCurrentAdmin(req);
-  if (!admin || admin.role !== 'admin') {
-    throw new Error('Unauthorized: Admin role required');
+export async function getCurrentAdmin(req: NextRequest): Promise<AdminUser | null> {
+  const apiKey = getBearerApiKey(req);
+  if (apiKey) {
+    return getApiKeyAdmin(apiKey, req);
+  }
+
+  const claims = getAdminTokenClaims(req);
+  if (!claims) {
+    return null;
+  }
+
+  try {
+    const session = await findActiveSession(claims);
+    if (!session) {
+      return null;
+    }
+
+    // While impersonating, everything downstream is scoped as the target user.
+    const impersonation = await findActiveImpersonation(session.id);
+
+    const { data, error } = await supabaseAdmin
+      .from('admin_users')
+      .select('id, email, role, vendor_id, status')
+      .eq('id', impersonation?.target_admin_id ?? session.admin_user_id)
+      .single();
+
+    // Suspension revokes sessions, but checking here too closes the gap for
+    // requests already in flight.
+    const user = error ? null : activeAdmin(data);
+    if (!user) {
+      return null;
+    }
+    if (!impersonation) {
+      return user;
+    }
+
+    const { data: actor } = await supabaseAdmin
+      .from('admin_users')
+      .select('email, status')
+      .eq('id', session.admin_user_id)
+      .single();
+
+    if (actor?.status !== 'active') {
+      return null;
+    }
+
+    return {
+      ...user,
+      impersonation: {
+        id: impersonation.id,
+        actor_id: session.admin_user_id,
+        actor_email: actor?.email ?? '',
+        allow_mutations: impersonation.allow_mutations,
+        expires_at: impersonation.expires_at,
+      },
+    };
+  } catch {
+    return null;
   }
-  return admin;
 }
 
 /**
@@ -66,45 +163,24 @@ export async function requireAuth(req: NextRequest): Promise<AdminUser> {
 }
 
 /**
- * Check if the current admin can create events (admin only)
- */
-export async function requireEventCreate(req: NextRequest): Promise<AdminUser> {
-  const admin = await requireAuth(req);
-  if (admin.role !== 'admin' && admin.role !== 'vendor') {
-    throw new Error('Unauthorized: Only admins and vendors can create events');
-  }
-  return admin;
-}
-
-/**
- * Check if the current admin can delete events (admin only)
+ * Check if the current admin holds a capability (see src/lib/permissions.ts)
  */
-export async function requireEventDelete(req: NextRequest): Promise<AdminUser> {
+export async function requireCapability(req: NextRequest, capability: Capability): Promise<AdminUser> {
   const admin = await requireAuth(req);
-  if (admin.role !== 'admin') {
-    throw new Error('Unauthorized: Only admins can delete events');
+  if (!can(admin, capability)) {
+    throw new Error('Unauthorized: Insufficient permissions');
   }
   return admin;
 }
 
 /**
- * Check if the current admin can edit events (admin, moderator, vendor)
+ * Load an event's ownership if the admin may exercise the capability on it
  */
-export async function requireEventEdit(req: NextRequest): Promise<AdminUser> {
-  const admin = await requireAuth(req);
-  if (admin.role === 'vendor_moderator') {
-    throw new Error('Unauthorized: Insufficient permissions');
-  }
-  return admin;
-}
-
-export function getVendorScopeId(admin: AdminUser): string | null {
-  if (admin.role === 'vendor') return admin.id;
-  if (admin.role === 'vendor_moderator') return admin.vendor_id ?? null;
-  return null;
-}
-
-export async function getEventAccess(admin: AdminUser, eventId: string): Promise<EventAccess | null> {
+export async function getEventAccess(
+  admin: AdminUser,
+  eventId: string,
+  capability: Capability = 'event.view'
+): Promise<EventAccess | null> {
   const { data, error } = await supabaseAdmin
     .from('events')
     .select('id, vendor_id')
@@ -112,14 +188,7 @@ export async function getEventAccess(admin: AdminUser, eventId: string): Promise
     .single();
 
   if (error || !data) return null;
-
-  if (admin.role === 'admin' || admin.role === 'moderator') {
-    return data;
-  }
-
-  const vendorScopeId = getVendorScopeId(admin);
-  if (!vendorScopeId) return null;
-  if (data.vendor_id !== vendorScopeId) return null;
+  if (!can(admin, capability, data)) return null;
   return data;
 }
 
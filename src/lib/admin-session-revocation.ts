@@ -0,0 +1,37 @@
+// Kept apart from admin-sessions.ts, which needs the JWT keys, so the admin
+// CLI can revoke sessions with only the Supabase credentials.
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+
+export async function revokeSession(sessionId: string, reason: string) {
+  const { error } = await supabaseAdmin
+    .from('admin_sessions')
+    .update({ revoked_at: new Date().toISOString(), revoked_reason: reason })
+    .eq('id', sessionId)
+    .is('revoked_at', null);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+}
+
+/**
+ * Revoke every live session of an admin, optionally keeping the caller's own.
+ * Returns how many were revoked.
+ */
+export async function revokeAllSessions(adminUserId: string, reason: string, exceptSessionId?: string): Promise<number> {
+  let query = supabaseAdmin
+    .from('admin_sessions')
+    .update({ revoked_at: new Date().toISOString(), revoked_reason: reason })
+    .eq('admin_user_id', adminUserId)
+    .is('revoked_at', null);
+
+  if (exceptSessionId) {
+    query = query.neq('id', exceptSessionId);
+  }
+
+  const { data, error } = await query.select('id');
+  if (error) {
+    throw new Error(error.message);
+  }
+  return (data ?? []).length;
+}
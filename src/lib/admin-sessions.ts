@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  isSignedWithRetiredKey,
+  resignAdminJWT,
+  signAdminJWT,
+  verifyAdminJWT,
+  type AdminJWTClaims,
+} from '@/lib/jwt';
+import { getClientIp } from '@/lib/client-ip';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+
+export const ADMIN_COOKIE = 'admin_token';
+const SESSION_TTL_SECONDS = 60 * 60 * 24 * 7; // 7 days, matches the JWT expiry
+const LAST_SEEN_THROTTLE_MS = 5 * 60 * 1000;
+
+export type AdminSession = {
+  id: string;
+  admin_user_id: string;
+  ip: string | null;
+  user_agent: string | null;
+  created_at: string;
+  last_seen_at: string;
+  expires_at: string;
+};
+
+const SESSION_COLUMNS = 'id, admin_user_id, ip, user_agent, created_at, last_seen_at, expires_at';
+
+export function setAdminCookie(res: NextResponse, token: string) {
+  res.cookies.set(ADMIN_COOKIE, token, {
+    httpOnly: true,
+    sameSite: 'strict',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: SESSION_TTL_SECONDS,
+  });
+}
+
+export function clearAdminCookie(res: NextResponse) {
+  res.cookies.set(ADMIN_COOKIE, '', {
+    httpOnly: true,
+    sameSite: 'strict',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: 0,
+    expires: new Date(0),
+  });
+}
+
+/**
+ * Decode the admin cookie without touching the database
+ */
+export function getAdminTokenClaims(req: NextRequest): AdminJWTClaims | null {
+  const token = req.cookies.get(ADMIN_COOKIE)?.value;
+  if (!token) return null;
+  try {
+    return verifyAdminJWT(token);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Re-sign a cookie token issued under a retired key with the primary key.
+ * The session and expiry are unchanged, so key rotation never signs anyone out.
+ */
+export function refreshAdminCookie(req: NextRequest, res: NextResponse) {
+  const claims = getAdminTokenClaims(req);
+  if (claims && isSignedWithRetiredKey(claims)) {
+    setAdminCookie(res, resignAdminJWT(claims));
+  }
+}
+
+/**
+ * Create a session row for the admin and return a signed token bound to it
+ */
+export async function createAdminSession(adminUserId: string, req: Request): Promise<{ sessionId: string; token: string }> {
+  const expiresAt = new Date(Date.now() + SESSION_TTL_SECONDS * 1000).toISOString();
+  const { data, error } = await supabaseAdmin
+    .from('admin_sessions')
+    .insert({
+      admin_user_id: adminUserId,
+      ip: getClientIp(req),
+      user_agent: req.headers.get('user-agent'),
+      expires_at: expiresAt,
+    })
+    .select('id')
+    .single();
+
+  if (error || !data) {
+    throw new Error(error?.message ?? 'Failed to create session');
+  }
+
+  return { sessionId: data.id, token: signAdminJWT(adminUserId, data.id) };
+}
+
+/**
+ * Resolve the session referenced by a token, or null if it was revoked or expired
+ */
+export async function findActiveSession(claims: AdminJWTClaims): Promise<AdminSession | null> {
+  const { data, error } = await supabaseAdmin
+    .from('admin_sessions')
+    .select(SESSION_COLUMNS)
+    .eq('id', claims.sid)
+    .eq('admin_user_id', claims.sub)
+    .is('revoked_at', null)
+    .gt('expires_at', new Date().toISOString())
+    .maybeSingle();
+
+  if (error || !data) return null;
+
+  if (Date.now() - Date.parse(data.last_seen_at) > LAST_SEEN_THROTTLE_MS) {
+    await supabaseAdmin
+      .from('admin_sessions')
+      .update({ last_seen_at: new Date().toISOString() })
+      .eq('id', data.id);
+  }
+
+  return data;
+}
+
+export async function listActiveSessions(adminUserId: string): Promise<AdminSession[]> {
+  const { data, error } = await supabaseAdmin
+    .from('admin_sessions')
+    .select(SESSION_COLUMNS)
+    .eq('admin_user_id', adminUserId)
+    .is('revoked_at', null)
+    .gt('expires_at', new Date().toISOString())
+    .order('last_seen_at', { ascending: false });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  return data ?? [];
+}
@@ -0,0 +1,160 @@
+import { NextResponse } from 'next/server';
+import type { AdminRole } from '@/lib/admin-auth';
+import { appUrl } from '@/lib/mail';
+import { isAllowedSsoEmail, type OidcConfig, type OidcIdentity } from '@/lib/oidc';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+
+// Holds the signed state between /sso/start and /sso/callback. Lax, unlike the
+// session cookie, because the callback is a navigation from the provider.
+export const SSO_STATE_COOKIE = 'admin_sso_state';
+const SSO_STATE_PATH = '/api/admin/sso';
+
+export function setSsoStateCookie(res: NextResponse, token: string) {
+  res.cookies.set(SSO_STATE_COOKIE, token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: SSO_STATE_PATH,
+    maxAge: 10 * 60,
+  });
+}
+
+export function clearSsoStateCookie(res: NextResponse) {
+  res.cookies.set(SSO_STATE_COOKIE, '', {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: SSO_STATE_PATH,
+    maxAge: 0,
+    expires: new Date(0),
+  });
+}
+
+/**
+ * Back to the sign-in page with the outcome in the URL fragment, which is never
+ * sent to a server, so a login challenge does not end up in access logs.
+ */
+export function ssoRedirect(
+  req: Request,
+  result: { sso: 'complete' } | { sso: 'totp' | 'enroll'; challenge: string } | { sso: 'error'; error: string }
+) {
+  return NextResponse.redirect(appUrl(req, `/signin#${new URLSearchParams(result)}`));
+}
+
+const SSO_USER_COLUMNS = 'id, email, role, status, totp_enabled_at, sso_issuer, sso_subject';
+
+type SsoUser = {
+  id: string;
+  email: string;
+  role: AdminRole;
+  status: string;
+  totp_enabled_at: string | null;
+  sso_issuer: string | null;
+  sso_subject: string | null;
+};
+
+export type SsoAccountResult =
+  | { ok: true; user: SsoUser; linked: boolean; provisioned: boolean }
+  | { ok: false; reason: string; outcome: 'sso_rejected' | 'inactive_account'; adminUserId?: string };
+
+function inactive(user: SsoUser): SsoAccountResult {
+  return { ok: false, reason: 'This account is not active', outcome: 'inactive_account', adminUserId: user.id };
+}
+
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+/**
+ * Find the admin a provider identity signs in as. An identity already linked
+ * wins; otherwise, for a verified email, the account with the same email is
+ * linked to it (only with a domain allow-list configured), or, with JIT
+ * provisioning on, a new account is created at the configured role.
+ */
+export async function resolveSsoAccount(config: OidcConfig, identity: OidcIdentity): Promise<SsoAccountResult> {
+  if (!isAllowedSsoEmail(config, identity.email)) {
+    return { ok: false, reason: 'This email domain may not sign in with SSO', outcome: 'sso_rejected' };
+  }
+
+  const { data: linkedUser, error: linkedError } = await supabaseAdmin
+    .from('admin_users')
+    .select(SSO_USER_COLUMNS)
+    .eq('sso_issuer', identity.issuer)
+    .eq('sso_subject', identity.subject)
+    .maybeSingle<SsoUser>();
+  if (linkedError) throw new Error(linkedError.message);
+  if (linkedUser) {
+    return linkedUser.status === 'active'
+      ? { ok: true, user: linkedUser, linked: false, provisioned: false }
+      : inactive(linkedUser);
+  }
+
+  // Everything below trusts the email, so the provider has to vouch for it.
+  if (!identity.emailVerified) {
+    return { ok: false, reason: 'Your identity provider has not verified this email address', outcome: 'sso_rejected' };
+  }
+
+  // Emails are matched case-insensitively: providers don't agree on casing.
+  const { data: emailUser, error: emailError } = await supabaseAdmin
+    .from('admin_users')
+    .select(SSO_USER_COLUMNS)
+    .ilike('email', escapeLike(identity.email))
+    .maybeSingle<SsoUser>();
+  if (emailError) throw new Error(emailError.message);
+
+  if (emailUser) {
+    // Invitations are accepted by choosing a password; suspended accounts stay out.
+    if (emailUser.status !== 'active') {
+      return inactive(emailUser);
+    }
+    // Linked to a different identity, e.g. the address was reassigned at the provider.
+    if (emailUser.sso_subject) {
+      return {
+        ok: false,
+        reason: 'This account is linked to a different SSO identity',
+        outcome: 'sso_rejected',
+        adminUserId: emailUser.id,
+      };
+    }
+    // Without a domain allow-list any provider account could claim the address.
+    if (config.allowedDomains.length === 0) {
+      return {
+        ok: false,
+        reason: 'SSO cannot link existing accounts until allowed email domains are configured',
+        outcome: 'sso_rejected',
+        adminUserId: emailUser.id,
+      };
+    }
+    const { data, error } = await supabaseAdmin
+      .from('admin_users')
+      .update({ sso_issuer: identity.issuer, sso_subject: identity.subject, sso_linked_at: new Date().toISOString() })
+      .eq('id', emailUser.id)
+      .is('sso_subject', null)
+      .select(SSO_USER_COLUMNS)
+      .single<SsoUser>();
+    if (error) throw new Error(error.message);
+    return { ok: true, user: data, linked: true, provisioned: false };
+  }
+
+  if (!config.jitProvisioning) {
+    return { ok: false, reason: 'No admin account exists for this email', outcome: 'sso_rejected' };
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('admin_users')
+    .insert({
+      email: identity.email,
+      role: config.jitRole,
+      status: 'active',
+      password_hash: null,
+      // Nothing to fall back on: the account only ever had SSO.
+      password_login_disabled: true,
+      sso_issuer: identity.issuer,
+      sso_subject: identity.subject,
+      sso_linked_at: new Date().toISOString(),
+    })
+    .select(SSO_USER_COLUMNS)
+    .single<SsoUser>();
+  if (error) throw new Error(error.message);
+  return { ok: true, user: data, linked: true, provisioned: true };
+}
@@ -0,0 +1,98 @@
+import { revokeAllSessions } from '@/lib/admin-session-revocation';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+
+const SUSPENSION_COLUMNS = 'id, email, role, vendor_id, status, suspended_at, suspended_reason, suspended_by';
+
+/**
+ * Rows elsewhere that point at an admin user and would lose who they are
+ * about if the user were deleted, counted per table and column
+ */
+const REFERENCES = [
+  { table: 'ads', column: 'created_by', label: 'ads created' },
+  { table: 'admin_impersonations', column: 'actor_admin_id', label: 'impersonations started' },
+  { table: 'admin_impersonations', column: 'target_admin_id', label: 'impersonations as them' },
+  { table: 'event_series', column: 'created_by', label: 'event series created' },
+  { table: 'orders', column: 'refund_processed_by', label: 'refunds processed' },
+  { table: 'ticket_gate_scans', column: 'scanned_by_admin_id', label: 'gate scans' },
+] as const;
+
+export type AdminUserReference = { label: string; count: number };
+
+export async function findAdminUserReferences(adminUserId: string): Promise<AdminUserReference[]> {
+  const counts = await Promise.all(
+    REFERENCES.map(async ({ table, column, label }) => {
+      const { count, error } = await supabaseAdmin
+        .from(table)
+        .select('*', { count: 'exact', head: true })
+        .eq(column, adminUserId);
+      if (error) {
+        throw new Error(error.message);
+      }
+      return { label, count: count ?? 0 };
+    })
+  );
+  return counts.filter((reference) => reference.count > 0);
+}
+
+/**
+ * Sign a suspended admin out everywhere and drop anyone viewing as them back
+ * to their own account. Returns how many sessions were revoked.
+ */
+export async function signOutSuspendedAdmin(adminUserId: string): Promise<number> {
+  const revokedSessions = await revokeAllSessions(adminUserId, 'account_suspended');
+  const { error } = await supabaseAdmin
+    .from('admin_impersonations')
+    .update({ ended_at: new Date().toISOString() })
+    .eq('target_admin_id', adminUserId)
+    .is('ended_at', null);
+  if (error) {
+    throw new Error(error.message);
+  }
+  return revokedSessions;
+}
+
+/**
+ * Suspend an active admin: they are signed out everywhere, anyone viewing as
+ * them is dropped back to their own account, and their API keys stop working
+ * because requests are only honoured for active users. `suspendedBy` is null
+ * when no admin did it, e.g. from the CLI.
+ */
+export async function suspendAdminUser(adminUserId: string, reason: string, suspendedBy: string | null) {
+  const { data, error } = await supabaseAdmin
+    .from('admin_users')
+    .update({
+      status: 'suspended',
+      suspended_at: new Date().toISOString(),
+      suspended_reason: reason,
+      suspended_by: suspendedBy,
+    })
+    .eq('id', adminUserId)
+    .eq('status', 'active')
+    .select(SUSPENSION_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  if (!data) {
+    return null;
+  }
+
+  const revokedSessions = await signOutSuspendedAdmin(adminUserId);
+  return { user: data, revokedSessions };
+}
+
+export async function reinstateAdminUser(adminUserId: string) {
+  const { data, error } = await supabaseAdmin
+    .from('admin_users')
+    .update({ status: 'active', suspended_at: null, suspended_reason: null, suspended_by: null })
+    .eq('id', adminUserId)
+    .eq('status', 'suspended')
+    .select(SUSPENSION_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  return data;
+}
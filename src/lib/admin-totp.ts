@@ -0,0 +1,195 @@
+import QRCode from 'qrcode';
+import type { AdminRole } from '@/lib/admin-auth';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import {
+  buildOtpauthUrl,
+  findTotpStep,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  hashRecoveryCode,
+} from '@/lib/totp';
+
+export type RolePolicy = {
+  role: AdminRole;
+  require_totp: boolean;
+};
+
+
+export async function listRolePolicies(): Promise<RolePolicy[]> {
+  const { data, error } = await supabaseAdmin
+    .from('admin_role_policies')
+    .select('role, require_totp')
+    .order('role', { ascending: true });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  return data ?? [];
+}
+
+export async function isTotpRequiredForRole(role: AdminRole): Promise<boolean> {
+  const { data } = await supabaseAdmin
+    .from('admin_role_policies')
+    .select('require_totp')
+    .eq('role', role)
+    .maybeSingle();
+  return !!data?.require_totp;
+}
+
+export async function getTotpStatus(adminId: string) {
+  const { data, error } = await supabaseAdmin
+    .from('admin_users')
+    .select('role, totp_enabled_at, totp_recovery_codes')
+    .eq('id', adminId)
+    .single();
+
+  if (error || !data) {
+    throw new Error(error?.message ?? 'Admin user not found');
+  }
+
+  return {
+    enabled: !!data.totp_enabled_at,
+    enabled_at: data.totp_enabled_at as string | null,
+    required: await isTotpRequiredForRole(data.role),
+    recovery_codes_remaining: (data.totp_recovery_codes ?? []).length,
+  };
+}
+
+/**
+ * Generate a pending secret; it only becomes active once a code from it is confirmed
+ */
+export async function startTotpEnrollment(principal: { id: string; email: string }) {
+  const secret = generateTotpSecret();
+  const { error } = await supabaseAdmin
+    .from('admin_users')
+    .update({ totp_pending_secret: secret })
+    .eq('id', principal.id);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  const otpauthUrl = buildOtpauthUrl(principal.email, secret);
+  const qrDataUrl = await QRCode.toDataURL(otpauthUrl, { margin: 1, width: 220 });
+  return { secret, otpauth_url: otpauthUrl, qr_data_url: qrDataUrl };
+}
+
+/**
+ * Activate the pending secret. Returns fresh recovery codes, or null if the code is wrong.
+ */
+export async function confirmTotpEnrollment(adminId: string, code: string): Promise<string[] | null> {
+  const { data, error } = await supabaseAdmin
+    .from('admin_users')
+    .select('totp_pending_secret')
+    .eq('id', adminId)
+    .single();
+
+  if (error || !data?.totp_pending_secret) return null;
+  const step = findTotpStep(data.totp_pending_secret, code);
+  if (step === null) return null;
+
+  const { codes, hashes } = generateRecoveryCodes();
+  const { error: updateError } = await supabaseAdmin
+    .from('admin_users')
+    .update({
+      totp_secret: data.totp_pending_secret,
+      totp_pending_secret: null,
+      totp_enabled_at: new Date().toISOString(),
+      totp_recovery_codes: hashes,
+      // The confirming code must not also work for the next sign-in.
+      totp_last_used_step: step,
+    })
+    .eq('id', adminId);
+
+  if (updateError) {
+    throw new Error(updateError.message);
+  }
+  return codes;
+}
+
+/**
+ * Check a TOTP code or a recovery code. Each TOTP time step is accepted once
+ * and recovery codes are consumed on use; both are claimed with a conditional
+ * update so two requests racing with the same code cannot both pass.
+ */
+export async function verifyTotpForAdmin(adminId: string, code: string): Promise<boolean> {
+  const { data, error } = await supabaseAdmin
+    .from('admin_users')
+    .select('totp_secret, totp_enabled_at, totp_last_used_step')
+    .eq('id', adminId)
+    .single();
+
+  if (error || !data?.totp_enabled_at || !data.totp_secret) return false;
+  const step = findTotpStep(data.totp_secret, code);
+  if (step !== null) {
+    const lastStep = data.totp_last_used_step as number | null;
+    if (lastStep !== null && step <= lastStep) return false;
+    const { data: claimed, error: claimError } = await supabaseAdmin
+      .from('admin_users')
+      .update({ totp_last_used_step: step })
+      .eq('id', adminId)
+      .or(`totp_last_used_step.is.null,totp_last_used_step.lt.${step}`)
+      .select('id');
+    return !claimError && (claimed ?? []).length === 1;
+  }
+
+  return consumeRecoveryCode(adminId, hashRecoveryCode(code));
+}
+
+const RECOVERY_CODE_ATTEMPTS = 3;
+
+// The update only applies while the list is exactly as read, so a code spent
+// by a concurrent request is neither spent twice nor brought back.
+async function consumeRecoveryCode(adminId: string, hash: string): Promise<boolean> {
+  for (let attempt = 0; attempt < RECOVERY_CODE_ATTEMPTS; attempt++) {
+    const { data, error } = await supabaseAdmin
+      .from('admin_users')
+      .select('totp_recovery_codes')
+      .eq('id', adminId)
+      .single();
+    if (error || !data) return false;
+
+    const remaining = (data.totp_recovery_codes ?? []) as string[];
+    if (!remaining.includes(hash)) return false;
+
+    const { data: updated, error: updateError } = await supabaseAdmin
+      .from('admin_users')
+      .update({ totp_recovery_codes: remaining.filter((item) => item !== hash) })
+      .eq('id', adminId)
+      .filter('totp_recovery_codes', 'eq', `{${remaining.join(',')}}`)
+      .select('id');
+    if (updateError) return false;
+    if ((updated ?? []).length === 1) return true;
+  }
+  return false;
+}
+
+export async function regenerateRecoveryCodes(adminId: string): Promise<string[]> {
+  const { codes, hashes } = generateRecoveryCodes();
+  const { error } = await supabaseAdmin
+    .from('admin_users')
+    .update({ totp_recovery_codes: hashes })
+    .eq('id', adminId);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  return codes;
+}
+
+export async function disableTotp(adminId: string) {
+  const { error } = await supabaseAdmin
+    .from('admin_users')
+    .update({
+      totp_secret: null,
+      totp_pending_secret: null,
+      totp_enabled_at: null,
+      totp_recovery_codes: [],
+      totp_last_used_step: null,
+    })
+    .eq('id', adminId);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+}
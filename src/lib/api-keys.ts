@@ -0,0 +1,127 @@
+import { createHash, randomBytes } from 'crypto';
+import { NextRequest } from 'next/server';
+import type { Capability } from '@/lib/permissions';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+
+const API_KEY_PREFIX = 'hhk_';
+const LAST_USED_THROTTLE_MS = 60 * 1000;
+
+export type ApiKey = {
+  id: string;
+  name: string;
+  key_prefix: string;
+  admin_user_id: string;
+  capabilities: Capability[];
+  event_id: string | null;
+  created_by: string | null;
+  created_at: string;
+  expires_at: string;
+  last_used_at: string | null;
+  last_used_ip: string | null;
+  revoked_at: string | null;
+};
+
+const API_KEY_COLUMNS =
+  'id, name, key_prefix, admin_user_id, capabilities, event_id, created_by, created_at, expires_at, last_used_at, last_used_ip, revoked_at';
+
+function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * The key from an `Authorization: Bearer hhk_...` header, if one was sent
+ */
+export function getBearerApiKey(req: NextRequest): string | null {
+  const header = req.headers.get('authorization');
+  const match = header?.match(/^Bearer\s+(\S+)$/i);
+  if (!match || !match[1].startsWith(API_KEY_PREFIX)) return null;
+  return match[1];
+}
+
+/**
+ * Store a new key and return it in plain text. This is the only time the
+ * full key is available; afterwards only its prefix can be shown.
+ */
+export async function createApiKey(input: {
+  name: string;
+  adminUserId: string;
+  capabilities: Capability[];
+  eventId: string | null;
+  expiresAt: string;
+  createdBy: string;
+}): Promise<{ key: string; apiKey: ApiKey }> {
+  const key = API_KEY_PREFIX + randomBytes(32).toString('base64url');
+  const { data, error } = await supabaseAdmin
+    .from('admin_api_keys')
+    .insert({
+      name: input.name,
+      key_prefix: key.slice(0, 12),
+      key_hash: hashApiKey(key),
+      admin_user_id: input.adminUserId,
+      capabilities: input.capabilities,
+      event_id: input.eventId,
+      expires_at: input.expiresAt,
+      created_by: input.createdBy,
+    })
+    .select(API_KEY_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    throw new Error(error?.message ?? 'Failed to create API key');
+  }
+  return { key, apiKey: data };
+}
+
+/**
+ * Resolve a presented key, or null if it is unknown, revoked or expired.
+ * Nothing is cached, so revocation takes effect on the next request.
+ */
+export async function findActiveApiKey(key: string, ip: string | null): Promise<ApiKey | null> {
+  const { data, error } = await supabaseAdmin
+    .from('admin_api_keys')
+    .select(API_KEY_COLUMNS)
+    .eq('key_hash', hashApiKey(key))
+    .is('revoked_at', null)
+    .gt('expires_at', new Date().toISOString())
+    .maybeSingle();
+
+  if (error || !data) return null;
+
+  if (!data.last_used_at || Date.now() - Date.parse(data.last_used_at) > LAST_USED_THROTTLE_MS) {
+    await supabaseAdmin
+      .from('admin_api_keys')
+      .update({ last_used_at: new Date().toISOString(), last_used_ip: ip })
+      .eq('id', data.id);
+  }
+
+  return data;
+}
+
+export async function listApiKeys(): Promise<ApiKey[]> {
+  const { data, error } = await supabaseAdmin
+    .from('admin_api_keys')
+    .select(API_KEY_COLUMNS)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  return data ?? [];
+}
+
+/**
+ * Revoke a key; returns false if it does not exist or was already revoked
+ */
+export async function revokeApiKey(id: string, revokedBy: string): Promise<boolean> {
+  const { data, error } = await supabaseAdmin
+    .from('admin_api_keys')
+    .update({ revoked_at: new Date().toISOString(), revoked_by: revokedBy })
+    .eq('id', id)
+    .is('revoked_at', null)
+    .select('id');
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  return (data ?? []).length > 0;
+}
@@ -0,0 +1,116 @@
+import type { AdminUser } from '@/lib/admin-auth';
+import { getClientIp } from '@/lib/client-ip';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+
+// Append-only record of who changed what. Sign-ins, sign-outs and password
+// resets are already kept in admin_login_attempts and admin_sessions, so they
+// are not repeated here.
+
+type AuditRecord = Record<string, unknown>;
+
+export type AuditEntry = {
+  action: string;
+  entityType: string;
+  entityId?: string | null;
+  before?: AuditRecord | null;
+  after?: AuditRecord | null;
+};
+
+export type AuditChanges = Record<string, { from: unknown; to: unknown }>;
+
+// Never copied into the log, whatever table they come from.
+const REDACTED_FIELDS = new Set([
+  'password_hash',
+  'password',
+  'totp_secret',
+  'totp_pending_secret',
+  'totp_recovery_codes',
+  'token_hash',
+  'key_hash',
+  'payout_account_number',
+]);
+
+function redact(record: AuditRecord | null | undefined): AuditRecord | null {
+  if (!record) return null;
+  return Object.fromEntries(
+    Object.entries(record).map(([key, value]) => [key, REDACTED_FIELDS.has(key) ? '[redacted]' : value])
+  );
+}
+
+/**
+ * Field-level differences between two versions of a row. Only fields present
+ * in `after` are compared, so callers may pass a partial row for either side.
+ */
+export function diffRecords(before: AuditRecord | null, after: AuditRecord | null): AuditChanges {
+  const changes: AuditChanges = {};
+  for (const key of Object.keys(after ?? {})) {
+    const from = before?.[key] ?? null;
+    const to = after?.[key] ?? null;
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[key] = { from, to };
+    }
+  }
+  return changes;
+}
+
+/**
+ * Who made a change and from where, for entries written outside a request
+ * (the admin CLI)
+ */
+export type AuditSource = {
+  actorAdminId?: string | null;
+  actorEmail?: string | null;
+  impersonatorAdminId?: string | null;
+  apiKeyId?: string | null;
+  ip?: string | null;
+  userAgent?: string | null;
+};
+
+/**
+ * Append an entry to the audit log, redacting secrets. Throws if the write fails.
+ */
+export async function appendAuditEntry(source: AuditSource, entry: AuditEntry) {
+  const before = redact(entry.before);
+  const after = redact(entry.after);
+
+  const { error } = await supabaseAdmin.from('admin_audit_log').insert({
+    actor_admin_id: source.actorAdminId ?? null,
+    actor_email: source.actorEmail ?? null,
+    impersonator_admin_id: source.impersonatorAdminId ?? null,
+    api_key_id: source.apiKeyId ?? null,
+    action: entry.action,
+    entity_type: entry.entityType,
+    entity_id: entry.entityId ?? null,
+    before,
+    after,
+    changes: before && after ? diffRecords(before, after) : null,
+    ip: source.ip ?? null,
+    user_agent: source.userAgent ?? null,
+  });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+}
+
+/**
+ * Append an entry to the audit log. A failed write is reported but never
+ * fails the change it describes, which has already been committed.
+ */
+export async function recordAudit(req: Request, actor: AdminUser | null, entry: AuditEntry) {
+  try {
+    await appendAuditEntry(
+      {
+        actorAdminId: actor?.id,
+        actorEmail: actor?.email,
+        impersonatorAdminId: actor?.impersonation?.actor_id,
+        apiKeyId: actor?.api_key?.id,
+        ip: getClientIp(req),
+        userAgent: req.headers.get('user-agent'),
+      },
+      entry
+    );
+  } catch (error: unknown) {
+    console.error('Failed to record audit entry:', entry.action, error);
+  }
+}
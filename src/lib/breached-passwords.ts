@@ -0,0 +1,30 @@
+import BREACHED_PASSWORDS from '@/lib/breached-passwords.json';
+import { passwordPolicyIssues } from '@/lib/password-policy';
+
+// Offline list of the most common and most breached passwords, lowercased.
+// Bundled rather than queried so password checks never leave the server.
+const BREACHED = new Set<string>(BREACHED_PASSWORDS);
+
+/**
+ * Whether a password is on the list, either as-is or as a listed word with
+ * digits and symbols tacked on either end ("Summer2024!", "@Hypehaus123").
+ */
+export function isBreachedPassword(password: string): boolean {
+  const normalized = password.trim().toLowerCase();
+  const core = normalized.replace(/^[^a-z]+/, '').replace(/[^a-z]+$/, '');
+  return BREACHED.has(normalized) || (core.length > 0 && BREACHED.has(core));
+}
+
+/**
+ * The reason a new password is refused, or null when it may be used
+ */
+export function checkNewPassword(password: string): string | null {
+  const issues = passwordPolicyIssues(password);
+  if (issues.length > 0) {
+    return `Password does not meet the policy: ${issues.join('; ')}`;
+  }
+  if (isBreachedPassword(password)) {
+    return 'This password is too common or has appeared in a data breach. Choose another.';
+  }
+  return null;
+}
@@ -0,0 +1,7 @@
+export function getClientIp(req: Request): string | null {
+  const forwarded = req.headers.get('x-forwarded-for');
+  if (forwarded) {
+    return forwarded.split(',')[0].trim() || null;
+  }
+  return req.headers.get('x-real-ip');
+}
@@ -0,0 +1,131 @@
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+
+export type TierAllocation = {
+  id: string;
+  name: string;
+  total_quantity: number;
+  sold_quantity: number;
+};
+
+export async function loadEventCapacity(eventId: string): Promise<number | null> {
+  const { data, error } = await supabaseAdmin.from('events').select('capacity').eq('id', eventId).maybeSingle();
+  if (error) {
+    throw new Error(error.message);
+  }
+  return (data?.capacity as number | null | undefined) ?? null;
+}
+
+export async function loadTierAllocations(eventId: string): Promise<TierAllocation[]> {
+  const { data, error } = await supabaseAdmin
+    .from('ticket_tiers')
+    .select('id, name, total_quantity, sold_quantity')
+    .eq('event_id', eventId)
+    .order('created_at', { ascending: true });
+  if (error) {
+    throw new Error(error.message);
+  }
+  return (data ?? []) as TierAllocation[];
+}
+
+export const allocatedQuantity = (tiers: Pick<TierAllocation, 'total_quantity'>[]) =>
+  tiers.reduce((sum, tier) => sum + Number(tier.total_quantity ?? 0), 0);
+
+/**
+ * Why a tier may not be created with, or resized to, the given quantity, or
+ * null when it may. A tier never drops below what it has already sold, and
+ * all of an event's tiers together never offer more than its capacity.
+ */
+export function tierCapacityError(
+  capacity: number | null,
+  tiers: TierAllocation[],
+  tier: { id?: string; total_quantity: number; sold_quantity?: number }
+): string | null {
+  const sold = tier.sold_quantity ?? 0;
+  if (tier.total_quantity < sold) {
+    return `This tier has already sold ${sold} tickets, so it cannot hold fewer.`;
+  }
+  if (capacity === null) return null;
+  const allocated = allocatedQuantity(tiers.filter((row) => row.id !== tier.id)) + tier.total_quantity;
+  if (allocated > capacity) {
+    return `Tiers would offer ${allocated} tickets, over the event capacity of ${capacity}.`;
+  }
+  return null;
+}
+
+/**
+ * Why the event's capacity may not be set to the given value, or null when it
+ * may. Shrink or delete tiers before lowering capacity below what they offer.
+ */
+export function eventCapacityError(capacity: number | null, tiers: TierAllocation[]): string | null {
+  if (capacity === null) return null;
+  const allocated = allocatedQuantity(tiers);
+  if (allocated > capacity) {
+    return `The event's tiers already offer ${allocated} tickets. Shrink them before lowering capacity to ${capacity}.`;
+  }
+  return null;
+}
+
+export type TierReconciliation = TierAllocation & {
+  /** Ticket rows issued for the tier, cancelled ones included */
+  issued: number;
+  cancelled: number;
+  /** sold_quantity minus issued tickets; anything but 0 needs a look */
+  drift: number;
+  oversold: boolean;
+};
+
+export type TicketReconciliation = {
+  capacity: number | null;
+  allocated: number;
+  tiers: TierReconciliation[];
+  /** Tickets for the event whose tier is missing or belongs to another event */
+  unmatched: number;
+  has_drift: boolean;
+};
+
+async function countTickets(filter: { eventId: string; tierId?: string; cancelled?: boolean }) {
+  let query = supabaseAdmin.from('tickets').select('*', { count: 'exact', head: true }).eq('event_id', filter.eventId);
+  if (filter.tierId) query = query.eq('tier_id', filter.tierId);
+  if (filter.cancelled) query = query.eq('status', 'cancelled');
+  const { count, error } = await query;
+  if (error) {
+    throw new Error(error.message);
+  }
+  return count ?? 0;
+}
+
+/**
+ * Compare each tier's sold_quantity with the tickets actually issued for it.
+ * Rejected tickets were still sold, so they count towards issued.
+ */
+export async function reconcileEventTickets(eventId: string, capacity: number | null): Promise<TicketReconciliation> {
+  const allocations = await loadTierAllocations(eventId);
+  const tiers = await Promise.all(
+    allocations.map(async (tier) => {
+      const [issued, cancelled] = await Promise.all([
+        countTickets({ eventId, tierId: tier.id }),
+        countTickets({ eventId, tierId: tier.id, cancelled: true }),
+      ]);
+      return {
+        ...tier,
+        issued,
+        cancelled,
+        drift: tier.sold_quantity - issued,
+        oversold: tier.sold_quantity > tier.total_quantity || issued > tier.total_quantity,
+      };
+    })
+  );
+  const unmatched = (await countTickets({ eventId })) - tiers.reduce((sum, tier) => sum + tier.issued, 0);
+  const allocated = allocatedQuantity(allocations);
+
+  return {
+    capacity,
+    allocated,
+    tiers,
+    unmatched,
+    has_drift:
+      unmatched !== 0 ||
+      tiers.some((tier) => tier.drift !== 0 || tier.oversold) ||
+      (capacity !== null && allocated > capacity),
+  };
+}
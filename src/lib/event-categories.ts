@@ -0,0 +1,82 @@
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+
+export const EVENT_CATEGORY_COLUMNS = 'id, slug, name, icon, parent_id, sort_order, is_active, created_at, updated_at';
+
+export type EventCategory = {
+  id: string;
+  slug: string;
+  name: string;
+  icon: string | null;
+  parent_id: string | null;
+  sort_order: number;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+};
+
+/**
+ * The whole taxonomy, top-level categories and sub-categories alike, in
+ * display order
+ */
+export async function listEventCategories(): Promise<EventCategory[]> {
+  const { data, error } = await supabaseAdmin
+    .from('event_categories')
+    .select(EVENT_CATEGORY_COLUMNS)
+    .order('sort_order', { ascending: true })
+    .order('name', { ascending: true });
+  if (error) {
+    throw new Error(error.message);
+  }
+  return (data ?? []) as EventCategory[];
+}
+
+export type EventClassification = { category?: string | null; subcategory?: string | null };
+
+/**
+ * Why an event's category and sub-category do not fit the stored taxonomy,
+ * or null when they do. Deactivated entries are only accepted on events that
+ * already had them, so retiring a category leaves existing events alone.
+ */
+export function taxonomyError(
+  categories: EventCategory[],
+  event: EventClassification,
+  previous: EventClassification = {}
+): string | null {
+  const bySlug = new Map(categories.map((category) => [category.slug, category]));
+  const category = event.category ? bySlug.get(event.category) : null;
+  if (event.category) {
+    if (!category || category.parent_id) return `Unknown category: ${event.category}`;
+    if (!category.is_active && event.category !== previous.category) return `${category.name} is no longer offered`;
+  }
+  if (event.subcategory) {
+    if (!category) return 'Pick a category before a sub-category';
+    const subcategory = bySlug.get(event.subcategory);
+    if (!subcategory || subcategory.parent_id !== category.id) {
+      return `${event.subcategory} is not a sub-category of ${category.name}`;
+    }
+    if (!subcategory.is_active && event.subcategory !== previous.subcategory) return `${subcategory.name} is no longer offered`;
+  }
+  return null;
+}
+
+/**
+ * What still uses a category and would be left pointing at nothing if it
+ * were deleted
+ */
+export async function findCategoryReferences(category: EventCategory): Promise<{ label: string; count: number }[]> {
+  const [events, subcategories] = await Promise.all([
+    supabaseAdmin
+      .from('events')
+      .select('id', { count: 'exact', head: true })
+      .eq(category.parent_id ? 'subcategory' : 'category', category.slug),
+    supabaseAdmin.from('event_categories').select('id', { count: 'exact', head: true }).eq('parent_id', category.id),
+  ]);
+  const error = events.error ?? subcategories.error;
+  if (error) {
+    throw new Error(error.message);
+  }
+  return [
+    { label: 'events', count: events.count ?? 0 },
+    { label: 'sub-categories', count: subcategories.count ?? 0 },
+  ].filter((reference) => reference.count > 0);
+}
@@ -0,0 +1,189 @@
+import type { AdminUser, EventAccess } from '@/lib/admin-auth';
+import { can, getVendorScopeId } from '@/lib/permissions';
+import { withoutElapsedSchedule, type SchedulableEvent } from '@/lib/event-schedule';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+
+type Row = Record<string, unknown>;
+
+/**
+ * Columns the database fills in for a new row and that never carry over
+ */
+const GENERATED_COLUMNS = ['id', 'created_at', 'updated_at'];
+
+// A copy stands alone unless the caller places it in a series.
+const EVENT_SERIES_COLUMNS = ['is_series_template', 'series_id', 'series_occurrence_date'];
+
+// A copy has not been reviewed, whatever became of the original.
+const EVENT_REVIEW_COLUMNS = ['review_status', 'review_submitted_at'];
+
+const EVENT_DATE_COLUMNS = ['start_at', 'end_at', 'publish_at', 'archive_at'];
+const TIER_DATE_COLUMNS = ['sales_start', 'sales_end'];
+
+export type EventDuplicateParts = {
+  tiers: boolean;
+  images: boolean;
+  entry_gates: boolean;
+};
+
+export type EventDuplicateOptions = {
+  /** Minutes added to every date on the event and its tiers; negative moves them earlier */
+  offsetMinutes: number;
+  /** Column values for the new event that replace the source's */
+  overrides: Row;
+  parts: EventDuplicateParts;
+};
+
+export type EventDuplicate = {
+  event: Row;
+  tiers: Row[];
+  images: Row[];
+  entry_gates: Row[];
+};
+
+const PART_CAPABILITIES = {
+  tiers: { capability: 'event.tiers.manage', label: 'ticket tiers' },
+  images: { capability: 'event.images.manage', label: 'images' },
+  entry_gates: { capability: 'event.gates.manage', label: 'entry gates' },
+} as const;
+
+export type EventDuplicateScope =
+  | { ok: true; parts: EventDuplicateParts; overrides: Row }
+  | { ok: false; error: string };
+
+/**
+ * What an admin may carry over from an event, as if they had entered the copy
+ * by hand: parts left unspecified are copied when they could manage them, and
+ * settings they cannot change fall back to their defaults.
+ */
+export function getDuplicateScope(
+  admin: AdminUser,
+  event: EventAccess,
+  requested: Partial<EventDuplicateParts> = {}
+): EventDuplicateScope {
+  const parts = {} as EventDuplicateParts;
+  for (const [part, { capability, label }] of Object.entries(PART_CAPABILITIES) as [
+    keyof EventDuplicateParts,
+    (typeof PART_CAPABILITIES)[keyof EventDuplicateParts],
+  ][]) {
+    const allowed = can(admin, capability, event);
+    if (requested[part] && !allowed) {
+      return { ok: false, error: `Unauthorized: Cannot copy ${label}` };
+    }
+    parts[part] = requested[part] ?? allowed;
+  }
+
+  const overrides: Row = {};
+  if (!can(admin, 'event.vendor.assign')) {
+    overrides.vendor_id = getVendorScopeId(admin);
+  }
+  if (!can(admin, 'event.publish', event)) {
+    overrides.publish_at = null;
+  }
+  if (!can(admin, 'event.settings.manage', event)) {
+    overrides.allow_cab = false;
+    overrides.require_instagram_verification = false;
+    overrides.require_email_domain_verification = false;
+    overrides.allowed_email_domains = [];
+  }
+  if (!parts.entry_gates) {
+    overrides.enable_entry_gate_flow = false;
+  }
+  return { ok: true, parts, overrides };
+}
+
+function shiftDate(value: unknown, offsetMinutes: number) {
+  if (typeof value !== 'string' || !value || offsetMinutes === 0) return value;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? value : new Date(time + offsetMinutes * 60_000).toISOString();
+}
+
+function copyRow(row: Row, dateColumns: string[], offsetMinutes: number): Row {
+  const copy: Row = { ...row };
+  for (const column of GENERATED_COLUMNS) delete copy[column];
+  for (const column of dateColumns) {
+    if (column in copy) copy[column] = shiftDate(copy[column], offsetMinutes);
+  }
+  return copy;
+}
+
+async function loadChildren(table: string, eventId: string, orderColumn: string): Promise<Row[]> {
+  const { data, error } = await supabaseAdmin
+    .from(table)
+    .select('*')
+    .eq('event_id', eventId)
+    .order(orderColumn, { ascending: true });
+  if (error) {
+    throw new Error(error.message);
+  }
+  return data ?? [];
+}
+
+async function insertChildren(table: string, rows: Row[]): Promise<Row[]> {
+  if (rows.length === 0) return [];
+  const { data, error } = await supabaseAdmin.from(table).insert(rows).select('*');
+  if (error) {
+    throw new Error(error.message);
+  }
+  return data ?? [];
+}
+
+/**
+ * Copy an event into a new row, along with whichever of its tiers, images and
+ * entry gates are asked for. Tiers start with nothing sold; images point at
+ * the same uploaded files, and publish or archive times that the shift leaves
+ * in the past are cleared. If any part fails to copy the new event is removed
+ * again, so a failed duplicate leaves nothing behind.
+ */
+export async function duplicateEvent(sourceEventId: string, options: EventDuplicateOptions): Promise<EventDuplicate | null> {
+  const { data: source, error: sourceError } = await supabaseAdmin
+    .from('events')
+    .select('*')
+    .eq('id', sourceEventId)
+    .maybeSingle();
+  if (sourceError) {
+    throw new Error(sourceError.message);
+  }
+  if (!source) {
+    return null;
+  }
+
+  const { offsetMinutes, parts } = options;
+  const [sourceTiers, sourceImages, sourceGates] = await Promise.all([
+    parts.tiers ? loadChildren('ticket_tiers', sourceEventId, 'created_at') : [],
+    parts.images ? loadChildren('event_images', sourceEventId, 'position') : [],
+    parts.entry_gates ? loadChildren('event_entry_gates', sourceEventId, 'sort_order') : [],
+  ]);
+
+  // A publish or archive time already past would be acted on by the next scheduler run.
+  const eventRow = withoutElapsedSchedule(
+    copyRow(source, EVENT_DATE_COLUMNS, offsetMinutes) as Row & Pick<SchedulableEvent, 'publish_at' | 'archive_at'>
+  );
+  for (const column of [...EVENT_SERIES_COLUMNS, ...EVENT_REVIEW_COLUMNS]) delete eventRow[column];
+  const { data: event, error: eventError } = await supabaseAdmin
+    .from('events')
+    .insert({ ...eventRow, ...options.overrides })
+    .select('*')
+    .single();
+  if (eventError) {
+    throw new Error(eventError.message);
+  }
+
+  try {
+    const tiers = await insertChildren(
+      'ticket_tiers',
+      sourceTiers.map((tier) => ({ ...copyRow(tier, TIER_DATE_COLUMNS, offsetMinutes), event_id: event.id, sold_quantity: 0 }))
+    );
+    const images = await insertChildren(
+      'event_images',
+      sourceImages.map((image) => ({ ...copyRow(image, [], offsetMinutes), event_id: event.id }))
+    );
+    const entryGates = await insertChildren(
+      'event_entry_gates',
+      sourceGates.map((gate) => ({ ...copyRow(gate, [], offsetMinutes), event_id: event.id }))
+    );
+    return { event, tiers, images, entry_gates: entryGates };
+  } catch (error) {
+    await supabaseAdmin.from('events').delete().eq('id', event.id);
+    throw error;
+  }
+}
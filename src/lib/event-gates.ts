@@ -0,0 +1,88 @@
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+
+export type GateInput = {
+  id?: string;
+  name: string;
+  code?: string;
+  sort_order?: number;
+  is_active?: boolean;
+};
+
+/**
+ * Make an event's gates match the given list: gates with a known id are
+ * updated, the rest inserted, and gates missing from the list deleted.
+ */
+export async function syncEventGates(eventId: string, incomingGates: GateInput[]) {
+  const normalized = incomingGates.map((gate, index) => ({
+    id: gate.id,
+    event_id: eventId,
+    name: gate.name,
+    code: gate.code ?? null,
+    sort_order: gate.sort_order ?? index,
+    is_active: gate.is_active !== false,
+  }));
+
+  const { data: existingGates, error: existingGatesError } = await supabaseAdmin
+    .from('event_entry_gates')
+    .select('id')
+    .eq('event_id', eventId);
+
+  if (existingGatesError) {
+    throw new Error(existingGatesError.message);
+  }
+
+  const existingIds = new Set((existingGates ?? []).map((gate) => gate.id));
+  const keepIds = new Set(normalized.filter((gate) => gate.id).map((gate) => gate.id as string));
+
+  const toDelete = [...existingIds].filter((id) => !keepIds.has(id));
+  if (toDelete.length > 0) {
+    const { error: deleteError } = await supabaseAdmin
+      .from('event_entry_gates')
+      .delete()
+      .in('id', toDelete);
+    if (deleteError) {
+      throw new Error(deleteError.message);
+    }
+  }
+
+  for (const gate of normalized) {
+    if (gate.id && existingIds.has(gate.id)) {
+      const { error: updateError } = await supabaseAdmin
+        .from('event_entry_gates')
+        .update({
+          name: gate.name,
+          code: gate.code,
+          sort_order: gate.sort_order,
+          is_active: gate.is_active,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', gate.id);
+      if (updateError) {
+        throw new Error(updateError.message);
+      }
+      continue;
+    }
+
+    const { error: insertError } = await supabaseAdmin
+      .from('event_entry_gates')
+      .insert({
+        event_id: eventId,
+        name: gate.name,
+        code: gate.code,
+        sort_order: gate.sort_order,
+        is_active: gate.is_active,
+      });
+    if (insertError) {
+      throw new Error(insertError.message);
+    }
+  }
+}
+
+export async function loadEventGates(eventId: string) {
+  const { data } = await supabaseAdmin
+    .from('event_entry_gates')
+    .select('id, name, code, sort_order, is_active')
+    .eq('event_id', eventId)
+    .order('sort_order', { ascending: true });
+  return data ?? [];
+}
@@ -0,0 +1,116 @@
+import type { AdminUser } from '@/lib/admin-auth';
+import { can, type PermissionResource } from '@/lib/permissions';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+
+export const REVIEW_COMMENT_COLUMNS = 'id, event_id, kind, body, author_admin_id, author_email, author_is_reviewer, created_at';
+
+export type ReviewStatus = 'pending' | 'changes_requested' | 'approved';
+
+export type ReviewCommentKind = 'comment' | 'submitted' | 'approved' | 'changes_requested';
+
+export type EventReviewComment = {
+  id: string;
+  event_id: string;
+  kind: ReviewCommentKind;
+  body: string | null;
+  author_admin_id: string | null;
+  author_email: string | null;
+  author_is_reviewer: boolean;
+  created_at: string;
+};
+
+/**
+ * Reviewers are whoever may publish the event themselves
+ */
+export function isEventReviewer(admin: AdminUser, event: PermissionResource) {
+  return can(admin, 'event.publish', event);
+}
+
+/**
+ * The vendor side (anyone who edits the event) and reviewers take part in its discussion
+ */
+export function canDiscussEvent(admin: AdminUser, event: PermissionResource) {
+  return can(admin, 'event.edit', event) || isEventReviewer(admin, event);
+}
+
+export async function listReviewComments(eventId: string): Promise<EventReviewComment[]> {
+  const { data, error } = await supabaseAdmin
+    .from('event_review_comments')
+    .select(REVIEW_COMMENT_COLUMNS)
+    .eq('event_id', eventId)
+    .order('created_at', { ascending: true });
+  if (error) {
+    throw new Error(error.message);
+  }
+  return (data ?? []) as EventReviewComment[];
+}
+
+export async function addReviewComment(
+  event: PermissionResource & { id: string },
+  author: AdminUser,
+  kind: ReviewCommentKind,
+  body: string | null
+): Promise<EventReviewComment> {
+  const { data, error } = await supabaseAdmin
+    .from('event_review_comments')
+    .insert({
+      event_id: event.id,
+      kind,
+      body,
+      author_admin_id: author.id,
+      author_email: author.email,
+      author_is_reviewer: isEventReviewer(author, event),
+    })
+    .select(REVIEW_COMMENT_COLUMNS)
+    .single();
+  if (error || !data) {
+    throw new Error(error?.message ?? 'Failed to add comment');
+  }
+  return data as EventReviewComment;
+}
+
+/**
+ * Move an event's review along, but only from one of the expected states, so
+ * two reviewers deciding at once cannot both win. Returns null when the event
+ * was no longer in one of those states.
+ */
+export async function transitionReview(
+  eventId: string,
+  from: (ReviewStatus | null)[],
+  changes: Record<string, unknown>
+): Promise<Record<string, unknown> | null> {
+  const states = from.filter((state): state is ReviewStatus => state !== null);
+  const filters = [...(states.length ? [`review_status.in.(${states.join(',')})`] : []), ...(from.includes(null) ? ['review_status.is.null'] : [])];
+  const { data, error } = await supabaseAdmin
+    .from('events')
+    .update(changes)
+    .eq('id', eventId)
+    .or(filters.join(','))
+    .select('*')
+    .maybeSingle();
+  if (error) {
+    throw new Error(error.message);
+  }
+  return data;
+}
+
+/**
+ * The latest request for changes on each event still waiting on one
+ */
+export async function latestChangeRequests(eventIds: string[]): Promise<Record<string, EventReviewComment>> {
+  if (eventIds.length === 0) return {};
+  const { data, error } = await supabaseAdmin
+    .from('event_review_comments')
+    .select(REVIEW_COMMENT_COLUMNS)
+    .in('event_id', eventIds)
+    .eq('kind', 'changes_requested')
+    .order('created_at', { ascending: false });
+  if (error) {
+    throw new Error(error.message);
+  }
+  const latest: Record<string, EventReviewComment> = {};
+  for (const comment of (data ?? []) as EventReviewComment[]) {
+    latest[comment.event_id] ??= comment;
+  }
+  return latest;
+}
@@ -0,0 +1,445 @@
+import type { AdminUser } from '@/lib/admin-auth';
+import { diffRecords, type AuditChanges } from '@/lib/audit';
+import { allocatedQuantity } from '@/lib/event-capacity';
+import { listEventCategories, taxonomyError, type EventClassification } from '@/lib/event-categories';
+import { syncEventGates } from '@/lib/event-gates';
+import { withoutElapsedSchedule, type SchedulableEvent } from '@/lib/event-schedule';
+import { can } from '@/lib/permissions';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { isLinkableVenue } from '@/lib/venues';
+
+type Row = Record<string, unknown>;
+
+export const REVISION_COLUMNS = 'id, event_id, revision_number, action, restored_from_revision_id, actor_admin_id, actor_email, created_at';
+
+export type EventSnapshot = {
+  event: Row;
+  tiers: Row[];
+  images: Row[];
+  entry_gates: Row[];
+};
+
+export type EventRevision = {
+  id: string;
+  event_id: string;
+  revision_number: number;
+  action: string;
+  restored_from_revision_id: string | null;
+  actor_admin_id: string | null;
+  actor_email: string | null;
+  created_at: string;
+};
+
+export type EventRevisionWithSnapshot = EventRevision & { snapshot: EventSnapshot };
+
+export type ItemChange = {
+  id: string;
+  label: string;
+  change: 'added' | 'removed' | 'changed';
+  fields: AuditChanges;
+};
+
+export type SnapshotDiff = {
+  event: AuditChanges;
+  tiers: ItemChange[];
+  images: ItemChange[];
+  entry_gates: ItemChange[];
+};
+
+const COLLECTIONS = ['tiers', 'images', 'entry_gates'] as const;
+
+// Bookkeeping that changes without anyone editing the event.
+const IGNORED_FIELDS = new Set(['created_at', 'updated_at', 'event_id', 'sold_quantity']);
+
+// Never rolled back: ownership, series membership and review are managed elsewhere.
+const PINNED_EVENT_FIELDS = [
+  'id',
+  'created_at',
+  'updated_at',
+  'vendor_id',
+  'is_series_template',
+  'series_id',
+  'series_occurrence_date',
+  'review_status',
+  'review_submitted_at',
+];
+
+const SETTINGS_FIELDS = ['allow_cab', 'require_instagram_verification', 'require_email_domain_verification', 'allowed_email_domains'];
+
+export async function loadEventSnapshot(eventId: string): Promise<EventSnapshot | null> {
+  const [event, tiers, images, gates] = await Promise.all([
+    supabaseAdmin.from('events').select('*').eq('id', eventId).maybeSingle(),
+    supabaseAdmin.from('ticket_tiers').select('*').eq('event_id', eventId).order('created_at', { ascending: true }),
+    supabaseAdmin.from('event_images').select('*').eq('event_id', eventId).order('position', { ascending: true }),
+    supabaseAdmin.from('event_entry_gates').select('*').eq('event_id', eventId).order('sort_order', { ascending: true }),
+  ]);
+  const error = event.error ?? tiers.error ?? images.error ?? gates.error;
+  if (error) {
+    throw new Error(error.message);
+  }
+  if (!event.data) return null;
+  return { event: event.data, tiers: tiers.data ?? [], images: images.data ?? [], entry_gates: gates.data ?? [] };
+}
+
+async function insertRevision(eventId: string, actor: AdminUser | null, action: string, restoredFrom: string | null) {
+  const snapshot = await loadEventSnapshot(eventId);
+  if (!snapshot) return;
+  // Two saves racing for the same number: the loser takes the next one.
+  for (let attempt = 0; attempt < 3; attempt += 1) {
+    const { data: latest } = await supabaseAdmin
+      .from('event_revisions')
+      .select('revision_number')
+      .eq('event_id', eventId)
+      .order('revision_number', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    const { error } = await supabaseAdmin.from('event_revisions').insert({
+      event_id: eventId,
+      revision_number: (latest?.revision_number ?? 0) + 1,
+      action,
+      snapshot,
+      restored_from_revision_id: restoredFrom,
+      actor_admin_id: actor?.id ?? null,
+      actor_email: actor?.email ?? null,
+    });
+    if (!error) return;
+    if (error.code !== '23505') {
+      throw new Error(error.message);
+    }
+  }
+  throw new Error('Could not allocate a revision number');
+}
+
+/**
+ * Keep the state an event is in before its first recorded save, so edits
+ * made to events that predate revision history can still be rolled back.
+ * Call before changing the event.
+ */
+export async function ensureBaselineRevision(eventId: string) {
+  try {
+    const { count, error } = await supabaseAdmin
+      .from('event_revisions')
+      .select('id', { count: 'exact', head: true })
+      .eq('event_id', eventId);
+    if (error) {
+      throw new Error(error.message);
+    }
+    if (!count) await insertRevision(eventId, null, 'event.baseline', null);
+  } catch (error: unknown) {
+    console.error('Failed to record baseline revision:', eventId, error);
+  }
+}
+
+/**
+ * Snapshot an event as it is after a save. Like the audit log, a failed write
+ * is reported but never fails the save it describes.
+ */
+export async function recordEventRevision(
+  eventId: string,
+  actor: AdminUser | null,
+  action: string,
+  restoredFrom: string | null = null
+) {
+  try {
+    await insertRevision(eventId, actor, action, restoredFrom);
+  } catch (error: unknown) {
+    console.error('Failed to record event revision:', eventId, action, error);
+  }
+}
+
+export async function listEventRevisions(eventId: string): Promise<EventRevision[]> {
+  const { data, error } = await supabaseAdmin
+    .from('event_revisions')
+    .select(REVISION_COLUMNS)
+    .eq('event_id', eventId)
+    .order('revision_number', { ascending: false });
+  if (error) {
+    throw new Error(error.message);
+  }
+  return (data ?? []) as EventRevision[];
+}
+
+export async function findEventRevision(
+  eventId: string,
+  query: { id: string } | { before: number }
+): Promise<EventRevisionWithSnapshot | null> {
+  let builder = supabaseAdmin.from('event_revisions').select(`${REVISION_COLUMNS}, snapshot`).eq('event_id', eventId);
+  builder =
+    'id' in query
+      ? builder.eq('id', query.id)
+      : builder.lt('revision_number', query.before).order('revision_number', { ascending: false }).limit(1);
+  const { data, error } = await builder.maybeSingle();
+  if (error) {
+    throw new Error(error.message);
+  }
+  return data as EventRevisionWithSnapshot | null;
+}
+
+function withoutIgnored(row: Row | undefined): Row | null {
+  if (!row) return null;
+  return Object.fromEntries(Object.entries(row).filter(([key]) => !IGNORED_FIELDS.has(key)));
+}
+
+function itemLabel(row: Row) {
+  return String(row.name ?? row.url ?? row.id);
+}
+
+function diffCollection(before: Row[], after: Row[]): ItemChange[] {
+  const beforeById = new Map(before.map((row) => [row.id as string, row]));
+  const afterIds = new Set(after.map((row) => row.id as string));
+  const changes: ItemChange[] = [];
+  for (const row of after) {
+    const previous = beforeById.get(row.id as string);
+    const fields = diffRecords(withoutIgnored(previous), withoutIgnored(row));
+    if (!previous) {
+      changes.push({ id: row.id as string, label: itemLabel(row), change: 'added', fields });
+    } else if (Object.keys(fields).length > 0) {
+      changes.push({ id: row.id as string, label: itemLabel(row), change: 'changed', fields });
+    }
+  }
+  for (const row of before) {
+    if (!afterIds.has(row.id as string)) {
+      const fields = Object.fromEntries(Object.entries(withoutIgnored(row) ?? {}).map(([key, from]) => [key, { from, to: null }]));
+      changes.push({ id: row.id as string, label: itemLabel(row), change: 'removed', fields });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Field-level differences from one snapshot to another. Tiers, images and
+ * gates are matched by id.
+ */
+export function diffSnapshots(before: EventSnapshot | null, after: EventSnapshot): SnapshotDiff {
+  return {
+    event: diffRecords(withoutIgnored(before?.event), withoutIgnored(after.event)),
+    ...(Object.fromEntries(
+      COLLECTIONS.map((collection) => [collection, diffCollection(before?.[collection] ?? [], after[collection])])
+    ) as Pick<SnapshotDiff, (typeof COLLECTIONS)[number]>),
+  };
+}
+
+export type RestoreResult = {
+  event: Row;
+  /** Parts of the revision left as they are: the admin may not change them, or they no longer fit */
+  skipped: string[];
+  /** Current tiers missing from the revision that were kept because they have sales */
+  retained_tiers: number;
+};
+
+// Rows matching `later` are written in a second pass, after the others have
+// made room for them (a tier can only grow once another has shrunk).
+async function restoreRows(
+  table: string,
+  eventId: string,
+  rows: Row[],
+  current: Row[],
+  keep: (row: Row) => boolean,
+  later: (row: Row) => boolean = () => false
+) {
+  const wanted = new Set(rows.map((row) => row.id as string));
+  const stale = current.filter((row) => !wanted.has(row.id as string));
+  const removable = stale.filter((row) => !keep(row)).map((row) => row.id as string);
+  if (removable.length > 0) {
+    const { error } = await supabaseAdmin.from(table).delete().in('id', removable);
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+  for (const batch of [rows.filter((row) => !later(row)), rows.filter(later)]) {
+    if (batch.length === 0) continue;
+    const { error } = await supabaseAdmin
+      .from(table)
+      .upsert(batch.map((row) => ({ ...row, event_id: eventId })), { onConflict: 'id' });
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+  return stale.length - removable.length;
+}
+
+const hasSales = (tier: Row) => Number(tier.sold_quantity ?? 0) > 0;
+
+const differs = (a: unknown, b: unknown) => JSON.stringify(a ?? null) !== JSON.stringify(b ?? null);
+
+type TierRestorePlan =
+  | { error: string }
+  | { tiers: Row[]; capacity: number | null; capacityKept: boolean };
+
+// The tiers and capacity a restore ends with, worked out before anything is
+// written. Sales made since are kept, so the revision's quantities and
+// capacity have to leave room for them.
+function planTierRestore(snapshot: EventSnapshot, current: EventSnapshot, canManageTiers: boolean): TierRestorePlan {
+  const currentById = new Map(current.tiers.map((tier) => [tier.id as string, tier]));
+  const snapshotIds = new Set(snapshot.tiers.map((tier) => tier.id as string));
+  const tiers: Row[] = canManageTiers
+    ? [
+        ...snapshot.tiers.map((tier) => ({ ...tier, sold_quantity: currentById.get(tier.id as string)?.sold_quantity ?? 0 })),
+        ...current.tiers.filter((tier) => !snapshotIds.has(tier.id as string) && hasSales(tier)),
+      ]
+    : current.tiers;
+  for (const tier of tiers) {
+    if (Number(tier.total_quantity) < Number(tier.sold_quantity ?? 0)) {
+      return {
+        error: `${tier.name} has sold ${tier.sold_quantity} tickets since, more than the ${tier.total_quantity} this revision offers`,
+      };
+    }
+  }
+
+  const allocated = allocatedQuantity(tiers as { total_quantity: number }[]);
+  const currentCapacity = (current.event.capacity as number | null | undefined) ?? null;
+  // Revisions saved before events had a capacity leave it as it is.
+  const wanted = 'capacity' in snapshot.event ? ((snapshot.event.capacity as number | null) ?? null) : currentCapacity;
+  const fits = (capacity: number | null) => capacity === null || allocated <= capacity;
+  if (fits(wanted)) return { tiers, capacity: wanted, capacityKept: false };
+  if (fits(currentCapacity)) return { tiers, capacity: currentCapacity, capacityKept: true };
+  return { error: `The restored tiers would offer ${allocated} tickets, more than the event's capacity of ${currentCapacity}` };
+}
+
+/**
+ * Why the revision's tiers cannot be restored alongside the sales made since,
+ * or null when they can
+ */
+export function restoreTierError(snapshot: EventSnapshot, current: EventSnapshot, canManageTiers: boolean): string | null {
+  const plan = planTierRestore(snapshot, current, canManageTiers);
+  return 'error' in plan ? plan.error : null;
+}
+
+/**
+ * Put an event back the way a revision recorded it, as far as the admin's
+ * capabilities reach: tiers, images and gates each need their own capability,
+ * and the publishing and checkout settings stay as they are without theirs.
+ * A venue or category that has since been retired is not linked again.
+ * Tier sales counts are never rolled back, and tiers that have sold since are
+ * kept even when the revision does not have them.
+ *
+ * Publish and archive times that have already passed are cleared rather than
+ * restored. Everything is checked before the first write, and the event row
+ * is written last. Should a write still fail, the error names what was
+ * already restored.
+ */
+export async function restoreEventRevision(
+  admin: AdminUser,
+  eventAccess: { id: string; vendor_id: string | null },
+  revision: EventRevisionWithSnapshot,
+  current: EventSnapshot
+): Promise<RestoreResult> {
+  const eventId = eventAccess.id;
+  const { snapshot } = revision;
+  const skipped: string[] = [];
+
+  const changes: Row = { ...snapshot.event };
+  for (const field of PINNED_EVENT_FIELDS) delete changes[field];
+  // Leave fields as they are, and only mention it when the revision had them otherwise.
+  const leave = (label: string, fields: string[]) => {
+    for (const field of fields) delete changes[field];
+    if (fields.some((field) => differs(snapshot.event[field], current.event[field]))) skipped.push(label);
+  };
+
+  if (!can(admin, 'event.publish', eventAccess)) leave('status', ['status', 'publish_at']);
+  if (!can(admin, 'event.settings.manage', eventAccess)) leave('checkout settings', SETTINGS_FIELDS);
+  const canManageGates = can(admin, 'event.gates.manage', eventAccess);
+  if (!canManageGates) {
+    leave('entry gates', ['enable_entry_gate_flow']);
+    if (!skipped.includes('entry gates') && diffCollection(current.entry_gates, snapshot.entry_gates).length > 0) {
+      skipped.push('entry gates');
+    }
+  }
+  if (changes.venue_id && changes.venue_id !== current.event.venue_id && !(await isLinkableVenue(changes.venue_id as string))) {
+    leave('venue', ['venue_id']);
+  }
+  if (differs(changes.category, current.event.category) || differs(changes.subcategory, current.event.subcategory)) {
+    if (taxonomyError(await listEventCategories(), changes as EventClassification, current.event as EventClassification)) {
+      leave('category', ['category', 'subcategory']);
+    }
+  }
+
+  // A publish or archive time that has passed since would be acted on by the next scheduler run.
+  const upcoming = withoutElapsedSchedule(changes as Row & Pick<SchedulableEvent, 'publish_at' | 'archive_at'>);
+  if ('publish_at' in changes) changes.publish_at = upcoming.publish_at;
+  if ('archive_at' in changes) changes.archive_at = upcoming.archive_at;
+
+  const canManageTiers = can(admin, 'event.tiers.manage', eventAccess);
+  if (!canManageTiers && diffCollection(current.tiers, snapshot.tiers).length > 0) skipped.push('ticket tiers');
+  const canManageImages = can(admin, 'event.images.manage', eventAccess);
+  if (!canManageImages && diffCollection(current.images, snapshot.images).length > 0) skipped.push('images');
+
+  const plan = planTierRestore(snapshot, current, canManageTiers);
+  if ('error' in plan) {
+    throw new Error(plan.error);
+  }
+  const currentCapacity = (current.event.capacity as number | null | undefined) ?? null;
+  changes.capacity = plan.capacity;
+  if (plan.capacityKept) skipped.push('capacity');
+  // Tiers can only grow into a larger capacity once it is in place; a smaller
+  // one waits for the event row, after the tiers have shrunk.
+  const raisesCapacity = currentCapacity !== null && (plan.capacity === null || plan.capacity > currentCapacity);
+
+  const restored: string[] = [];
+  const step = async <T>(label: string, write: () => Promise<T>): Promise<T> => {
+    try {
+      const result = await write();
+      restored.push(label);
+      return result;
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Restore failed';
+      if (restored.length === 0) throw new Error(message);
+      throw new Error(`Restore stopped partway: ${restored.join(', ')} already restored, the rest left as it was (${message})`);
+    }
+  };
+
+  if (raisesCapacity) {
+    await step('capacity', async () => {
+      const { error } = await supabaseAdmin.from('events').update({ capacity: plan.capacity }).eq('id', eventId);
+      if (error) throw new Error(error.message);
+    });
+  }
+
+  let retainedTiers = 0;
+  if (canManageTiers) {
+    const currentById = new Map(current.tiers.map((tier) => [tier.id as string, tier]));
+    const tiers = snapshot.tiers.map((tier) => {
+      const row = { ...tier };
+      delete row.sold_quantity;
+      return row;
+    });
+    retainedTiers = await step('ticket tiers', () =>
+      restoreRows('ticket_tiers', eventId, tiers, current.tiers, hasSales, (tier) =>
+        Number(tier.total_quantity) > Number(currentById.get(tier.id as string)?.total_quantity ?? 0)
+      )
+    );
+  }
+  if (canManageImages) {
+    await step('images', () => restoreRows('event_images', eventId, snapshot.images, current.images, () => false));
+  }
+  if (canManageGates) {
+    // Gates deleted since come back with new ids; their old scans stay with the old ids.
+    await step('entry gates', () =>
+      syncEventGates(
+        eventId,
+        snapshot.entry_gates.map((gate) => ({
+          id: current.entry_gates.some((row) => row.id === gate.id) ? (gate.id as string) : undefined,
+          name: gate.name as string,
+          code: (gate.code as string | null) ?? undefined,
+          sort_order: gate.sort_order as number,
+          is_active: gate.is_active as boolean,
+        }))
+      )
+    );
+  }
+
+  const event = await step('event details', async () => {
+    const { data, error } = await supabaseAdmin
+      .from('events')
+      .update(changes)
+      .eq('id', eventId)
+      .select('*')
+      .single();
+    if (error || !data) {
+      throw new Error(error?.message ?? 'Restore failed');
+    }
+    return data as Row;
+  });
+
+  return { event, skipped, retained_tiers: retainedTiers };
+}
@@ -0,0 +1,68 @@
+/**
+ * Rules for scheduled publishing and archiving, shared by the API, the cron
+ * runner and the events list.
+ */
+
+export type SchedulableEvent = {
+  status: string;
+  publish_at?: string | null;
+  archive_at?: string | null;
+  end_at?: string | null;
+};
+
+export type ScheduledChange = {
+  to: 'published' | 'archived';
+  at: string;
+  trigger: 'publish_at' | 'archive_at' | 'end_at';
+};
+
+/**
+ * Status changes still ahead for an event, soonest first. Without an archive
+ * time, an event that is or will be published is archived when it ends.
+ */
+export function upcomingChanges(event: SchedulableEvent): ScheduledChange[] {
+  if (event.status === 'archived') return [];
+  const changes: ScheduledChange[] = [];
+  const willPublish = event.status === 'draft' && !!event.publish_at;
+  if (willPublish) {
+    changes.push({ to: 'published', at: event.publish_at as string, trigger: 'publish_at' });
+  }
+  if (event.archive_at) {
+    changes.push({ to: 'archived', at: event.archive_at, trigger: 'archive_at' });
+  } else if (event.end_at && (event.status === 'published' || willPublish)) {
+    changes.push({ to: 'archived', at: event.end_at, trigger: 'end_at' });
+  }
+  return changes.sort((a, b) => Date.parse(a.at) - Date.parse(b.at));
+}
+
+/**
+ * Why a save would leave the schedule contradicting itself, if it would.
+ * `previousStatus` is null for a new event.
+ */
+export function scheduleError(event: SchedulableEvent, previousStatus: string | null, now = Date.now()): string | null {
+  if (event.publish_at && event.archive_at && Date.parse(event.archive_at) <= Date.parse(event.publish_at)) {
+    return 'Archive time must be after the publish time';
+  }
+  if (event.status === 'published' && previousStatus !== 'published') {
+    const archiveAt = event.archive_at ?? event.end_at;
+    if (archiveAt && Date.parse(archiveAt) <= now) {
+      return 'This event has already ended; set a later archive time to publish it';
+    }
+  }
+  return null;
+}
+
+/**
+ * The event with any publish or archive time that has already passed cleared.
+ * Used when dates come from elsewhere (a duplicate, a restored revision), where
+ * the scheduler would otherwise act on a stale time at its next run.
+ */
+export function withoutElapsedSchedule<T extends Pick<SchedulableEvent, 'publish_at' | 'archive_at'>>(
+  event: T,
+  now = Date.now()
+): T {
+  const cleared = { ...event };
+  if (cleared.publish_at && Date.parse(cleared.publish_at) <= now) cleared.publish_at = null;
+  if (cleared.archive_at && Date.parse(cleared.archive_at) <= now) cleared.archive_at = null;
+  return cleared;
+}
@@ -0,0 +1,90 @@
+import type { ScheduledChange } from '@/lib/event-schedule';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+
+// Anything left over is picked up by the next run.
+const BATCH_SIZE = 200;
+
+export type AppliedTransition = {
+  event_id: string;
+  title: string;
+  from: string;
+  to: ScheduledChange['to'];
+  trigger: ScheduledChange['trigger'];
+  scheduled_for: string;
+  before: Record<string, unknown>;
+  after: Record<string, unknown>;
+};
+
+type DueEvent = Record<string, unknown> & { id: string; title: string; status: string };
+
+async function applyTransition(
+  event: DueEvent,
+  to: ScheduledChange['to'],
+  trigger: ScheduledChange['trigger'],
+  changes: Record<string, unknown>
+): Promise<AppliedTransition | null> {
+  // Conditional on the status just read, so overlapping runs or an admin
+  // saving at the same moment never apply a change twice.
+  const { data, error } = await supabaseAdmin
+    .from('events')
+    .update({ status: to, ...changes })
+    .eq('id', event.id)
+    .eq('status', event.status)
+    .select('*')
+    .maybeSingle();
+  if (error) {
+    console.error(`Scheduled ${to} failed for event ${event.id}:`, error);
+    return null;
+  }
+  if (!data) return null;
+  return {
+    event_id: event.id,
+    title: event.title,
+    from: event.status,
+    to,
+    trigger,
+    scheduled_for: event[trigger] as string,
+    before: event,
+    after: data,
+  };
+}
+
+async function dueEvents(build: (query: ReturnType<typeof baseQuery>) => ReturnType<typeof baseQuery>) {
+  const { data, error } = await build(baseQuery()).limit(BATCH_SIZE);
+  if (error) {
+    throw new Error(error.message);
+  }
+  return (data ?? []) as DueEvent[];
+}
+
+function baseQuery() {
+  return supabaseAdmin.from('events').select('*').eq('is_series_template', false);
+}
+
+/**
+ * Apply every scheduled publish and archive that is due. Archiving runs first,
+ * so an event past both its times is archived without being published on the way.
+ */
+export async function runScheduledTransitions(now = new Date()): Promise<AppliedTransition[]> {
+  const nowIso = now.toISOString();
+  const applied: AppliedTransition[] = [];
+  const keep = (transition: AppliedTransition | null) => {
+    if (transition) applied.push(transition);
+  };
+
+  for (const event of await dueEvents((query) => query.neq('status', 'archived').lte('archive_at', nowIso))) {
+    keep(await applyTransition(event, 'archived', 'archive_at', {}));
+  }
+  for (const event of await dueEvents((query) =>
+    query.eq('status', 'published').is('archive_at', null).lte('end_at', nowIso)
+  )) {
+    keep(await applyTransition(event, 'archived', 'end_at', {}));
+  }
+  // The publish time is cleared once used, so unpublishing later sticks.
+  for (const event of await dueEvents((query) =>
+    query.eq('status', 'draft').lte('publish_at', nowIso).or(`end_at.is.null,end_at.gt.${nowIso}`)
+  )) {
+    keep(await applyTransition(event, 'published', 'publish_at', { publish_at: null }));
+  }
+  return applied;
+}
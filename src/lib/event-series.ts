@@ -0,0 +1,109 @@
+import { duplicateEvent } from '@/lib/event-duplication';
+import { addDays, daysBetween, type Recurrence } from '@/lib/recurrence';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { fromZonedParts, toZonedParts } from '@/lib/timezones';
+
+export const SERIES_COLUMNS = 'id, vendor_id, template_event_id, recurrence, timezone, starts_on, created_by, created_at, updated_at';
+
+export const OCCURRENCE_COLUMNS = 'id, title, start_at, end_at, status, series_occurrence_date';
+
+export type EventSeries = {
+  id: string;
+  vendor_id: string | null;
+  template_event_id: string;
+  recurrence: Recurrence;
+  timezone: string;
+  starts_on: string;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export async function findEventSeries(seriesId: string): Promise<EventSeries | null> {
+  const { data, error } = await supabaseAdmin
+    .from('event_series')
+    .select(SERIES_COLUMNS)
+    .eq('id', seriesId)
+    .maybeSingle<EventSeries>();
+  if (error) {
+    throw new Error(error.message);
+  }
+  return data;
+}
+
+/**
+ * Where an occurrence starts once a change to one occurrence is carried over:
+ * the same number of days later or earlier, at the edited occurrence's new
+ * time of day in the series' zone (so a DST change keeps the wall clock).
+ */
+export function carryOverStart(occurrenceStart: string, edited: { before: string; after: string }, timeZone: string): string {
+  const before = toZonedParts(new Date(edited.before), timeZone);
+  const after = toZonedParts(new Date(edited.after), timeZone);
+  const occurrence = toZonedParts(new Date(occurrenceStart), timeZone);
+  return fromZonedParts(addDays(occurrence.date, daysBetween(before.date, after.date)), after.time, timeZone).toISOString();
+}
+
+/**
+ * Copy the series' template onto each date, keeping the template's local
+ * start time. Dates that already have an occurrence are left alone.
+ */
+export async function generateOccurrences(series: EventSeries, dates: string[], status: 'draft' | 'published') {
+  const { data: template, error } = await supabaseAdmin
+    .from('events')
+    .select('id, title, start_at')
+    .eq('id', series.template_event_id)
+    .single();
+  if (error || !template) {
+    throw new Error(error?.message ?? 'Series template not found');
+  }
+
+  const { data: existing, error: existingError } = await supabaseAdmin
+    .from('events')
+    .select('series_occurrence_date')
+    .eq('series_id', series.id);
+  if (existingError) {
+    throw new Error(existingError.message);
+  }
+  const taken = new Set((existing ?? []).map((row) => row.series_occurrence_date as string));
+
+  const templateStart = Date.parse(template.start_at);
+  const { time } = toZonedParts(new Date(templateStart), series.timezone);
+  const created = [];
+  for (const date of dates) {
+    if (taken.has(date)) continue;
+    const start = fromZonedParts(date, time, series.timezone).getTime();
+    const duplicate = await duplicateEvent(template.id, {
+      offsetMinutes: Math.round((start - templateStart) / 60_000),
+      overrides: { title: template.title, status, series_id: series.id, series_occurrence_date: date },
+      parts: { tiers: true, images: true, entry_gates: true },
+    });
+    if (duplicate) created.push(duplicate.event);
+  }
+  return created;
+}
+
+/**
+ * Occurrences that have taken orders stay even when the rule no longer
+ * produces their date; they are reported back instead.
+ */
+export async function removeOccurrences(occurrenceIds: string[]) {
+  if (occurrenceIds.length === 0) return { removed: [] as string[], retained: [] as string[] };
+
+  const { data: orders, error } = await supabaseAdmin
+    .from('orders')
+    .select('event_id')
+    .in('event_id', occurrenceIds);
+  if (error) {
+    throw new Error(error.message);
+  }
+  const withOrders = new Set((orders ?? []).map((order) => order.event_id as string));
+  const removed = occurrenceIds.filter((id) => !withOrders.has(id));
+
+  if (removed.length > 0) {
+    const { error: deleteError } = await supabaseAdmin.from('events').delete().in('id', removed);
+    if (deleteError) {
+      throw new Error(deleteError.message);
+    }
+  }
+  return { removed, retained: occurrenceIds.filter((id) => withOrders.has(id)) };
+}
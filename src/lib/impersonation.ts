@@ -0,0 +1,103 @@
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+
+export const MAX_IMPERSONATION_MINUTES = 120;
+
+export type Impersonation = {
+  id: string;
+  session_id: string;
+  actor_admin_id: string;
+  target_admin_id: string;
+  reason: string | null;
+  allow_mutations: boolean;
+  started_at: string;
+  expires_at: string;
+};
+
+const IMPERSONATION_COLUMNS =
+  'id, session_id, actor_admin_id, target_admin_id, reason, allow_mutations, started_at, expires_at';
+
+/**
+ * Start viewing as another admin on the given session, replacing any
+ * impersonation already running there
+ */
+export async function startImpersonation(input: {
+  sessionId: string;
+  actorAdminId: string;
+  targetAdminId: string;
+  reason: string | null;
+  allowMutations: boolean;
+  durationMinutes: number;
+}): Promise<Impersonation> {
+  await endImpersonation(input.sessionId);
+
+  const minutes = Math.min(input.durationMinutes, MAX_IMPERSONATION_MINUTES);
+  const { data, error } = await supabaseAdmin
+    .from('admin_impersonations')
+    .insert({
+      session_id: input.sessionId,
+      actor_admin_id: input.actorAdminId,
+      target_admin_id: input.targetAdminId,
+      reason: input.reason,
+      allow_mutations: input.allowMutations,
+      expires_at: new Date(Date.now() + minutes * 60 * 1000).toISOString(),
+    })
+    .select(IMPERSONATION_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    throw new Error(error?.message ?? 'Failed to start impersonation');
+  }
+  return data;
+}
+
+/**
+ * The impersonation running on a session, or null if none or it has expired
+ */
+export async function findActiveImpersonation(sessionId: string): Promise<Impersonation | null> {
+  const { data, error } = await supabaseAdmin
+    .from('admin_impersonations')
+    .select(IMPERSONATION_COLUMNS)
+    .eq('session_id', sessionId)
+    .is('ended_at', null)
+    .gt('expires_at', new Date().toISOString())
+    .order('started_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error || !data) return null;
+  return data;
+}
+
+export async function endImpersonation(sessionId: string) {
+  const { error } = await supabaseAdmin
+    .from('admin_impersonations')
+    .update({ ended_at: new Date().toISOString() })
+    .eq('session_id', sessionId)
+    .is('ended_at', null);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+}
+
+export async function recordImpersonationEvent(event: {
+  impersonationId: string;
+  actorAdminId: string;
+  targetAdminId: string;
+  method: string;
+  path: string;
+  blocked: boolean;
+}) {
+  const { error } = await supabaseAdmin.from('admin_impersonation_events').insert({
+    impersonation_id: event.impersonationId,
+    actor_admin_id: event.actorAdminId,
+    target_admin_id: event.targetAdminId,
+    method: event.method,
+    path: event.path,
+    blocked: event.blocked,
+  });
+
+  if (error) {
+    console.error('Failed to record impersonation event:', error);
+  }
+}
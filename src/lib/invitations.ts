@@ -0,0 +1,121 @@
+import { createHash, randomBytes } from 'crypto';
+import { mailUrl, sendMail } from '@/lib/mail';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+
+const INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export type AdminInvitation = {
+  id: string;
+  admin_user_id: string;
+  invited_by: string | null;
+  created_at: string;
+  expires_at: string;
+};
+
+const INVITATION_COLUMNS = 'id, admin_user_id, invited_by, created_at, expires_at';
+
+function hashInviteToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Issue a fresh invite link for a pending user, revoking any earlier ones
+ */
+export async function issueInvitation(
+  adminUserId: string,
+  invitedBy: string
+): Promise<{ token: string; invitation: AdminInvitation }> {
+  await supabaseAdmin
+    .from('admin_invitations')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('admin_user_id', adminUserId)
+    .is('accepted_at', null)
+    .is('revoked_at', null);
+
+  const token = randomBytes(32).toString('base64url');
+  const { data, error } = await supabaseAdmin
+    .from('admin_invitations')
+    .insert({
+      admin_user_id: adminUserId,
+      token_hash: hashInviteToken(token),
+      invited_by: invitedBy,
+      expires_at: new Date(Date.now() + INVITE_TTL_MS).toISOString(),
+    })
+    .select(INVITATION_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    throw new Error(error?.message ?? 'Failed to create invitation');
+  }
+  return { token, invitation: data };
+}
+
+export async function sendInvitationMail(email: string, token: string) {
+  const link = mailUrl(`/accept-invite?token=${encodeURIComponent(token)}`);
+  await sendMail({
+    to: email,
+    subject: 'You have been invited to HypeHaus Admin',
+    text: [
+      'You have been invited to the HypeHaus Admin panel.',
+      '',
+      'Open this link within 7 days to choose a password and activate your account:',
+      link,
+      '',
+      'If you were not expecting this, you can ignore this email.',
+    ].join('\n'),
+  });
+}
+
+/**
+ * The open invitation a token belongs to, or null if it is unknown, used, revoked or expired
+ */
+export async function findOpenInvitation(token: string): Promise<AdminInvitation | null> {
+  const { data, error } = await supabaseAdmin
+    .from('admin_invitations')
+    .select(INVITATION_COLUMNS)
+    .eq('token_hash', hashInviteToken(token))
+    .is('accepted_at', null)
+    .is('revoked_at', null)
+    .gt('expires_at', new Date().toISOString())
+    .maybeSingle();
+
+  if (error || !data) return null;
+  return data;
+}
+
+/**
+ * Mark an invitation accepted and return its admin, or null if it is no longer open.
+ * The conditional update makes concurrent acceptances race-safe.
+ */
+export async function consumeInvitation(token: string): Promise<string | null> {
+  const { data, error } = await supabaseAdmin
+    .from('admin_invitations')
+    .update({ accepted_at: new Date().toISOString() })
+    .eq('token_hash', hashInviteToken(token))
+    .is('accepted_at', null)
+    .is('revoked_at', null)
+    .gt('expires_at', new Date().toISOString())
+    .select('admin_user_id')
+    .maybeSingle();
+
+  if (error || !data) return null;
+  return data.admin_user_id;
+}
+
+/**
+ * Invitations that have been neither accepted nor revoked, newest first.
+ * Expired ones are included so they can be resent.
+ */
+export async function listOpenInvitations(): Promise<AdminInvitation[]> {
+  const { data, error } = await supabaseAdmin
+    .from('admin_invitations')
+    .select(INVITATION_COLUMNS)
+    .is('accepted_at', null)
+    .is('revoked_at', null)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  return data ?? [];
+}
@@ -1,18 +1,124 @@
 import jwt from 'jsonwebtoken';
 
-const JWT_SECRET = process.env.JWT_SECRET as string;
+/**
+ * Signing keys. JWT_KEYS lists every key still accepted for verification as
+ * comma-separated `kid:secret` pairs and JWT_PRIMARY_KID names the one new
+ * tokens are signed with. A plain JWT_SECRET keeps working as the key
+ * `default`, which also verifies tokens issued before key ids existed.
+ *
+ * To rotate: add the new key to JWT_KEYS, point JWT_PRIMARY_KID at it, and
+ * drop the old key once its tokens have expired (7 days).
+ */
+const LEGACY_KID = 'default';
 
-if (!JWT_SECRET) {
-  throw new Error('Missing JWT_SECRET environment variable');
+function loadKeys(): { keys: Map<string, string>; primaryKid: string } {
+  const keys = new Map<string, string>();
+  for (const entry of (process.env.JWT_KEYS ?? '').split(',')) {
+    const separator = entry.indexOf(':');
+    if (separator <= 0) continue;
+    const kid = entry.slice(0, separator).trim();
+    const secret = entry.slice(separator + 1).trim();
+    if (kid && secret) keys.set(kid, secret);
+  }
+  if (process.env.JWT_SECRET && !keys.has(LEGACY_KID)) {
+    keys.set(LEGACY_KID, process.env.JWT_SECRET);
+  }
+
+  if (keys.size === 0) {
+    throw new Error('Missing JWT_KEYS or JWT_SECRET environment variable');
+  }
+
+  const primaryKid = process.env.JWT_PRIMARY_KID || (keys.size === 1 ? [...keys.keys()][0] : '');
+  if (!keys.has(primaryKid)) {
+    throw new Error('JWT_PRIMARY_KID must name one of the keys in JWT_KEYS');
+  }
+  return { keys, primaryKid };
+}
+
+const { keys: JWT_KEYS, primaryKid: PRIMARY_KID } = loadKeys();
+
+function sign(payload: object, options: jwt.SignOptions = {}): string {
+  return jwt.sign(payload, JWT_KEYS.get(PRIMARY_KID) as string, { ...options, algorithm: 'HS256', keyid: PRIMARY_KID });
 }
 
-export function signAdminJWT(adminUserId: string): string {
-  return jwt.sign({ sub: adminUserId }, JWT_SECRET, { algorithm: 'HS256', expiresIn: '7d' });
+/**
+ * Verify against the key named in the token header. Tokens without a kid
+ * predate key rotation and were signed with JWT_SECRET.
+ */
+function verify(token: string): { payload: jwt.JwtPayload; kid: string } {
+  const decoded = jwt.decode(token, { complete: true });
+  const kid = decoded?.header.kid ?? LEGACY_KID;
+  const secret = JWT_KEYS.get(kid);
+  if (!secret) {
+    throw new Error('Unknown signing key');
+  }
+  const payload = jwt.verify(token, secret, { algorithms: ['HS256'] });
+  if (typeof payload === 'string') {
+    throw new Error('Invalid token payload');
+  }
+  return { payload, kid };
 }
 
-export function verifyAdminJWT(token: string): { sub: string } {
-  const decoded = jwt.verify(token, JWT_SECRET, { algorithms: ['HS256'] });
-  return decoded as { sub: string };
+export type AdminJWTClaims = { sub: string; sid: string; exp?: number; kid: string };
+
+export function signAdminJWT(adminUserId: string, sessionId: string): string {
+  return sign({ sub: adminUserId, sid: sessionId }, { expiresIn: '7d' });
 }
 
+export function verifyAdminJWT(token: string): AdminJWTClaims {
+  const { payload, kid } = verify(token);
+  if (!payload.sub || !payload.sid) {
+    throw new Error('Invalid admin token');
+  }
+  return { sub: payload.sub, sid: payload.sid, exp: payload.exp, kid };
+}
 
+/**
+ * Whether a verified token was signed with a key other than the primary one
+ */
+export function isSignedWithRetiredKey(claims: AdminJWTClaims): boolean {
+  return claims.kid !== PRIMARY_KID;
+}
+
+/**
+ * Re-sign an admin token with the primary key, keeping its session and expiry
+ */
+export function resignAdminJWT(claims: AdminJWTClaims): string {
+  if (!claims.exp) {
+    return signAdminJWT(claims.sub, claims.sid);
+  }
+  return sign({ sub: claims.sub, sid: claims.sid, exp: claims.exp });
+}
+
+/**
+ * Short-lived token proving the password step of a login succeeded
+ */
+export function signLoginChallengeJWT(adminUserId: string): string {
+  return sign({ sub: adminUserId, purpose: 'login_challenge' }, { expiresIn: '10m' });
+}
+
+export function verifyLoginChallengeJWT(token: string): { sub: string } {
+  const { payload } = verify(token);
+  if (!payload.sub || payload.purpose !== 'login_challenge') {
+    throw new Error('Invalid login challenge');
+  }
+  return { sub: payload.sub };
+}
+
+export type SsoStateClaims = { state: string; nonce: string; verifier: string };
+
+/**
+ * Short-lived token carrying an SSO sign-in's state, nonce and PKCE verifier
+ * between the redirect to the identity provider and its callback
+ */
+export function signSsoStateJWT(claims: SsoStateClaims): string {
+  return sign({ ...claims, purpose: 'sso_state' }, { expiresIn: '10m' });
+}
+
+export function verifySsoStateJWT(token: string): SsoStateClaims {
+  const { payload } = verify(token);
+  if (payload.purpose !== 'sso_state' || !payload.state || !payload.nonce || !payload.verifier) {
+    throw new Error('Invalid SSO state');
+  }
+  return { state: payload.state, nonce: payload.nonce, verifier: payload.verifier };
+}
@@ -0,0 +1,128 @@
+import { NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+
+export type LoginOutcome =
+  | 'success'
+  | 'invalid_password'
+  | 'unknown_email'
+  | 'invalid_totp'
+  | 'throttled'
+  | 'locked_out'
+  | 'password_reset'
+  | 'inactive_account'
+  | 'password_disabled'
+  | 'sso_rejected';
+
+export type ThrottleResult =
+  | { allowed: true }
+  | { allowed: false; reason: 'throttled' | 'locked_out'; retryAfterSeconds: number };
+
+type Attempt = { outcome: LoginOutcome; created_at: string };
+
+const WINDOW_MS = 15 * 60 * 1000;
+const FREE_FAILURES = 3; // no delay before the 4th consecutive failure
+const MAX_DELAY_SECONDS = 60;
+const ACCOUNT_LOCKOUT_FAILURES = 10;
+const IP_LOCKOUT_FAILURES = 30;
+const LOCKOUT_MS = 15 * 60 * 1000;
+
+const FAILURE_OUTCOMES: LoginOutcome[] = ['invalid_password', 'unknown_email', 'invalid_totp'];
+
+export function normalizeLoginEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+async function recentAttempts(column: 'email' | 'ip', value: string): Promise<Attempt[]> {
+  const { data, error } = await supabaseAdmin
+    .from('admin_login_attempts')
+    .select('outcome, created_at')
+    .eq(column, value)
+    .gt('created_at', new Date(Date.now() - WINDOW_MS).toISOString())
+    .order('created_at', { ascending: false })
+    .limit(100);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  return data ?? [];
+}
+
+/**
+ * Failures since the most recent success or password reset, newest first
+ */
+function consecutiveFailures(attempts: Attempt[]): Attempt[] {
+  const failures: Attempt[] = [];
+  for (const attempt of attempts) {
+    if (attempt.outcome === 'success' || attempt.outcome === 'password_reset') break;
+    if (FAILURE_OUTCOMES.includes(attempt.outcome)) failures.push(attempt);
+  }
+  return failures;
+}
+
+function evaluate(failures: Attempt[], lockoutThreshold: number): ThrottleResult {
+  if (failures.length === 0) return { allowed: true };
+  const lastFailureAt = Date.parse(failures[0].created_at);
+  const now = Date.now();
+
+  if (failures.length >= lockoutThreshold) {
+    const retryAfterMs = lastFailureAt + LOCKOUT_MS - now;
+    if (retryAfterMs > 0) {
+      return { allowed: false, reason: 'locked_out', retryAfterSeconds: Math.ceil(retryAfterMs / 1000) };
+    }
+    return { allowed: true };
+  }
+
+  if (failures.length < FREE_FAILURES) return { allowed: true };
+  const delaySeconds = Math.min(2 ** (failures.length - FREE_FAILURES), MAX_DELAY_SECONDS);
+  const retryAfterMs = lastFailureAt + delaySeconds * 1000 - now;
+  if (retryAfterMs > 0) {
+    return { allowed: false, reason: 'throttled', retryAfterSeconds: Math.ceil(retryAfterMs / 1000) };
+  }
+  return { allowed: true };
+}
+
+/**
+ * Decide whether a login attempt may proceed, per account and per IP.
+ * Delays grow exponentially after a few failures; enough failures lock the key out.
+ */
+export async function checkLoginThrottle({ email, ip }: { email: string; ip: string | null }): Promise<ThrottleResult> {
+  const accountAttempts = await recentAttempts('email', normalizeLoginEmail(email));
+  const accountResult = evaluate(consecutiveFailures(accountAttempts), ACCOUNT_LOCKOUT_FAILURES);
+  if (!accountResult.allowed || !ip) return accountResult;
+
+  // A success from the same IP must not reset its counter, or an attacker could
+  // interleave logins to their own account while stuffing others.
+  const ipFailures = (await recentAttempts('ip', ip)).filter((attempt) => FAILURE_OUTCOMES.includes(attempt.outcome));
+  return evaluate(ipFailures, IP_LOCKOUT_FAILURES);
+}
+
+export function throttledResponse(result: Extract<ThrottleResult, { allowed: false }>) {
+  const message =
+    result.reason === 'locked_out'
+      ? 'Too many failed sign-in attempts. Try again later.'
+      : 'Too many attempts. Please wait before trying again.';
+  return NextResponse.json(
+    { error: message, retry_after: result.retryAfterSeconds },
+    { status: 429, headers: { 'Retry-After': String(result.retryAfterSeconds) } }
+  );
+}
+
+export async function recordLoginAttempt(attempt: {
+  email: string;
+  adminUserId?: string | null;
+  ip: string | null;
+  userAgent: string | null;
+  outcome: LoginOutcome;
+}) {
+  const { error } = await supabaseAdmin.from('admin_login_attempts').insert({
+    email: normalizeLoginEmail(attempt.email),
+    admin_user_id: attempt.adminUserId ?? null,
+    ip: attempt.ip,
+    user_agent: attempt.userAgent,
+    outcome: attempt.outcome,
+  });
+
+  if (error) {
+    console.error('Failed to record login attempt:', error.message);
+  }
+}
@@ -0,0 +1,120 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+
+export type MailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+};
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+const MAIL_FROM = process.env.MAIL_FROM || 'HypeHaus Admin <no-reply@hypehaus.local>';
+
+/**
+ * Writes each message as a JSON file, for local development and inspection
+ */
+export function createOutboxTransport(dir: string): MailTransport {
+  return {
+    async send(message) {
+      await fs.mkdir(dir, { recursive: true });
+      const sentAt = new Date().toISOString();
+      const file = path.join(dir, `${sentAt.replace(/[:.]/g, '-')}-${randomUUID()}.json`);
+      await fs.writeFile(file, JSON.stringify({ from: MAIL_FROM, ...message, sent_at: sentAt }, null, 2));
+    },
+  };
+}
+
+export function createConsoleTransport(): MailTransport {
+  return {
+    async send(message) {
+      console.log(`[mail] to=${message.to} subject=${message.subject}\n${message.text}`);
+    },
+  };
+}
+
+/**
+ * POSTs the message as JSON to a relay (e.g. a provider webhook or internal mailer)
+ */
+export function createWebhookTransport(url: string, token?: string): MailTransport {
+  return {
+    async send(message) {
+      const res = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        },
+        body: JSON.stringify({ from: MAIL_FROM, ...message }),
+      });
+      if (!res.ok) {
+        throw new Error(`Mail webhook responded with ${res.status}`);
+      }
+    },
+  };
+}
+
+let transport: MailTransport | null = null;
+
+function transportFromEnv(): MailTransport {
+  // Falling back to the outbox in production would quietly keep reset and invite links on the server.
+  if (!process.env.MAIL_TRANSPORT && process.env.NODE_ENV === 'production') {
+    throw new Error('Missing MAIL_TRANSPORT environment variable');
+  }
+  const kind = process.env.MAIL_TRANSPORT || 'outbox';
+  switch (kind) {
+    case 'outbox':
+      return createOutboxTransport(process.env.MAIL_OUTBOX_DIR || path.join(process.cwd(), '.mail-outbox'));
+    case 'console':
+      return createConsoleTransport();
+    case 'webhook':
+      if (!process.env.MAIL_WEBHOOK_URL) {
+        throw new Error('Missing MAIL_WEBHOOK_URL environment variable');
+      }
+      return createWebhookTransport(process.env.MAIL_WEBHOOK_URL, process.env.MAIL_WEBHOOK_TOKEN);
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${kind}"`);
+  }
+}
+
+/**
+ * Replace the transport chosen from MAIL_TRANSPORT (e.g. to plug in a provider SDK)
+ */
+export function setMailTransport(custom: MailTransport) {
+  transport = custom;
+}
+
+export async function sendMail(message: MailMessage) {
+  transport ??= transportFromEnv();
+  await transport.send(message);
+}
+
+const DEV_APP_URL = 'http://localhost:3000';
+
+/**
+ * Absolute URL for links in outgoing mail. Always built from APP_URL, never
+ * from the request: its Host header is whatever the sender chose, and a reset
+ * or invite token must not be mailed out pointing at someone else's site.
+ */
+export function mailUrl(pathname: string): string {
+  const base = process.env.APP_URL?.trim();
+  if (!base) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('Missing APP_URL environment variable');
+    }
+    return new URL(pathname, DEV_APP_URL).toString();
+  }
+  return new URL(pathname, base).toString();
+}
+
+/**
+ * Absolute URL for redirects answering this request; APP_URL wins over the
+ * request origin. Not for mail: use mailUrl.
+ */
+export function appUrl(req: Request, pathname: string): string {
+  return new URL(pathname, process.env.APP_URL || new URL(req.url).origin).toString();
+}
@@ -0,0 +1,228 @@
+import { createHash, createPublicKey, randomBytes, type JsonWebKey, type KeyObject } from 'crypto';
+import jwt from 'jsonwebtoken';
+import type { AdminRole } from '@/lib/admin-auth';
+
+/**
+ * OpenID Connect sign-in for staff (authorization code flow with PKCE).
+ * Enabled by setting OIDC_ISSUER and OIDC_CLIENT_ID; see env.example for the
+ * rest. `npm run mock-oidc` starts a local provider to develop against.
+ */
+export type OidcConfig = {
+  issuer: string;
+  clientId: string;
+  // Unset for public clients, which rely on PKCE alone
+  clientSecret: string | null;
+  redirectUri: string | null;
+  scopes: string;
+  providerName: string;
+  // Create an account on first sign-in when no admin has the email
+  jitProvisioning: boolean;
+  jitRole: AdminRole;
+  // Lower-cased email domains allowed to sign in; empty allows any, but then
+  // no existing account is ever linked by email
+  allowedDomains: string[];
+};
+
+// Vendor roles need a vendor organization, which a provider cannot tell us.
+const JIT_ROLES: AdminRole[] = ['admin', 'moderator'];
+
+export function getOidcConfig(): OidcConfig | null {
+  const issuer = process.env.OIDC_ISSUER?.trim();
+  const clientId = process.env.OIDC_CLIENT_ID?.trim();
+  if (!issuer || !clientId) return null;
+
+  const jitRole = (process.env.OIDC_JIT_ROLE?.trim() || 'moderator') as AdminRole;
+  if (!JIT_ROLES.includes(jitRole)) {
+    throw new Error(`OIDC_JIT_ROLE must be one of: ${JIT_ROLES.join(', ')}`);
+  }
+
+  return {
+    issuer: issuer.replace(/\/+$/, ''),
+    clientId,
+    clientSecret: process.env.OIDC_CLIENT_SECRET?.trim() || null,
+    redirectUri: process.env.OIDC_REDIRECT_URI?.trim() || null,
+    scopes: process.env.OIDC_SCOPES?.trim() || 'openid email profile',
+    providerName: process.env.OIDC_PROVIDER_NAME?.trim() || 'SSO',
+    jitProvisioning: process.env.OIDC_JIT_PROVISIONING === 'true',
+    jitRole,
+    allowedDomains: (process.env.OIDC_ALLOWED_EMAIL_DOMAINS ?? '')
+      .split(',')
+      .map((domain) => domain.trim().toLowerCase())
+      .filter(Boolean),
+  };
+}
+
+type ProviderMetadata = {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  userinfo_endpoint?: string;
+};
+
+const METADATA_TTL_MS = 10 * 60 * 1000;
+// Refetch the key set at most this often when a token names an unknown key.
+const JWKS_REFRESH_MS = 60 * 1000;
+
+let metadataCache: { issuer: string; metadata: ProviderMetadata; fetchedAt: number } | null = null;
+let jwksCache: { uri: string; keys: Map<string, KeyObject>; fetchedAt: number } | null = null;
+
+async function fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, { ...init, cache: 'no-store' });
+  const body = await res.json().catch(() => null);
+  if (!res.ok || !body) {
+    const detail = body?.error_description || body?.error || `HTTP ${res.status}`;
+    throw new Error(`Identity provider request to ${new URL(url).pathname} failed: ${detail}`);
+  }
+  return body as T;
+}
+
+async function discover(config: OidcConfig): Promise<ProviderMetadata> {
+  if (metadataCache?.issuer === config.issuer && Date.now() - metadataCache.fetchedAt < METADATA_TTL_MS) {
+    return metadataCache.metadata;
+  }
+  const metadata = await fetchJson<ProviderMetadata>(`${config.issuer}/.well-known/openid-configuration`);
+  if (metadata.issuer.replace(/\/+$/, '') !== config.issuer) {
+    throw new Error(`Identity provider reports issuer ${metadata.issuer}, expected ${config.issuer}`);
+  }
+  metadataCache = { issuer: config.issuer, metadata, fetchedAt: Date.now() };
+  return metadata;
+}
+
+async function signingKey(jwksUri: string, kid: string | undefined): Promise<KeyObject> {
+  const lookup = (keys: Map<string, KeyObject>) => (kid ? keys.get(kid) : keys.size === 1 ? [...keys.values()][0] : undefined);
+
+  const cached = jwksCache?.uri === jwksUri ? lookup(jwksCache.keys) : undefined;
+  if (cached) return cached;
+  if (jwksCache?.uri === jwksUri && Date.now() - jwksCache.fetchedAt < JWKS_REFRESH_MS) {
+    throw new Error('ID token is signed with an unknown key');
+  }
+
+  const { keys } = await fetchJson<{ keys: (JsonWebKey & { kid?: string; use?: string })[] }>(jwksUri);
+  const byKid = new Map<string, KeyObject>();
+  for (const jwk of keys ?? []) {
+    if (jwk.use && jwk.use !== 'sig') continue;
+    byKid.set(jwk.kid ?? '', createPublicKey({ key: jwk, format: 'jwk' }));
+  }
+  jwksCache = { uri: jwksUri, keys: byKid, fetchedAt: Date.now() };
+
+  const key = lookup(byKid);
+  if (!key) throw new Error('ID token is signed with an unknown key');
+  return key;
+}
+
+export function randomUrlToken(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+/**
+ * PKCE S256 challenge for a code verifier
+ */
+export function codeChallenge(verifier: string): string {
+  return createHash('sha256').update(verifier).digest('base64url');
+}
+
+export async function buildAuthorizationUrl(
+  config: OidcConfig,
+  params: { redirectUri: string; state: string; nonce: string; codeVerifier: string }
+): Promise<string> {
+  const metadata = await discover(config);
+  const url = new URL(metadata.authorization_endpoint);
+  url.searchParams.set('response_type', 'code');
+  url.searchParams.set('client_id', config.clientId);
+  url.searchParams.set('redirect_uri', params.redirectUri);
+  url.searchParams.set('scope', config.scopes);
+  url.searchParams.set('state', params.state);
+  url.searchParams.set('nonce', params.nonce);
+  url.searchParams.set('code_challenge', codeChallenge(params.codeVerifier));
+  url.searchParams.set('code_challenge_method', 'S256');
+  return url.toString();
+}
+
+export type OidcIdentity = {
+  issuer: string;
+  subject: string;
+  email: string;
+  emailVerified: boolean;
+  name: string | null;
+};
+
+/**
+ * Redeem an authorization code and return the verified identity behind it
+ */
+export async function exchangeCode(
+  config: OidcConfig,
+  params: { code: string; redirectUri: string; codeVerifier: string; nonce: string }
+): Promise<OidcIdentity> {
+  const metadata = await discover(config);
+
+  const body = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code: params.code,
+    redirect_uri: params.redirectUri,
+    code_verifier: params.codeVerifier,
+    client_id: config.clientId,
+  });
+  const headers: Record<string, string> = { 'Content-Type': 'application/x-www-form-urlencoded' };
+  if (config.clientSecret) {
+    const credentials = `${encodeURIComponent(config.clientId)}:${encodeURIComponent(config.clientSecret)}`;
+    headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+  }
+
+  const tokens = await fetchJson<{ id_token?: string; access_token?: string }>(metadata.token_endpoint, {
+    method: 'POST',
+    headers,
+    body,
+  });
+  if (!tokens.id_token) {
+    throw new Error('Identity provider returned no ID token');
+  }
+
+  const header = jwt.decode(tokens.id_token, { complete: true })?.header;
+  const key = await signingKey(metadata.jwks_uri, header?.kid);
+  const claims = jwt.verify(tokens.id_token, key, {
+    algorithms: ['RS256', 'RS384', 'RS512', 'PS256', 'ES256', 'ES384'],
+    issuer: metadata.issuer,
+    audience: config.clientId,
+    clockTolerance: 60,
+  });
+  if (typeof claims === 'string' || !claims.sub) {
+    throw new Error('Invalid ID token');
+  }
+  if (claims.nonce !== params.nonce) {
+    throw new Error('ID token nonce does not match');
+  }
+
+  let email = typeof claims.email === 'string' ? claims.email : null;
+  let emailVerified = claims.email_verified;
+  let name = typeof claims.name === 'string' ? claims.name : null;
+  // Some providers only put profile claims in the userinfo response.
+  if (!email && metadata.userinfo_endpoint && tokens.access_token) {
+    const userinfo = await fetchJson<Record<string, unknown>>(metadata.userinfo_endpoint, {
+      headers: { Authorization: `Bearer ${tokens.access_token}` },
+    });
+    if (userinfo.sub === claims.sub) {
+      email = typeof userinfo.email === 'string' ? userinfo.email : null;
+      emailVerified = userinfo.email_verified;
+      name = name ?? (typeof userinfo.name === 'string' ? userinfo.name : null);
+    }
+  }
+  if (!email) {
+    throw new Error('Identity provider did not share an email address');
+  }
+
+  return {
+    issuer: config.issuer,
+    subject: claims.sub,
+    email: email.trim(),
+    // Only an explicit assertion counts; some providers send it as a string.
+    emailVerified: emailVerified === true || emailVerified === 'true',
+    name,
+  };
+}
+
+export function isAllowedSsoEmail(config: OidcConfig, email: string): boolean {
+  if (config.allowedDomains.length === 0) return true;
+  const domain = email.split('@').pop()?.toLowerCase() ?? '';
+  return config.allowedDomains.includes(domain);
+}
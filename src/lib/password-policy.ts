@@ -0,0 +1,44 @@
+/**
+ * Rules every new admin password must meet. Shared by the forms, the API and
+ * the CLI scripts, so it may not import anything server-only; the breached
+ * password list is checked separately in breached-passwords.ts.
+ *
+ * NEXT_PUBLIC_ so the browser validates with the same numbers as the server.
+ */
+export const PASSWORD_POLICY = {
+  minLength: readInt(process.env.NEXT_PUBLIC_PASSWORD_MIN_LENGTH, 12),
+  maxLength: 128,
+  // Out of lowercase, uppercase, digits and symbols.
+  minCharacterClasses: Math.min(4, readInt(process.env.NEXT_PUBLIC_PASSWORD_MIN_CHARACTER_CLASSES, 3)),
+};
+
+function readInt(value: string | undefined, fallback: number): number {
+  const parsed = Number.parseInt(value ?? '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+const CHARACTER_CLASSES = [/[a-z]/, /[A-Z]/, /[0-9]/, /[^a-zA-Z0-9]/];
+
+/**
+ * Human-readable reasons a password falls short of the policy (empty when it passes)
+ */
+export function passwordPolicyIssues(password: string): string[] {
+  const issues: string[] = [];
+  if (password.length < PASSWORD_POLICY.minLength) {
+    issues.push(`Must be at least ${PASSWORD_POLICY.minLength} characters`);
+  }
+  if (password.length > PASSWORD_POLICY.maxLength) {
+    issues.push(`Must be at most ${PASSWORD_POLICY.maxLength} characters`);
+  }
+  const classes = CHARACTER_CLASSES.filter((pattern) => pattern.test(password)).length;
+  if (classes < PASSWORD_POLICY.minCharacterClasses) {
+    issues.push(
+      `Must mix at least ${PASSWORD_POLICY.minCharacterClasses} of: lowercase, uppercase, digits, symbols`
+    );
+  }
+  return issues;
+}
+
+export function describePasswordPolicy(): string {
+  return `At least ${PASSWORD_POLICY.minLength} characters, mixing ${PASSWORD_POLICY.minCharacterClasses} of lowercase, uppercase, digits and symbols. Common or breached passwords are rejected.`;
+}
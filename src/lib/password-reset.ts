@@ -0,0 +1,68 @@
+import { createHash, randomBytes } from 'crypto';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+
+const TOKEN_TTL_MS = 30 * 60 * 1000;
+const MAX_REQUESTS_PER_HOUR = 3;
+
+function hashResetToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Issue a reset token for the admin, invalidating any earlier unused ones.
+ * Returns null when the account has asked for too many resets recently.
+ */
+export async function createPasswordResetToken(adminUserId: string, ip: string | null): Promise<string | null> {
+  const { count } = await supabaseAdmin
+    .from('admin_password_reset_tokens')
+    .select('id', { count: 'exact', head: true })
+    .eq('admin_user_id', adminUserId)
+    .gt('created_at', new Date(Date.now() - 60 * 60 * 1000).toISOString());
+
+  if ((count ?? 0) >= MAX_REQUESTS_PER_HOUR) return null;
+
+  await invalidatePasswordResetTokens(adminUserId);
+
+  const token = randomBytes(32).toString('base64url');
+  const { error } = await supabaseAdmin.from('admin_password_reset_tokens').insert({
+    admin_user_id: adminUserId,
+    token_hash: hashResetToken(token),
+    requested_ip: ip,
+    expires_at: new Date(Date.now() + TOKEN_TTL_MS).toISOString(),
+  });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  return token;
+}
+
+/**
+ * Mark a token used and return its admin, or null if it is unknown, used or expired.
+ * The conditional update makes concurrent redemptions of the same token race-safe.
+ */
+export async function consumePasswordResetToken(token: string): Promise<string | null> {
+  const { data, error } = await supabaseAdmin
+    .from('admin_password_reset_tokens')
+    .update({ used_at: new Date().toISOString() })
+    .eq('token_hash', hashResetToken(token))
+    .is('used_at', null)
+    .gt('expires_at', new Date().toISOString())
+    .select('admin_user_id')
+    .maybeSingle();
+
+  if (error || !data) return null;
+  return data.admin_user_id;
+}
+
+export async function invalidatePasswordResetTokens(adminUserId: string) {
+  const { error } = await supabaseAdmin
+    .from('admin_password_reset_tokens')
+    .update({ used_at: new Date().toISOString() })
+    .eq('admin_user_id', adminUserId)
+    .is('used_at', null);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+}
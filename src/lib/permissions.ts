@@ -0,0 +1,146 @@
+import type { AdminRole, AdminUser } from '@/lib/admin-auth';
+
+export const CAPABILITIES = [
+  'event.view',
+  'event.create',
+  'event.edit',
+  'event.publish',
+  'event.delete',
+  'event.vendor.assign',
+  'event.settings.manage',
+  'event.gates.manage',
+  'event.tiers.manage',
+  'event.images.manage',
+  'attendee.view',
+  'ticket.verify',
+  'ticket.reject',
+  'instagram.review',
+  'refund.process',
+  'ad.view',
+  'ad.create',
+  'ad.edit',
+  'ad.approve',
+  'ad.delete',
+  'admin_user.manage',
+  'admin_user.impersonate',
+  'vendor.view',
+  'vendor.manage',
+  'category.manage',
+  'venue.manage',
+  'security.manage',
+  'api_key.manage',
+  'system.diagnostics',
+  'audit.view',
+] as const;
+
+export type Capability = (typeof CAPABILITIES)[number];
+
+/**
+ * The thing a capability is exercised on. Anything owned by a vendor carries
+ * its vendor_id; ads also carry their workflow status.
+ */
+export type PermissionResource = {
+  id?: string;
+  vendor_id: string | null;
+  status?: string | null;
+};
+
+const EVENT_OPERATIONS: Capability[] = [
+  'event.view',
+  'attendee.view',
+  'ticket.verify',
+  'ticket.reject',
+  'instagram.review',
+  'refund.process',
+];
+
+const EVENT_EDITING: Capability[] = ['event.edit', 'event.tiers.manage', 'event.images.manage'];
+
+/**
+ * What an API key may be granted. Keys never manage people, vendor payout
+ * details, security or other keys, and never read the audit trail.
+ */
+export const API_KEY_CAPABILITIES: readonly Capability[] = CAPABILITIES.filter(
+  (capability) =>
+    ![
+      'admin_user.manage',
+      'admin_user.impersonate',
+      'vendor.manage',
+      'security.manage',
+      'api_key.manage',
+      'audit.view',
+    ].includes(capability)
+);
+
+/**
+ * What a key pinned to one event may be granted: work on that event only.
+ */
+export const EVENT_KEY_CAPABILITIES: readonly Capability[] = [
+  ...EVENT_OPERATIONS,
+  ...EVENT_EDITING,
+  'event.publish',
+  'event.settings.manage',
+  'event.gates.manage',
+];
+
+const ROLE_CAPABILITIES: Record<AdminRole, readonly Capability[]> = {
+  admin: CAPABILITIES,
+  moderator: [...EVENT_OPERATIONS, ...EVENT_EDITING, 'event.publish', 'ad.view', 'ad.edit', 'ad.approve', 'vendor.view'],
+  vendor: [...EVENT_OPERATIONS, ...EVENT_EDITING, 'event.create', 'ad.view', 'ad.create', 'ad.edit'],
+  vendor_moderator: EVENT_OPERATIONS,
+};
+
+/**
+ * Extra conditions a resource must meet beyond ownership
+ */
+const RESOURCE_RULES: Partial<Record<Capability, (admin: AdminUser, resource: PermissionResource) => boolean>> = {
+  // Vendors may only touch ads that are still awaiting review.
+  'ad.edit': (admin, resource) => getVendorScopeId(admin) === null || resource.status === 'pending',
+};
+
+/**
+ * Vendor-side roles only ever see data belonging to their vendor
+ */
+export function isVendorScoped(admin: AdminUser): boolean {
+  return admin.role === 'vendor' || admin.role === 'vendor_moderator';
+}
+
+/**
+ * The vendor organization a vendor-side user belongs to
+ */
+export function getVendorScopeId(admin: AdminUser): string | null {
+  return isVendorScoped(admin) ? admin.vendor_id ?? null : null;
+}
+
+/**
+ * The single event an API key is pinned to, if any
+ */
+export function getEventScopeId(admin: AdminUser): string | null {
+  return admin.api_key?.event_id ?? null;
+}
+
+/**
+ * Whether the admin holds the capability, and, when a resource is given,
+ * whether they may exercise it on that particular resource.
+ */
+export function can(admin: AdminUser, capability: Capability, resource?: PermissionResource): boolean {
+  if (!ROLE_CAPABILITIES[admin.role]?.includes(capability)) return false;
+  // API keys are narrowed to what they were granted, never more than the admin they act as.
+  if (admin.api_key && !admin.api_key.capabilities.includes(capability)) return false;
+  if (!resource) return true;
+
+  const eventScopeId = getEventScopeId(admin);
+  if (eventScopeId && resource.id !== eventScopeId) return false;
+
+  if (isVendorScoped(admin)) {
+    const vendorScopeId = getVendorScopeId(admin);
+    if (!vendorScopeId || resource.vendor_id !== vendorScopeId) return false;
+  }
+
+  const rule = RESOURCE_RULES[capability];
+  return rule ? rule(admin, resource) : true;
+}
+
+export function listCapabilities(admin: AdminUser, resource?: PermissionResource): Capability[] {
+  return CAPABILITIES.filter((capability) => can(admin, capability, resource));
+}
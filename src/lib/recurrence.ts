@@ -0,0 +1,97 @@
+/**
+ * Recurrence rules for event series, worked out on calendar dates (YYYY-MM-DD)
+ * in the series' time zone. Kept free of server imports so forms can preview
+ * the dates a rule produces.
+ */
+
+export const MAX_SERIES_OCCURRENCES = 104;
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'] as const;
+
+export type Recurrence =
+  | { type: 'weekly'; weekdays: number[]; interval_weeks: number; until: string }
+  | { type: 'monthly'; day_of_month: number; until: string }
+  | { type: 'dates'; dates: string[] };
+
+const DAY_MS = 86_400_000;
+
+const toDayNumber = (date: string) => Math.floor(Date.parse(`${date}T00:00:00Z`) / DAY_MS);
+const fromDayNumber = (day: number) => new Date(day * DAY_MS).toISOString().slice(0, 10);
+
+export function addDays(date: string, days: number): string {
+  return fromDayNumber(toDayNumber(date) + days);
+}
+
+export function daysBetween(from: string, to: string): number {
+  return toDayNumber(to) - toDayNumber(from);
+}
+
+function isRealDate(year: number, month: number, day: number) {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+/**
+ * Dates the rule produces after the series' first date, in order. Stops one
+ * past MAX_SERIES_OCCURRENCES so callers can tell a rule that runs too long.
+ */
+export function occurrenceDates(recurrence: Recurrence, startsOn: string): string[] {
+  const dates: string[] = [];
+  const limit = MAX_SERIES_OCCURRENCES + 1;
+
+  if (recurrence.type === 'dates') {
+    return Array.from(new Set(recurrence.dates))
+      .filter((date) => date > startsOn)
+      .sort()
+      .slice(0, limit);
+  }
+
+  if (recurrence.type === 'weekly') {
+    const first = toDayNumber(startsOn);
+    // Weeks run Sunday to Saturday; the first date's week is week zero.
+    const firstWeekStart = first - new Date(first * DAY_MS).getUTCDay();
+    for (let day = first + 1; day <= toDayNumber(recurrence.until) && dates.length < limit; day++) {
+      const week = Math.floor((day - firstWeekStart) / 7);
+      const weekday = new Date(day * DAY_MS).getUTCDay();
+      if (week % recurrence.interval_weeks === 0 && recurrence.weekdays.includes(weekday)) {
+        dates.push(fromDayNumber(day));
+      }
+    }
+    return dates;
+  }
+
+  // Monthly: months without that day (the 31st in April) are skipped.
+  let [year, month] = startsOn.split('-').map(Number);
+  while (dates.length < limit) {
+    if (isRealDate(year, month, recurrence.day_of_month)) {
+      const date = `${year}-${String(month).padStart(2, '0')}-${String(recurrence.day_of_month).padStart(2, '0')}`;
+      if (date > recurrence.until) break;
+      if (date > startsOn) dates.push(date);
+    } else if (`${year}-${String(month).padStart(2, '0')}-01` > recurrence.until) {
+      break;
+    }
+    month += 1;
+    if (month > 12) {
+      month = 1;
+      year += 1;
+    }
+  }
+  return dates;
+}
+
+function ordinal(n: number) {
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][n % 10] ?? 'th';
+  return `${n}${suffix}`;
+}
+
+export function describeRecurrence(recurrence: Recurrence): string {
+  if (recurrence.type === 'weekly') {
+    const days = [...recurrence.weekdays].sort().map((day) => WEEKDAY_LABELS[day]).join(', ');
+    const every = recurrence.interval_weeks === 1 ? 'Weekly' : `Every ${recurrence.interval_weeks} weeks`;
+    return `${every} on ${days} until ${recurrence.until}`;
+  }
+  if (recurrence.type === 'monthly') {
+    return `Monthly on the ${ordinal(recurrence.day_of_month)} until ${recurrence.until}`;
+  }
+  return `${recurrence.dates.length} chosen ${recurrence.dates.length === 1 ? 'date' : 'dates'}`;
+}
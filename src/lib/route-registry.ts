@@ -0,0 +1,219 @@
+import type { Capability } from '@/lib/permissions';
+
+/**
+ * Who may reach a route: anyone, any signed-in admin, or only admins holding a capability.
+ * Handlers still check resource ownership themselves; this is the coarse gate.
+ * API keys are only accepted on routes that name a capability.
+ *
+ * While an admin is viewing as another user, reads go through and writes are
+ * blocked unless the impersonation allows them; `impersonation` overrides that
+ * for routes that must always ('always') or never ('never') be reachable.
+ */
+export type RouteAccess =
+  | { auth: 'public' }
+  | { auth: 'session'; capability?: Capability; impersonation?: 'always' | 'never' };
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+type ApiRoute = {
+  path: string;
+  methods: Partial<Record<HttpMethod, RouteAccess>>;
+};
+
+type PageRoute = {
+  path: string;
+  access: RouteAccess;
+};
+
+const PUBLIC: RouteAccess = { auth: 'public' };
+const SESSION: RouteAccess = { auth: 'session' };
+// The signed-in admin's own account; off limits while viewing as someone else
+const ACCOUNT: RouteAccess = { auth: 'session', impersonation: 'never' };
+const requires = (capability: Capability): RouteAccess => ({ auth: 'session', capability });
+
+/**
+ * Every API route and the access each method needs. Paths use the same
+ * [param] syntax as the app directory; the first matching entry wins, so
+ * static segments are listed before dynamic siblings. Anything missing here
+ * is rejected by the middleware.
+ */
+export const API_ROUTES: ApiRoute[] = [
+  { path: '/api/admin/login', methods: { POST: PUBLIC } },
+  { path: '/api/admin/login/password', methods: { POST: PUBLIC } },
+  { path: '/api/admin/login/totp', methods: { POST: PUBLIC } },
+  { path: '/api/admin/login/totp/enroll', methods: { POST: PUBLIC } },
+  { path: '/api/admin/password-reset', methods: { POST: PUBLIC } },
+  { path: '/api/admin/password-reset/confirm', methods: { POST: PUBLIC } },
+  { path: '/api/admin/invitations/accept', methods: { GET: PUBLIC, POST: PUBLIC } },
+  { path: '/api/admin/sso', methods: { GET: PUBLIC } },
+  { path: '/api/admin/sso/start', methods: { GET: PUBLIC } },
+  { path: '/api/admin/sso/callback', methods: { GET: PUBLIC } },
+  // Authenticated by CRON_SECRET inside the handler.
+  { path: '/api/cron/event-schedule', methods: { GET: PUBLIC, POST: PUBLIC } },
+  { path: '/api/admin/logout', methods: { POST: { auth: 'session', impersonation: 'always' } } },
+  { path: '/api/admin/me', methods: { GET: SESSION } },
+  { path: '/api/admin/permissions', methods: { GET: SESSION } },
+  { path: '/api/admin/sessions', methods: { GET: ACCOUNT, DELETE: ACCOUNT } },
+  { path: '/api/admin/totp', methods: { GET: ACCOUNT, DELETE: ACCOUNT } },
+  { path: '/api/admin/totp/setup', methods: { POST: ACCOUNT } },
+  { path: '/api/admin/totp/enable', methods: { POST: ACCOUNT } },
+  { path: '/api/admin/totp/recovery-codes', methods: { POST: ACCOUNT } },
+  {
+    path: '/api/admin/impersonation',
+    methods: {
+      POST: requires('admin_user.impersonate'),
+      DELETE: { auth: 'session', impersonation: 'always' },
+    },
+  },
+  {
+    path: '/api/admin/role-policies',
+    methods: { GET: requires('security.manage'), PUT: requires('security.manage') },
+  },
+  {
+    path: '/api/admin/users',
+    methods: { GET: requires('admin_user.manage'), POST: requires('admin_user.manage') },
+  },
+  {
+    path: '/api/admin/users/[id]',
+    methods: { PATCH: requires('admin_user.manage'), DELETE: requires('admin_user.manage') },
+  },
+  {
+    path: '/api/admin/invitations',
+    methods: { GET: requires('admin_user.manage'), POST: requires('admin_user.manage') },
+  },
+  { path: '/api/admin/invitations/[id]', methods: { DELETE: requires('admin_user.manage') } },
+  { path: '/api/admin/invitations/[id]/resend', methods: { POST: requires('admin_user.manage') } },
+  { path: '/api/admin/users/[id]/login-attempts', methods: { GET: requires('admin_user.manage') } },
+  {
+    path: '/api/admin/users/[id]/suspension',
+    methods: { POST: requires('admin_user.manage'), DELETE: requires('admin_user.manage') },
+  },
+  {
+    path: '/api/admin/users/[id]/sessions',
+    methods: { GET: requires('admin_user.manage'), DELETE: requires('admin_user.manage') },
+  },
+  { path: '/api/admin/users/[id]/sessions/[sessionId]', methods: { DELETE: requires('admin_user.manage') } },
+  { path: '/api/admin/users/[id]/totp', methods: { DELETE: requires('admin_user.manage') } },
+  { path: '/api/admin/users/[id]/sso', methods: { DELETE: requires('admin_user.manage') } },
+  {
+    path: '/api/admin/api-keys',
+    methods: { GET: requires('api_key.manage'), POST: requires('api_key.manage') },
+  },
+  { path: '/api/admin/api-keys/[id]', methods: { DELETE: requires('api_key.manage') } },
+  { path: '/api/admin/vendors', methods: { GET: requires('vendor.view'), POST: requires('vendor.manage') } },
+  {
+    path: '/api/admin/vendors/[id]',
+    methods: { GET: requires('vendor.manage'), PATCH: requires('vendor.manage'), DELETE: requires('vendor.manage') },
+  },
+  { path: '/api/admin/audit-log', methods: { GET: requires('audit.view') } },
+
+  { path: '/api/events', methods: { GET: requires('event.view'), POST: requires('event.create') } },
+  { path: '/api/events/options', methods: { GET: requires('event.view') } },
+  { path: '/api/events/review-queue', methods: { GET: requires('event.publish') } },
+  {
+    path: '/api/events/[id]',
+    methods: { GET: requires('event.view'), PATCH: requires('event.edit'), DELETE: requires('event.delete') },
+  },
+  { path: '/api/events/[id]/attendees', methods: { GET: requires('attendee.view') } },
+  { path: '/api/events/[id]/duplicate', methods: { POST: requires('event.create') } },
+  { path: '/api/events/[id]/revisions', methods: { GET: requires('event.view') } },
+  { path: '/api/events/[id]/revisions/[revisionId]', methods: { GET: requires('event.view') } },
+  { path: '/api/events/[id]/revisions/[revisionId]/restore', methods: { POST: requires('event.edit') } },
+  { path: '/api/events/[id]/reconciliation', methods: { GET: requires('event.view') } },
+  { path: '/api/events/[id]/review', methods: { POST: requires('event.edit') } },
+  { path: '/api/events/[id]/review/decision', methods: { POST: requires('event.publish') } },
+  { path: '/api/events/[id]/comments', methods: { GET: requires('event.view'), POST: requires('event.view') } },
+  { path: '/api/event-series', methods: { POST: requires('event.create') } },
+  {
+    path: '/api/event-series/[id]',
+    methods: { GET: requires('event.view'), PATCH: requires('event.edit'), DELETE: requires('event.edit') },
+  },
+  { path: '/api/event-categories', methods: { GET: requires('event.view'), POST: requires('category.manage') } },
+  {
+    path: '/api/event-categories/[id]',
+    methods: { PATCH: requires('category.manage'), DELETE: requires('category.manage') },
+  },
+  { path: '/api/venues', methods: { GET: requires('event.view'), POST: requires('venue.manage') } },
+  {
+    path: '/api/venues/[id]',
+    methods: { GET: requires('event.view'), PATCH: requires('venue.manage'), DELETE: requires('venue.manage') },
+  },
+  {
+    path: '/api/events/[id]/images',
+    methods: { GET: requires('event.view'), POST: requires('event.images.manage') },
+  },
+  {
+    path: '/api/events/[id]/tiers',
+    methods: { GET: requires('event.view'), POST: requires('event.tiers.manage') },
+  },
+  {
+    path: '/api/tiers/[id]',
+    methods: { PATCH: requires('event.tiers.manage'), DELETE: requires('event.tiers.manage') },
+  },
+  {
+    path: '/api/images/[id]',
+    methods: { PATCH: requires('event.images.manage'), DELETE: requires('event.images.manage') },
+  },
+  { path: '/api/upload', methods: { GET: requires('system.diagnostics'), POST: requires('event.images.manage') } },
+
+  { path: '/api/ads', methods: { GET: requires('ad.view'), POST: requires('ad.create') } },
+  { path: '/api/ads/[id]', methods: { PATCH: requires('ad.edit'), DELETE: requires('ad.delete') } },
+
+  { path: '/api/tickets/verify', methods: { POST: requires('ticket.verify') } },
+  { path: '/api/tickets/reject', methods: { POST: requires('ticket.reject') } },
+  { path: '/api/instagram-reviews', methods: { GET: requires('instagram.review') } },
+  { path: '/api/orders/[id]/instagram', methods: { PATCH: requires('instagram.review') } },
+  { path: '/api/refunds', methods: { GET: requires('refund.process') } },
+  { path: '/api/orders/[id]/refund', methods: { PATCH: requires('refund.process') } },
+];
+
+/**
+ * Page guards. Pages not listed here only require a signed-in session.
+ */
+export const PAGE_ROUTES: PageRoute[] = [
+  { path: '/signin', access: PUBLIC },
+  { path: '/reset-password', access: PUBLIC },
+  { path: '/accept-invite', access: PUBLIC },
+  { path: '/account/security', access: ACCOUNT },
+  { path: '/events', access: requires('event.view') },
+  { path: '/events/new', access: requires('event.create') },
+  { path: '/events/review', access: requires('event.publish') },
+  { path: '/events/[id]', access: requires('event.view') },
+  { path: '/events/[id]/attendees', access: requires('attendee.view') },
+  { path: '/event-series/[id]', access: requires('event.view') },
+  { path: '/ads', access: requires('ad.view') },
+  { path: '/scan', access: requires('ticket.verify') },
+  { path: '/admin-users', access: requires('admin_user.manage') },
+  { path: '/api-keys', access: requires('api_key.manage') },
+  { path: '/vendors', access: requires('vendor.manage') },
+  { path: '/event-categories', access: requires('category.manage') },
+  { path: '/venues', access: requires('venue.manage') },
+  { path: '/venues/[id]', access: requires('event.view') },
+  { path: '/audit-log', access: requires('audit.view') },
+  { path: '/instagram-reviews', access: requires('instagram.review') },
+  { path: '/refunds', access: requires('refund.process') },
+];
+
+function matchesPath(pattern: string, pathname: string): boolean {
+  const patternSegments = pattern.split('/').filter(Boolean);
+  const pathSegments = pathname.split('/').filter(Boolean);
+  if (patternSegments.length !== pathSegments.length) return false;
+  return patternSegments.every(
+    (segment, index) => (segment.startsWith('[') && segment.endsWith(']')) || segment === pathSegments[index]
+  );
+}
+
+/**
+ * Access for an API request, or null when the route or method is not registered
+ */
+export function findApiRouteAccess(pathname: string, method: string): RouteAccess | null {
+  const route = API_ROUTES.find((entry) => matchesPath(entry.path, pathname));
+  if (!route) return null;
+  // HEAD is answered by the GET handler.
+  const key = (method === 'HEAD' ? 'GET' : method) as HttpMethod;
+  return route.methods[key] ?? null;
+}
+
+export function findPageAccess(pathname: string): RouteAccess {
+  return PAGE_ROUTES.find((entry) => matchesPath(entry.path, pathname))?.access ?? SESSION;
+}
@@ -0,0 +1,118 @@
+/**
+ * Whether the runtime knows this IANA zone name, e.g. "Asia/Kolkata"
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export type ZonedParts = {
+  /** YYYY-MM-DD */
+  date: string;
+  /** HH:MM */
+  time: string;
+};
+
+/**
+ * The wall-clock date and time an instant reads as in a zone
+ */
+export function toZonedParts(instant: Date, timeZone: string): ZonedParts {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+    })
+      .formatToParts(instant)
+      .map((part) => [part.type, part.value])
+  );
+  return { date: `${parts.year}-${parts.month}-${parts.day}`, time: `${parts.hour}:${parts.minute}` };
+}
+
+function zoneOffsetMinutes(instant: Date, timeZone: string): number {
+  const { date, time } = toZonedParts(instant, timeZone);
+  const wallClock = Date.parse(`${date}T${time}:00Z`);
+  return Math.round((wallClock - Math.floor(instant.getTime() / 60_000) * 60_000) / 60_000);
+}
+
+/**
+ * The instant a wall-clock date and time in a zone refers to. Across a DST
+ * change the offset in force after the change wins, so a skipped time moves
+ * forward rather than failing.
+ */
+export function fromZonedParts(date: string, time: string, timeZone: string): Date {
+  const wallClock = Date.parse(`${date}T${time}:00Z`);
+  const firstGuess = wallClock - zoneOffsetMinutes(new Date(wallClock), timeZone) * 60_000;
+  const offset = zoneOffsetMinutes(new Date(firstGuess), timeZone);
+  return new Date(wallClock - offset * 60_000);
+}
+
+/**
+ * Where events that never had a zone recorded take place
+ */
+export const DEFAULT_TIME_ZONE = 'Asia/Kolkata';
+
+/**
+ * `YYYY-MM-DDTHH:MM` for a datetime-local input showing the instant as it
+ * reads in the zone; empty for no instant
+ */
+export function toZonedInputValue(instant: string | Date | null | undefined, timeZone: string): string {
+  if (!instant) return '';
+  const date = instant instanceof Date ? instant : new Date(instant);
+  if (Number.isNaN(date.getTime())) return '';
+  const { date: day, time } = toZonedParts(date, timeZone);
+  return `${day}T${time}`;
+}
+
+/**
+ * The instant a datetime-local input value means in the zone, as an ISO
+ * string; null when the input is empty or incomplete
+ */
+export function fromZonedInputValue(value: string, timeZone: string): string | null {
+  const match = /^(\d{4}-\d{2}-\d{2})T(\d{2}:\d{2})/.exec(value);
+  return match ? fromZonedParts(match[1], match[2], timeZone).toISOString() : null;
+}
+
+/**
+ * The same wall-clock time in another zone, for when a zone is corrected
+ * after the times were entered
+ */
+export function moveToTimeZone(instant: string | Date | null | undefined, from: string, to: string): string | null {
+  const value = toZonedInputValue(instant, from);
+  return value ? fromZonedInputValue(value, to) : null;
+}
+
+/**
+ * The zone's offset from UTC at an instant, e.g. "GMT+5:30"
+ */
+export function timeZoneOffsetLabel(timeZone: string, at: Date = new Date()): string {
+  return (
+    new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'shortOffset' })
+      .formatToParts(at)
+      .find((part) => part.type === 'timeZoneName')?.value ?? timeZone
+  );
+}
+
+/**
+ * An instant as it reads in a zone, with the zone named so it cannot be
+ * mistaken for the viewer's own time
+ */
+export function formatInTimeZone(instant: string | Date, timeZone: string): string {
+  return new Intl.DateTimeFormat(undefined, {
+    timeZone,
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZoneName: 'short',
+  }).format(instant instanceof Date ? instant : new Date(instant));
+}
@@ -0,0 +1,58 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import type { EventCategory } from '@/lib/event-categories';
+
+/**
+ * Tags typed as a comma or newline separated list
+ */
+export const parseTags = (value: string): string[] =>
+  Array.from(
+    new Set(
+      value
+        .split(/[\n,]/)
+        .map((tag) => tag.trim().toLowerCase())
+        .filter(Boolean)
+    )
+  );
+
+/**
+ * The stored category taxonomy, for pickers, filters and showing an event's
+ * category by name
+ */
+export function useEventCategories() {
+  const [categories, setCategories] = useState<EventCategory[] | null>(null);
+
+  useEffect(() => {
+    fetch('/api/event-categories', { cache: 'no-store' })
+      .then((res) => (res.ok ? res.json() : { categories: [] }))
+      .then((data) => setCategories(data.categories ?? []))
+      .catch(() => setCategories([]));
+  }, []);
+
+  const topLevel = useMemo(() => (categories ?? []).filter((category) => !category.parent_id), [categories]);
+
+  const subcategoriesOf = useCallback(
+    (slug: string | null | undefined) => {
+      const parent = topLevel.find((category) => category.slug === slug);
+      return parent ? (categories ?? []).filter((category) => category.parent_id === parent.id) : [];
+    },
+    [categories, topLevel]
+  );
+
+  // Events keep the slug of a deleted or unknown category; show it as is.
+  const nameOf = useCallback(
+    (slug: string | null | undefined) => (slug ? (categories ?? []).find((category) => category.slug === slug)?.name ?? slug : null),
+    [categories]
+  );
+
+  return { categories: categories ?? [], topLevel, subcategoriesOf, nameOf, loaded: categories !== null };
+}
+
+/**
+ * What a picker offers: active entries, plus the current one even if it has
+ * since been deactivated
+ */
+export function selectableCategories(options: EventCategory[], current: string | null | undefined) {
+  return options.filter((category) => category.is_active || category.slug === current);
+}
@@ -0,0 +1,43 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import type { Capability } from '@/lib/permissions';
+import { findPageAccess } from '@/lib/route-registry';
+
+/**
+ * Client-side view of the current admin's capabilities, for hiding controls.
+ * The API re-checks every action, so this is purely cosmetic.
+ */
+export function usePermissions(resource?: { eventId?: string; adId?: string }) {
+  const eventId = resource?.eventId;
+  const adId = resource?.adId;
+  const [capabilities, setCapabilities] = useState<Capability[] | null>(null);
+
+  useEffect(() => {
+    const params = new URLSearchParams();
+    if (eventId) params.set('event_id', eventId);
+    if (adId) params.set('ad_id', adId);
+    const query = params.toString();
+
+    fetch(`/api/admin/permissions${query ? `?${query}` : ''}`, { cache: 'no-store' })
+      .then((res) => (res.ok ? res.json() : { capabilities: [] }))
+      .then((data) => setCapabilities(data.capabilities ?? []))
+      .catch(() => setCapabilities([]));
+  }, [eventId, adId]);
+
+  const can = useCallback(
+    (capability: Capability) => capabilities?.includes(capability) ?? false,
+    [capabilities]
+  );
+
+  // Same page guard the middleware applies, for deciding which links to show.
+  const canOpen = useCallback(
+    (pathname: string) => {
+      const access = findPageAccess(pathname);
+      return access.auth === 'public' || !access.capability || can(access.capability);
+    },
+    [can]
+  );
+
+  return { can, canOpen, loaded: capabilities !== null };
+}
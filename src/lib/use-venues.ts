@@ -0,0 +1,41 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { Venue } from '@/lib/venues';
+
+/**
+ * Every venue, archived ones included, for pickers and filters
+ */
+export function useVenues() {
+  const [venues, setVenues] = useState<Venue[] | null>(null);
+
+  useEffect(() => {
+    fetch('/api/venues?status=all', { cache: 'no-store' })
+      .then((res) => (res.ok ? res.json() : { venues: [] }))
+      .then((data) => setVenues(data.venues ?? []))
+      .catch(() => setVenues([]));
+  }, []);
+
+  return { venues: venues ?? [], loaded: venues !== null };
+}
+
+/**
+ * What a picker offers: active venues, plus the current one even if it has
+ * since been archived
+ */
+export function selectableVenues(venues: Venue[], current: string | null | undefined) {
+  return venues.filter((venue) => venue.status === 'active' || venue.id === current);
+}
+
+/**
+ * A venue's default gates as rows for an event's gate editor
+ */
+export function venueGateRows(venue: Venue) {
+  return venue.entry_gates.map((gate, index) => ({
+    id: `venue-gate-${Date.now()}-${index}`,
+    name: gate.name,
+    code: gate.code ?? '',
+    sort_order: index,
+    is_active: gate.is_active !== false,
+  }));
+}
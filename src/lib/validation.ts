@@ -1,4 +1,8 @@
 import { z } from 'zod';
+import { CAPABILITIES, EVENT_KEY_CAPABILITIES } from '@/lib/permissions';
+import { passwordPolicyIssues } from '@/lib/password-policy';
+import { MAX_SERIES_OCCURRENCES } from '@/lib/recurrence';
+import { isValidTimeZone } from '@/lib/timezones';
 
 const normalizeDomain = (value: string) => value.trim().toLowerCase().replace(/^@/, '');
 const DOMAIN_REGEX = /^[a-z0-9.-]+\.[a-z]{2,}$/;
@@ -10,18 +14,68 @@ const EventEntryGateSchema = z.object({
   is_active: z.boolean().optional(),
 });
 
+// Length and character classes only; the API also rejects breached passwords.
+export const NewPasswordSchema = z.string().superRefine((value, ctx) => {
+  for (const message of passwordPolicyIssues(value)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+  }
+});
+
+// Existing passwords predate the policy, so sign-in only checks presence.
 export const LoginSchema = z.object({
   email: z.string().email(),
-  password: z.string().min(6),
+  password: z.string().min(1, 'Password is required'),
+});
+
+export const PasswordResetRequestSchema = z.object({
+  email: z.string().email(),
+});
+
+export const PasswordResetConfirmSchema = z.object({
+  token: z.string().min(1),
+  password: NewPasswordSchema,
 });
 
+export const CategorySlugSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .max(48)
+  .regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, 'Use lowercase letters, digits and dashes, e.g. live-music');
+
+// Which slugs exist is checked against the stored taxonomy by the API. Forms
+// send '' for "none".
+const EventCategoryRefSchema = CategorySlugSchema.or(z.literal(''))
+  .nullable()
+  .transform((value) => value || null)
+  .optional();
+
+export const EventTagsSchema = z
+  .array(z.string().trim().toLowerCase().min(1).max(32, 'Tags are at most 32 characters'))
+  .max(20, 'Use at most 20 tags')
+  .transform((tags) => Array.from(new Set(tags)));
+
+// A point in time that means the same thing wherever it is read: ISO 8601
+// with Z or an explicit offset. Wall-clock times are converted in the browser
+// using the event's zone before they are sent.
+const InstantSchema = z.iso.datetime({ offset: true, message: 'Enter a date and time' }).or(z.date());
+
+const TimeZoneSchema = z.string().refine(isValidTimeZone, 'Unknown time zone');
+
 export const EventBaseSchema = z.object({
   title: z.string().min(1),
   description: z.string().optional().nullable(),
-  category: z.enum(['Music', 'Tech', 'Comedy', 'Art', 'Sports']).optional().nullable(),
+  category: EventCategoryRefSchema,
+  subcategory: EventCategoryRefSchema,
+  tags: EventTagsSchema.optional(),
   hero_image_url: z.string().url().optional().nullable(),
-  start_at: z.string().or(z.date()),
-  end_at: z.string().or(z.date()).optional().nullable(),
+  start_at: InstantSchema,
+  end_at: InstantSchema.optional().nullable(),
+  timezone: TimeZoneSchema.optional(),
+  // Forms send '' for "no venue".
+  venue_id: z.string().uuid().or(z.literal('')).nullable().transform((value) => value || null).optional(),
+  // The most tickets the event's tiers may offer between them; null is unlimited.
+  capacity: z.number().int().positive().max(2147483647).optional().nullable(),
   venue_name: z.string().optional().nullable(),
   address_line: z.string().optional().nullable(),
   city: z.string().optional().nullable(),
@@ -37,6 +91,8 @@ export const EventBaseSchema = z.object({
     .nullable(),
   currency: z.string().length(3).optional(),
   status: z.enum(['draft', 'published', 'archived']).optional(),
+  publish_at: InstantSchema.optional().nullable(),
+  archive_at: InstantSchema.optional().nullable(),
   allow_cab: z.boolean().optional(),
   require_instagram_verification: z.boolean().optional(),
   require_email_domain_verification: z.boolean().optional(),
@@ -54,19 +110,83 @@ export const EventBaseSchema = z.object({
 
 export const EventCreateSchema = EventBaseSchema.extend({
   title: z.string().min(1),
-  start_at: z.string().or(z.date()),
+  start_at: InstantSchema,
+});
+
+export const EventUpdateSchema = EventBaseSchema.partial().extend({
+  // For an occurrence of a series: also apply the edit to every later occurrence.
+  series_scope: z.enum(['this', 'future']).optional(),
 });
 
-export const EventUpdateSchema = EventBaseSchema.partial();
+// Parts left out are copied when the admin may manage them.
+export const EventDuplicateSchema = z.object({
+  title: z.string().trim().min(1).max(200).optional(),
+  offset_minutes: z
+    .number()
+    .int()
+    .min(-10 * 366 * 24 * 60)
+    .max(10 * 366 * 24 * 60)
+    .default(0),
+  copy_tiers: z.boolean().optional(),
+  copy_images: z.boolean().optional(),
+  copy_entry_gates: z.boolean().optional(),
+});
+
+const CalendarDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD');
+
+export const RecurrenceSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('weekly'),
+    weekdays: z.array(z.number().int().min(0).max(6)).min(1, 'Pick at least one weekday').max(7),
+    interval_weeks: z.number().int().min(1).max(4).default(1),
+    until: CalendarDateSchema,
+  }),
+  z.object({
+    type: z.literal('monthly'),
+    day_of_month: z.number().int().min(1).max(31),
+    until: CalendarDateSchema,
+  }),
+  z.object({
+    type: z.literal('dates'),
+    dates: z.array(CalendarDateSchema).min(1, 'Add at least one date').max(MAX_SERIES_OCCURRENCES),
+  }),
+]);
+
+export const EventSeriesCreateSchema = z.object({
+  event_id: z.string().uuid(),
+  recurrence: RecurrenceSchema,
+  timezone: TimeZoneSchema,
+  status: z.enum(['draft', 'published']).default('draft'),
+});
+
+export const EventSeriesUpdateSchema = z.object({
+  recurrence: RecurrenceSchema,
+});
+
+const ReviewCommentBodySchema = z.string().trim().min(1, 'Write a comment').max(4000);
+
+export const EventReviewSubmitSchema = z.object({
+  comment: ReviewCommentBodySchema.optional(),
+});
+
+export const EventReviewDecisionSchema = z.discriminatedUnion('decision', [
+  z.object({ decision: z.literal('approve'), comment: ReviewCommentBodySchema.optional() }),
+  // The vendor needs to know what to change.
+  z.object({ decision: z.literal('request_changes'), comment: ReviewCommentBodySchema }),
+]);
+
+export const EventReviewCommentSchema = z.object({
+  body: ReviewCommentBodySchema,
+});
 
 export const TierCreateSchema = z.object({
   name: z.string().min(1),
   price_cents: z.number().int().nonnegative(),
   currency: z.string().length(3).default('INR'),
-  total_quantity: z.number().int().nonnegative(),
-  sold_quantity: z.number().int().nonnegative().optional(),
-  sales_start: z.string().or(z.date()).optional().nullable(),
-  sales_end: z.string().or(z.date()).optional().nullable(),
+  total_quantity: z.number().int().nonnegative().max(2147483647),
+  // sold_quantity is absent on purpose: only checkout moves it.
+  sales_start: InstantSchema.optional().nullable(),
+  sales_end: InstantSchema.optional().nullable(),
 });
 
 export const TierUpdateSchema = TierCreateSchema.partial();
@@ -87,8 +207,9 @@ export const AdBaseSchema = z.object({
   event_id: z.string().uuid().optional().nullable(),
   placement: z.enum(['home_feed']).optional(),
   status: z.enum(['pending', 'approved', 'rejected', 'paused']).optional(),
-  start_at: z.string().or(z.date()).optional(),
-  end_at: z.string().or(z.date()).optional().nullable(),
+  start_at: InstantSchema.optional(),
+  end_at: InstantSchema.optional().nullable(),
+  timezone: TimeZoneSchema.optional(),
   priority: z.number().int().optional(),
   vendor_id: z.string().uuid().optional().nullable(),
 });
@@ -117,53 +238,189 @@ export const AdCreateSchema = AdBaseSchema.superRefine((data, ctx) => {
 
 export const AdUpdateSchema = AdBaseSchema.partial();
 
-export const AdminUserCreateSchema = z.object({
-  email: z.string().email(),
-  password: z.string().min(6),
-  role: z.enum(['admin', 'moderator', 'vendor', 'vendor_moderator']),
-  vendor_id: z.string().uuid().optional().nullable(),
-}).superRefine((data, ctx) => {
-  if (data.role === 'vendor_moderator' && !data.vendor_id) {
+const ADMIN_ROLES = ['admin', 'moderator', 'vendor', 'vendor_moderator'] as const;
+
+export const VENDOR_ROLES = ['vendor', 'vendor_moderator'] as const;
+
+export function isVendorRole(role: string | null | undefined): boolean {
+  return (VENDOR_ROLES as readonly string[]).includes(role ?? '');
+}
+
+const refineVendorAssignment = (data: { role: string; vendor_id?: string | null }, ctx: z.RefinementCtx) => {
+  if (isVendorRole(data.role) && !data.vendor_id) {
     ctx.addIssue({
       code: z.ZodIssueCode.custom,
-      message: 'vendor_id is required for vendor moderators',
+      message: 'vendor_id is required for vendor roles',
       path: ['vendor_id'],
     });
   }
-  if (data.role !== 'vendor_moderator' && data.vendor_id) {
+  if (!isVendorRole(data.role) && data.vendor_id) {
     ctx.addIssue({
       code: z.ZodIssueCode.custom,
-      message: 'vendor_id is only allowed for vendor moderators',
+      message: 'vendor_id is only allowed for vendor roles',
       path: ['vendor_id'],
     });
   }
+};
+
+export const AdminUserCreateSchema = z.object({
+  email: z.string().email(),
+  password: NewPasswordSchema,
+  role: z.enum(ADMIN_ROLES),
+  vendor_id: z.string().uuid().optional().nullable(),
+  must_change_password: z.boolean().optional(),
+}).superRefine(refineVendorAssignment);
+
+export const AdminInviteSchema = z.object({
+  email: z.string().email(),
+  role: z.enum(ADMIN_ROLES),
+  vendor_id: z.string().uuid().optional().nullable(),
+}).superRefine(refineVendorAssignment);
+
+export const InvitationAcceptSchema = z.object({
+  token: z.string().min(1),
+  password: NewPasswordSchema,
 });
 
 export const AdminUserUpdateSchema = z.object({
   email: z.string().email().optional(),
-  password: z.string().min(6).optional(),
-  role: z.enum(['admin', 'moderator', 'vendor', 'vendor_moderator']).optional(),
+  password: NewPasswordSchema.optional(),
+  role: z.enum(ADMIN_ROLES).optional(),
   vendor_id: z.string().uuid().optional().nullable(),
+  must_change_password: z.boolean().optional(),
+  password_login_disabled: z.boolean().optional(),
 }).superRefine((data, ctx) => {
-  if (data.role === 'vendor_moderator' && !data.vendor_id) {
+  if (data.role && isVendorRole(data.role) && !data.vendor_id) {
     ctx.addIssue({
       code: z.ZodIssueCode.custom,
-      message: 'vendor_id is required for vendor moderators',
+      message: 'vendor_id is required for vendor roles',
       path: ['vendor_id'],
     });
   }
-  if (data.role && data.role !== 'vendor_moderator' && data.vendor_id) {
+  if (data.role && !isVendorRole(data.role) && data.vendor_id) {
     ctx.addIssue({
       code: z.ZodIssueCode.custom,
-      message: 'vendor_id is only allowed for vendor moderators',
+      message: 'vendor_id is only allowed for vendor roles',
       path: ['vendor_id'],
     });
   }
 });
 
+// Optional free-text vendor fields: blanks from the form are stored as null.
+// Optional last, so a field left out of a partial update stays out instead of
+// being cleared.
+const optionalText = (max: number) =>
+  z.string().trim().max(max).nullable().transform((value) => value || null).optional();
+
+const optionalFormatted = (schema: z.ZodString) =>
+  schema.or(z.literal('')).nullable().transform((value) => value || null).optional();
+
+export const VendorCreateSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(200),
+  contact_name: optionalText(200),
+  contact_email: optionalFormatted(z.string().trim().email()),
+  contact_phone: optionalText(30),
+  gstin: optionalFormatted(
+    z.string().trim().toUpperCase().regex(/^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/, 'GSTIN must be 15 characters, e.g. 27AAPFU0939F1ZV')
+  ),
+  payout_account_name: optionalText(200),
+  payout_account_number: optionalFormatted(z.string().trim().regex(/^[0-9]{9,18}$/, 'Account number must be 9 to 18 digits')),
+  payout_ifsc: optionalFormatted(z.string().trim().toUpperCase().regex(/^[A-Z]{4}0[A-Z0-9]{6}$/, 'IFSC must look like HDFC0001234')),
+  payout_upi_id: optionalFormatted(z.string().trim().regex(/^[\w.-]+@[\w.-]+$/, 'UPI ID must look like name@bank')),
+});
+
+export const VendorUpdateSchema = VendorCreateSchema.partial().extend({
+  status: z.enum(['active', 'archived']).optional(),
+});
+
+export const EventCategoryCreateSchema = z.object({
+  slug: CategorySlugSchema,
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  // An emoji or short icon name shown next to the category.
+  icon: z.string().trim().max(64).nullable().transform((value) => value || null).optional(),
+  // Set for a sub-category; categories only nest one level deep.
+  parent_id: z.string().uuid().optional().nullable(),
+  sort_order: z.number().int().min(0).max(10000).optional(),
+  is_active: z.boolean().optional(),
+});
+
+// Events store the slug, so it never changes once created.
+export const EventCategoryUpdateSchema = EventCategoryCreateSchema.omit({ slug: true }).partial();
+
+const VenueGateSchema = z.object({
+  name: z.string().trim().min(1, 'Gate name is required').max(64),
+  code: z
+    .string()
+    .trim()
+    .toUpperCase()
+    .regex(/^[A-Z0-9_-]{0,24}$/, 'Gate codes are up to 24 letters, digits, dashes or underscores')
+    .optional(),
+  is_active: z.boolean().optional(),
+});
+
+export const VenueCreateSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(200),
+  address_line: optionalText(500),
+  city: optionalText(100),
+  latitude: z.number().min(-90).max(90).optional().nullable(),
+  longitude: z.number().min(-180).max(180).optional().nullable(),
+  capacity: z.number().int().positive('Capacity must be at least 1').max(1000000).optional().nullable(),
+  timezone: TimeZoneSchema.optional(),
+  entry_gates: z.array(VenueGateSchema).max(50).optional(),
+  photo_urls: z.array(z.string().url()).max(12, 'Use at most 12 photos').optional(),
+});
+
+export const VenueUpdateSchema = VenueCreateSchema.partial().extend({
+  status: z.enum(['active', 'archived']).optional(),
+});
+
+export const AdminUserSuspendSchema = z.object({
+  reason: z.string().trim().min(1, 'A reason is required').max(500),
+});
+
+export const RolePolicyUpdateSchema = z.object({
+  role: z.enum(ADMIN_ROLES),
+  require_totp: z.boolean(),
+});
+
+export const ApiKeyCreateSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  admin_user_id: z.string().uuid(),
+  capabilities: z.array(z.enum(CAPABILITIES)).min(1),
+  event_id: z.string().uuid().optional().nullable(),
+  expires_in_days: z.number().int().min(1).max(365),
+}).superRefine((data, ctx) => {
+  if (data.event_id) {
+    const outside = data.capabilities.filter((capability) => !EVENT_KEY_CAPABILITIES.includes(capability));
+    if (outside.length > 0) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Not available for event-scoped keys: ${outside.join(', ')}`,
+        path: ['capabilities'],
+      });
+    }
+  }
+});
+
+export const ImpersonationStartSchema = z.object({
+  admin_user_id: z.string().uuid(),
+  duration_minutes: z.number().int().min(5).max(120),
+  allow_mutations: z.boolean().default(false),
+  reason: z.string().trim().max(500).optional().nullable(),
+});
+
 export type LoginInput = z.infer<typeof LoginSchema>;
+export type PasswordResetRequestInput = z.infer<typeof PasswordResetRequestSchema>;
+export type PasswordResetConfirmInput = z.infer<typeof PasswordResetConfirmSchema>;
 export type EventCreateInput = z.infer<typeof EventCreateSchema>;
 export type EventUpdateInput = z.infer<typeof EventUpdateSchema>;
+export type EventDuplicateInput = z.infer<typeof EventDuplicateSchema>;
+export type RecurrenceInput = z.infer<typeof RecurrenceSchema>;
+export type EventSeriesCreateInput = z.infer<typeof EventSeriesCreateSchema>;
+export type EventSeriesUpdateInput = z.infer<typeof EventSeriesUpdateSchema>;
+export type EventReviewSubmitInput = z.infer<typeof EventReviewSubmitSchema>;
+export type EventReviewDecisionInput = z.infer<typeof EventReviewDecisionSchema>;
+export type EventReviewCommentInput = z.infer<typeof EventReviewCommentSchema>;
 export type TierCreateInput = z.infer<typeof TierCreateSchema>;
 export type TierUpdateInput = z.infer<typeof TierUpdateSchema>;
 export type ImageCreateInput = z.infer<typeof ImageCreateSchema>;
@@ -172,3 +429,15 @@ export type AdCreateInput = z.infer<typeof AdCreateSchema>;
 export type AdUpdateInput = z.infer<typeof AdUpdateSchema>;
 export type AdminUserCreateInput = z.infer<typeof AdminUserCreateSchema>;
 export type AdminUserUpdateInput = z.infer<typeof AdminUserUpdateSchema>;
+export type AdminInviteInput = z.infer<typeof AdminInviteSchema>;
+export type InvitationAcceptInput = z.infer<typeof InvitationAcceptSchema>;
+export type VendorCreateInput = z.infer<typeof VendorCreateSchema>;
+export type VendorUpdateInput = z.infer<typeof VendorUpdateSchema>;
+export type EventCategoryCreateInput = z.infer<typeof EventCategoryCreateSchema>;
+export type EventCategoryUpdateInput = z.infer<typeof EventCategoryUpdateSchema>;
+export type VenueCreateInput = z.infer<typeof VenueCreateSchema>;
+export type VenueUpdateInput = z.infer<typeof VenueUpdateSchema>;
+export type AdminUserSuspendInput = z.infer<typeof AdminUserSuspendSchema>;
+export type RolePolicyUpdateInput = z.infer<typeof RolePolicyUpdateSchema>;
+export type ApiKeyCreateInput = z.infer<typeof ApiKeyCreateSchema>;
+export type ImpersonationStartInput = z.infer<typeof ImpersonationStartSchema>;
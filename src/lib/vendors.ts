@@ -0,0 +1,62 @@
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+
+/**
+ * What anyone who can see vendors gets; payout details need vendor.manage
+ */
+export const VENDOR_SUMMARY_COLUMNS = 'id, name, contact_name, contact_email, contact_phone, status, created_at';
+
+export const VENDOR_COLUMNS = `${VENDOR_SUMMARY_COLUMNS}, gstin, payout_account_name, payout_account_number, payout_ifsc, payout_upi_id, updated_at`;
+
+export type VendorSummary = {
+  id: string;
+  name: string;
+  contact_name: string | null;
+  contact_email: string | null;
+  contact_phone: string | null;
+  status: 'active' | 'archived';
+  created_at: string;
+};
+
+/**
+ * Rows that belong to a vendor and would be orphaned if it were deleted
+ */
+const REFERENCES = [
+  { table: 'admin_users', column: 'vendor_id', label: 'members' },
+  { table: 'events', column: 'vendor_id', label: 'events' },
+  { table: 'ads', column: 'vendor_id', label: 'ads' },
+] as const;
+
+export type VendorReference = { label: string; count: number };
+
+export async function findVendorReferences(vendorId: string): Promise<VendorReference[]> {
+  const counts = await Promise.all(
+    REFERENCES.map(async ({ table, column, label }) => {
+      const { count, error } = await supabaseAdmin
+        .from(table)
+        .select('*', { count: 'exact', head: true })
+        .eq(column, vendorId);
+      if (error) {
+        throw new Error(error.message);
+      }
+      return { label, count: count ?? 0 };
+    })
+  );
+  return counts.filter((reference) => reference.count > 0);
+}
+
+/**
+ * Whether users, events and ads may be assigned to the vendor. Archived
+ * vendors keep what they already own but take on nothing new.
+ */
+export async function isAssignableVendor(vendorId: string): Promise<boolean> {
+  const { data, error } = await supabaseAdmin
+    .from('vendors')
+    .select('id')
+    .eq('id', vendorId)
+    .eq('status', 'active')
+    .maybeSingle();
+  if (error) {
+    throw new Error(error.message);
+  }
+  return Boolean(data);
+}
@@ -0,0 +1,60 @@
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+
+export const VENUE_COLUMNS =
+  'id, name, address_line, city, latitude, longitude, capacity, timezone, entry_gates, photo_urls, status, created_at, updated_at';
+
+/**
+ * A gate new events at the venue start with
+ */
+export type VenueGate = {
+  name: string;
+  code?: string;
+  is_active?: boolean;
+};
+
+export type Venue = {
+  id: string;
+  name: string;
+  address_line: string | null;
+  city: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  capacity: number | null;
+  timezone: string;
+  entry_gates: VenueGate[];
+  photo_urls: string[];
+  status: 'active' | 'archived';
+  created_at: string;
+  updated_at: string;
+};
+
+export async function findVenue(id: string): Promise<Venue | null> {
+  const { data, error } = await supabaseAdmin.from('venues').select(VENUE_COLUMNS).eq('id', id).maybeSingle();
+  if (error) {
+    throw new Error(error.message);
+  }
+  return data as Venue | null;
+}
+
+/**
+ * Whether events may be linked to the venue. Archived venues stay on the
+ * events that already have them but take on no new ones.
+ */
+export async function isLinkableVenue(venueId: string): Promise<boolean> {
+  const venue = await findVenue(venueId);
+  return venue?.status === 'active';
+}
+
+/**
+ * How many events, series templates included, are linked to the venue
+ */
+export async function countVenueEvents(venueId: string): Promise<number> {
+  const { count, error } = await supabaseAdmin
+    .from('events')
+    .select('*', { count: 'exact', head: true })
+    .eq('venue_id', venueId);
+  if (error) {
+    throw new Error(error.message);
+  }
+  return count ?? 0;
+}
@@ -0,0 +1,19 @@
+-- Server-side admin sessions. Every admin JWT carries a `sid` claim that must
+-- reference a row here which is neither revoked nor expired.
+create table if not exists public.admin_sessions (
+  id uuid primary key default gen_random_uuid(),
+  admin_user_id uuid not null references public.admin_users(id) on delete cascade,
+  ip text,
+  user_agent text,
+  created_at timestamptz not null default now(),
+  last_seen_at timestamptz not null default now(),
+  expires_at timestamptz not null,
+  revoked_at timestamptz,
+  revoked_reason text
+);
+
+create index if not exists admin_sessions_admin_user_id_idx
+  on public.admin_sessions (admin_user_id)
+  where revoked_at is null;
+
+alter table public.admin_sessions enable row level security;
@@ -0,0 +1,19 @@
+-- Optional TOTP second factor for admin logins.
+alter table public.admin_users
+  add column if not exists totp_secret text,
+  add column if not exists totp_pending_secret text,
+  add column if not exists totp_enabled_at timestamptz,
+  add column if not exists totp_recovery_codes text[] not null default '{}';
+
+-- Per-role login policy. `require_totp` forces enrollment at the next sign-in.
+create table if not exists public.admin_role_policies (
+  role text primary key check (role in ('admin', 'moderator', 'vendor', 'vendor_moderator')),
+  require_totp boolean not null default false,
+  updated_at timestamptz not null default now()
+);
+
+insert into public.admin_role_policies (role)
+values ('admin'), ('moderator'), ('vendor'), ('vendor_moderator')
+on conflict (role) do nothing;
+
+alter table public.admin_role_policies enable row level security;
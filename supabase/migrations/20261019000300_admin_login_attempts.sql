@@ -0,0 +1,22 @@
+-- Every admin sign-in attempt, successful or not. Drives throttling/lockout
+-- and the sign-in history shown on the admin users page.
+create table if not exists public.admin_login_attempts (
+  id uuid primary key default gen_random_uuid(),
+  email text not null,
+  admin_user_id uuid references public.admin_users(id) on delete set null,
+  ip text,
+  user_agent text,
+  outcome text not null check (
+    outcome in ('success', 'invalid_password', 'unknown_email', 'invalid_totp', 'throttled', 'locked_out')
+  ),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists admin_login_attempts_email_created_idx
+  on public.admin_login_attempts (email, created_at desc);
+create index if not exists admin_login_attempts_ip_created_idx
+  on public.admin_login_attempts (ip, created_at desc);
+create index if not exists admin_login_attempts_admin_user_created_idx
+  on public.admin_login_attempts (admin_user_id, created_at desc);
+
+alter table public.admin_login_attempts enable row level security;
@@ -0,0 +1,22 @@
+-- One-time password reset tokens. Only a SHA-256 of the token is stored;
+-- the raw value exists solely in the emailed link.
+create table if not exists public.admin_password_reset_tokens (
+  id uuid primary key default gen_random_uuid(),
+  admin_user_id uuid not null references public.admin_users(id) on delete cascade,
+  token_hash text not null unique,
+  requested_ip text,
+  created_at timestamptz not null default now(),
+  expires_at timestamptz not null,
+  used_at timestamptz
+);
+
+create index if not exists admin_password_reset_tokens_admin_user_idx
+  on public.admin_password_reset_tokens (admin_user_id, created_at desc);
+
+alter table public.admin_password_reset_tokens enable row level security;
+
+-- A completed reset clears the account's failed-login streak.
+alter table public.admin_login_attempts drop constraint if exists admin_login_attempts_outcome_check;
+alter table public.admin_login_attempts add constraint admin_login_attempts_outcome_check check (
+  outcome in ('success', 'invalid_password', 'unknown_email', 'invalid_totp', 'throttled', 'locked_out', 'password_reset')
+);
@@ -0,0 +1,24 @@
+-- Long-lived API keys for kiosks, scanning apps and scripts. Each key acts as
+-- an admin user, narrowed to an explicit capability list and optionally to a
+-- single event. Only a sha256 of the key is stored.
+create table if not exists public.admin_api_keys (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  key_prefix text not null,
+  key_hash text not null unique,
+  admin_user_id uuid not null references public.admin_users(id) on delete cascade,
+  capabilities text[] not null default '{}',
+  event_id uuid references public.events(id) on delete cascade,
+  created_by uuid references public.admin_users(id) on delete set null,
+  created_at timestamptz not null default now(),
+  expires_at timestamptz not null,
+  last_used_at timestamptz,
+  last_used_ip text,
+  revoked_at timestamptz,
+  revoked_by uuid references public.admin_users(id) on delete set null
+);
+
+create index if not exists admin_api_keys_admin_user_id_idx
+  on public.admin_api_keys (admin_user_id);
+
+alter table public.admin_api_keys enable row level security;
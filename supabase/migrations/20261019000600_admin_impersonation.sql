@@ -0,0 +1,35 @@
+-- "View as" support sessions. While a row is active for an admin session,
+-- requests on that session run as the target user. Every API request made
+-- during it is recorded with both identities.
+create table if not exists public.admin_impersonations (
+  id uuid primary key default gen_random_uuid(),
+  session_id uuid not null references public.admin_sessions(id) on delete cascade,
+  actor_admin_id uuid not null references public.admin_users(id) on delete cascade,
+  target_admin_id uuid not null references public.admin_users(id) on delete cascade,
+  reason text,
+  allow_mutations boolean not null default false,
+  started_at timestamptz not null default now(),
+  expires_at timestamptz not null,
+  ended_at timestamptz
+);
+
+create index if not exists admin_impersonations_session_id_idx
+  on public.admin_impersonations (session_id)
+  where ended_at is null;
+
+create table if not exists public.admin_impersonation_events (
+  id bigserial primary key,
+  impersonation_id uuid not null references public.admin_impersonations(id) on delete cascade,
+  actor_admin_id uuid not null references public.admin_users(id) on delete cascade,
+  target_admin_id uuid not null references public.admin_users(id) on delete cascade,
+  method text not null,
+  path text not null,
+  blocked boolean not null default false,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists admin_impersonation_events_impersonation_id_idx
+  on public.admin_impersonation_events (impersonation_id, created_at desc);
+
+alter table public.admin_impersonations enable row level security;
+alter table public.admin_impersonation_events enable row level security;
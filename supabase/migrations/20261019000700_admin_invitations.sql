@@ -0,0 +1,28 @@
+-- Invite-based onboarding. An invited admin exists as a pending user without
+-- a password until they accept the emailed link and choose one.
+alter table public.admin_users add column if not exists status text not null default 'active';
+alter table public.admin_users drop constraint if exists admin_users_status_check;
+alter table public.admin_users add constraint admin_users_status_check check (status in ('pending', 'active'));
+alter table public.admin_users alter column password_hash drop not null;
+
+create table if not exists public.admin_invitations (
+  id uuid primary key default gen_random_uuid(),
+  admin_user_id uuid not null references public.admin_users(id) on delete cascade,
+  token_hash text not null unique,
+  invited_by uuid references public.admin_users(id) on delete set null,
+  created_at timestamptz not null default now(),
+  expires_at timestamptz not null,
+  accepted_at timestamptz,
+  revoked_at timestamptz
+);
+
+create index if not exists admin_invitations_admin_user_id_idx
+  on public.admin_invitations (admin_user_id, created_at desc);
+
+alter table public.admin_invitations enable row level security;
+
+-- Sign-in attempts against accounts that cannot sign in (e.g. pending invites).
+alter table public.admin_login_attempts drop constraint if exists admin_login_attempts_outcome_check;
+alter table public.admin_login_attempts add constraint admin_login_attempts_outcome_check check (
+  outcome in ('success', 'invalid_password', 'unknown_email', 'invalid_totp', 'throttled', 'locked_out', 'password_reset', 'inactive_account')
+);
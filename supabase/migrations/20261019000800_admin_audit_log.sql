@@ -0,0 +1,39 @@
+-- Append-only record of every change made through the admin API. Actors are
+-- stored by id and email snapshot without foreign keys so entries survive the
+-- deletion of the admin or entity they describe.
+create table if not exists public.admin_audit_log (
+  id bigserial primary key,
+  created_at timestamptz not null default now(),
+  actor_admin_id uuid,
+  actor_email text,
+  impersonator_admin_id uuid,
+  api_key_id uuid,
+  action text not null,
+  entity_type text not null,
+  entity_id text,
+  before jsonb,
+  after jsonb,
+  changes jsonb,
+  ip text,
+  user_agent text
+);
+
+create index if not exists admin_audit_log_created_at_idx on public.admin_audit_log (created_at desc);
+create index if not exists admin_audit_log_actor_idx on public.admin_audit_log (actor_admin_id, created_at desc);
+create index if not exists admin_audit_log_entity_idx on public.admin_audit_log (entity_type, entity_id, created_at desc);
+
+create or replace function public.admin_audit_log_append_only()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'admin_audit_log is append-only';
+end;
+$$;
+
+drop trigger if exists admin_audit_log_append_only on public.admin_audit_log;
+create trigger admin_audit_log_append_only
+  before update or delete on public.admin_audit_log
+  for each row execute function public.admin_audit_log_append_only();
+
+alter table public.admin_audit_log enable row level security;
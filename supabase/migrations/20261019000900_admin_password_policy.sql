@@ -0,0 +1,4 @@
+-- Forced password changes. Set by an admin, or at sign-in when the current
+-- password no longer meets the password policy; cleared once a new one is chosen.
+alter table public.admin_users add column if not exists must_change_password boolean not null default false;
+alter table public.admin_users add column if not exists password_changed_at timestamptz;
@@ -0,0 +1,4 @@
+-- Accounts can be switched off without deleting them (admin CLI `disable`).
+-- Sign-in already refuses any status other than 'active'.
+alter table public.admin_users drop constraint if exists admin_users_status_check;
+alter table public.admin_users add constraint admin_users_status_check check (status in ('pending', 'active', 'suspended'));
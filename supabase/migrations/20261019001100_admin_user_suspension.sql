@@ -0,0 +1,5 @@
+-- Suspension keeps an account (and everything attributed to it) while
+-- blocking sign-in and API access. The 'suspended' status already exists.
+alter table public.admin_users add column if not exists suspended_at timestamptz;
+alter table public.admin_users add column if not exists suspended_reason text;
+alter table public.admin_users add column if not exists suspended_by uuid references public.admin_users(id) on delete set null;
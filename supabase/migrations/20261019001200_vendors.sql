@@ -0,0 +1,68 @@
+-- Vendors become organizations in their own right instead of being the
+-- admin_users row of whoever signed up. Events, ads and vendor-role users all
+-- point at vendors(id) through their vendor_id column.
+create table if not exists public.vendors (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  contact_name text,
+  contact_email text,
+  contact_phone text,
+  gstin text,
+  payout_account_name text,
+  payout_account_number text,
+  payout_ifsc text,
+  payout_upi_id text,
+  status text not null default 'active' check (status in ('active', 'archived')),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create unique index if not exists vendors_name_key on public.vendors (lower(name));
+create unique index if not exists vendors_gstin_key on public.vendors (gstin) where gstin is not null;
+
+-- Each existing vendor user becomes an organization with the same id, so every
+-- vendor_id already stored on events, ads and vendor moderators stays valid.
+insert into public.vendors (id, name, contact_email, created_at)
+select id, email, email, created_at
+from public.admin_users
+where role = 'vendor'
+on conflict (id) do nothing;
+
+-- The former owner is now simply a member of their organization.
+update public.admin_users set vendor_id = id where role = 'vendor' and vendor_id is null;
+
+-- Anything still pointing at a vendor that no longer exists would fail the new
+-- foreign keys; unassign it rather than abort the migration.
+update public.events set vendor_id = null
+where vendor_id is not null and vendor_id not in (select id from public.vendors);
+update public.ads set vendor_id = null
+where vendor_id is not null and vendor_id not in (select id from public.vendors);
+update public.admin_users set vendor_id = null
+where vendor_id is not null and vendor_id not in (select id from public.vendors);
+
+-- Replace whatever foreign keys the vendor_id columns had (they referenced
+-- admin_users) with ones that reference vendors.
+do $$
+declare
+  constraint_row record;
+begin
+  for constraint_row in
+    select c.conrelid::regclass as table_name, c.conname
+    from pg_constraint c
+    join pg_attribute a on a.attrelid = c.conrelid and a.attnum = any (c.conkey)
+    where c.contype = 'f'
+      and a.attname = 'vendor_id'
+      and c.conrelid in ('public.events'::regclass, 'public.ads'::regclass, 'public.admin_users'::regclass)
+  loop
+    execute format('alter table %s drop constraint %I', constraint_row.table_name, constraint_row.conname);
+  end loop;
+end $$;
+
+alter table public.events
+  add constraint events_vendor_id_fkey foreign key (vendor_id) references public.vendors(id) on delete set null;
+alter table public.ads
+  add constraint ads_vendor_id_fkey foreign key (vendor_id) references public.vendors(id) on delete set null;
+alter table public.admin_users
+  add constraint admin_users_vendor_id_fkey foreign key (vendor_id) references public.vendors(id) on delete restrict;
+
+create index if not exists admin_users_vendor_id_idx on public.admin_users (vendor_id) where vendor_id is not null;
@@ -0,0 +1,25 @@
+-- Single sign-on through the staff OIDC provider. An admin is linked to one
+-- provider identity (issuer + subject) the first time they sign in with it;
+-- after that the local password can be switched off for the account.
+alter table public.admin_users add column if not exists sso_issuer text;
+alter table public.admin_users add column if not exists sso_subject text;
+alter table public.admin_users add column if not exists sso_linked_at timestamptz;
+alter table public.admin_users add column if not exists password_login_disabled boolean not null default false;
+
+create unique index if not exists admin_users_sso_identity_key
+  on public.admin_users (sso_issuer, sso_subject)
+  where sso_subject is not null;
+
+alter table public.admin_users drop constraint if exists admin_users_password_login_requires_sso;
+alter table public.admin_users add constraint admin_users_password_login_requires_sso
+  check (not password_login_disabled or sso_subject is not null);
+
+-- password_disabled: a password was tried on an SSO-only account.
+-- sso_rejected: the provider signed someone in that the panel would not accept.
+alter table public.admin_login_attempts drop constraint if exists admin_login_attempts_outcome_check;
+alter table public.admin_login_attempts add constraint admin_login_attempts_outcome_check check (
+  outcome in (
+    'success', 'invalid_password', 'unknown_email', 'invalid_totp', 'throttled', 'locked_out',
+    'password_reset', 'inactive_account', 'password_disabled', 'sso_rejected'
+  )
+);
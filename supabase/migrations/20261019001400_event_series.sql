@@ -0,0 +1,27 @@
+-- Recurring events. A series keeps a hidden template event (with its tiers,
+-- images and gates) that every occurrence is copied from; occurrences are
+-- ordinary events that remember which series and calendar date they are.
+alter table public.events
+  add column if not exists is_series_template boolean not null default false;
+
+create table if not exists public.event_series (
+  id uuid primary key default gen_random_uuid(),
+  vendor_id uuid references public.vendors(id) on delete set null,
+  template_event_id uuid not null unique references public.events(id) on delete restrict,
+  recurrence jsonb not null,
+  -- IANA zone the rule's dates and the template's start time are read in
+  timezone text not null,
+  -- Date of the event the series was started from
+  starts_on date not null,
+  created_by uuid references public.admin_users(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.events
+  add column if not exists series_id uuid references public.event_series(id) on delete set null,
+  add column if not exists series_occurrence_date date;
+
+create unique index if not exists events_series_occurrence_key
+  on public.events (series_id, series_occurrence_date)
+  where series_id is not null;
@@ -0,0 +1,15 @@
+-- Scheduled status changes, applied by the cron endpoint. A draft is published
+-- once publish_at passes; an event is archived once archive_at passes, or, when
+-- no archive time is set, once a published event's end_at has passed.
+alter table public.events
+  add column if not exists publish_at timestamptz,
+  add column if not exists archive_at timestamptz;
+
+alter table public.events drop constraint if exists events_schedule_order_check;
+alter table public.events add constraint events_schedule_order_check
+  check (publish_at is null or archive_at is null or archive_at > publish_at);
+
+create index if not exists events_publish_at_idx on public.events (publish_at)
+  where publish_at is not null and status = 'draft';
+create index if not exists events_archive_at_idx on public.events (coalesce(archive_at, end_at))
+  where status <> 'archived';
@@ -0,0 +1,21 @@
+-- Snapshots of an event after each save, with its tiers, images and entry
+-- gates, so an edit can be compared with earlier ones and rolled back. The
+-- actor is kept by id and email without a foreign key, as in the audit log.
+create table if not exists public.event_revisions (
+  id uuid primary key default gen_random_uuid(),
+  event_id uuid not null references public.events(id) on delete cascade,
+  revision_number integer not null,
+  -- The audit action that produced the snapshot, or 'event.baseline' for the
+  -- state an event was in before its first recorded save
+  action text not null,
+  snapshot jsonb not null,
+  restored_from_revision_id uuid references public.event_revisions(id) on delete set null,
+  actor_admin_id uuid,
+  actor_email text,
+  created_at timestamptz not null default now(),
+  unique (event_id, revision_number)
+);
+
+create index if not exists event_revisions_event_idx on public.event_revisions (event_id, revision_number desc);
+
+alter table public.event_revisions enable row level security;
@@ -0,0 +1,29 @@
+-- Review workflow for events vendors cannot publish themselves. A vendor
+-- submits a draft, which waits in the review queue until a reviewer approves
+-- (publishes) it or asks for changes. The event's discussion, including each
+-- submission and decision, is kept in event_review_comments; authors are kept
+-- by id and email without a foreign key, as in the audit log.
+alter table public.events
+  add column if not exists review_status text
+    check (review_status in ('pending', 'changes_requested', 'approved')),
+  add column if not exists review_submitted_at timestamptz;
+
+create index if not exists events_review_queue_idx on public.events (review_submitted_at)
+  where review_status = 'pending';
+
+create table if not exists public.event_review_comments (
+  id uuid primary key default gen_random_uuid(),
+  event_id uuid not null references public.events(id) on delete cascade,
+  kind text not null default 'comment'
+    check (kind in ('comment', 'submitted', 'approved', 'changes_requested')),
+  body text,
+  author_admin_id uuid,
+  author_email text,
+  -- Whether the author reviewed on the platform's side or wrote for the vendor
+  author_is_reviewer boolean not null default false,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists event_review_comments_event_idx on public.event_review_comments (event_id, created_at);
+
+alter table public.event_review_comments enable row level security;
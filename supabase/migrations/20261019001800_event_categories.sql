@@ -0,0 +1,36 @@
+-- Event categories move out of the code into a table admins manage. A
+-- category may have sub-categories one level deep; events store the slugs,
+-- so renaming a category never touches its events.
+create table if not exists public.event_categories (
+  id uuid primary key default gen_random_uuid(),
+  slug text not null unique check (slug ~ '^[a-z0-9]+(-[a-z0-9]+)*$'),
+  name text not null,
+  icon text,
+  parent_id uuid references public.event_categories(id) on delete restrict,
+  sort_order integer not null default 0,
+  is_active boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists event_categories_parent_id_idx on public.event_categories (parent_id) where parent_id is not null;
+
+-- The categories that used to be hard-coded.
+insert into public.event_categories (slug, name, sort_order) values
+  ('music', 'Music', 0),
+  ('tech', 'Tech', 1),
+  ('comedy', 'Comedy', 2),
+  ('art', 'Art', 3),
+  ('sports', 'Sports', 4)
+on conflict (slug) do nothing;
+
+alter table public.events
+  add column if not exists subcategory text,
+  add column if not exists tags text[] not null default '{}';
+
+-- Events stored the display name; point them at the slug instead.
+update public.events set category = lower(category)
+where category in ('Music', 'Tech', 'Comedy', 'Art', 'Sports');
+
+create index if not exists events_category_idx on public.events (category) where category is not null;
+create index if not exists events_tags_idx on public.events using gin (tags);
@@ -0,0 +1,9 @@
+-- Each event and ad records the IANA zone its times are entered and shown in.
+-- The instants themselves stay in timestamptz columns; the zone only decides
+-- which wall-clock time they read as. Existing rows default to Asia/Kolkata,
+-- the same as DEFAULT_TIME_ZONE in src/lib/timezones.ts.
+alter table public.events
+  add column if not exists timezone text not null default 'Asia/Kolkata';
+
+alter table public.ads
+  add column if not exists timezone text not null default 'Asia/Kolkata';
@@ -0,0 +1,28 @@
+-- Places events are held at, so the location, zone and gate layout are entered
+-- once instead of on every event. Linking an event to a venue copies these
+-- into the event; the event keeps its own copy, so editing a venue later does
+-- not rewrite events that were already held there.
+create table if not exists public.venues (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  address_line text,
+  city text,
+  latitude double precision check (latitude between -90 and 90),
+  longitude double precision check (longitude between -180 and 180),
+  capacity integer check (capacity > 0),
+  timezone text not null default 'Asia/Kolkata',
+  -- Gates new events at the venue start with: [{ "name", "code", "is_active" }]
+  entry_gates jsonb not null default '[]'::jsonb,
+  photo_urls text[] not null default '{}',
+  status text not null default 'active' check (status in ('active', 'archived')),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create unique index if not exists venues_name_city_key on public.venues (lower(name), lower(coalesce(city, '')));
+
+-- Venues with events are archived rather than deleted.
+alter table public.events
+  add column if not exists venue_id uuid references public.venues(id) on delete restrict;
+
+create index if not exists events_venue_id_idx on public.events (venue_id) where venue_id is not null;
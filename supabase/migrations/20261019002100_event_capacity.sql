@@ -0,0 +1,74 @@
+-- A ceiling on how many tickets an event's tiers may offer between them. Null
+-- leaves the event unlimited, as every event was before. The API checks these
+-- rules first so admins get a readable error; the triggers keep them true for
+-- concurrent writes and for anything that bypasses the API.
+alter table public.events
+  add column if not exists capacity integer check (capacity > 0);
+
+create or replace function public.ticket_tiers_enforce_capacity()
+returns trigger
+language plpgsql
+as $$
+declare
+  event_capacity integer;
+  allocated bigint;
+begin
+  -- Only block changes that make overselling worse, so sales already recorded
+  -- against a tier that was oversold before this migration still go through.
+  if new.sold_quantity > new.total_quantity
+     and (tg_op = 'INSERT'
+          or new.sold_quantity > old.sold_quantity
+          or new.total_quantity < old.total_quantity) then
+    raise exception 'tier % would sell % of % tickets', new.id, new.sold_quantity, new.total_quantity
+      using errcode = 'check_violation';
+  end if;
+
+  if tg_op = 'INSERT'
+     or new.event_id is distinct from old.event_id
+     or new.total_quantity > old.total_quantity then
+    -- Lock the event so two tiers growing at once cannot both fit.
+    select capacity into event_capacity from public.events where id = new.event_id for update;
+    if event_capacity is not null then
+      select coalesce(sum(total_quantity), 0) + new.total_quantity into allocated
+        from public.ticket_tiers
+        where event_id = new.event_id and id <> new.id;
+      if allocated > event_capacity then
+        raise exception 'tiers would offer % tickets, over the event capacity of %', allocated, event_capacity
+          using errcode = 'check_violation';
+      end if;
+    end if;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists ticket_tiers_enforce_capacity on public.ticket_tiers;
+create trigger ticket_tiers_enforce_capacity
+  before insert or update of total_quantity, sold_quantity, event_id on public.ticket_tiers
+  for each row execute function public.ticket_tiers_enforce_capacity();
+
+create or replace function public.events_enforce_capacity()
+returns trigger
+language plpgsql
+as $$
+declare
+  allocated bigint;
+begin
+  if new.capacity is not null and new.capacity is distinct from old.capacity then
+    select coalesce(sum(total_quantity), 0) into allocated
+      from public.ticket_tiers
+      where event_id = new.id;
+    if allocated > new.capacity then
+      raise exception 'tiers already offer % tickets, over the event capacity of %', allocated, new.capacity
+        using errcode = 'check_violation';
+    end if;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists events_enforce_capacity on public.events;
+create trigger events_enforce_capacity
+  before update of capacity on public.events
+  for each row execute function public.events_enforce_capacity();
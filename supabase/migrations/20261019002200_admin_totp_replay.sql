@@ -0,0 +1,5 @@
+-- The last TOTP time step an admin signed in with. A code is only accepted for
+-- a later step, so one seen over someone's shoulder cannot be used again
+-- while it is still inside the drift window.
+alter table public.admin_users
+  add column if not exists totp_last_used_step bigint;
@@ -0,0 +1,15 @@
+-- Impersonation records are the log of what was done while viewing as someone,
+-- so they must outlive the admins and sessions involved. Like the audit log,
+-- keep the ids without foreign keys; deleting a user or session (which the
+-- user's deletion cascades to) no longer erases them.
+alter table public.admin_impersonations
+  drop constraint if exists admin_impersonations_session_id_fkey,
+  drop constraint if exists admin_impersonations_actor_admin_id_fkey,
+  drop constraint if exists admin_impersonations_target_admin_id_fkey;
+
+alter table public.admin_impersonation_events
+  drop constraint if exists admin_impersonation_events_actor_admin_id_fkey,
+  drop constraint if exists admin_impersonation_events_target_admin_id_fkey;
+
+create index if not exists admin_impersonations_actor_admin_id_idx on public.admin_impersonations (actor_admin_id);
+create index if not exists admin_impersonations_target_admin_id_idx on public.admin_impersonations (target_admin_id);